@@ -0,0 +1,81 @@
+import { AdsTargetingAnalyzer } from './ads-targeting-analyzer';
+import { analyze, findings } from '../test-utils/analyzers';
+
+const analyzer = new AdsTargetingAnalyzer();
+
+describe('AdsTargetingAnalyzer', () => {
+  it('reports campaigns created without special_ad_categories', async () => {
+    const violations = await analyze(analyzer, {
+      'campaigns.js': [
+        "const { AdAccount } = require('facebook-nodejs-business-sdk');",
+        'async function launch(account) {',
+        '  return account.createCampaign([], {',
+        "    name: 'Spring sale',",
+        "    objective: 'OUTCOME_SALES',",
+        "    status: 'PAUSED',",
+        '  });',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['ADS_SPECIAL_CATEGORY_MISSING:campaigns.js:3']);
+  });
+
+  it('reports housing ads that declare no special category', async () => {
+    const violations = await analyze(analyzer, {
+      'campaigns.js': [
+        "const { AdAccount } = require('facebook-nodejs-business-sdk');",
+        'async function launch(account) {',
+        '  return account.createCampaign([], {',
+        "    name: 'Downtown apartment rental listings',",
+        "    objective: 'OUTCOME_LEADS',",
+        '    special_ad_categories: [],',
+        '  });',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['ADS_SPECIAL_CATEGORY_MISSING:campaigns.js:6']);
+    expect(violations[0].message).toContain('HOUSING');
+  });
+
+  it('reports restricted targeting in ad sets of a special category campaign in another file', async () => {
+    const violations = await analyze(analyzer, {
+      'campaign.js': [
+        "const { AdAccount } = require('facebook-nodejs-business-sdk');",
+        'export async function createJobsCampaign(account) {',
+        "  return account.createCampaign([], { name: 'Hiring', objective: 'OUTCOME_LEADS', special_ad_categories: ['EMPLOYMENT'] });",
+        '}',
+      ].join('\n'),
+      'adsets.js': [
+        "import { createJobsCampaign } from './campaign';",
+        'export async function createAdSet(account) {',
+        '  const campaign = await createJobsCampaign(account);',
+        '  return account.createAdSet([], {',
+        '    campaign_id: campaign.id,',
+        '    targeting: { age_min: 25, age_max: 40, geo_locations: { countries: ["US"] } },',
+        '  });',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['ADS_SPECIAL_CATEGORY_TARGETING:adsets.js:6']);
+    expect(violations[0].message).toContain('age_min, age_max');
+  });
+
+  it('accepts special category ad sets with broad targeting', async () => {
+    const violations = await analyze(analyzer, {
+      'campaigns.js': [
+        'async function launch(account) {',
+        "  const campaign = await account.createCampaign([], { name: 'Rentals', objective: 'OUTCOME_LEADS', special_ad_categories: ['HOUSING'] });",
+        '  await account.createAdSet([], {',
+        '    campaign_id: campaign.id,',
+        '    targeting: { age_min: 18, age_max: 65, geo_locations: { countries: ["US"] } },',
+        '  });',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(violations).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Ads Targeting Analyzer
+ *
+ * Reads the Marketing API objects a codebase creates - campaigns with
+ * their `special_ad_categories` and ad sets with their `targeting` spec -
+ * from Business SDK calls (`createCampaign`, `create_ad_set`,
+ * `Campaign.Field.special_ad_categories`) and raw JSON payloads. Campaigns
+ * must declare their special ad categories, and ads in the housing,
+ * employment, credit and social issue categories may not target by age,
+ * gender, ZIP code or detailed demographics. Categories declared in a
+ * file, its imports or its importers apply to the ad sets built there.
+ */
+
+import { loadPlatformConfig } from '../knowledge';
+import { CodebaseFile } from '../scanner/codebase-indexer';
+import { lexSource } from '../scanner/lexer';
+import { Violation } from '../types';
+import { AnalyzerContext, createFinding, ProjectAnalyzer } from './analyzer';
+import { CodeBlock, enclosingBlocks, escapeRegExp, findBlocks, keyPattern, languageOf, position, stripComments, valueAt } from './code-blocks';
+
+const ADS_CONTEXT = /\bad_?sets?\b|\bAdSet\b|\bcampaigns?\b|\bact_|facebook_business|facebook-nodejs-business-sdk|FacebookAds\\/i;
+const CAMPAIGN_CREATE = /\b(?:createCampaign|create_campaign)\s*\(|['"`/]\/?campaigns['"`?]/g;
+/** Creation payloads always name an objective; reads of /campaigns do not */
+const OBJECTIVE = /\bobjective\b/;
+const CONTROL_HEADER = /^(?:\}?\s*)?(?:if|else|for|foreach|while|do|switch|try|catch|finally|with|elif|except)\b/;
+
+/** Minimum radius around a location for special ad categories, in miles */
+const MIN_RADIUS_MILES = 15;
+
+interface AdsPolicy {
+  /** Category keywords, by category */
+  keywords: Map<string, string[]>;
+  /** Categories whose ads have restricted targeting */
+  restricted: Set<string>;
+  /** Restricted targeting fields */
+  fields: string[];
+}
+
+interface CategoryDeclaration {
+  file: CodebaseFile;
+  offset: number;
+  categories: string[];
+  /** Set from a variable the analyzer cannot follow */
+  dynamic: boolean;
+}
+
+export class AdsTargetingAnalyzer implements ProjectAnalyzer {
+  readonly name = 'ads-targeting';
+
+  analyze({ index, rules }: AnalyzerContext): Violation[] {
+    const policy = adsPolicy();
+    if (!policy) return [];
+
+    const violations: Violation[] = [];
+    const report = (ruleCode: string, file: CodebaseFile, offset: number, message: string) => {
+      const rule = rules.get(ruleCode);
+      if (!rule) return;
+      const { line, column } = position(file.content, offset);
+      violations.push(createFinding(rule, {
+        file: file.path,
+        line,
+        column,
+        codeSnippet: (file.content.split('\n')[line - 1] || '').trim(),
+      }, message));
+    };
+
+    const files = index.getFiles().filter(file => languageOf(file.path) && ADS_CONTEXT.test(file.content));
+    const code = new Map(files.map(file => [file.path, stripComments(file)]));
+    const declarations = new Map(files.map(file => [file.path, this.findDeclarations(file, code.get(file.path)!, policy)]));
+
+    for (const file of files) {
+      const fileCode = code.get(file.path)!;
+      this.checkCampaigns(file, fileCode, declarations.get(file.path)!, policy, report);
+
+      const related = [file.path, ...index.findDependencies(file.path), ...index.findDependents(file.path)];
+      const restricted = related
+        .flatMap(path => declarations.get(path) || [])
+        .filter(d => d.categories.some(category => policy.restricted.has(category)));
+      if (restricted.length > 0) this.checkTargeting(file, fileCode, restricted, policy, report);
+    }
+
+    return violations;
+  }
+
+  /**
+   * `special_ad_categories` values of a file
+   */
+  private findDeclarations(file: CodebaseFile, code: string, policy: AdsPolicy): CategoryDeclaration[] {
+    const declarations: CategoryDeclaration[] = [];
+    const names = [...policy.keywords.keys()];
+
+    for (const match of code.matchAll(keyPattern('special_ad_categories'))) {
+      const value = valueAt(code, match.index! + match[0].length);
+      const categories = names.filter(name => new RegExp(`\\b${name}\\b`, 'i').test(value.text));
+      declarations.push({ file, offset: match.index!, categories, dynamic: value.dynamic });
+    }
+    return declarations;
+  }
+
+  /**
+   * Campaigns created without `special_ad_categories`, or declaring none
+   * while advertising housing, jobs, credit or politics
+   */
+  private checkCampaigns(
+    file: CodebaseFile,
+    code: string,
+    declarations: CategoryDeclaration[],
+    policy: AdsPolicy,
+    report: (ruleCode: string, file: CodebaseFile, offset: number, message: string) => void
+  ): void {
+    const blocks = findBlocks(code, languageOf(file.path)!);
+    const reported = new Set<number>();
+
+    for (const match of code.matchAll(CAMPAIGN_CREATE)) {
+      const scope = handlerScope(code, blocks, match.index!);
+      if (!OBJECTIVE.test(code.slice(scope.start, scope.end)) || reported.has(scope.start)) continue;
+      reported.add(scope.start);
+      if (declarations.some(d => d.offset >= scope.start && d.offset < scope.end)) continue;
+
+      report('ADS_SPECIAL_CATEGORY_MISSING', file, match.index!,
+        'Campaign is created without special_ad_categories; the Marketing API requires it ([] when no special category applies)');
+    }
+
+    const strings = stringText(file);
+    for (const declaration of declarations) {
+      if (declaration.dynamic || declaration.categories.length > 0) continue;
+
+      const scope = handlerScope(code, blocks, declaration.offset);
+      const copy = strings.slice(scope.start, scope.end);
+      const hints = [...policy.keywords].flatMap(([category, words]) => {
+        const found = words.filter(word => new RegExp(`\\b${escapeRegExp(word)}\\b`, 'i').test(copy));
+        return found.length > 0 ? [`${category} (${found.slice(0, 3).map(w => `"${w}"`).join(', ')})`] : [];
+      });
+      if (hints.length === 0) continue;
+      report('ADS_SPECIAL_CATEGORY_MISSING', file, declaration.offset,
+        `Campaign declares no special ad category, but its ads mention ${hints.join(' and ')}`);
+    }
+  }
+
+  /**
+   * Restricted fields in the targeting specs of a file whose campaigns
+   * declare a special ad category
+   */
+  private checkTargeting(
+    file: CodebaseFile,
+    code: string,
+    declarations: CategoryDeclaration[],
+    policy: AdsPolicy,
+    report: (ruleCode: string, file: CodebaseFile, offset: number, message: string) => void
+  ): void {
+    const categories = [...new Set(declarations.flatMap(d => d.categories))].filter(c => policy.restricted.has(c));
+    const first = declarations[0];
+    const where = `${first.file.path}:${position(first.file.content, first.offset).line}`;
+    const seen = new Set<string>();
+
+    for (const match of code.matchAll(keyPattern('targeting'))) {
+      const value = valueAt(code, match.index! + match[0].length);
+      if (value.dynamic || seen.has(value.text)) continue;
+      seen.add(value.text);
+
+      const fields = restrictedFields(value.text, policy);
+      if (fields.length === 0) continue;
+      report('ADS_SPECIAL_CATEGORY_TARGETING', file, match.index!,
+        `Targeting uses ${fields.join(', ')}, which ${categories.join('/')} ads (declared at ${where}) may not target by`);
+    }
+  }
+}
+
+/**
+ * Special ad categories and restricted targeting from the ads knowledge file
+ */
+function adsPolicy(): AdsPolicy | null {
+  const config = loadPlatformConfig('ads');
+  const keywords = config?.specialAdCategories as Record<string, string[]> | undefined;
+  const fields = config?.restrictedTargeting as Record<string, string[]> | undefined;
+  if (!keywords || !fields) return null;
+
+  return {
+    keywords: new Map(Object.entries(keywords)),
+    restricted: new Set(Array.isArray(config!.restrictedCategories) ? config!.restrictedCategories as string[] : Object.keys(keywords)),
+    fields: Object.values(fields).flat(),
+  };
+}
+
+/**
+ * Restricted fields set in a targeting spec: narrowed ages, genders, ZIP
+ * codes, small radiuses and detailed targeting
+ */
+function restrictedFields(spec: string, policy: AdsPolicy): string[] {
+  const fields: string[] = [];
+  for (const field of policy.fields) {
+    const match = new RegExp(`\\b${field}\\b['"\\]]?\\s*(?::|=>|=(?!=))\\s*(\\S*)`).exec(spec);
+    if (!match) continue;
+
+    const value = parseInt(match[1], 10);
+    if (field === 'age_min' && value === 18) continue;
+    if (field === 'age_max' && value === 65) continue;
+    if (field === 'custom_locations') {
+      const radiuses = [...spec.matchAll(/\bradius\b['"\]]?\s*(?::|=>|=)\s*(\d+(?:\.\d+)?)/g)].map(m => parseFloat(m[1]));
+      const km = /\bdistance_unit\b['"\]]?\s*(?::|=>|=)\s*['"]kilometer/.test(spec);
+      if (!radiuses.some(radius => (km ? radius / 1.609 : radius) < MIN_RADIUS_MILES)) continue;
+    }
+    fields.push(field);
+  }
+  return fields;
+}
+
+/**
+ * The innermost function-like block around `offset`, or the file. Object
+ * literals (`key: {`, `x = {`) are not scopes.
+ */
+function handlerScope(code: string, blocks: CodeBlock[], offset: number): { start: number; end: number } {
+  const block = enclosingBlocks(blocks, offset).find(b => !CONTROL_HEADER.test(b.header) && !/(?:=|[\w'"\]]\s*:)\s*$|^[[{(,]?$/.test(b.header));
+  return block ? { start: block.start, end: block.end } : { start: 0, end: code.length };
+}
+
+/**
+ * Contents of a file's string literals, where ad copy and names live
+ */
+function stringText(file: CodebaseFile): string {
+  const contexts = lexSource(file.content, file.path);
+  if (!contexts) return file.content;
+
+  let text = '';
+  for (let i = 0; i < file.content.length; i++) {
+    text += contexts.at(i) === 'string' ? file.content[i] : ' ';
+  }
+  return text;
+}
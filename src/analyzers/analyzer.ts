@@ -0,0 +1,52 @@
+/**
+ * Project Analyzers
+ *
+ * Checks that need the whole codebase rather than one file at a time,
+ * e.g. following data across modules. Each analyzer reports the rules
+ * whose detection names it (`{ type: 'analyzer', analyzer: '<name>' }`),
+ * so they can be disabled and re-ranked like any other rule.
+ */
+
+import { CodebaseIndexer } from '../scanner/codebase-indexer';
+import { Violation, ViolationRule } from '../types';
+
+export interface AnalyzerContext {
+  index: CodebaseIndexer;
+  /** Enabled rules of the analyzer, by rule code */
+  rules: Map<string, ViolationRule>;
+}
+
+export interface ProjectAnalyzer {
+  readonly name: string;
+  analyze(context: AnalyzerContext): Violation[] | Promise<Violation[]>;
+}
+
+export interface FindingLocation {
+  file: string;
+  line: number;       // 1-based
+  column: number;     // 0-based
+  endLine?: number;
+  endColumn?: number;
+  codeSnippet: string;
+}
+
+/**
+ * Build a violation of an analyzer rule
+ */
+export function createFinding(
+  rule: ViolationRule,
+  location: FindingLocation,
+  message: string
+): Violation {
+  return {
+    ruleCode: rule.rule_code,
+    ruleName: rule.name,
+    severity: rule.severity,
+    platform: rule.platform,
+    ...location,
+    message,
+    recommendation: rule.recommendation,
+    fixExample: rule.fix_example,
+    docUrls: rule.doc_urls,
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * Code Blocks
+ *
+ * Text-level helpers for analyzers that cover languages without a syntax
+ * tree here (Python, PHP) as well as JS/TS: blanking comments, finding
+ * where a statement or block ends, which blocks enclose a position and
+ * which literal a key is set to.
+ * Brace languages are balanced by brackets, Python by indentation.
+ */
+
+import { extname } from 'path';
+import { CodebaseFile, CodebaseIndexer } from '../scanner/codebase-indexer';
+import { lexSource } from '../scanner/lexer';
+
+export type Language = 'javascript' | 'python' | 'php';
+
+const LANGUAGES: Record<string, Language> = {
+  '.js': 'javascript', '.jsx': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript',
+  '.ts': 'javascript', '.tsx': 'javascript',
+  '.py': 'python',
+  '.php': 'php',
+};
+
+export interface CodeBlock {
+  /** Offset of the opening brace (or of the header line in Python) */
+  start: number;
+  /** Offset just past the block */
+  end: number;
+  /** Code introducing the block: `for (const x of xs)`, `def fetch(url):` */
+  header: string;
+}
+
+export function languageOf(filePath: string): Language | undefined {
+  return LANGUAGES[extname(filePath).toLowerCase()];
+}
+
+/**
+ * File content with comments blanked out (offsets and lines unchanged)
+ */
+export function stripComments(file: CodebaseFile): string {
+  const contexts = lexSource(file.content, file.path);
+  if (!contexts) return file.content;
+
+  let code = '';
+  for (let i = 0; i < file.content.length; i++) {
+    const ch = file.content[i];
+    code += ch !== '\n' && contexts.at(i) === 'comment' ? ' ' : ch;
+  }
+  return code;
+}
+
+/**
+ * Comment-free code of indexed files by path ('' outside the index),
+ * stripped on each call rather than kept for the whole codebase
+ */
+export function indexedCode(index: CodebaseIndexer): (path: string) => string {
+  return path => {
+    const file = index.getFile(path);
+    return file ? stripComments(file) : '';
+  };
+}
+
+/**
+ * End of the statement or declaration starting at `from`: its brackets
+ * balanced and, for functions, its body closed. Brackets inside strings
+ * may unbalance it; the result is a heuristic.
+ */
+export function blockEnd(code: string, from: number): number {
+  let depth = 0;
+  let braces = false;
+  let quote: string | undefined;
+
+  for (let i = from; i < code.length; i++) {
+    const ch = code[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = undefined;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if (ch === '(' || ch === '[' || ch === '{') {
+      depth++;
+      braces ||= ch === '{';
+    } else if (ch === ')' || ch === ']' || ch === '}') {
+      depth--;
+      // A closed parameter list continues into its body: `(req, res) => {` or `handler(req): void {`
+      if (depth <= 0 && (braces || !/^\s*(=>|\{|:|\.)/.test(code.slice(i + 1, i + 40)))) return i + 1;
+    } else if (ch === ';' && depth === 0) {
+      return i + 1;
+    }
+  }
+  return code.length;
+}
+
+/**
+ * End of a Python block: the lines after `from` that are indented deeper
+ * than the line `from` is on
+ */
+export function indentedBlockEnd(code: string, from: number): number {
+  const lineStart = code.lastIndexOf('\n', from - 1) + 1;
+  const indent = code.slice(lineStart).match(/^[ \t]*/)![0].length;
+
+  let end = code.indexOf('\n', from);
+  while (end >= 0) {
+    const next = code.indexOf('\n', end + 1);
+    const line = code.slice(end + 1, next < 0 ? code.length : next);
+    if (line.trim() && line.match(/^[ \t]*/)![0].length <= indent) return end;
+    if (next < 0) break;
+    end = next;
+  }
+  return code.length;
+}
+
+/**
+ * Offset of the bracket opening the literal or argument list around
+ * `offset`, or -1 at the top level. Brackets inside strings are counted.
+ */
+export function openingBracket(code: string, offset: number): number {
+  let depth = 0;
+  for (let i = offset - 1; i >= 0; i--) {
+    const ch = code[i];
+    if (ch === ')' || ch === ']' || ch === '}') depth++;
+    else if (ch === '(' || ch === '[' || ch === '{') {
+      if (depth === 0) return i;
+      depth--;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Every block of a file, outermost first
+ */
+export function findBlocks(code: string, language: Language): CodeBlock[] {
+  return language === 'python' ? indentedBlocks(code) : braceBlocks(code);
+}
+
+/**
+ * Blocks containing `offset`, innermost first
+ */
+export function enclosingBlocks(blocks: CodeBlock[], offset: number): CodeBlock[] {
+  return blocks.filter(block => block.start < offset && offset < block.end).reverse();
+}
+
+function braceBlocks(code: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  const open: number[] = [];
+  let quote: string | undefined;
+
+  for (let i = 0; i < code.length; i++) {
+    const ch = code[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote || (ch === '\n' && quote !== '`')) quote = undefined;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if (ch === '{') {
+      open.push(i);
+    } else if (ch === '}' && open.length > 0) {
+      const start = open.pop()!;
+      // Header: code since the previous statement or block boundary
+      let headerStart = start - 1;
+      let depth = 0;
+      while (headerStart >= 0) {
+        const c = code[headerStart];
+        if (c === ')' || c === ']') depth++;
+        else if ((c === '(' || c === '[') && depth > 0) depth--;
+        else if (depth === 0 && (c === ';' || c === '{' || c === '}')) break;
+        headerStart--;
+      }
+      blocks.push({ start, end: i + 1, header: code.slice(headerStart + 1, start).trim() });
+    }
+  }
+
+  return blocks.sort((a, b) => a.start - b.start);
+}
+
+function indentedBlocks(code: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  const header = /^([ \t]*)((?:async\s+)?(?:def|class|for|while|with|if|elif|else|try|except|finally)\b.*:)[ \t]*$/;
+
+  let offset = 0;
+  let decorators: string[] = [];
+  for (const line of code.split('\n')) {
+    const match = line.match(header);
+    if (match) {
+      const start = offset + match[1].length;
+      // Decorators belong to the function they decorate
+      blocks.push({ start, end: indentedBlockEnd(code, start), header: [...decorators, match[2]].join('\n') });
+    }
+    decorators = /^\s*@/.test(line) ? [...decorators, line.trim()] : [];
+    offset += line.length + 1;
+  }
+
+  return blocks;
+}
+
+/** Payloads serialized for raw requests: `targeting: JSON.stringify({ ... })` */
+const SERIALIZE = /^(?:JSON\.stringify|json\.dumps|json_encode)\s*\(\s*/;
+
+/** `name: `, `'name' => `, `name=`, `[AdSet.Fields.name]: `, `AdSet.Field.name: ` */
+export function keyPattern(name: string): RegExp {
+  return new RegExp(`\\b${name}\\b['"\\]]?\\s*(?::|=>|=(?!=))\\s*`, 'g');
+}
+
+/**
+ * The literal assigned at `offset`, following one variable
+ * (`targeting: spec` with `const spec = { ... }` in the same file)
+ */
+export function valueAt(code: string, offset: number): { text: string; dynamic: boolean } {
+  const rest = code.slice(offset);
+  const skip = rest.match(SERIALIZE)?.[0].length || 0;
+  const start = offset + skip;
+  const ch = code[start];
+
+  if (ch === '{' || ch === '[' || ch === '(') {
+    return { text: code.slice(start, blockEnd(code, start)), dynamic: false };
+  }
+  // Form-encoded requests: special_ad_categories: '["HOUSING"]'
+  if (ch === '"' || ch === "'" || ch === '`') {
+    const end = code.indexOf(ch, start + 1);
+    return { text: code.slice(start, end < 0 ? code.length : end + 1), dynamic: false };
+  }
+
+  const name = code.slice(start).match(/^\$?[A-Za-z_][\w]*/)?.[0];
+  if (name) {
+    const assignment = new RegExp(`(?:^|[\\s;])${escapeRegExp(name)}\\s*=\\s*(?=[{[(])`, 'm').exec(code);
+    if (assignment) {
+      const literal = assignment.index + assignment[0].length;
+      return { text: code.slice(literal, blockEnd(code, literal)), dynamic: false };
+    }
+    // Enum values: Campaign.SpecialAdCategories.housing
+    const expression = code.slice(start).match(/^[\w.$]+/)![0];
+    if (expression.includes('.')) return { text: expression, dynamic: false };
+  }
+  return { text: name || '', dynamic: true };
+}
+
+export function position(content: string, offset: number): { line: number; column: number } {
+  const before = content.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: offset - lineStart };
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
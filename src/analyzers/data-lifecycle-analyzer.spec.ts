@@ -0,0 +1,115 @@
+import { DataLifecycleAnalyzer } from './data-lifecycle-analyzer';
+import { analyze, findings } from '../test-utils/analyzers';
+
+const analyzer = new DataLifecycleAnalyzer();
+
+const USER_MODEL = [
+  "const mongoose = require('mongoose');",
+  'const userSchema = new mongoose.Schema({',
+  '  email: String,',
+  '  facebook_user_id: String,',
+  '  page_access_token: String,',
+  '});',
+  "module.exports = mongoose.model('User', userSchema);",
+].join('\n');
+
+describe('DataLifecycleAnalyzer', () => {
+  it('reports missing callbacks and retention for stored Meta user data', async () => {
+    const violations = await analyze(analyzer, { 'models/user.js': USER_MODEL });
+
+    expect(violations.map(v => v.ruleCode).sort()).toEqual([
+      'DATA_DELETION_CALLBACK_MISSING',
+      'DATA_RETENTION_VIOLATION',
+      'DEAUTHORIZE_CALLBACK_MISSING',
+    ]);
+    expect(violations[0]).toMatchObject({ file: 'models/user.js', line: 4 });
+  });
+
+  it('reports deletion callbacks that skip the signature and confirmation code', async () => {
+    const violations = await analyze(analyzer, {
+      'models/user.js': USER_MODEL,
+      'routes/meta.js': [
+        "app.post('/facebook/data-deletion', async (req, res) => {",
+        "  const payload = JSON.parse(Buffer.from(req.body.signed_request.split('.')[1], 'base64').toString());",
+        '  await User.deleteOne({ facebook_user_id: payload.user_id });',
+        '  res.sendStatus(200);',
+        '});',
+        "app.post('/facebook/deauthorize', async (req, res) => {",
+        '  const payload = parse(req.body.signed_request);',
+        '  await User.deleteOne({ facebook_user_id: payload.user_id });',
+        '  res.sendStatus(200);',
+        '});',
+      ].join('\n'),
+      'jobs/cleanup.js': [
+        "cron.schedule('0 3 * * *', async () => {",
+        '  await User.deleteMany({ lastLogin: { $lt: cutoff() } });',
+        '});',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['DATA_DELETION_CALLBACK_INCOMPLETE:routes/meta.js:2']);
+    expect(violations[0].message).toContain('signed_request signature');
+    expect(violations[0].message).toContain('confirmation_code');
+  });
+
+  it('accepts verified callbacks and a scheduled cleanup job', async () => {
+    const violations = await analyze(analyzer, {
+      'models/user.js': USER_MODEL,
+      'routes/meta.js': [
+        "const crypto = require('crypto');",
+        "app.post('/facebook/data-deletion', async (req, res) => {",
+        '  const payload = verify(req.body.signed_request);',
+        '  await User.deleteOne({ facebook_user_id: payload.user_id });',
+        "  res.json({ url: statusUrl(payload.user_id), confirmation_code: payload.user_id });",
+        '});',
+        "app.post('/facebook/deauthorize', async (req, res) => {",
+        '  const payload = verify(req.body.signed_request);',
+        '  await User.deleteOne({ facebook_user_id: payload.user_id });',
+        '  res.sendStatus(200);',
+        '});',
+        'function verify(signedRequest) {',
+        "  const [signature, payload] = signedRequest.split('.');",
+        "  const expected = crypto.createHmac('sha256', process.env.APP_SECRET).update(payload).digest('base64url');",
+        "  if (signature !== expected) throw new Error('Bad signature');",
+        "  return JSON.parse(Buffer.from(payload, 'base64url').toString());",
+        '}',
+      ].join('\n'),
+      'jobs/cleanup.js': [
+        "cron.schedule('0 3 * * *', async () => {",
+        '  await User.deleteMany({ lastLogin: { $lt: cutoff() } });',
+        '});',
+      ].join('\n'),
+    });
+
+    expect(violations).toEqual([]);
+  });
+
+  it('only treats signed_request in code as a callback', async () => {
+    const violations = await analyze(analyzer, {
+      'models/user.js': USER_MODEL,
+      'src/checklist.ts': [
+        'const SIGNED_REQUEST = /signed_request/;',
+        "const hint = 'Add a data deletion callback (signed_request with a confirmation code).';",
+        'const docs = `POST /data-deletion with {"signed_request": "..."}`;',
+      ].join('\n'),
+      'app.py': [
+        "@app.route('/facebook/data-deletion', methods=['POST'])",
+        'def data_deletion():',
+        "    data = parse(request.form['signed_request'])",
+        "    db.users.delete_one({'facebook_user_id': data['user_id']})",
+        "    return jsonify(url=status_url, confirmation_code=data['user_id'])",
+      ].join('\n'),
+    });
+
+    expect(findings(violations).filter(f => f.startsWith('DATA_DELETION'))).toEqual(['DATA_DELETION_CALLBACK_INCOMPLETE:app.py:3']);
+    expect(violations.find(v => v.file === 'app.py')!.message).not.toContain('confirmation_code');
+  });
+
+  it('ignores projects that store no Meta user data', async () => {
+    const violations = await analyze(analyzer, {
+      'models/order.js': "const orderSchema = new mongoose.Schema({ total: Number, customer_email: String });",
+    });
+
+    expect(violations).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Data Lifecycle Analyzer
+ *
+ * Apps that store Meta user data must let users delete it: a data
+ * deletion callback (or instructions page), a deauthorize callback for
+ * users who remove the app, and a retention limit. The database layers
+ * come from the codebase index; when they store Meta user identifiers or
+ * tokens, the analyzer looks project-wide for signed_request callbacks,
+ * TTLs and scheduled cleanup jobs and reports what is missing.
+ */
+
+import { CodebaseFile, CodebaseIndexer } from '../scanner/codebase-indexer';
+import { inCode, lexSource } from '../scanner/lexer';
+import { Violation } from '../types';
+import { AnalyzerContext, createFinding, ProjectAnalyzer } from './analyzer';
+import { CodeBlock, enclosingBlocks, findBlocks, indexedCode, languageOf, position } from './code-blocks';
+
+/** Meta user identifiers and tokens in schemas, models and queries */
+const META_USER_DATA = /\b(?:facebook|fb|instagram|ig|meta|messenger|whatsapp|wa)_?(?:user_?|account_?|page_?)?(?:id|access_?token)\b|\bpage_?access_?token\b|\b(?:psid|igsid|asid)\b/i;
+
+/** Deletion and deauthorize callbacks receive a `signed_request` field */
+const SIGNED_REQUEST = /\bsigned_request\b/g;
+/** Parameters of helpers that parse it are not callbacks */
+const DEFINITION_LINE = /^\s*(?:export\s+)?(?:async\s+)?(?:def|function|func|fn|(?:public|private|protected)?\s*(?:static\s+)?function)\b/;
+const DELETION = /delet|eras|confirmation_?code/i;
+const DEAUTHORIZE = /deauth|uninstall|revok/i;
+const CONFIRMATION_CODE = /confirmation_?code/i;
+/** HMAC verification with the app secret, or an SDK helper that does it */
+const SIGNATURE_CHECK = /createHmac|hmac\.new|hash_hmac|\bhmac\b|parse_signed_request|getSignedRequest|SignedRequest::|verifySignedRequest/i;
+/** Deletion instruction pages and callback routes */
+const DELETION_ROUTE = /['"`/]data[_-]?deletion\b|['"`/]delete[_-]?(?:my[_-]?)?data\b/i;
+const DELETION_PAGE = /(?:^|\/)data[_-]?deletion(?:\/index)?\.\w+$/i;
+
+/** TTL indexes, expiry columns and expiring cache entries */
+const TTL = /expireAfterSeconds|\bexpires\s*:\s*['"\d]|\bttl\b|expires_?at|delete_?after|retention_?(?:days|period)|\bsetex\b|\bEXPIRE(?:AT)?\b|TimeToLive/i;
+/** Scheduled jobs: cron, intervals, periodic tasks, repeatable queue jobs */
+const SCHEDULE = /\bcron\b|node-cron|\bschedule|setInterval|periodic_task|crontab|@Cron|\bagenda\b|repeat\s*:/gi;
+const CLEANUP = /\.(?:delete|destroy|remove|purge)\w*\s*\(|->delete\(|DELETE\s+FROM|deleteMany|bulk_delete|\bpurge|\bprune|cleanup|clean_up/i;
+const CONTROL_HEADER = /^(?:\}?\s*)?(?:if|else|for|foreach|while|do|switch|try|catch|finally|with|elif|except)\b/;
+
+interface StoredData {
+  file: CodebaseFile;
+  offset: number;
+  name: string;
+}
+
+interface Callback {
+  file: CodebaseFile;
+  offset: number;
+  /** Headers of the enclosing blocks (routes, function names) */
+  headers: string;
+  /** Headers and the handler's body */
+  text: string;
+}
+
+export class DataLifecycleAnalyzer implements ProjectAnalyzer {
+  readonly name = 'data-lifecycle';
+
+  analyze({ index, rules }: AnalyzerContext): Violation[] {
+    const code = indexedCode(index);
+    const stored = this.findStoredData(index, code);
+    if (stored.length === 0) return [];
+
+    const callbacks = this.findCallbacks(index, code);
+    // A deauthorize route that deletes the user's data is still a deauthorize callback
+    const namedDeauthorize = (c: Callback) => DEAUTHORIZE.test(c.headers) || DEAUTHORIZE.test(c.file.path);
+    const deletion = callbacks.filter(c => !namedDeauthorize(c) && (DELETION.test(c.text) || DELETION.test(c.file.path)));
+    const deauthorize = callbacks.filter(c => namedDeauthorize(c) || DEAUTHORIZE.test(c.text));
+    const instructions = index.getFiles().some(file => DELETION_PAGE.test(file.path) || DELETION_ROUTE.test(code(file.path)));
+
+    const violations: Violation[] = [];
+    const first = stored[0];
+    const where = `\`${first.name}\` in ${[...new Set(stored.map(s => s.file.path))].join(', ')}`;
+    const report = (ruleCode: string, at: { file: CodebaseFile; offset: number }, message: string) => {
+      const rule = rules.get(ruleCode);
+      if (!rule) return;
+      const { line, column } = position(at.file.content, at.offset);
+      violations.push(createFinding(rule, {
+        file: at.file.path,
+        line,
+        column,
+        codeSnippet: (at.file.content.split('\n')[line - 1] || '').trim(),
+      }, message));
+    };
+
+    if (deletion.length === 0 && !instructions) {
+      report('DATA_DELETION_CALLBACK_MISSING', first,
+        `Meta user data is stored (${where}) but there is no data deletion callback or deletion instructions page`);
+    }
+    if (deauthorize.length === 0) {
+      report('DEAUTHORIZE_CALLBACK_MISSING', first,
+        `Meta user data is stored (${where}) but no deauthorize callback removes it when a user removes the app`);
+    }
+
+    for (const callback of deletion) {
+      const missing: string[] = [];
+      const related = [callback.file.path, ...index.findDependencies(callback.file.path)];
+      if (!related.some(path => SIGNATURE_CHECK.test(code(path)))) {
+        missing.push('does not verify the signed_request signature with the app secret');
+      }
+      if (!CONFIRMATION_CODE.test(callback.text)) {
+        missing.push('does not respond with a status url and confirmation_code');
+      }
+      if (missing.length > 0) {
+        report('DATA_DELETION_CALLBACK_INCOMPLETE', callback, `Data deletion callback ${missing.join(' and ')}`);
+      }
+    }
+
+    // One scheduled cleanup job covers every table; otherwise each storing
+    // file needs its own expiry
+    if (!this.hasCleanupJob(index, code)) {
+      for (const data of stored) {
+        if (TTL.test(code(data.file.path))) continue;
+        report('DATA_RETENTION_VIOLATION', data,
+          `Meta user data (\`${data.name}\`) is stored without a TTL, expiry column or scheduled cleanup job`);
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * The first Meta user identifier or token in each database layer file
+   */
+  private findStoredData(index: CodebaseIndexer, code: (path: string) => string): StoredData[] {
+    const layers = new Set(index.findPatternUsage('database', { maxResults: Infinity }).map(usage => usage.file));
+    const stored: StoredData[] = [];
+
+    for (const path of layers) {
+      const file = index.getFile(path);
+      const match = file && META_USER_DATA.exec(code(path));
+      if (file && match) stored.push({ file, offset: match.index, name: match[0] });
+    }
+    return stored;
+  }
+
+  /**
+   * Handlers reading a signed_request: the innermost enclosing function,
+   * or the whole file for scripts. Mentions in prose, docs templates and
+   * regex literals are not handlers.
+   */
+  private findCallbacks(index: CodebaseIndexer, code: (path: string) => string): Callback[] {
+    const callbacks: Callback[] = [];
+
+    for (const file of index.getFiles()) {
+      const fileCode = code(file.path);
+      const language = languageOf(file.path);
+      if (!language) continue;
+
+      let blocks: CodeBlock[] | undefined;
+      const seen = new Set<number>();
+      const contexts = fileCode.includes('signed_request') ? lexSource(file.content, file.path) : undefined;
+      for (const match of fileCode.matchAll(SIGNED_REQUEST)) {
+        if (!inCode(contexts, file.content, match.index!)) continue;
+        const lineStart = fileCode.lastIndexOf('\n', match.index!) + 1;
+        if (DEFINITION_LINE.test(fileCode.slice(lineStart, match.index!))) continue;
+
+        blocks = blocks || findBlocks(fileCode, language);
+        const enclosing = enclosingBlocks(blocks, match.index!);
+        const handler = enclosing.find(block => !CONTROL_HEADER.test(block.header));
+        const start = handler ? handler.start : 0;
+        if (seen.has(start)) continue;
+        seen.add(start);
+
+        const body = handler ? fileCode.slice(handler.start, handler.end) : fileCode;
+        const headers = enclosing.map(b => b.header).join('\n');
+        callbacks.push({ file, offset: match.index!, headers, text: `${headers}\n${body}` });
+      }
+    }
+    return callbacks;
+  }
+
+  /**
+   * Whether a scheduled job deletes or expires data
+   */
+  private hasCleanupJob(index: CodebaseIndexer, code: (path: string) => string): boolean {
+    for (const file of index.getFiles()) {
+      const fileCode = code(file.path);
+      for (const match of fileCode.matchAll(SCHEDULE)) {
+        const following = fileCode.slice(match.index!).split('\n').slice(0, 30).join('\n');
+        if (CLEANUP.test(following)) return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,60 @@
+import { CodebaseIndexer } from '../scanner/codebase-indexer';
+import { Violation, ViolationRule } from '../types';
+import { ProjectAnalyzer } from './analyzer';
+import { AdsTargetingAnalyzer } from './ads-targeting-analyzer';
+import { DataLifecycleAnalyzer } from './data-lifecycle-analyzer';
+import { InstagramAutomationAnalyzer } from './instagram-automation-analyzer';
+import { MessagingWindowAnalyzer } from './messaging-window-analyzer';
+import { PixelCapiAnalyzer } from './pixel-capi-analyzer';
+import { RateLimitAnalyzer } from './rate-limit-analyzer';
+import { TaintAnalyzer } from './taint-analyzer';
+import { WebhookAnalyzer } from './webhook-analyzer';
+import { WhatsAppAnalyzer } from './whatsapp-analyzer';
+
+export { createFinding, type AnalyzerContext, type FindingLocation, type ProjectAnalyzer } from './analyzer';
+export { AdsTargetingAnalyzer } from './ads-targeting-analyzer';
+export { DataLifecycleAnalyzer } from './data-lifecycle-analyzer';
+export { InstagramAutomationAnalyzer } from './instagram-automation-analyzer';
+export { MessagingWindowAnalyzer } from './messaging-window-analyzer';
+export { PixelCapiAnalyzer } from './pixel-capi-analyzer';
+export { RateLimitAnalyzer } from './rate-limit-analyzer';
+export { TaintAnalyzer } from './taint-analyzer';
+export { WebhookAnalyzer } from './webhook-analyzer';
+export { WhatsAppAnalyzer } from './whatsapp-analyzer';
+
+const ANALYZERS: ProjectAnalyzer[] = [
+  new TaintAnalyzer(),
+  new WebhookAnalyzer(),
+  new RateLimitAnalyzer(),
+  new DataLifecycleAnalyzer(),
+  new MessagingWindowAnalyzer(),
+  new WhatsAppAnalyzer(),
+  new InstagramAutomationAnalyzer(),
+  new AdsTargetingAnalyzer(),
+  new PixelCapiAnalyzer(),
+];
+
+/**
+ * Whether any rule is reported by a project analyzer
+ */
+export function hasAnalyzerRules(rules: ViolationRule[]): boolean {
+  return rules.some(rule => rule.detection.type === 'analyzer');
+}
+
+/**
+ * Run every analyzer that has enabled rules over an indexed codebase
+ */
+export async function runAnalyzers(index: CodebaseIndexer, rules: ViolationRule[]): Promise<Violation[]> {
+  const violations: Violation[] = [];
+
+  for (const analyzer of ANALYZERS) {
+    const analyzerRules = new Map(rules
+      .filter(rule => rule.detection.type === 'analyzer' && rule.detection.analyzer === analyzer.name)
+      .map(rule => [rule.rule_code, rule]));
+    if (analyzerRules.size === 0) continue;
+
+    violations.push(...await analyzer.analyze({ index, rules: analyzerRules }));
+  }
+
+  return violations;
+}
@@ -0,0 +1,79 @@
+import { InstagramAutomationAnalyzer } from './instagram-automation-analyzer';
+import { analyze, findings } from '../test-utils/analyzers';
+
+const analyzer = new InstagramAutomationAnalyzer();
+
+describe('InstagramAutomationAnalyzer', () => {
+  it('reports DMs and likes in audience loops with random delays', async () => {
+    const violations = await analyze(analyzer, {
+      'bot.py': [
+        'from instagrapi import Client',
+        '',
+        'def run(cl: Client, followers):',
+        '    for user in followers:',
+        "        cl.direct_send('Check out our shop!', [user.pk])",
+        '        cl.media_like(user.latest_media_id)',
+        '        time.sleep(random.uniform(20, 60))',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual([
+      'IG_NO_AUTOMATED_DM:bot.py:5',
+      'IG_AUTOMATED_ENGAGEMENT:bot.py:6',
+      'IG_RATE_LIMIT_EVASION:bot.py:7',
+    ]);
+  });
+
+  it('reports headless browsers on instagram.com and spoofed user agents', async () => {
+    const violations = await analyze(analyzer, {
+      'scrape.js': [
+        "const puppeteer = require('puppeteer');",
+        'async function login(page) {',
+        "  await page.setUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)');",
+        "  await page.goto('https://www.instagram.com/accounts/login/');",
+        '}',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['IG_BROWSER_AUTOMATION:scrape.js:1', 'IG_USER_AGENT_SPOOFING:scrape.js:3']);
+  });
+
+  it('reports user agents set in code, not patterns or text mentioning them', async () => {
+    const violations = await analyze(analyzer, {
+      'client.js': [
+        "const SITE = 'https://www.instagram.com';",
+        'const SPOOF = /fake_useragent|randomUserAgent/;',
+        "const help = 'Do not use randomUserAgent() against instagram.com';",
+        "fetch(SITE, { headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0)' } });",
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['IG_USER_AGENT_SPOOFING:client.js:4']);
+  });
+
+  it('accepts replies to incoming messages and jittered retries', async () => {
+    const violations = await analyze(analyzer, {
+      'webhook.js': [
+        'async function onMessage(event) {',
+        '  const igsid = event.sender.id;',
+        "  await sendMessage(igsid, 'Thanks for reaching out!');",
+        '}',
+        'async function withRetry(fn) {',
+        '  for (let attempt = 0; attempt < 3; attempt++) {',
+        '    try { return await fn(); } catch (err) { await sleep(1000 * 2 ** attempt + Math.random() * 100); }',
+        '  }',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(violations).toEqual([]);
+  });
+
+  it('ignores files that do not work with Instagram', async () => {
+    const violations = await analyze(analyzer, {
+      'mailer.js': "for (const user of users) { await sendMessage(user.email, 'Weekly news'); await sleep(Math.random() * 1000); }",
+    });
+
+    expect(violations).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Instagram Automation Analyzer
+ *
+ * Instagram bans accounts, and Meta disables apps, that automate what
+ * people do by hand. In files working with Instagram this analyzer
+ * reports the patterns such bots share, each as its own rule:
+ * DMs and comment replies sent in loops over follower or audience lists,
+ * follow/like/comment loops, randomized sleeps that imitate a person,
+ * headless browsers driving instagram.com and spoofed user agents.
+ */
+
+import { CodebaseFile } from '../scanner/codebase-indexer';
+import { inCode, lexSource } from '../scanner/lexer';
+import { Violation } from '../types';
+import { AnalyzerContext, createFinding, ProjectAnalyzer } from './analyzer';
+import { CodeBlock, enclosingBlocks, findBlocks, languageOf, position, stripComments } from './code-blocks';
+
+const INSTAGRAM = /instagram|\bigsid\b|\big_?user_?id\b|\bIGUser\b|\bIgApiClient\b|instagrapi/i;
+const INSTAGRAM_SITE = /(?:https?:\/\/)?(?:www\.|i\.)?instagram\.com\b/i;
+
+/** DMs and comment replies: Graph API paths and client methods */
+const MESSAGE_ACTION = /['"`/]\/?(?:messages|replies|private_replies)\b|\b(?:send_?(?:message|dm|direct\w*)|sendDM|sendDirect\w*|direct_send|directMessage|direct_message|replyTo\w*|reply_to_\w+|private_reply|privateReply)\s*\(/gi;
+/** Follows, likes and comments */
+const ENGAGEMENT_ACTION = /\.(?:follow|unfollow|like|unlike|comment)\s*\(|\b(?:follow_?user|user_follow|like_?media|media_like|likeMedia|likePost|like_post|media_comment|commentOnMedia|comment_on_media|followUser)\s*\(/gi;
+/** Lists of other people's accounts, media and hashtags */
+const AUDIENCE = /follower|following|likers|commenters|hashtag|tagged|mentions|targets|profiles|users|accounts|usernames|leads/i;
+const LOOP_HEADER = /^(?:\}?\s*)?(?:for|foreach|while)\b|\.(?:forEach|map|flatMap)\s*\(/;
+
+/** Sleeps and delays of a random length */
+const RANDOM_SLEEP = /\b(?:sleep|usleep|delay|wait|setTimeout|waitForTimeout|pause)\w*\s*\([^;\n]*(?:Math\.random|random\.(?:uniform|randint|random|choice|triangular)|\brandint\b|randomInt|_\.random|\bm?t?_?rand\s*\()|\b(?:random_?delay|human_?delay|randomDelay|humanDelay|randomSleep|random_sleep|human_?like_?delay)\s*\(/gi;
+/** Jitter in retry loops is recommended, not evasion */
+const RETRY = /retry|retries|backoff|attempt/i;
+
+const HEADLESS_BROWSER = /['"](?:puppeteer(?:-extra|-core)?|playwright(?:-extra)?|@playwright\/test|selenium-webdriver|webdriverio|nightmare)['"]|\b(?:from|import)\s+(?:selenium|playwright|pyppeteer|undetected_chromedriver|splinter|seleniumbase)\b|Facebook\\WebDriver|Symfony\\Component\\Panther/;
+/** Browser user agents, Instagram app user agents, random user agents and the private API's app id */
+const USER_AGENT_SPOOF = /user[-_]?agent['"]?\s*(?::|=>|=|,)\s*['"`](?:Mozilla\/|Instagram \d)[^'"`]*['"`]|\.setUserAgent\s*\(|fake_useragent|UserAgent\(\)\.random|random_?user_?agent|randomUserAgent|--user-agent=|['"]x-ig-app-id['"]\s*(?::|=>|,)/gi;
+
+export class InstagramAutomationAnalyzer implements ProjectAnalyzer {
+  readonly name = 'instagram-automation';
+
+  analyze({ index, rules }: AnalyzerContext): Violation[] {
+    const violations: Violation[] = [];
+
+    for (const file of index.getFiles()) {
+      const language = languageOf(file.path);
+      if (!language || !INSTAGRAM.test(file.content)) continue;
+
+      const code = stripComments(file);
+      const report = (ruleCode: string, offset: number, message: string) => {
+        const rule = rules.get(ruleCode);
+        if (!rule) return;
+        const { line, column } = position(file.content, offset);
+        violations.push(createFinding(rule, {
+          file: file.path,
+          line,
+          column,
+          codeSnippet: (file.content.split('\n')[line - 1] || '').trim(),
+        }, message));
+      };
+
+      const blocks = findBlocks(code, language);
+      const actionBlocks = this.checkAudienceLoops(file, code, blocks, report);
+      this.checkRandomSleeps(code, blocks, actionBlocks, report);
+      this.checkBrowserAutomation(file, code, report);
+    }
+
+    return violations;
+  }
+
+  /**
+   * DMs, replies, follows and likes inside loops over audience lists.
+   * Returns the loops, where random sleeps are bot evasion.
+   */
+  private checkAudienceLoops(
+    file: CodebaseFile,
+    code: string,
+    blocks: CodeBlock[],
+    report: (ruleCode: string, offset: number, message: string) => void
+  ): Map<CodeBlock, string> {
+    const loops = new Map<CodeBlock, string>();
+    const actions = [
+      ...[...code.matchAll(MESSAGE_ACTION)].map(match => ({ match, ruleCode: 'IG_NO_AUTOMATED_DM', kind: 'message' })),
+      ...[...code.matchAll(ENGAGEMENT_ACTION)].map(match => ({ match, ruleCode: 'IG_AUTOMATED_ENGAGEMENT', kind: 'follow/like/comment' })),
+    ];
+
+    for (const { match, ruleCode, kind } of actions) {
+      const loop = enclosingBlocks(blocks, match.index!)
+        .find(block => LOOP_HEADER.test(block.header) && AUDIENCE.test(block.header));
+      if (!loop) continue;
+
+      const action = match[0].replace(/^['"`/.]+|['"`/?(\s]+$/g, '');
+      const { line } = position(file.content, loop.start);
+      if (!loops.has(loop)) loops.set(loop, `${action} (line ${position(file.content, match.index!).line})`);
+      report(ruleCode, match.index!,
+        `Automated Instagram ${kind}: \`${action}\` is called for every entry of \`${loop.header.split('\n').pop()}\` (line ${line})`);
+    }
+    return loops;
+  }
+
+  /**
+   * Random delays between automated actions, which imitate a person to
+   * evade Instagram's rate limits and bot detection
+   */
+  private checkRandomSleeps(
+    code: string,
+    blocks: CodeBlock[],
+    actionLoops: Map<CodeBlock, string>,
+    report: (ruleCode: string, offset: number, message: string) => void
+  ): void {
+    const browser = HEADLESS_BROWSER.test(code) && INSTAGRAM_SITE.test(code);
+    for (const match of code.matchAll(RANDOM_SLEEP)) {
+      const enclosing = enclosingBlocks(blocks, match.index!);
+      if (enclosing.some(block => RETRY.test(block.header))) continue;
+
+      const loop = enclosing.find(block => actionLoops.has(block));
+      if (!loop && !browser) continue;
+
+      const evidence = loop ? `between calls to ${actionLoops.get(loop)}` : 'in a browser automation script for instagram.com';
+      report('IG_RATE_LIMIT_EVASION', match.index!,
+        `Randomized delay \`${match[0].match(/^\w+/)![0]}(...)\` ${evidence} imitates a person to evade rate limits and bot detection`);
+    }
+  }
+
+  /**
+   * Headless browsers driving instagram.com and spoofed user agents
+   */
+  private checkBrowserAutomation(
+    file: CodebaseFile,
+    code: string,
+    report: (ruleCode: string, offset: number, message: string) => void
+  ): void {
+    const site = INSTAGRAM_SITE.exec(code);
+    const browser = HEADLESS_BROWSER.exec(code);
+    if (site && browser) {
+      report('IG_BROWSER_AUTOMATION', browser.index,
+        `${browser[0].replace(/^['"]|['"]$/g, '')} drives ${site[0]} (line ${position(file.content, site.index).line}); automating the Instagram website violates its Terms of Use`);
+    }
+
+    // Spoofed user agents matter when the requests go to Instagram itself
+    if (!site) return;
+    const contexts = lexSource(file.content, file.path);
+    for (const match of code.matchAll(USER_AGENT_SPOOF)) {
+      if (!inCode(contexts, file.content, match.index!)) continue;
+      report('IG_USER_AGENT_SPOOFING', match.index!,
+        `Requests to ${site[0]} impersonate a browser or the Instagram app (\`${match[0].slice(0, 60).replace(/^\W+|[\s("'`:,=>]+$/g, '')}\`)`);
+    }
+  }
+}
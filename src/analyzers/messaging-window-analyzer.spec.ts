@@ -0,0 +1,83 @@
+import { MessagingWindowAnalyzer } from './messaging-window-analyzer';
+import { analyze, findings } from '../test-utils/analyzers';
+
+const analyzer = new MessagingWindowAnalyzer();
+
+describe('MessagingWindowAnalyzer', () => {
+  it('reports scheduled sends without a tag or window check', async () => {
+    const violations = await analyze(analyzer, {
+      'jobs/digest.js': [
+        "cron.schedule('0 9 * * *', async () => {",
+        '  for (const user of subscribers) {',
+        "    await axios.post('https://graph.facebook.com/v21.0/me/messages', {",
+        '      recipient: { id: user.psid },',
+        "      message: { text: 'Your daily digest is ready' },",
+        '    });',
+        '  }',
+        '});',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['MSG_24HR_STANDARD:jobs/digest.js:4']);
+    expect(violations[0].message).toContain('in a scheduled job');
+  });
+
+  it('reports deprecated tags and promotions sent with a tag', async () => {
+    const violations = await analyze(analyzer, {
+      'send.js': [
+        'async function notify(psid) {',
+        '  await callSendApi({',
+        '    recipient: { id: psid },',
+        "    messaging_type: 'MESSAGE_TAG',",
+        "    tag: 'SHIPPING_UPDATE',",
+        "    message: { text: 'Your order shipped' },",
+        '  });',
+        '  await callSendApi({',
+        '    recipient: { id: psid },',
+        "    messaging_type: 'MESSAGE_TAG',",
+        "    tag: 'ACCOUNT_UPDATE',",
+        "    message: { text: 'Black Friday sale: 50% discount today only' },",
+        '  });',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['MSG_DEPRECATED_TAG:send.js:3', 'MSG_NO_PROMOTIONAL:send.js:9']);
+  });
+
+  it('reports MESSAGE_TAG sends without a tag', async () => {
+    const violations = await analyze(analyzer, {
+      'send.py': [
+        'def notify(psid):',
+        "    requests.post(URL, json={'recipient': {'id': psid}, 'messaging_type': 'MESSAGE_TAG', 'message': {'text': 'Hi'}})",
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['MSG_TAGS_REQUIRED:send.py:2']);
+  });
+
+  it('accepts replies in a webhook handler and tagged or checked proactive sends', async () => {
+    const violations = await analyze(analyzer, {
+      'webhook.js': [
+        "app.post('/webhook', async (req, res) => {",
+        '  const event = req.body.entry[0].messaging[0];',
+        "  await callSendApi({ recipient: { id: event.sender.id }, message: { text: 'Thanks!' } });",
+        '  res.sendStatus(200);',
+        '});',
+      ].join('\n'),
+      'jobs/orders.js': [
+        "cron.schedule('*/5 * * * *', async () => {",
+        '  for (const order of shippedOrders()) {',
+        "    await callSendApi({ recipient: { id: order.psid }, messaging_type: 'MESSAGE_TAG', tag: 'POST_PURCHASE_UPDATE', message: { text: 'Shipped' } });",
+        '  }',
+        '  for (const user of subscribers) {',
+        '    if (Date.now() - user.lastInteraction > 24 * 60 * 60 * 1000) continue;',
+        "    await callSendApi({ recipient: { id: user.psid }, message: { text: 'New episode out' } });",
+        '  }',
+        '});',
+      ].join('\n'),
+    });
+
+    expect(violations).toEqual([]);
+  });
+});
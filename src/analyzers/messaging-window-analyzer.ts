@@ -0,0 +1,157 @@
+/**
+ * Messaging Window Analyzer
+ *
+ * Finds Messenger Send API calls - payloads with a `recipient` and a
+ * `message` (or `sender_action`) sent with fetch/axios/requests/Guzzle,
+ * and send methods of the Messenger SDKs - and reads their
+ * `messaging_type` and `tag`. Outside the 24-hour window after a user's
+ * last message only a valid message tag may be used, so sends from
+ * scheduled jobs, broadcast loops and campaign functions need a tag or a
+ * last-interaction check. Deprecated and invalid tags, and promotional
+ * content sent with a tag, are reported wherever they are sent.
+ */
+
+import { loadPlatformConfig } from '../knowledge';
+import { CodebaseFile } from '../scanner/codebase-indexer';
+import { Violation } from '../types';
+import { AnalyzerContext, createFinding, ProjectAnalyzer } from './analyzer';
+import { blockEnd, languageOf, openingBracket, position, stripComments } from './code-blocks';
+import { sendContexts, WINDOW_CHECK } from './send-context';
+
+/** `recipient: {`, `'recipient' => [`, `recipient=` */
+const RECIPIENT_KEY = /['"]?\brecipient['"]?\s*(?::|=>|=(?!=))/g;
+const MESSAGE_KEY = /['"]?\b(?:message|sender_action|messaging_type)['"]?\s*(?::|=>|=(?!=))/;
+/** Messenger SDKs: messaging-api-messenger/Bottender, pymessenger, fbmessenger, botkit */
+const MESSENGER_SDK = /['"](?:messaging-api-messenger|bottender|messenger-bot|fb-messenger-bot-api|botkit-plugin-facebook)['"]|\b(?:from|import)\s+(?:pymessenger|fbmessenger)\b/;
+const SDK_SEND = /\.(?:send(?:Text|Message|Generic(?:Template)?|ButtonTemplate|MediaTemplate|Template|Image|Audio|Video|File|Attachment|QuickReplies|Receipt\w*)|send_(?:text_message|message|generic_message|button_message|image_url|attachment\w*|raw))\s*\(|(?<!\b(?:res|response|reply|ctx|socket|ws))\.send\s*\(/g;
+
+const MESSAGING_TYPE = /\b(?:messaging_type|messagingType)['"]?\s*(?::|=>|=(?!=))\s*(?:['"]|[\w.]*\.)?([A-Z_]+)\b/;
+const TAG = /\btag['"]?\s*(?::|=>|=(?!=))\s*(?:['"]|[\w.]*\.)?([A-Z][A-Z_]{2,})\b/;
+/** fbmessenger passes the messaging type positionally: `send(payload, 'MESSAGE_TAG')` */
+const MESSAGING_TYPE_LITERAL = /['"](RESPONSE|UPDATE|MESSAGE_TAG)['"]/;
+
+const PROMOTIONAL = /\b(?:sale|discount|promo(?:tion)?|coupon|offer|deal|% off|buy now|shop now|limited time|free shipping|black friday|cyber monday)\b/i;
+
+interface SendSite {
+  file: CodebaseFile;
+  offset: number;
+  /** The payload literal or the SDK call's arguments */
+  payload: string;
+}
+
+interface MessageTags {
+  valid: Set<string>;
+  deprecated: Set<string>;
+}
+
+export class MessagingWindowAnalyzer implements ProjectAnalyzer {
+  readonly name = 'messaging-window';
+
+  analyze({ index, rules }: AnalyzerContext): Violation[] {
+    const tags = messageTags();
+    const violations: Violation[] = [];
+
+    for (const file of index.getFiles()) {
+      const language = languageOf(file.path);
+      if (!language) continue;
+
+      const code = stripComments(file);
+      const sites = sendSites(file, code);
+      if (sites.length === 0) continue;
+
+      const contextOf = sendContexts(file, code, language);
+      for (const site of sites) {
+        const report = (ruleCode: string, message: string) => {
+          const rule = rules.get(ruleCode);
+          if (!rule) return;
+          const { line, column } = position(file.content, site.offset);
+          violations.push(createFinding(rule, {
+            file: file.path,
+            line,
+            column,
+            codeSnippet: (file.content.split('\n')[line - 1] || '').trim(),
+          }, message));
+        };
+
+        // The payload decides; a payload built in steps
+        // (`body.tag = ...`) is read from its function
+        const { fnBody, scope, proactive } = contextOf(site.offset);
+        const type = site.payload.match(MESSAGING_TYPE)?.[1] || site.payload.match(MESSAGING_TYPE_LITERAL)?.[1]
+          || fnBody.match(MESSAGING_TYPE)?.[1];
+        const tag = site.payload.match(TAG)?.[1] || literalTag(site.payload, tags) || fnBody.match(TAG)?.[1];
+
+        if (tag && tags.deprecated.has(tag)) {
+          report('MSG_DEPRECATED_TAG', `Message tag ${tag} is deprecated and the Send API rejects it; use ${[...tags.valid].join(', ')}`);
+        } else if (tag && tags.valid.size > 0 && !tags.valid.has(tag)) {
+          report('MSG_TAGS_REQUIRED', `${tag} is not a Messenger message tag; use ${[...tags.valid].join(', ')}`);
+        }
+        if (type === 'MESSAGE_TAG' && !tag) {
+          report('MSG_TAGS_REQUIRED', 'messaging_type MESSAGE_TAG is sent without a tag');
+        } else if (tag && type && type !== 'MESSAGE_TAG') {
+          report('MSG_TAGS_REQUIRED', `tag ${tag} is ignored because messaging_type is ${type}, not MESSAGE_TAG`);
+        }
+        if (tag && PROMOTIONAL.test(site.payload)) {
+          report('MSG_NO_PROMOTIONAL', `Message sent with tag ${tag} contains promotional content; tags may not be used for promotions`);
+        }
+
+        if (!proactive || WINDOW_CHECK.test(scope)) continue;
+        if (!tag && type !== 'MESSAGE_TAG') {
+          report('MSG_24HR_STANDARD',
+            `Send API call ${proactive} uses messaging_type ${type || 'RESPONSE (default)'} without a message tag or a check that the user messaged in the last 24 hours`);
+        } else if (tag === 'HUMAN_AGENT') {
+          report('MSG_TAGS_REQUIRED',
+            `Send API call ${proactive} uses the HUMAN_AGENT tag, which is only for replies written by a person within 7 days`);
+        }
+      }
+    }
+
+    return violations;
+  }
+}
+
+/**
+ * Valid and deprecated message tags from the Messenger knowledge file
+ */
+function messageTags(): MessageTags {
+  const config = loadPlatformConfig('messenger');
+  const valid = config?.messageTags && typeof config.messageTags === 'object' ? Object.keys(config.messageTags) : [];
+  const deprecated = Array.isArray(config?.deprecatedTags) ? config!.deprecatedTags as string[] : [];
+  return { valid: new Set(valid), deprecated: new Set(deprecated) };
+}
+
+/**
+ * Send API payload literals and Messenger SDK send calls of a file
+ */
+function sendSites(file: CodebaseFile, code: string): SendSite[] {
+  const sites: SendSite[] = [];
+  const seen = new Set<number>();
+
+  for (const match of code.matchAll(RECIPIENT_KEY)) {
+    const start = openingBracket(code, match.index!);
+    if (start < 0 || seen.has(start)) continue;
+    const payload = code.slice(start, blockEnd(code, start));
+    if (!MESSAGE_KEY.test(payload)) continue;
+    seen.add(start);
+    sites.push({ file, offset: match.index!, payload });
+  }
+
+  if (MESSENGER_SDK.test(code)) {
+    for (const match of code.matchAll(SDK_SEND)) {
+      const open = match.index! + match[0].length - 1;
+      if (sites.some(site => site.offset > open && site.offset < open + site.payload.length)) continue;
+      sites.push({ file, offset: match.index! + 1, payload: code.slice(open, blockEnd(code, open)) });
+    }
+  }
+
+  return sites.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * A known tag passed as a plain string: `send(payload, 'MESSAGE_TAG', 'ACCOUNT_UPDATE')`
+ */
+function literalTag(payload: string, tags: MessageTags): string | undefined {
+  for (const match of payload.matchAll(/['"]([A-Z][A-Z_]{2,})['"]/g)) {
+    if (tags.valid.has(match[1]) || tags.deprecated.has(match[1])) return match[1];
+  }
+  return undefined;
+}
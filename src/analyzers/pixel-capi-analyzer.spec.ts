@@ -0,0 +1,81 @@
+import { PixelCapiAnalyzer } from './pixel-capi-analyzer';
+import { analyze, findings } from '../test-utils/analyzers';
+
+const analyzer = new PixelCapiAnalyzer();
+
+describe('PixelCapiAnalyzer', () => {
+  it('reports unhashed user_data in Conversions API payloads', async () => {
+    const violations = await analyze(analyzer, {
+      'server/capi.js': [
+        'async function sendPurchase(order) {',
+        '  await axios.post(`https://graph.facebook.com/v21.0/${PIXEL_ID}/events`, {',
+        '    data: [{',
+        "      event_name: 'Purchase',",
+        '      event_time: Math.floor(Date.now() / 1000),',
+        "      action_source: 'system_generated',",
+        '      user_data: { em: order.email, ph: order.phone },',
+        '    }],',
+        '  });',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['ADS_UNHASHED_USER_DATA:server/capi.js:7']);
+    expect(violations[0].message).toContain('`em`, `ph`');
+  });
+
+  it('reports personal and health data in Pixel events', async () => {
+    const violations = await analyze(analyzer, {
+      'web/tracking.js': [
+        "fbq('track', 'Lead', { email: user.email });",
+        "fbq('trackCustom', 'BookedTherapySession', { content_name: 'Depression screening' });",
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual([
+      'ADS_UNHASHED_USER_DATA:web/tracking.js:1',
+      'ADS_SENSITIVE_EVENT_DATA:web/tracking.js:2',
+    ]);
+    expect(violations[1].message).toContain('health');
+  });
+
+  it('reports events sent from the Pixel and the Conversions API without an event id', async () => {
+    const violations = await analyze(analyzer, {
+      'web/checkout.js': "fbq('track', 'Purchase', { value: order.total, currency: 'USD' });",
+      'server/capi.js': [
+        'async function sendPurchase(order) {',
+        '  await axios.post(EVENTS_URL, { data: [{',
+        "    event_name: 'Purchase',",
+        '    event_time: order.paidAt,',
+        "    action_source: 'website',",
+        '    user_data: { em: sha256(order.email) },',
+        '  }] });',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual([
+      'ADS_EVENT_DEDUPLICATION:web/checkout.js:1',
+      'ADS_EVENT_DEDUPLICATION:server/capi.js:3',
+    ]);
+  });
+
+  it('accepts hashed user_data and deduplicated events', async () => {
+    const violations = await analyze(analyzer, {
+      'web/checkout.js': "fbq('track', 'Purchase', { value: order.total, currency: 'USD' }, { eventID: order.id });",
+      'server/capi.js': [
+        'async function sendPurchase(order) {',
+        '  await axios.post(EVENTS_URL, { data: [{',
+        "    event_name: 'Purchase',",
+        '    event_id: order.id,',
+        '    event_time: order.paidAt,',
+        "    action_source: 'website',",
+        '    user_data: { em: sha256(order.email.trim().toLowerCase()), external_id: sha256(order.userId) },',
+        '  }] });',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(violations).toEqual([]);
+  });
+});
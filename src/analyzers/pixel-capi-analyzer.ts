@@ -0,0 +1,354 @@
+/**
+ * Pixel and Conversions API Analyzer
+ *
+ * Finds the conversion events a codebase sends: Meta Pixel `fbq('track')`
+ * calls in the browser and Conversions API events on the server, both raw
+ * `/events` payloads (`event_name`, `user_data`, `custom_data`) and
+ * Business SDK events (`setEventName`, `Event(event_name=...)`). Customer
+ * information in raw `user_data` must be normalized and SHA-256 hashed
+ * (the SDKs' UserData hashes it), events must not reveal health or
+ * financial details, and events sent both ways need an event_id so Meta
+ * counts them once.
+ */
+
+import { loadPlatformConfig } from '../knowledge';
+import { CodebaseFile } from '../scanner/codebase-indexer';
+import { Violation } from '../types';
+import { AnalyzerContext, createFinding, ProjectAnalyzer } from './analyzer';
+import { blockEnd, enclosingBlocks, escapeRegExp, findBlocks, keyPattern, Language, languageOf, openingBracket, position, stripComments, valueAt } from './code-blocks';
+
+const PIXEL_CALL = /\bfbq\s*\(\s*(['"])(init|track|trackCustom|trackSingle|trackSingleCustom)\1/g;
+const CAPI_CONTEXT = /\/events\b|\bevent_name\b|ServerEvent|EventRequest|conversions?[_ -]?api|\bcapi\b/i;
+/** Fields every Conversions API event has besides its name */
+const SERVER_EVENT_FIELD = /\b(?:event_time|user_data|action_source)\b/;
+const SDK_EVENT_NAME = /(?:\.|->)(?:setEventName|set_event_name)\s*\(/g;
+const SDK_EVENT_ID = /setEventId|set_event_id|\bevent_id\b/;
+const PIXEL_EVENT_ID = /\beventID\b|\bevent_id\b/;
+/** Hash calls and already hashed values */
+const HASHED = /sha-?256|hash|digest|hashlib|\b[a-f0-9]{64}\b/i;
+
+interface ConversionsPolicy {
+  hashedFields: string[];
+  pixelPersonalData: string[];
+  sensitiveTerms: Map<string, string[]>;
+}
+
+interface ConversionEvent {
+  file: CodebaseFile;
+  offset: number;
+  source: 'pixel' | 'server';
+  /** Event name, when it is a literal */
+  name?: string;
+  /** Custom data, event source URL and parameters */
+  data: string;
+  deduplicated: boolean;
+}
+
+export class PixelCapiAnalyzer implements ProjectAnalyzer {
+  readonly name = 'pixel-capi';
+
+  analyze({ index, rules }: AnalyzerContext): Violation[] {
+    const policy = conversionsPolicy();
+    if (!policy) return [];
+
+    const violations: Violation[] = [];
+    const report = (ruleCode: string, file: CodebaseFile, offset: number, message: string) => {
+      const rule = rules.get(ruleCode);
+      if (!rule) return;
+      const { line, column } = position(file.content, offset);
+      violations.push(createFinding(rule, {
+        file: file.path,
+        line,
+        column,
+        codeSnippet: (file.content.split('\n')[line - 1] || '').trim(),
+      }, message));
+    };
+
+    const events: ConversionEvent[] = [];
+    for (const file of index.getFiles()) {
+      const language = languageOf(file.path);
+      if (!language) continue;
+
+      const code = stripComments(file);
+      events.push(...pixelEvents(file, code));
+      if (!CAPI_CONTEXT.test(code)) continue;
+
+      events.push(...serverEvents(file, code, language));
+      this.checkUserData(file, code, policy, report);
+    }
+
+    for (const event of events) {
+      this.checkPixelParameters(event, policy, report);
+      this.checkSensitiveData(event, policy, report);
+    }
+    this.checkDeduplication(events, report);
+
+    return violations;
+  }
+
+  /**
+   * Customer information fields of raw `user_data` payloads that are not
+   * hashed
+   */
+  private checkUserData(
+    file: CodebaseFile,
+    code: string,
+    policy: ConversionsPolicy,
+    report: (ruleCode: string, file: CodebaseFile, offset: number, message: string) => void
+  ): void {
+    const seen = new Set<string>();
+    for (const match of code.matchAll(keyPattern('user_data'))) {
+      const offset = match.index! + match[0].length;
+      // Payloads built by a hashing helper: `user_data: hashUserData(user)`
+      if (HASHED.test(code.slice(offset).match(/^[\w.$>-]*/)![0])) continue;
+
+      const value = valueAt(code, offset);
+      // SDK constructors (`UserData(email=...)`) hash for the caller
+      if (value.dynamic || value.text.startsWith('(') || seen.has(value.text)) continue;
+      seen.add(value.text);
+
+      const unhashed = policy.hashedFields.filter(field => {
+        const entry = new RegExp(`(['"]?)\\b${field}\\1\\s*(?::|=>|=(?!=))\\s*`).exec(value.text);
+        if (!entry) return false;
+        const expression = expressionAt(value.text, entry.index + entry[0].length);
+        return expression !== '' && !isHashed(expression, code);
+      });
+      if (unhashed.length === 0) continue;
+
+      report('ADS_UNHASHED_USER_DATA', file, match.index!,
+        `Conversions API user_data sends ${unhashed.map(f => `\`${f}\``).join(', ')} without SHA-256 hashing; normalize (trim, lowercase) and hash customer information before sending it`);
+    }
+  }
+
+  /**
+   * Personal data in Pixel event parameters, which the Pixel sends as is
+   */
+  private checkPixelParameters(
+    event: ConversionEvent,
+    policy: ConversionsPolicy,
+    report: (ruleCode: string, file: CodebaseFile, offset: number, message: string) => void
+  ): void {
+    if (event.source !== 'pixel') return;
+
+    const keys = policy.pixelPersonalData.filter(key =>
+      new RegExp(`(['"]?)\\b${escapeRegExp(key)}\\1\\s*:`).test(event.data));
+    if (keys.length === 0) return;
+
+    report('ADS_UNHASHED_USER_DATA', event.file, event.offset,
+      `Pixel event ${event.name ? `'${event.name}' ` : ''}sends ${keys.map(k => `\`${k}\``).join(', ')} in its parameters, in clear text; pass customer information through advanced matching in fbq('init') or hashed in Conversions API user_data`);
+  }
+
+  /**
+   * Health and financial terms in event names, URLs and custom data
+   */
+  private checkSensitiveData(
+    event: ConversionEvent,
+    policy: ConversionsPolicy,
+    report: (ruleCode: string, file: CodebaseFile, offset: number, message: string) => void
+  ): void {
+    const text = words([event.name || '', ...stringLiterals(event.data)].join(' '));
+    const found = [...policy.sensitiveTerms].flatMap(([category, terms]) => {
+      const hits = terms.filter(term => new RegExp(`\\b${escapeRegExp(term)}\\b`).test(text));
+      return hits.length > 0 ? [`${category} (${hits.slice(0, 3).map(t => `"${t}"`).join(', ')})`] : [];
+    });
+    if (found.length === 0) return;
+
+    const source = event.source === 'pixel' ? 'Pixel' : 'Conversions API';
+    report('ADS_SENSITIVE_EVENT_DATA', event.file, event.offset,
+      `${source} event ${event.name ? `'${event.name}' ` : ''}shares ${found.join(' and ')} information with Meta; remove health and financial details from event names, URLs and parameters`);
+  }
+
+  /**
+   * Events without an event_id in projects that send them from both the
+   * Pixel and the Conversions API
+   */
+  private checkDeduplication(
+    events: ConversionEvent[],
+    report: (ruleCode: string, file: CodebaseFile, offset: number, message: string) => void
+  ): void {
+    const pixel = events.filter(e => e.source === 'pixel');
+    const server = events.filter(e => e.source === 'server');
+    if (pixel.length === 0 || server.length === 0) return;
+
+    for (const event of events) {
+      if (event.deduplicated) continue;
+
+      // An event only needs deduplication if the other side may send it too
+      const others = event.source === 'pixel' ? server : pixel;
+      const twin = others.find(other => !event.name || !other.name || other.name === event.name);
+      if (!twin) continue;
+
+      const where = `${twin.file.path}:${position(twin.file.content, twin.offset).line}`;
+      report('ADS_EVENT_DEDUPLICATION', event.file, event.offset, event.source === 'pixel'
+        ? `Pixel event ${event.name ? `'${event.name}' ` : ''}has no eventID, but the Conversions API sends it too (${where}); Meta counts the event twice`
+        : `Conversions API event ${event.name ? `'${event.name}' ` : ''}has no event_id, but the Pixel sends it too (${where}); Meta counts the event twice`);
+    }
+  }
+}
+
+/**
+ * Hashed fields, personal data and sensitive terms from the ads knowledge file
+ */
+function conversionsPolicy(): ConversionsPolicy | null {
+  const config = loadPlatformConfig('ads')?.conversionsApi as {
+    hashedUserData?: string[];
+    pixelPersonalData?: string[];
+    sensitiveTerms?: Record<string, string[]>;
+  } | undefined;
+  if (!config?.hashedUserData || !config.sensitiveTerms) return null;
+
+  return {
+    hashedFields: config.hashedUserData,
+    pixelPersonalData: config.pixelPersonalData || [],
+    sensitiveTerms: new Map(Object.entries(config.sensitiveTerms)),
+  };
+}
+
+/**
+ * `fbq('track' | 'trackCustom' | 'trackSingle' | 'trackSingleCustom', ...)`
+ * calls of a file. `init` sends no event of its own.
+ */
+function pixelEvents(file: CodebaseFile, code: string): ConversionEvent[] {
+  const events: ConversionEvent[] = [];
+
+  for (const match of code.matchAll(PIXEL_CALL)) {
+    if (match[2] === 'init') continue;
+    const open = code.indexOf('(', match.index!);
+    const args = callArguments(code, open);
+    // trackSingle* take the pixel id first
+    const [name, data = '', options = ''] = args.slice(match[2].startsWith('trackSingle') ? 2 : 1);
+
+    events.push({
+      file,
+      offset: match.index!,
+      source: 'pixel',
+      name: literal(name),
+      data,
+      deduplicated: PIXEL_EVENT_ID.test(options),
+    });
+  }
+  return events;
+}
+
+/**
+ * Conversions API events of a file: literals and SDK calls with an
+ * `event_name`, and SDK `setEventName` chains
+ */
+function serverEvents(file: CodebaseFile, code: string, language: Language): ConversionEvent[] {
+  const events: ConversionEvent[] = [];
+  const seen = new Set<number>();
+
+  for (const match of code.matchAll(keyPattern('event_name'))) {
+    const start = openingBracket(code, match.index!);
+    if (start < 0 || seen.has(start)) continue;
+    const event = code.slice(start, blockEnd(code, start));
+    if (!SERVER_EVENT_FIELD.test(event)) continue;
+    seen.add(start);
+
+    // Events of other channels (app, offline, messaging) have no Pixel twin
+    const source = keyPattern('action_source').exec(event);
+    const website = !source || /website/i.test(expressionAt(event, source.index + source[0].length));
+    const data = ['custom_data', 'event_source_url']
+      .map(key => {
+        const entry = keyPattern(key).exec(event);
+        return entry ? valueAt(code, start + entry.index + entry[0].length).text : '';
+      })
+      .join(' ');
+
+    events.push({
+      file,
+      offset: match.index!,
+      source: 'server',
+      name: literal(expressionAt(code, match.index! + match[0].length)),
+      data,
+      deduplicated: !website || /\bevent_id\b/.test(event),
+    });
+  }
+
+  const blocks = findBlocks(code, language);
+  for (const match of code.matchAll(SDK_EVENT_NAME)) {
+    const open = code.indexOf('(', match.index!);
+    const scope = enclosingBlocks(blocks, match.index!)
+      .find(block => !/(?:=|[\w'"\]]\s*:)\s*$|^[[{(,]?$/.test(block.header));
+    const body = scope ? code.slice(scope.start, scope.end) : code;
+
+    events.push({
+      file,
+      offset: match.index! + match[0].search(/\w/),
+      source: 'server',
+      name: literal(callArguments(code, open)[0]),
+      data: '',
+      deduplicated: SDK_EVENT_ID.test(body),
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Arguments of the call whose parenthesis opens at `open`, split at the
+ * top level
+ */
+function callArguments(code: string, open: number): string[] {
+  const inner = code.slice(open + 1, blockEnd(code, open) - 1);
+  const args: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let from = 0;
+
+  for (let i = 0; i < inner.length; i++) {
+    const ch = inner[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = undefined;
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if (ch === '(' || ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ')' || ch === ']' || ch === '}') {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      args.push(inner.slice(from, i).trim());
+      from = i + 1;
+    }
+  }
+  args.push(inner.slice(from).trim());
+  return args;
+}
+
+/**
+ * The expression at `offset` of an entry, up to the next top-level comma
+ * or the end of the literal
+ */
+function expressionAt(code: string, offset: number): string {
+  const end = callArguments(`(${code.slice(offset)}`, 0)[0];
+  return end.split('\n')[0].trim();
+}
+
+/**
+ * Whether a `user_data` value is hashed: a hash call or hashed value, or a
+ * variable assigned from one in the file
+ */
+function isHashed(expression: string, code: string): boolean {
+  if (HASHED.test(expression)) return true;
+
+  const name = expression.match(/^\[?\s*(\$?[A-Za-z_][\w$]*(?:(?:\.|->)[A-Za-z_]\w*)*)\s*\]?$/)?.[1];
+  if (!name) return false;
+  const variable = name.split(/\.|->/).pop()!;
+  const assignment = new RegExp(`(?:^|[^\\w.$>])${escapeRegExp(variable)}['"]?\\s*(?::|=>|=(?!=))([^;\\n]*)`, 'gm');
+  return [...code.matchAll(assignment)].some(m => HASHED.test(m[1]));
+}
+
+/** The text of a string literal, undefined for other expressions */
+function literal(expression: string | undefined): string | undefined {
+  return expression?.match(/^(['"`])([^'"`]*)\1$/)?.[2];
+}
+
+function stringLiterals(text: string): string[] {
+  return [...text.matchAll(/(['"`])((?:(?!\1)[^\\\n]|\\.)*)\1/g)].map(m => m[2]);
+}
+
+/** Lowercase words of names and URLs: `DiabetesTest_booked` -> `diabetes test booked` */
+function words(text: string): string {
+  return text.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_\-/.?=&]+/g, ' ').toLowerCase();
+}
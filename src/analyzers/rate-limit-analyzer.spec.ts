@@ -0,0 +1,79 @@
+import { RateLimitAnalyzer } from './rate-limit-analyzer';
+import { analyze, findings } from '../test-utils/analyzers';
+
+const analyzer = new RateLimitAnalyzer();
+
+describe('RateLimitAnalyzer', () => {
+  it('reports Graph API calls without rate limit handling', async () => {
+    const violations = await analyze(analyzer, {
+      'profile.js': [
+        'async function getProfile(token) {',
+        "  const res = await fetch('https://graph.facebook.com/v21.0/me?access_token=' + token);",
+        '  return res.json();',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['RATE_LIMIT_MISSING:profile.js:2']);
+  });
+
+  it('reports unprotected calls inside loops as hot paths', async () => {
+    const violations = await analyze(analyzer, {
+      'sync.py': [
+        'import requests',
+        '',
+        'def sync_pages(page_ids, token):',
+        '    for page_id in page_ids:',
+        "        requests.get(f'https://graph.facebook.com/v21.0/{page_id}', params={'access_token': token})",
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['RATE_LIMIT_HOT_PATH:sync.py:5']);
+  });
+
+  it('accepts calls that retry on rate limit errors', async () => {
+    const violations = await analyze(analyzer, {
+      'profile.js': [
+        'async function getProfile(token, attempt = 0) {',
+        "  const res = await fetch('https://graph.facebook.com/v21.0/me?access_token=' + token);",
+        '  const body = await res.json();',
+        '  if (body.error && [4, 17, 32, 613].includes(body.error.code) && attempt < 5) {',
+        '    await new Promise(resolve => setTimeout(resolve, 2 ** attempt * 1000));',
+        '    return getProfile(token, attempt + 1);',
+        '  }',
+        '  return body;',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(violations).toEqual([]);
+  });
+
+  it('accepts calls through a wrapper that reads the usage headers', async () => {
+    const violations = await analyze(analyzer, {
+      'graph.js': [
+        'export async function graphGet(path) {',
+        "  const res = await fetch('https://graph.facebook.com/v21.0/' + path);",
+        "  const usage = JSON.parse(res.headers.get('x-app-usage') || '{}');",
+        '  if (usage.call_count > 90) await pause();',
+        '  return res.json();',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(violations).toEqual([]);
+  });
+
+  it('ignores calls quoted in fixtures', async () => {
+    const violations = await analyze(analyzer, {
+      'src/scan.spec.ts': [
+        'const FIXTURE = [',
+        "  \"const res = await fetch('https://graph.facebook.com/v21.0/me');\",",
+        "  'await axios.get(`https://graph.facebook.com/v21.0/${id}`);',",
+        "].join('\\n');",
+      ].join('\n'),
+    });
+
+    expect(violations).toEqual([]);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Rate Limit Analyzer
+ *
+ * Locates Graph API call sites from SDKDetector's findings: HTTP calls to
+ * Graph API URLs (or to constants and clients built from them) and method
+ * calls on official SDK objects and wrapper clients. A call site is
+ * protected when its function, or a wrapper around it, retries with
+ * backoff, reads the X-App-Usage / X-Business-Use-Case-Usage headers or
+ * handles the rate limit error codes (4, 17, 32, 613). Unprotected calls
+ * inside loops are reported as hot paths.
+ */
+
+import { CodebaseFile, CodebaseIndexer } from '../scanner/codebase-indexer';
+import { lexSource } from '../scanner/lexer';
+import { SDKDetector, SDK_REGISTRY } from '../scanner/sdk-detector';
+import { SDKDetection, Violation } from '../types';
+import { AnalyzerContext, createFinding, ProjectAnalyzer } from './analyzer';
+import {
+  CodeBlock,
+  enclosingBlocks,
+  escapeRegExp,
+  findBlocks,
+  Language,
+  languageOf,
+  position,
+  stripComments,
+} from './code-blocks';
+
+const HTTP_CALL = /\b(?:fetch|axios|got|ky|needle|superagent|request|ofetch|\$fetch)\s*(?:\.\s*(?:get|post|put|patch|delete|request)\s*)?\(|\bhttps?\.(?:get|request)\s*\(|\b(?:requests|httpx|session|client)\.(?:get|post|put|patch|delete|request)\s*\(|\burlopen\s*\(|\bHttp::\w+\(|\bcurl_exec\s*\(|->(?:get|post|request)\s*\(/;
+const HTTP_CLIENT = /\b([A-Za-z_$][\w$]*)\s*=\s*(?:axios|got|ky)\.(?:create|extend)\s*\(/;
+const ASSIGNED_NAME = /^\s*(?:export\s+)?(?:const|let|var|define\(\s*['"])?\s*\$?([A-Za-z_$][\w$]*)['"]?\s*[:=,]/;
+
+/** Methods of SDK objects that call the API (`account.getCampaigns()`, `campaign.remote_read()`) */
+const SDK_METHODS = /^(get|create|delete|update|read)[A-Z_]\w*$|^(get|read|api_get|api_create|api_update|api_delete)$|^remote_\w+$|^(get|create)_\w+$/;
+const SDK_CLASSES = new Set([
+  ...(SDK_REGISTRY.official.nodejs.classes || []),
+  ...(SDK_REGISTRY.official.python.classes || []),
+  'AdsPixel', 'Application', 'IGComment', 'LeadgenForm', 'PagePost', 'WhatsAppBusinessAccount',
+]);
+const WRAPPER_METHODS = /^(api|napi|get|post|del|delete|batch|search|fql)$/;
+
+const RETRY = /retry|retries|backoff|back_off|exponential|\bsleep\s*\(|setTimeout\s*\(|Math\.pow\(\s*2|\b2\s*\*\*|Bottleneck|limiter|throttle|pLimit|p-limit|PQueue|p-queue|tenacity|RetryMiddleware/i;
+const USAGE_HEADERS = /x[-_]app[-_]usage|x[-_]business[-_]use[-_]case[-_]usage|x[-_]ad[-_]account[-_]usage|x[-_]fb[-_]ads[-_]insights[-_]throttle/i;
+const ERROR_CODES = /\b(?:code|error_code|errorCode|subcode|error_subcode)\b[^;\n]{0,40}?(?<![\w.])(?:4|17|32|613)(?![\w.])|(?<![\w.])(?:4|17|32|613)\s*,\s*(?:4|17|32|613)\b|\b429\b|too many requests|rate.?limit/i;
+/** Retries configured once for a whole client or session */
+const CLIENT_RETRY = /axiosRetry|axios-retry|retry-axios|\bretry\s*:\s*\{|\bretries\s*:|max_retries|Retry\(\s*total|HTTPAdapter|RetryMiddleware/;
+
+const FUNCTION_HEADER: Record<Language, RegExp> = {
+  javascript: /\bfunction\b|=>$|^(?!(?:if|for|while|switch|catch|with)\b)(?:(?:public|private|protected|static|async|get|set|override)\s+)*[A-Za-z_$][\w$]*\s*\([^)]*\)\s*(?::[^{]+)?$/,
+  python: /(^|\n)(async\s+)?def\s/,
+  php: /\bfunction\b/,
+};
+const LOOP_HEADER: Record<Language, RegExp> = {
+  javascript: /^(?:\}?\s*)?(?:for|while|do)\b|\.(?:forEach|map|flatMap|filter|reduce|some|every)\s*\(/,
+  python: /^(?:async\s+)?(?:for|while)\b/,
+  php: /^(?:for|foreach|while|do)\b/,
+};
+/** Loops on the call's own line: `ids.map(id => fetch(...))`, `[get(id) for id in ids]` */
+const INLINE_LOOP = /\.(?:map|forEach|flatMap)\s*\(\s*(?:async\s*)?\(?[\w$\s,]*\)?\s*=>|^\s*(?:for|while)\b|\bfor\s+[\w\s,]+\s+in\b/;
+
+interface CallSite {
+  file: CodebaseFile;
+  offset: number;
+}
+
+export class RateLimitAnalyzer implements ProjectAnalyzer {
+  readonly name = 'rate-limit';
+
+  async analyze({ index, rules }: AnalyzerContext): Promise<Violation[]> {
+    const detector = new SDKDetector();
+    const files = index.getFiles().filter(file => languageOf(file.path));
+
+    const detections = new Map<string, SDKDetection[]>();
+    for (const file of files) {
+      detections.set(file.path, await detector.detectInFile(file.path, file.content));
+    }
+
+    // Graph API base URLs and clients defined in one file are used by the
+    // files importing it
+    const baseNames = new Map<string, Set<string>>();
+    for (const file of files) {
+      const names = graphApiNames(file, detections.get(file.path) || []);
+      if (names.size === 0) continue;
+      for (const path of [file.path, ...importers(index, file.path)]) {
+        const known = baseNames.get(path) || new Set<string>();
+        names.forEach(name => known.add(name));
+        baseNames.set(path, known);
+      }
+    }
+
+    const violations: Violation[] = [];
+    for (const file of files) {
+      const sites = callSites(file, detections.get(file.path) || [], baseNames.get(file.path) || new Set());
+      if (sites.length > 0) violations.push(...this.check(file, sites, rules));
+    }
+    return violations;
+  }
+
+  /**
+   * Report the unprotected call sites of a file, once per function (and
+   * once per loop for hot paths)
+   */
+  private check(file: CodebaseFile, sites: CallSite[], rules: AnalyzerContext['rules']): Violation[] {
+    const language = languageOf(file.path)!;
+    const code = stripComments(file);
+    const blocks = findBlocks(code, language);
+    const clientRetry = CLIENT_RETRY.test(code);
+    const reported = new Set<string>();
+    const violations: Violation[] = [];
+
+    for (const site of sites) {
+      const enclosing = enclosingBlocks(blocks, site.offset);
+      const fn = enclosing.find(block => FUNCTION_HEADER[language].test(block.header));
+      const inFunction = fn ? enclosing.slice(0, enclosing.indexOf(fn)) : enclosing;
+
+      // The function itself, plus whatever wraps it: `withRetry(async () => {`
+      const evidence = [
+        fn ? code.slice(fn.start, fn.end) : code,
+        ...enclosing.map(block => block.header),
+      ].join('\n');
+      if (clientRetry || RETRY.test(evidence) || USAGE_HEADERS.test(evidence) || ERROR_CODES.test(evidence)) continue;
+
+      const lineStart = code.lastIndexOf('\n', site.offset - 1) + 1;
+      const lineEnd = code.indexOf('\n', site.offset);
+      const loop = inFunction.find(block => LOOP_HEADER[language].test(block.header))
+        || (INLINE_LOOP.test(code.slice(lineStart, lineEnd < 0 ? code.length : lineEnd)) ? { start: lineStart } : undefined);
+
+      const ruleCode = loop ? 'RATE_LIMIT_HOT_PATH' : 'RATE_LIMIT_MISSING';
+      const key = `${ruleCode}:${(loop || fn)?.start ?? -1}`;
+      const rule = rules.get(ruleCode);
+      if (!rule || reported.has(key)) continue;
+      reported.add(key);
+
+      const { line, column } = position(file.content, site.offset);
+      const where = fn ? `in ${functionName(fn, language)}` : 'at the top level';
+      const message = loop
+        ? `Graph API call inside a loop ${where} has no retry/backoff, usage header check or rate limit error handling; a large batch will hit the rate limit`
+        : `Graph API call ${where} has no retry/backoff, X-App-Usage check or handling of rate limit errors (codes 4, 17, 32, 613)`;
+      violations.push(createFinding(rule, {
+        file: file.path,
+        line,
+        column,
+        codeSnippet: (file.content.split('\n')[line - 1] || '').trim(),
+      }, message));
+    }
+
+    return violations;
+  }
+}
+
+/**
+ * Names bound to Graph API URLs or clients in a file: `GRAPH_URL` in
+ * `const GRAPH_URL = 'https://graph.facebook.com/v24.0'`, `graph` in
+ * `const graph = axios.create({ baseURL: ... })`
+ */
+function graphApiNames(file: CodebaseFile, detections: SDKDetection[]): Set<string> {
+  const lines = file.content.split('\n');
+  const names = new Set<string>();
+
+  for (const detection of detections) {
+    if (detection.type !== 'direct-api') continue;
+    const line = lines[detection.line - 1] || '';
+    if (HTTP_CALL.test(line)) continue;
+
+    // Clients created a few lines up: axios.create({\n  baseURL: '...'
+    const client = lines.slice(Math.max(0, detection.line - 5), detection.line)
+      .reverse()
+      .map(l => l.match(HTTP_CLIENT)?.[1])
+      .find(Boolean);
+    const name = client || line.match(ASSIGNED_NAME)?.[1];
+    if (name && !/^(baseURL|prefixUrl|url|base_url)$/i.test(name)) names.add(name);
+  }
+
+  return names;
+}
+
+/**
+ * Graph API call sites of a file, outside comments and string literals
+ */
+function callSites(file: CodebaseFile, detections: SDKDetection[], baseNames: Set<string>): CallSite[] {
+  const code = stripComments(file);
+  const lines = code.split('\n');
+  const lineOffsets: number[] = [];
+  for (let i = 0, offset = 0; i < lines.length; offset += lines[i].length + 1, i++) lineOffsets.push(offset);
+  const offsets = new Set<number>();
+
+  // HTTP calls whose URL is on the same line
+  for (const detection of detections) {
+    if (detection.type !== 'direct-api') continue;
+    const call = (lines[detection.line - 1] || '').search(HTTP_CALL);
+    if (call >= 0) offsets.add(lineOffsets[detection.line - 1] + call);
+  }
+
+  // HTTP calls built from a Graph API constant, and calls on Graph API clients
+  const callees: string[] = [];
+  for (const name of baseNames) {
+    callees.push(`\\b${escapeRegExp(name)}\\s*\\.\\s*(?:get|post|put|patch|delete|request)\\s*\\(`);
+  }
+
+  // SDK objects (`new AdAccount(id)`, `AdAccount(id)` in Python) and wrapper clients
+  const hasSdk = detections.some(d => d.type === 'official-sdk');
+  if (hasSdk) {
+    const sdkObjects = new Set<string>();
+    for (const match of code.matchAll(/\$?([A-Za-z_$][\w$]*)\s*=\s*(?:new\s+)?([A-Z]\w*)\s*\(/g)) {
+      if (SDK_CLASSES.has(match[2])) sdkObjects.add(match[1]);
+    }
+    for (const name of sdkObjects) {
+      callees.push(`\\$?\\b${escapeRegExp(name)}\\s*(?:\\.|->)\\s*(\\w+)\\s*\\(`);
+    }
+    callees.push(`\\bnew\\s+(?:${[...SDK_CLASSES].join('|')})\\s*\\([^()]*\\)\\s*\\.\\s*(\\w+)\\s*\\(`);
+  }
+  const wrappers = new Set<string>();
+  for (const detection of detections) {
+    if (detection.type !== 'wrapper') continue;
+    const name = detection.codeSnippet.match(/^(?:const|let|var|import)\s+(?:\{\s*)?(?:\w+\s+as\s+)?([A-Za-z_$][\w$]*)/)?.[1];
+    if (name) wrappers.add(name);
+    wrappers.add('FB');
+  }
+  for (const name of wrappers) {
+    callees.push(`\\b${escapeRegExp(name)}\\s*\\.\\s*(\\w+)\\s*\\(`);
+  }
+
+  if (callees.length > 0) {
+    const callee = new RegExp(callees.join('|'), 'g');
+    for (const match of code.matchAll(callee)) {
+      const method = match.slice(1).find(Boolean);
+      if (method && !SDK_METHODS.test(method) && !WRAPPER_METHODS.test(method)) continue;
+      offsets.add(match.index!);
+    }
+  }
+  for (const name of baseNames) {
+    // fetch(`${GRAPH_URL}/me`)
+    const usesName = new RegExp(`\\b${escapeRegExp(name)}\\b`);
+    lines.forEach((line, i) => {
+      const call = line.search(HTTP_CALL);
+      if (call >= 0 && usesName.test(line.slice(call))) offsets.add(lineOffsets[i] + call);
+    });
+  }
+
+  // Calls quoted in fixtures and docs (`'await fetch(GRAPH_URL)'`) are not call sites
+  const contexts = offsets.size > 0 ? lexSource(file.content, file.path) : undefined;
+  return [...offsets]
+    .filter(offset => !contexts || contexts.at(offset) === 'code')
+    .sort((a, b) => a - b)
+    .map(offset => ({ file, offset }));
+}
+
+function importers(index: CodebaseIndexer, path: string): string[] {
+  return index.getFiles()
+    .filter(file => index.findDependencies(file.path).includes(path))
+    .map(file => file.path);
+}
+
+function functionName(block: CodeBlock, language: Language): string {
+  const header = block.header.split('\n').pop() || '';
+  const name = language === 'javascript'
+    ? header.match(/function\s*\*?\s*([A-Za-z_$][\w$]*)|([A-Za-z_$][\w$]*)\s*[:=]\s*(?:async\s*)?(?:function\b|\(|[A-Za-z_$][\w$]*\s*=>)|^(?:(?:public|private|protected|static|async|get|set|override)\s+)*([A-Za-z_$][\w$]*)\s*\(/)
+    : header.match(/(?:def|function)\s+&?([A-Za-z_]\w*)/);
+  const found = name?.slice(1).find(Boolean);
+  return found ? `${found}()` : 'an anonymous function';
+}
@@ -0,0 +1,82 @@
+/**
+ * Send Context
+ *
+ * Where an outbound Messenger or WhatsApp message is sent from decides
+ * which window rules apply: replies inside a webhook handler answer the
+ * user, while sends from scheduled jobs, event triggers, loops over an
+ * audience and broadcast functions are business-initiated.
+ */
+
+import { CodebaseFile } from '../scanner/codebase-indexer';
+import { CodeBlock, enclosingBlocks, findBlocks, Language } from './code-blocks';
+
+/** Job schedulers and task queues */
+const SCHEDULED = /\bcron\b|\.schedule\s*\(|scheduleJob|setInterval|@Cron|periodic_task|@scheduler|\bschedule\.every|agenda\.(?:define|every)|\.process\s*\(|\brepeat\s*:|@app\.task|@shared_task|crontab/i;
+/** Database hooks and application events */
+const TRIGGER = /post_save|@receiver|after(?:Create|Insert|Save|Update)\b|@EventListener|@OnEvent|\.on\(\s*['"][\w.:-]*(?:created|updated|paid|shipped|completed|cancel\w*|signup|registered)['"]/i;
+const BROADCAST_NAME = /broadcast|blast|campaign|newsletter|bulk|mass_?send|send_?to_?all|sendToAll|notify_?all|notifyAll|remind|digest|drip/i;
+const LOOP_HEADER = /^(?:\}?\s*)?(?:for|foreach|while)\b|\.(?:forEach|map|flatMap)\s*\(/;
+const AUDIENCE = /subscriber|users|recipients|contacts|audience|psids|customers|followers|leads|\ball\b/i;
+const PROACTIVE_PATH = /(?:^|\/)(?:cron|jobs?|schedulers?|broadcasts?|campaigns?|tasks)(?:\/|[._-])/i;
+
+/** Checks that the user messaged within the last 24 hours */
+export const WINDOW_CHECK = /last_?(?:interaction|message|user_?message|inbound|contact|seen|active|activity)|lastInteraction|lastMessage|lastSeen|lastActive|24\s*\*\s*60\s*\*\s*60|86_?400|24\s*\*\s*3600|within_?24|(?:in|inside)_?window|messaging_?window|conversation_?expir\w*|hours?\s*<=?\s*24|timedelta\(\s*hours\s*=\s*24/i;
+
+const FUNCTION_HEADER: Record<Language, RegExp> = {
+  javascript: /\bfunction\b|=>$|^(?!(?:if|for|while|switch|catch|with)\b)(?:(?:public|private|protected|static|async)\s+)*[A-Za-z_$][\w$]*\s*\([^)]*\)\s*(?::[^{]+)?$/,
+  python: /(^|\n)(async\s+)?def\s/,
+  php: /\bfunction\b/,
+};
+const FUNCTION_NAME = /(?:function\s*\*?\s*|def\s+)([A-Za-z_$][\w$]*)|([A-Za-z_$][\w$]*)\s*[:=]\s*(?:async\s*)?(?:function\b|\([^)]*\)\s*=>|[A-Za-z_$][\w$]*\s*=>)|^(?:(?:public|private|protected|static|async)\s+)*([A-Za-z_$][\w$]*)\s*\([^)]*\)\s*(?::[^{]+)?$/;
+
+export interface SendContext {
+  /** Body of the function the send is in (the scope outside functions) */
+  fnBody: string;
+  /** Outermost block around the send (the file at the top level) */
+  scope: string;
+  /** Why the send is business-initiated, e.g. "in a scheduled job"; undefined otherwise */
+  proactive?: string;
+}
+
+/**
+ * Context lookup for the sends of one file
+ */
+export function sendContexts(file: CodebaseFile, code: string, language: Language): (offset: number) => SendContext {
+  const blocks = findBlocks(code, language);
+  const scheduled = scheduledFunctions(code);
+
+  return offset => {
+    const enclosing = enclosingBlocks(blocks, offset);
+    const outer = enclosing[enclosing.length - 1];
+    const fn = enclosing.find(block => FUNCTION_HEADER[language].test(block.header));
+    const name = fn && functionName(fn);
+
+    let proactive: string | undefined;
+    if (enclosing.some(block => SCHEDULED.test(block.header))) proactive = 'in a scheduled job';
+    else if (name && scheduled.has(name)) proactive = `in ${name}() (run on a schedule)`;
+    else if (enclosing.some(block => TRIGGER.test(block.header))) proactive = 'in an event trigger';
+    else if (enclosing.some(block => LOOP_HEADER.test(block.header) && AUDIENCE.test(block.header))) proactive = 'in a loop over an audience';
+    else if (name && BROADCAST_NAME.test(name)) proactive = `in ${name}()`;
+    else if (PROACTIVE_PATH.test(file.path)) proactive = `in ${file.path}`;
+
+    const scope = outer ? code.slice(outer.start, outer.end) : code;
+    return { fnBody: fn ? code.slice(fn.start, fn.end) : scope, scope, proactive };
+  };
+}
+
+/**
+ * Names of functions handed to a scheduler: `cron.schedule('0 9 * * *', sendDigest)`
+ */
+function scheduledFunctions(code: string): Set<string> {
+  const names = new Set<string>();
+  for (const line of code.split('\n')) {
+    if (!SCHEDULED.test(line)) continue;
+    for (const match of line.matchAll(/[(,]\s*([A-Za-z_$][\w$]*)\s*(?=[,)])/g)) names.add(match[1]);
+  }
+  return names;
+}
+
+function functionName(block: CodeBlock): string | undefined {
+  const header = block.header.split('\n').pop() || '';
+  return header.match(FUNCTION_NAME)?.slice(1).find(Boolean);
+}
@@ -0,0 +1,60 @@
+import { TaintAnalyzer } from './taint-analyzer';
+import { analyze, findings } from '../test-utils/analyzers';
+
+const analyzer = new TaintAnalyzer();
+
+describe('TaintAnalyzer', () => {
+  it('follows Graph API data to logging and analytics sinks', async () => {
+    const violations = await analyze(analyzer, {
+      'profile.js': [
+        'async function loadProfile(token) {',
+        "  const res = await fetch('https://graph.facebook.com/v21.0/me?fields=name,email&access_token=' + token);",
+        '  const profile = await res.json();',
+        '  console.log(profile.email);',
+        "  analytics.track('login', { email: profile.email });",
+        '  return profile;',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(findings(violations).sort()).toEqual(['PLATFORM_DATA_ANALYTICS:profile.js:5', 'PLATFORM_DATA_LOGGED:profile.js:4']);
+    expect(violations[0].dataFlow![0]).toMatchObject({ file: 'profile.js', line: 2 });
+  });
+
+  it('keeps the path of data flowing across modules', async () => {
+    const violations = await analyze(analyzer, {
+      'graph.js': [
+        'export async function getUser(id) {',
+        "  const { data } = await axios.get(`https://graph.facebook.com/v21.0/${id}`);",
+        '  return data;',
+        '}',
+      ].join('\n'),
+      'sync.js': [
+        "import { getUser } from './graph';",
+        'export async function sync(id) {',
+        '  const user = await getUser(id);',
+        "  await axios.post('https://crm.example.com/contacts', user);",
+        '}',
+      ].join('\n'),
+    });
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ ruleCode: 'PLATFORM_DATA_THIRD_PARTY', file: 'sync.js', line: 4 });
+    expect(violations[0].dataFlow!.map(step => step.file)).toContain('graph.js');
+  });
+
+  it('ignores data that does not come from Meta', async () => {
+    const violations = await analyze(analyzer, {
+      'orders.js': [
+        'async function loadOrders() {',
+        "  const res = await fetch('https://api.example.com/orders');",
+        '  const orders = await res.json();',
+        '  console.log(orders);',
+        '  await db.orders.insertMany(orders);',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(violations).toEqual([]);
+  });
+});
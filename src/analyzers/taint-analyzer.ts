@@ -0,0 +1,1199 @@
+/**
+ * Taint Analyzer
+ *
+ * Follows data returned by Graph API calls through a JavaScript/TypeScript
+ * codebase and reports where it reaches logging, third-party HTTP calls,
+ * analytics SDKs or persistent storage. Sources are fetch/axios-style
+ * requests to graph.facebook.com, FB.api/fbgraph calls and getters of
+ * facebook-nodejs-business-sdk objects (IGUser, Page, ...).
+ *
+ * Values are tracked through assignments, destructuring, object literals,
+ * callbacks, returns and parameters. Each function gets a summary (what it
+ * returns, which parameters reach a sink) and files are analyzed
+ * dependencies-first along CodebaseIndexer's import graph, so findings keep
+ * the whole source-to-sink path across modules.
+ */
+
+import { getAstEngine, SyntaxNode } from '../scanner/ast-engine';
+import { CodebaseFile, CodebaseIndexer } from '../scanner/codebase-indexer';
+import { DataFlowStep, Violation } from '../types';
+import { AnalyzerContext, createFinding, FindingLocation, ProjectAnalyzer } from './analyzer';
+
+type SinkKind = 'logging' | 'third-party' | 'analytics' | 'storage';
+
+const SINK_RULES: Record<SinkKind, string> = {
+  logging: 'PLATFORM_DATA_LOGGED',
+  'third-party': 'PLATFORM_DATA_THIRD_PARTY',
+  analytics: 'PLATFORM_DATA_ANALYTICS',
+  storage: 'PLATFORM_DATA_STORED',
+};
+
+/** Longest path kept; longer flows keep their first steps and the last one */
+const MAX_STEPS = 24;
+/** Distinct origins tracked per value */
+const MAX_TAINTS = 4;
+/** Passes over a file until function summaries settle (calls above definitions) */
+const MAX_PASSES = 3;
+
+const GRAPH_HOST = /\bgraph(-video)?\.(facebook|instagram)\.com\b/i;
+const META_HOST = /(^|\.)(facebook\.com|instagram\.com|fbcdn\.net|fb\.com|meta\.com|messenger\.com|whatsapp\.com|whatsapp\.net)$/i;
+const LOCAL_HOST = /^(localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1\])$/i;
+
+const HTTP_FUNCTIONS = /^(fetch|axios|got|ky|needle|superagent|request|ofetch|\$fetch)$/;
+const HTTP_OBJECTS = /^(axios|got|ky|needle|superagent|request|https?)$/;
+const HTTP_METHODS = /^(get|post|put|patch|delete|head|request)$/;
+
+const LOG_RECEIVER = /^(console|logger|log|winston|pino|bunyan|signale)$|logger$/i;
+const LOG_METHODS = new Set(['log', 'info', 'warn', 'warning', 'error', 'debug', 'trace', 'fatal', 'verbose', 'silly', 'dir', 'table']);
+
+const ANALYTICS_RECEIVERS = new Set(['analytics', 'mixpanel', 'amplitude', 'ampli', 'posthog', 'heap', 'rudderanalytics', 'segment', 'braze', 'klaviyo']);
+const ANALYTICS_METHODS = new Set(['track', 'identify', 'page', 'group', 'alias', 'screen', 'capture', 'logEvent', 'set', 'set_once', 'setOnce', 'register', 'setUserProperties', 'setUserId']);
+const ANALYTICS_FUNCTIONS = /^(gtag|ga|dataLayer\.push)$/;
+
+const DB_RECEIVER = /^(db|database|prisma|knex|sequelize|mongoose|supabase|firestore|firebase|redis|cache|pool|connection|conn|dynamo|dynamodb|docClient|collection|repo|repository|store|models?)$|(Model|Repository|Repo|Collection|Table|Store|Db|DB|Cache|Redis)$/;
+const DB_WRITE_METHODS = new Set([
+  'create', 'createMany', 'insert', 'insertOne', 'insertMany', 'save', 'update', 'updateOne', 'updateMany',
+  'upsert', 'bulkCreate', 'findOneAndUpdate', 'findByIdAndUpdate', 'replaceOne', 'put', 'putItem',
+  'set', 'hset', 'hmset', 'setex', 'lpush', 'rpush', 'sadd', 'zadd', 'add',
+]);
+/** Static writes of Mongoose/Sequelize-style models (`User.create(profile)`) */
+const MODEL_WRITE_METHODS = new Set(['create', 'insertMany', 'bulkCreate', 'upsert', 'findOneAndUpdate', 'findByIdAndUpdate', 'updateOne', 'updateMany', 'replaceOne']);
+const SQL_METHODS = new Set(['query', 'execute', 'exec', 'raw', 'run', 'none', 'sql', '$executeRaw', '$executeRawUnsafe', '$queryRaw']);
+const SQL_WRITE = /^\W*(INSERT|UPDATE|REPLACE|MERGE|UPSERT)\b/i;
+const FILE_WRITES = new Set(['writeFile', 'writeFileSync', 'appendFile', 'appendFileSync', 'outputFile', 'outputFileSync', 'outputJson', 'outputJsonSync', 'writeJson', 'writeJsonSync']);
+const FS_RECEIVER = /^(fs|fsp|fse|fsPromises|promises|fsExtra)$/;
+const BROWSER_STORAGE = /^(localStorage|sessionStorage|localforage)\.setItem$/;
+
+/** Methods that call their callback with the receiver's data */
+const CALLBACK_METHODS = new Set(['then', 'map', 'forEach', 'filter', 'find', 'findLast', 'some', 'every', 'flatMap', 'reduce']);
+/** Functions whose result carries their arguments */
+const PASS_THROUGH = new Set([
+  'JSON.stringify', 'JSON.parse', 'String', 'Object.assign', 'Object.values', 'Object.entries', 'Array.from',
+  'structuredClone', 'encodeURIComponent', 'Buffer.from', 'util.format', 'util.inspect', 'Promise.all', 'Promise.resolve',
+]);
+
+const FUNCTION_NODES = new Set(['arrow_function', 'function_expression', 'function', 'generator_function']);
+const FUNCTION_DECLARATIONS = new Set(['function_declaration', 'generator_function_declaration']);
+const TYPE_NODES = new Set(['type_annotation', 'type_arguments', 'type_parameters', 'type_alias_declaration', 'interface_declaration']);
+/** Expressions whose value is their first child's */
+const WRAPPERS = new Set(['await_expression', 'parenthesized_expression', 'non_null_expression', 'as_expression', 'satisfies_expression', 'type_assertion', 'spread_element']);
+
+const BUSINESS_SDK = 'facebook-nodejs-business-sdk';
+/** facebook-nodejs-business-sdk classes whose getters return user, page or ad data */
+const SDK_DATA_CLASSES = new Set([
+  'AdAccount', 'Ad', 'AdSet', 'Campaign', 'AdCreative', 'Album', 'Application', 'Business', 'Comment',
+  'CustomAudience', 'Event', 'Group', 'IGComment', 'IGMedia', 'IGUser', 'InstagramUser', 'Lead', 'LeadgenForm',
+  'Page', 'PagePost', 'Photo', 'Post', 'ProductCatalog', 'User', 'Video', 'WhatsAppBusinessAccount',
+]);
+
+interface GraphClient {
+  name: string;
+  methods: Set<string>;
+  /** Parameter of the callback that receives the response */
+  callbackParam: number;
+}
+
+const FB_CLIENT: GraphClient = { name: 'FB', methods: new Set(['api', 'napi']), callbackParam: 0 };
+const FBGRAPH_CLIENT: GraphClient = { name: 'graph', methods: new Set(['get', 'post', 'batch', 'search', 'fql']), callbackParam: 1 };
+
+/**
+ * A tainted value's origin and the steps it took so far
+ */
+interface Taint {
+  /** Graph API data, or a parameter of a function being summarized */
+  origin: 'source' | { fn: FunctionSummary; param: number };
+  steps: DataFlowStep[];
+}
+
+interface SinkSite {
+  kind: SinkKind;
+  location: FindingLocation;
+}
+
+interface FunctionSummary {
+  name: string;
+  params: string[];
+  /** Taints of returned values */
+  returns: Taint[];
+  /** Parameters that reach a sink, with the path from the parameter */
+  sinks: Array<{ param: number; steps: DataFlowStep[]; site: SinkSite }>;
+  /** Non-data part of the returned value (clients, objects of functions) */
+  shape?: Value;
+  /** Bumped whenever returns or sinks change */
+  version: number;
+}
+
+/**
+ * What the analysis knows about an expression's value
+ */
+interface Value {
+  taints: Taint[];
+  /** Summary when the value is a function */
+  fn?: FunctionSummary;
+  /** Module exports, object properties or class statics */
+  members?: Map<string, Value>;
+  /** Methods of instances when the value is a class */
+  instance?: Map<string, Value>;
+  /** Calling the value reads from the Graph API */
+  source?: { label: string; callbackParam?: number };
+  graph?: GraphClient;
+  sdk?: { kind: 'module' | 'class' | 'object'; name: string };
+  /** HTTP client with a base URL (axios.create) */
+  http?: { baseUrl?: string };
+  /** Known text of a string (`${}` for unknown parts) */
+  text?: string;
+}
+
+const EMPTY: Value = { taints: [] };
+
+const GLOBALS = new Map<string, Value>([
+  ['FB', { taints: [], graph: FB_CLIENT }],
+]);
+
+interface WalkContext {
+  index: CodebaseIndexer;
+  /** Exports of analyzed files */
+  exports: Map<string, Map<string, Value>>;
+  report(steps: DataFlowStep[], site: SinkSite): void;
+}
+
+export class TaintAnalyzer implements ProjectAnalyzer {
+  readonly name = 'taint';
+
+  analyze({ index, rules }: AnalyzerContext): Violation[] {
+    const engine = getAstEngine();
+    const files = index.getFiles().filter(file => engine.supports(file.path));
+
+    // Shortest path per sink
+    const findings = new Map<string, { steps: DataFlowStep[]; site: SinkSite }>();
+    const context: WalkContext = {
+      index,
+      exports: new Map(),
+      report(steps, site) {
+        const { file, line, column } = site.location;
+        const key = `${site.kind}:${file}:${line}:${column}`;
+        const existing = findings.get(key);
+        if (!existing || existing.steps.length > steps.length) findings.set(key, { steps, site });
+      },
+    };
+
+    for (const file of dependencyOrder(files, index)) {
+      const root = engine.parse(file.content, file.path);
+      if (!root) continue;
+
+      try {
+        new FileWalker(file, context).walk(root);
+      } catch {
+        // Pathologically nested code (generated bundles); skip the file
+      }
+    }
+    engine.clear();
+
+    const violations: Violation[] = [];
+    for (const { steps, site } of findings.values()) {
+      const rule = rules.get(SINK_RULES[site.kind]);
+      if (!rule) continue;
+
+      const source = steps[0];
+      const sink = steps[steps.length - 1];
+      violations.push({
+        ...createFinding(rule, site.location, `${source.note} (${source.file}:${source.line}) is ${sink.note}`),
+        dataFlow: steps,
+      });
+    }
+    return violations;
+  }
+}
+
+/**
+ * Files ordered so that imported files come before their importers
+ * (import cycles are broken arbitrarily)
+ */
+function dependencyOrder(files: CodebaseFile[], index: CodebaseIndexer): CodebaseFile[] {
+  const byPath = new Map(files.map(file => [file.path, file]));
+  const ordered: CodebaseFile[] = [];
+  const visited = new Set<string>();
+
+  const visit = (path: string) => {
+    if (visited.has(path)) return;
+    visited.add(path);
+    for (const dependency of index.findDependencies(path)) visit(dependency);
+    const file = byPath.get(path);
+    if (file) ordered.push(file);
+  };
+
+  for (const file of files) visit(file.path);
+  return ordered;
+}
+
+class Scope {
+  private vars = new Map<string, Value>();
+
+  constructor(private parent?: Scope) {}
+
+  lookup(name: string): Value | undefined {
+    return this.vars.get(name) ?? this.parent?.lookup(name);
+  }
+
+  declare(name: string, value: Value): void {
+    this.vars.set(name, value);
+  }
+
+  /** Update the scope that declares `name` (or this one) */
+  assign(name: string, value: Value): void {
+    let scope: Scope | undefined = this;
+    while (scope && !scope.vars.has(name)) scope = scope.parent;
+    (scope || this).vars.set(name, value);
+  }
+}
+
+/**
+ * Abstract interpretation of one file. Scopes are per function (not per
+ * block) and statements are evaluated once, in order.
+ */
+class FileWalker {
+  private scope = new Scope();
+  /** Function whose body is being evaluated (undefined at the top level) */
+  private frame: FunctionSummary | undefined;
+  private summaries = new Map<number, FunctionSummary>();
+  private exports = new Map<string, Value>();
+  private lines: string[];
+
+  constructor(private file: CodebaseFile, private context: WalkContext) {
+    this.lines = file.content.split('\n');
+  }
+
+  walk(root: SyntaxNode): void {
+    this.context.exports.set(this.file.path, this.exports);
+
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+      const before = this.version();
+      this.scope = new Scope();
+      this.frame = undefined;
+      this.visitBlock(root);
+      if (this.version() === before) break;
+    }
+  }
+
+  private version(): number {
+    let total = 0;
+    for (const summary of this.summaries.values()) total += summary.version;
+    return total;
+  }
+
+  private visitBlock(node: SyntaxNode): void {
+    const statements = node.namedChildren;
+    for (const statement of statements) this.hoist(statement);
+    for (const statement of statements) this.evaluate(statement);
+  }
+
+  /**
+   * Declare functions before the statements that call them
+   */
+  private hoist(node: SyntaxNode): void {
+    const declaration = node.type === 'export_statement' ? node.childForFieldName('declaration') : node;
+    if (!declaration) return;
+
+    if (FUNCTION_DECLARATIONS.has(declaration.type)) {
+      const name = declaration.childForFieldName('name')?.text;
+      if (name) this.scope.declare(name, { taints: [], fn: this.summaryFor(declaration, name) });
+    } else if (declaration.type === 'lexical_declaration' || declaration.type === 'variable_declaration') {
+      for (const declarator of declaration.namedChildren) {
+        const name = declarator.childForFieldName('name');
+        const value = declarator.childForFieldName('value');
+        if (name?.type === 'identifier' && value && FUNCTION_NODES.has(value.type)) {
+          this.scope.declare(name.text, { taints: [], fn: this.summaryFor(value, name.text) });
+        }
+      }
+    }
+  }
+
+  private evaluate(node: SyntaxNode): Value {
+    if (WRAPPERS.has(node.type)) {
+      return node.namedChildren[0] ? this.evaluate(node.namedChildren[0]) : EMPTY;
+    }
+    if (TYPE_NODES.has(node.type)) return EMPTY;
+
+    switch (node.type) {
+      case 'comment':
+        return EMPTY;
+      case 'program':
+      case 'statement_block':
+        this.visitBlock(node);
+        return EMPTY;
+      case 'lexical_declaration':
+      case 'variable_declaration':
+        for (const declarator of node.namedChildren) {
+          if (declarator.type === 'variable_declarator') this.declare(declarator);
+        }
+        return EMPTY;
+      case 'import_statement':
+        this.bindImports(node);
+        return EMPTY;
+      case 'export_statement':
+        this.exportStatement(node);
+        return EMPTY;
+      case 'return_statement':
+        this.addReturn(node.namedChildren[0] ? this.evaluate(node.namedChildren[0]) : EMPTY);
+        return EMPTY;
+      case 'function_declaration':
+      case 'generator_function_declaration': {
+        const name = node.childForFieldName('name')?.text;
+        const value = this.analyzeFunction(node, name);
+        if (name) this.scope.declare(name, value);
+        return EMPTY;
+      }
+      case 'class_declaration':
+      case 'abstract_class_declaration':
+      case 'class':
+        return this.defineClass(node);
+      case 'for_in_statement': {
+        const right = node.childForFieldName('right');
+        const left = node.childForFieldName('left');
+        const items = right ? this.evaluate(right) : EMPTY;
+        if (left) this.bindPattern(left, { taints: items.taints }, true, true);
+        const body = node.childForFieldName('body');
+        if (body) this.evaluate(body);
+        return EMPTY;
+      }
+      case 'identifier':
+      case 'shorthand_property_identifier':
+        return this.lookup(node.text);
+      case 'this':
+        return this.scope.lookup('this') || EMPTY;
+      case 'member_expression': {
+        const object = node.childForFieldName('object');
+        return object ? member(this.evaluate(object), node.childForFieldName('property')?.text || '') : EMPTY;
+      }
+      case 'subscript_expression': {
+        const object = node.childForFieldName('object');
+        const index = node.childForFieldName('index');
+        if (index) this.evaluate(index);
+        return object ? { taints: this.evaluate(object).taints } : EMPTY;
+      }
+      case 'call_expression':
+        return this.call(node);
+      case 'new_expression':
+        return this.construct(node);
+      case 'string':
+        return { taints: [], text: stringText(node) };
+      case 'template_string':
+        return this.template(node);
+      case 'binary_expression':
+        return this.binary(node);
+      case 'object':
+        return this.object(node);
+      case 'assignment_expression':
+        return this.assign(node);
+      case 'augmented_assignment_expression': {
+        const left = node.childForFieldName('left');
+        const right = node.childForFieldName('right');
+        const value = right ? this.evaluate(right) : EMPTY;
+        if (left?.type === 'identifier' && value.taints.length > 0) {
+          const current = this.lookup(left.text);
+          const added = withStep(value, this.step(left, `appended to ${left.text}`));
+          this.scope.assign(left.text, { ...current, taints: mergeTaints(current.taints, added.taints) });
+        }
+        return value;
+      }
+      default:
+        if (FUNCTION_NODES.has(node.type)) return this.analyzeFunction(node);
+
+        // Anything else (conditions, loops, operators) carries the taint
+        // of its parts, and calls inside it are still evaluated
+        let taints: Taint[] = [];
+        for (const child of node.namedChildren) {
+          taints = mergeTaints(taints, this.evaluate(child).taints);
+        }
+        return taints.length > 0 ? { taints } : EMPTY;
+    }
+  }
+
+  private lookup(name: string): Value {
+    return this.scope.lookup(name) ?? GLOBALS.get(name) ?? EMPTY;
+  }
+
+  private declare(declarator: SyntaxNode): void {
+    const name = declarator.childForFieldName('name');
+    const valueNode = declarator.childForFieldName('value');
+    if (!name) return;
+
+    const value = !valueNode
+      ? EMPTY
+      : FUNCTION_NODES.has(valueNode.type) && name.type === 'identifier'
+        ? this.analyzeFunction(valueNode, name.text)
+        : this.evaluate(valueNode);
+    this.bindPattern(name, value, true, true);
+  }
+
+  /**
+   * Bind the names of a declaration, parameter or destructuring pattern
+   */
+  private bindPattern(pattern: SyntaxNode, value: Value, declare: boolean, addStep: boolean): void {
+    const bind = (name: SyntaxNode, bound: Value) => {
+      const stepped = addStep ? withStep(bound, this.step(name, `assigned to ${name.text}`)) : bound;
+      if (declare) {
+        this.scope.declare(name.text, stepped);
+      } else {
+        this.scope.assign(name.text, stepped);
+      }
+    };
+
+    switch (pattern.type) {
+      case 'identifier':
+        bind(pattern, value);
+        break;
+      case 'object_pattern':
+        for (const property of pattern.namedChildren) {
+          if (property.type === 'shorthand_property_identifier_pattern') {
+            bind(property, member(value, property.text));
+          } else if (property.type === 'pair_pattern') {
+            const key = property.childForFieldName('key');
+            const target = property.childForFieldName('value');
+            if (target) this.bindPattern(target, member(value, key ? propertyName(key) : ''), declare, addStep);
+          } else if (property.type === 'object_assignment_pattern') {
+            const left = property.childForFieldName('left');
+            if (left) bind(left, member(value, left.text));
+          } else if (property.type === 'rest_pattern' && property.namedChildren[0]) {
+            this.bindPattern(property.namedChildren[0], { taints: value.taints }, declare, addStep);
+          }
+        }
+        break;
+      case 'array_pattern':
+        for (const element of pattern.namedChildren) {
+          this.bindPattern(element, { taints: value.taints }, declare, addStep);
+        }
+        break;
+      case 'assignment_pattern': {
+        const left = pattern.childForFieldName('left');
+        if (left) this.bindPattern(left, value, declare, addStep);
+        break;
+      }
+      case 'rest_pattern':
+        if (pattern.namedChildren[0]) this.bindPattern(pattern.namedChildren[0], value, declare, addStep);
+        break;
+      case 'required_parameter':
+      case 'optional_parameter': {
+        const inner = pattern.childForFieldName('pattern');
+        if (inner) this.bindPattern(inner, value, declare, addStep);
+        break;
+      }
+    }
+  }
+
+  private assign(node: SyntaxNode): Value {
+    const left = node.childForFieldName('left');
+    const right = node.childForFieldName('right');
+    if (!left || !right) return EMPTY;
+
+    const name = left.type === 'member_expression' ? left.childForFieldName('property')?.text : left.text;
+    const value = FUNCTION_NODES.has(right.type) ? this.analyzeFunction(right, name) : this.evaluate(right);
+
+    if (left.type === 'identifier') {
+      this.scope.assign(left.text, withStep(value, this.step(left, `assigned to ${left.text}`)));
+    } else if (left.type === 'object_pattern' || left.type === 'array_pattern') {
+      this.bindPattern(left, value, false, true);
+    } else if (left.type === 'member_expression') {
+      this.assignMember(left, value);
+    }
+    return value;
+  }
+
+  private assignMember(left: SyntaxNode, value: Value): void {
+    const target = left.text.replace(/\s+/g, '');
+
+    // CommonJS exports
+    if (target === 'module.exports') {
+      this.exports.set('default', value);
+      value.members?.forEach((exported, name) => this.exports.set(name, exported));
+      return;
+    }
+    const exportName = target.match(/^(?:module\.)?exports\.([\w$]+)$/)?.[1];
+    if (exportName) {
+      this.exports.set(exportName, value);
+      return;
+    }
+
+    if (/^(window\.|globalThis\.)?document\.cookie$/.test(target)) {
+      this.sink('storage', value.taints, left, 'stored in document.cookie');
+      return;
+    }
+
+    const object = left.childForFieldName('object');
+    const property = left.childForFieldName('property')?.text;
+
+    // this.client = axios.create(...) is what other methods see as this.client
+    if (object?.type === 'this' && property) {
+      const self = this.scope.lookup('this');
+      if (self?.members) {
+        const current = self.members.get(property) || EMPTY;
+        self.members.set(property, { ...current, ...value, taints: mergeTaints(current.taints, value.taints) });
+      }
+      return;
+    }
+
+    // obj.field = data taints obj
+    const root = rootIdentifier(left);
+    if (root && value.taints.length > 0) {
+      const current = this.lookup(root);
+      const added = withStep(value, this.step(left, `stored in ${target}`));
+      this.scope.assign(root, { ...current, taints: mergeTaints(current.taints, added.taints) });
+    }
+  }
+
+  private object(node: SyntaxNode): Value {
+    const members = new Map<string, Value>();
+    let taints: Taint[] = [];
+    const add = (name: string, value: Value) => {
+      if (name) members.set(name, value);
+      taints = mergeTaints(taints, value.taints);
+    };
+
+    for (const property of node.namedChildren) {
+      switch (property.type) {
+        case 'pair': {
+          const key = property.childForFieldName('key');
+          const valueNode = property.childForFieldName('value');
+          const name = key ? propertyName(key) : '';
+          if (!valueNode) break;
+          add(name, FUNCTION_NODES.has(valueNode.type) ? this.analyzeFunction(valueNode, name) : this.evaluate(valueNode));
+          break;
+        }
+        case 'shorthand_property_identifier':
+          add(property.text, this.lookup(property.text));
+          break;
+        case 'method_definition': {
+          const name = property.childForFieldName('name')?.text || '';
+          add(name, this.analyzeFunction(property, name));
+          break;
+        }
+        case 'spread_element': {
+          const spread = property.namedChildren[0] ? this.evaluate(property.namedChildren[0]) : EMPTY;
+          spread.members?.forEach((value, name) => members.set(name, value));
+          taints = mergeTaints(taints, spread.taints);
+          break;
+        }
+        default:
+          this.evaluate(property);
+      }
+    }
+
+    return { taints, members };
+  }
+
+  private template(node: SyntaxNode): Value {
+    let taints: Taint[] = [];
+    let text = '';
+    for (const part of node.namedChildren) {
+      if (part.type === 'template_substitution') {
+        const value = part.namedChildren[0] ? this.evaluate(part.namedChildren[0]) : EMPTY;
+        taints = mergeTaints(taints, value.taints);
+        text += value.text ?? '${}';
+      } else {
+        text += part.text;
+      }
+    }
+    return { taints, text };
+  }
+
+  private binary(node: SyntaxNode): Value {
+    const left = node.childForFieldName('left');
+    const right = node.childForFieldName('right');
+    const l = left ? this.evaluate(left) : EMPTY;
+    const r = right ? this.evaluate(right) : EMPTY;
+    const concat = node.childForFieldName('operator')?.text === '+' && (l.text !== undefined || r.text !== undefined);
+    return {
+      taints: mergeTaints(l.taints, r.taints),
+      text: concat ? (l.text ?? '${}') + (r.text ?? '${}') : undefined,
+    };
+  }
+
+  private call(node: SyntaxNode): Value {
+    const callee = node.childForFieldName('function');
+    if (!callee) return EMPTY;
+    const argsNode = node.childForFieldName('arguments');
+    // Tagged templates (sql`...`) pass the template itself
+    const argNodes = !argsNode ? [] : argsNode.type === 'arguments'
+      ? argsNode.namedChildren.filter(arg => arg.type !== 'comment')
+      : [argsNode];
+
+    // require('./module') and import('./module')
+    if ((callee.text === 'require' || callee.type === 'import') && argNodes[0]?.type === 'string') {
+      return this.moduleValue(stringText(argNodes[0]));
+    }
+
+    let receiver: Value | undefined;
+    let method: string | undefined;
+    let fn: Value;
+    if (callee.type === 'member_expression') {
+      const object = callee.childForFieldName('object');
+      receiver = object ? this.evaluate(object) : EMPTY;
+      method = callee.childForFieldName('property')?.text || '';
+      fn = member(receiver, method);
+    } else {
+      fn = this.evaluate(callee);
+    }
+    const label = calleeLabel(callee);
+
+    // Function arguments are analyzed last, once it's known what their
+    // parameters receive
+    const args = argNodes.map(arg => (FUNCTION_NODES.has(arg.type) ? EMPTY : this.evaluate(arg)));
+    const callbacks = (param: number, value?: Value) => {
+      argNodes.forEach((arg, i) => {
+        if (FUNCTION_NODES.has(arg.type)) {
+          args[i] = this.analyzeFunction(arg, undefined, undefined, value && new Map([[param, value]]));
+        } else if (value && args[i].fn) {
+          const passed: Value[] = [];
+          passed[param] = value;
+          this.applySummary(args[i].fn!, passed, node, [], arg);
+        }
+      });
+    };
+
+    // Graph API reads through a client or SDK object
+    if (fn.source) {
+      const data = this.sourceValue(node, `${fn.source.label}()`);
+      callbacks(fn.source.callbackParam ?? 0, fn.source.callbackParam !== undefined ? data : undefined);
+      return data;
+    }
+
+    const request = fn.fn ? undefined : httpRequest(fn, label, args);
+    if (request) {
+      callbacks(0);
+      if (request.url && GRAPH_HOST.test(request.url)) {
+        return this.sourceValue(node, `${label}()`);
+      }
+      const host = thirdPartyHost(request.url);
+      if (host) this.sink('third-party', mergeAll(args), node, `sent to ${host} by ${label}()`);
+      return EMPTY;
+    }
+
+    if (/^(axios|got|ky)\.(create|extend)$/.test(label)) {
+      callbacks(0);
+      const config = args[0]?.members;
+      return { taints: [], http: { baseUrl: (config?.get('baseURL') || config?.get('prefixUrl'))?.text } };
+    }
+
+    const tainted = receiver && receiver.taints.length > 0;
+    callbacks(
+      method === 'reduce' ? 1 : 0,
+      tainted && method && CALLBACK_METHODS.has(method) ? { taints: receiver!.taints } : undefined
+    );
+
+    const kind = sinkKind(label, args, receiver);
+    if (kind) {
+      const taints = kind === 'storage' && method === 'save' && receiver
+        ? mergeTaints(mergeAll(args), receiver.taints)
+        : mergeAll(args);
+      this.sink(kind, taints, node, SINK_NOTES[kind](label));
+      return EMPTY;
+    }
+
+    if (fn.fn) {
+      return this.applySummary(fn.fn, args, node, argNodes);
+    }
+
+    // Unknown calls: methods of tainted values return tainted values
+    // (res.json(), data.map(...)); a few functions pass arguments through
+    let taints = tainted ? receiver!.taints : [];
+    if (PASS_THROUGH.has(label)) taints = mergeTaints(taints, mergeAll(args));
+    return taints.length > 0 ? { taints } : EMPTY;
+  }
+
+  private construct(node: SyntaxNode): Value {
+    const constructorNode = node.childForFieldName('constructor');
+    const ctor = constructorNode ? this.evaluate(constructorNode) : EMPTY;
+    const args = (node.childForFieldName('arguments')?.namedChildren || []).map(arg => this.evaluate(arg));
+
+    if (ctor.sdk?.kind === 'class') return { taints: [], sdk: { kind: 'object', name: ctor.sdk.name } };
+    if (ctor.instance) return { taints: [], members: ctor.instance };
+    return { taints: mergeAll(args) };
+  }
+
+  private defineClass(node: SyntaxNode): Value {
+    const name = node.childForFieldName('name')?.text;
+    const statics = new Map<string, Value>();
+    const instance = new Map<string, Value>();
+    const value: Value = { taints: [], members: statics, instance };
+
+    // JavaScript: (class_heritage expr); TypeScript: (class_heritage (extends_clause value: expr))
+    const heritage = node.namedChildren.find(child => child.type === 'class_heritage')?.namedChildren[0];
+    const parentNode = heritage?.type === 'extends_clause' ? heritage.childForFieldName('value') : heritage;
+    if (parentNode && parentNode.type !== 'implements_clause') {
+      this.evaluate(parentNode).instance?.forEach((method, methodName) => instance.set(methodName, method));
+    }
+    if (name) this.scope.declare(name, value);
+
+    const self: Value = { taints: [], members: instance };
+    const methods: Array<{ node: SyntaxNode; name: string; isStatic: boolean }> = [];
+    for (const memberNode of node.childForFieldName('body')?.namedChildren || []) {
+      const methodName = (memberNode.childForFieldName('name') || memberNode.childForFieldName('property'))?.text;
+      const fnNode = memberNode.type === 'method_definition' ? memberNode : memberNode.childForFieldName('value');
+      if (!methodName || !fnNode || (fnNode !== memberNode && !FUNCTION_NODES.has(fnNode.type))) continue;
+      methods.push({ node: fnNode, name: methodName, isStatic: memberNode.children.some(c => c.type === 'static') });
+    }
+
+    // Declare every method first so methods can call ones defined below them
+    const qualified = (method: { name: string }) => `${name || 'class'}.${method.name}`;
+    for (const method of methods) {
+      (method.isStatic ? statics : instance).set(method.name, { taints: [], fn: this.summaryFor(method.node, qualified(method)) });
+    }
+    for (const method of methods) {
+      this.analyzeFunction(method.node, qualified(method), method.isStatic ? value : self);
+    }
+
+    return value;
+  }
+
+  /**
+   * Evaluate a function body. Parameters are bound to placeholders that
+   * become the function's summary; `bindings` instead gives parameters
+   * actual values (callbacks of tainted data), using a throwaway summary.
+   */
+  private analyzeFunction(node: SyntaxNode, name?: string, self?: Value, bindings?: Map<number, Value>): Value {
+    const fnName = name || node.childForFieldName('name')?.text || 'anonymous function';
+    const summary = bindings ? newSummary(fnName) : this.summaryFor(node, fnName);
+
+    const single = node.childForFieldName('parameter');
+    const parameters = single
+      ? [single]
+      : (node.childForFieldName('parameters')?.namedChildren || []).filter(param => param.type !== 'comment');
+    summary.params = parameters.map((param, i) => patternNames(param)[0] || `argument ${i + 1}`);
+
+    const saved = { scope: this.scope, frame: this.frame };
+    this.scope = new Scope(saved.scope);
+    this.frame = summary;
+    try {
+      if (self) {
+        this.scope.declare('this', self);
+      } else if (node.type !== 'arrow_function') {
+        this.scope.declare('this', EMPTY);
+      }
+
+      parameters.forEach((param, i) => {
+        const value = bindings?.get(i) ?? { taints: [{ origin: { fn: summary, param: i }, steps: [] }] };
+        this.bindPattern(param, value, true, false);
+      });
+
+      const body = node.childForFieldName('body');
+      if (body?.type === 'statement_block') {
+        this.visitBlock(body);
+      } else if (body) {
+        this.addReturn(this.evaluate(body));
+      }
+    } finally {
+      this.scope = saved.scope;
+      this.frame = saved.frame;
+    }
+
+    return { taints: [], fn: summary };
+  }
+
+  /**
+   * Value of calling a summarized function
+   */
+  private applySummary(
+    summary: FunctionSummary,
+    args: Value[],
+    node: SyntaxNode,
+    argNodes: SyntaxNode[],
+    at: SyntaxNode = node
+  ): Value {
+    const passed = (i: number) =>
+      this.step(argNodes[i] || at, `passed to ${summary.name}() as ${summary.params[i] || `argument ${i + 1}`}`);
+    const returned = this.step(node, `returned from ${summary.name}()`);
+
+    let taints: Taint[] = [];
+    for (const result of summary.returns) {
+      if (result.origin === 'source' || result.origin.fn !== summary) {
+        taints = mergeTaints(taints, [{ origin: result.origin, steps: joinSteps(result.steps, [returned]) }]);
+        continue;
+      }
+      const step = passed(result.origin.param);
+      for (const taint of args[result.origin.param]?.taints || []) {
+        taints = mergeTaints(taints, [{ origin: taint.origin, steps: joinSteps(taint.steps, [step], result.steps, [returned]) }]);
+      }
+    }
+
+    for (const sink of summary.sinks) {
+      for (const taint of args[sink.param]?.taints || []) {
+        this.reach(taint, joinSteps(taint.steps, [passed(sink.param)], sink.steps), sink.site);
+      }
+    }
+
+    return { ...summary.shape, taints };
+  }
+
+  private sink(kind: SinkKind, taints: Taint[], node: SyntaxNode, note: string): void {
+    if (taints.length === 0) return;
+
+    const site: SinkSite = { kind, location: this.location(node) };
+    const step = this.step(node, note);
+    for (const taint of taints) {
+      this.reach(taint, joinSteps(taint.steps, [step]), site);
+    }
+  }
+
+  /**
+   * Graph API data reaching a sink is a finding; a parameter reaching one
+   * becomes part of its function's summary
+   */
+  private reach(taint: Taint, steps: DataFlowStep[], site: SinkSite): void {
+    if (taint.origin === 'source') {
+      this.context.report(steps, site);
+      return;
+    }
+
+    const { fn, param } = taint.origin;
+    const { file, line, column } = site.location;
+    const existing = fn.sinks.findIndex(s =>
+      s.param === param && s.site.kind === site.kind &&
+      s.site.location.file === file && s.site.location.line === line && s.site.location.column === column
+    );
+    if (existing < 0) {
+      fn.sinks.push({ param, steps, site });
+      fn.version++;
+    } else if (fn.sinks[existing].steps.length > steps.length) {
+      fn.sinks[existing] = { param, steps, site };
+      fn.version++;
+    }
+  }
+
+  private addReturn(value: Value): void {
+    const frame = this.frame;
+    if (!frame) return;
+
+    const merged = mergeTaints(frame.returns, value.taints);
+    if (merged !== frame.returns) {
+      frame.returns = merged;
+      frame.version++;
+    }
+    if (value.fn || value.members || value.http || value.graph || value.sdk || value.source) {
+      frame.shape = { ...value, taints: [] };
+    }
+  }
+
+  private bindImports(node: SyntaxNode): void {
+    const source = node.childForFieldName('source');
+    if (!source) return;
+
+    const module = this.moduleValue(stringText(source));
+    const clause = node.namedChildren.find(child => child.type === 'import_clause');
+    for (const part of clause?.namedChildren || []) {
+      if (part.type === 'identifier') {
+        this.scope.declare(part.text, module.members?.get('default') ?? module);
+      } else if (part.type === 'namespace_import' && part.namedChildren[0]) {
+        this.scope.declare(part.namedChildren[0].text, module);
+      } else if (part.type === 'named_imports') {
+        for (const specifier of part.namedChildren) {
+          const imported = specifier.childForFieldName('name')?.text;
+          if (specifier.type !== 'import_specifier' || !imported) continue;
+          this.scope.declare(specifier.childForFieldName('alias')?.text || imported, member(module, imported));
+        }
+      }
+    }
+  }
+
+  private exportStatement(node: SyntaxNode): void {
+    const declaration = node.childForFieldName('declaration');
+    if (declaration) {
+      this.evaluate(declaration);
+      const names = declaredNames(declaration);
+      for (const name of names) this.exports.set(name, this.lookup(name));
+      if (names[0] && node.children.some(child => child.type === 'default')) {
+        this.exports.set('default', this.lookup(names[0]));
+      }
+      return;
+    }
+
+    const value = node.childForFieldName('value');
+    if (value) {
+      this.exports.set('default', FUNCTION_NODES.has(value.type) ? this.analyzeFunction(value, 'default export') : this.evaluate(value));
+      return;
+    }
+
+    const source = node.childForFieldName('source');
+    const module = source ? this.moduleValue(stringText(source)) : undefined;
+    const clause = node.namedChildren.find(child => child.type === 'export_clause');
+    const namespace = node.namedChildren.find(child => child.type === 'namespace_export');
+
+    if (clause) {
+      for (const specifier of clause.namedChildren) {
+        const name = specifier.childForFieldName('name')?.text;
+        if (specifier.type !== 'export_specifier' || !name) continue;
+        const alias = specifier.childForFieldName('alias')?.text || name;
+        this.exports.set(alias, module ? member(module, name) : this.lookup(name));
+      }
+    } else if (namespace?.namedChildren[0] && module) {
+      this.exports.set(namespace.namedChildren[0].text, module);
+    } else if (module) {
+      // export * from './module'
+      module.members?.forEach((exported, name) => {
+        if (name !== 'default') this.exports.set(name, exported);
+      });
+    }
+  }
+
+  /**
+   * Value of an imported module: analyzed project files, Graph API
+   * clients and the business SDK
+   */
+  private moduleValue(specifier: string): Value {
+    if (specifier === BUSINESS_SDK || specifier.startsWith(`${BUSINESS_SDK}/`)) {
+      return { taints: [], sdk: { kind: 'module', name: BUSINESS_SDK } };
+    }
+    if (specifier === 'fb') {
+      const client: Value = { taints: [], graph: FB_CLIENT };
+      return { ...client, members: new Map([['FB', client], ['default', client]]) };
+    }
+    if (specifier === 'fbgraph') {
+      return { taints: [], graph: FBGRAPH_CLIENT };
+    }
+
+    const path = this.context.index.resolveImport(this.file.path, specifier);
+    const exports = path ? this.context.exports.get(path) : undefined;
+    if (!exports) return EMPTY;
+
+    // CommonJS modules can export a function or object as a whole
+    const main = exports.get('default');
+    return { ...main, taints: main?.taints || [], members: exports };
+  }
+
+  private sourceValue(node: SyntaxNode, label: string): Value {
+    return { taints: [{ origin: 'source', steps: [this.step(node, `Graph API response of ${label}`)] }] };
+  }
+
+  private summaryFor(node: SyntaxNode, name: string): FunctionSummary {
+    let summary = this.summaries.get(node.startIndex);
+    if (!summary) {
+      summary = newSummary(name);
+      this.summaries.set(node.startIndex, summary);
+    }
+    return summary;
+  }
+
+  private step(node: SyntaxNode, note: string): DataFlowStep {
+    return {
+      file: this.file.path,
+      line: node.startPosition.row + 1,
+      column: node.startPosition.column,
+      note,
+    };
+  }
+
+  private location(node: SyntaxNode): FindingLocation {
+    return {
+      file: this.file.path,
+      line: node.startPosition.row + 1,
+      column: node.startPosition.column,
+      endLine: node.endPosition.row + 1,
+      endColumn: node.endPosition.column,
+      codeSnippet: (this.lines[node.startPosition.row] || '').trim(),
+    };
+  }
+}
+
+const SINK_NOTES: Record<Exclude<SinkKind, 'third-party'>, (label: string) => string> = {
+  logging: label => `logged by ${label}()`,
+  analytics: label => `sent to analytics by ${label}()`,
+  storage: label => `stored by ${label}()`,
+};
+
+function newSummary(name: string): FunctionSummary {
+  return { name, params: [], returns: [], sinks: [], version: 0 };
+}
+
+/**
+ * Property of a value: exports and object members are known exactly, SDK
+ * objects and Graph API clients expose their read methods, anything else
+ * keeps the taint of the whole value
+ */
+function member(value: Value, name: string): Value {
+  const known = value.members?.get(name);
+  if (known) return known;
+
+  if (value.sdk?.kind === 'module') {
+    return SDK_DATA_CLASSES.has(name) ? { taints: [], sdk: { kind: 'class', name } } : EMPTY;
+  }
+  if (value.sdk?.kind === 'object' && /^(get|read)/.test(name)) {
+    return { taints: [], source: { label: `${value.sdk.name}.${name}` } };
+  }
+  if (value.graph?.methods.has(name)) {
+    return { taints: [], source: { label: `${value.graph.name}.${name}`, callbackParam: value.graph.callbackParam } };
+  }
+  if (value.http && HTTP_METHODS.test(name)) {
+    return { taints: [], http: value.http };
+  }
+  return value.taints.length > 0 ? { taints: value.taints } : EMPTY;
+}
+
+/**
+ * URL of an HTTP client call, or undefined when the call isn't one
+ */
+function httpRequest(fn: Value, label: string, args: Value[]): { url?: string } | undefined {
+  const first = args[0];
+  if (fn.http) {
+    return { url: joinUrl(fn.http.baseUrl, first?.text) };
+  }
+
+  const segments = label.split('.');
+  const isClient = segments.length === 1
+    ? HTTP_FUNCTIONS.test(segments[0])
+    : segments.length === 2 && HTTP_OBJECTS.test(segments[0]) && HTTP_METHODS.test(segments[1]);
+  if (!isClient) return undefined;
+
+  // fetch(url), axios.get(url), axios({ url })
+  const config = first?.members;
+  return { url: first?.text ?? joinUrl(config?.get('baseURL')?.text, config?.get('url')?.text) };
+}
+
+function joinUrl(base?: string, path?: string): string | undefined {
+  if (!base || (path && /^https?:/i.test(path))) return path;
+  return `${base.replace(/\/+$/, '')}/${(path || '').replace(/^\/+/, '')}`;
+}
+
+/**
+ * Host of a URL outside Meta and the local machine
+ */
+function thirdPartyHost(url?: string): string | undefined {
+  const host = url?.match(/^(?:https?:)?\/\/([^/?#:]+)/i)?.[1];
+  if (!host || host.includes('${') || META_HOST.test(host) || LOCAL_HOST.test(host)) return undefined;
+  return host;
+}
+
+function sinkKind(label: string, args: Value[], receiver?: Value): Exclude<SinkKind, 'third-party'> | undefined {
+  const segments = label.replace(/\(\)/g, '').split('.');
+  const method = segments[segments.length - 1];
+  const path = segments.slice(0, -1);
+  const owner = path[path.length - 1];
+
+  if (owner && LOG_RECEIVER.test(owner) && LOG_METHODS.has(method)) return 'logging';
+
+  if (ANALYTICS_FUNCTIONS.test(label) || (ANALYTICS_METHODS.has(method) && path.some(s => ANALYTICS_RECEIVERS.has(s)))) {
+    return 'analytics';
+  }
+
+  if (BROWSER_STORAGE.test(label)) return 'storage';
+  if (FILE_WRITES.has(method) && (!owner || FS_RECEIVER.test(owner))) return 'storage';
+  if (SQL_METHODS.has(method) && SQL_WRITE.test(args[0]?.text || '')) return 'storage';
+  if (DB_WRITE_METHODS.has(method) && path.some(s => DB_RECEIVER.test(s))) return 'storage';
+  if (MODEL_WRITE_METHODS.has(method) && path.length === 1 && /^[A-Z]/.test(path[0])) return 'storage';
+  if (method === 'save' && receiver && receiver.taints.length > 0) return 'storage';
+
+  return undefined;
+}
+
+/**
+ * Callee as written, without `this.`/`window.`, whitespace and call arguments
+ * (`db.collection("users").insertOne` becomes `db.collection().insertOne`)
+ */
+function calleeLabel(callee: SyntaxNode): string {
+  let label = callee.text.replace(/\s+/g, '').replace(/\?\./g, '.');
+  for (let previous = ''; previous !== label;) {
+    previous = label;
+    label = label.replace(/\([^()]*\)/g, '()');
+  }
+  return label.replace(/^(this|window|globalThis)\./, '').substring(0, 80);
+}
+
+function rootIdentifier(node: SyntaxNode): string | undefined {
+  let current: SyntaxNode | null = node;
+  while (current && (current.type === 'member_expression' || current.type === 'subscript_expression')) {
+    current = current.childForFieldName('object');
+  }
+  return current?.type === 'identifier' ? current.text : undefined;
+}
+
+function withStep(value: Value, step: DataFlowStep): Value {
+  if (value.taints.length === 0) return value;
+  return { ...value, taints: value.taints.map(t => ({ origin: t.origin, steps: joinSteps(t.steps, [step]) })) };
+}
+
+function joinSteps(...parts: DataFlowStep[][]): DataFlowStep[] {
+  const steps = parts.flat();
+  return steps.length > MAX_STEPS ? [...steps.slice(0, MAX_STEPS - 1), steps[steps.length - 1]] : steps;
+}
+
+/**
+ * Union of taints, one per origin (keeping the shortest path). Returns
+ * `into` itself when nothing changed.
+ */
+function mergeTaints(into: Taint[], taints: Taint[]): Taint[] {
+  let merged = into;
+  for (const taint of taints) {
+    const i = merged.findIndex(t => sameOrigin(t, taint));
+    if (i >= 0) {
+      if (merged[i].steps.length <= taint.steps.length) continue;
+      merged = merged === into ? [...into] : merged;
+      merged[i] = taint;
+    } else if (merged.length < MAX_TAINTS) {
+      merged = merged === into ? [...into, taint] : [...merged, taint];
+    }
+  }
+  return merged;
+}
+
+function mergeAll(values: Value[]): Taint[] {
+  return values.reduce<Taint[]>((taints, value) => mergeTaints(taints, value.taints), []);
+}
+
+function sameOrigin(a: Taint, b: Taint): boolean {
+  if (a.origin === 'source' || b.origin === 'source') {
+    if (a.origin !== b.origin) return false;
+    const [x, y] = [a.steps[0], b.steps[0]];
+    return x?.file === y?.file && x?.line === y?.line && x?.column === y?.column;
+  }
+  return a.origin.fn === b.origin.fn && a.origin.param === b.origin.param;
+}
+
+function stringText(node: SyntaxNode): string {
+  return node.text.slice(1, -1);
+}
+
+function propertyName(key: SyntaxNode): string {
+  return key.type === 'string' ? stringText(key) : key.text;
+}
+
+/**
+ * Names bound by a parameter or pattern
+ */
+function patternNames(node: SyntaxNode): string[] {
+  switch (node.type) {
+    case 'identifier':
+    case 'shorthand_property_identifier_pattern':
+      return [node.text];
+    case 'required_parameter':
+    case 'optional_parameter':
+    case 'assignment_pattern':
+    case 'object_assignment_pattern': {
+      const inner = node.childForFieldName('pattern') || node.childForFieldName('left');
+      return inner ? patternNames(inner) : [];
+    }
+    case 'pair_pattern': {
+      const value = node.childForFieldName('value');
+      return value ? patternNames(value) : [];
+    }
+    case 'object_pattern':
+    case 'array_pattern':
+    case 'rest_pattern':
+      return node.namedChildren.flatMap(patternNames);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Names a function, class or variable declaration introduces
+ */
+function declaredNames(declaration: SyntaxNode): string[] {
+  if (declaration.type === 'lexical_declaration' || declaration.type === 'variable_declaration') {
+    return declaration.namedChildren
+      .filter(declarator => declarator.type === 'variable_declarator')
+      .flatMap(declarator => {
+        const name = declarator.childForFieldName('name');
+        return name ? patternNames(name) : [];
+      });
+  }
+  const name = declaration.childForFieldName('name')?.text;
+  return name ? [name] : [];
+}
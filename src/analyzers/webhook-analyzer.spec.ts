@@ -0,0 +1,77 @@
+import { WebhookAnalyzer } from './webhook-analyzer';
+import { analyze } from '../test-utils/analyzers';
+import { Violation } from '../types';
+
+const analyzer = new WebhookAnalyzer();
+
+const codes = (violations: Violation[]) => violations.map(v => v.ruleCode).sort();
+
+describe('WebhookAnalyzer', () => {
+  it('reports every missing verification step of an Express webhook', async () => {
+    const violations = await analyze(analyzer, {
+      'server.js': [
+        "const express = require('express');",
+        'const app = express();',
+        'app.use(express.json());',
+        '',
+        "app.post('/webhook', async (req, res) => {",
+        '  await handleEvent(req.body);',
+        '  res.sendStatus(200);',
+        '});',
+      ].join('\n'),
+    });
+
+    expect(codes(violations)).toEqual(['WEBHOOK_NO_VERIFICATION', 'WEBHOOK_NO_VERIFY_TOKEN', 'WEBHOOK_SLOW_RESPONSE']);
+    expect(violations[0]).toMatchObject({ file: 'server.js', line: 5 });
+  });
+
+  it('flags HMACs of re-serialized bodies and plain string compares', async () => {
+    const violations = await analyze(analyzer, {
+      'server.js': [
+        "const crypto = require('crypto');",
+        "app.get('/webhook', (req, res) => {",
+        "  if (req.query['hub.verify_token'] === process.env.VERIFY_TOKEN) res.send(req.query['hub.challenge']);",
+        '});',
+        "app.post('/webhook', (req, res) => {",
+        "  const signature = req.headers['x-hub-signature-256'];",
+        "  const expected = 'sha256=' + crypto.createHmac('sha256', secret).update(JSON.stringify(req.body)).digest('hex');",
+        '  if (signature !== expected) return res.sendStatus(403);',
+        '  res.sendStatus(200);',
+        '  queue.add(req.body);',
+        '});',
+      ].join('\n'),
+    });
+
+    expect(codes(violations)).toEqual(['WEBHOOK_SIGNATURE_PARSED_BODY', 'WEBHOOK_TIMING_UNSAFE_COMPARE']);
+  });
+
+  it('accepts a webhook that verifies, validates the raw body and responds first', async () => {
+    const violations = await analyze(analyzer, {
+      'server.js': [
+        "const crypto = require('crypto');",
+        "app.use(express.json({ verify: (req, res, buf) => { req.rawBody = buf; } }));",
+        "app.get('/webhook', (req, res) => {",
+        "  if (req.query['hub.verify_token'] === process.env.VERIFY_TOKEN) return res.send(req.query['hub.challenge']);",
+        '  res.sendStatus(403);',
+        '});',
+        "app.post('/webhook', (req, res) => {",
+        "  const signature = req.headers['x-hub-signature-256'] || '';",
+        "  const expected = 'sha256=' + crypto.createHmac('sha256', secret).update(req.rawBody).digest('hex');",
+        '  if (!crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) return res.sendStatus(403);',
+        '  res.sendStatus(200);',
+        '  queue.add(req.body);',
+        '});',
+      ].join('\n'),
+    });
+
+    expect(violations).toEqual([]);
+  });
+
+  it('ignores routes that are not webhooks', async () => {
+    const violations = await analyze(analyzer, {
+      'server.js': "app.post('/api/orders', async (req, res) => { await save(req.body); res.json({ ok: true }); });",
+    });
+
+    expect(violations).toEqual([]);
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * Webhook Analyzer
+ *
+ * Finds webhook endpoints (Express, Fastify, Next.js API routes, Flask,
+ * FastAPI, Django and Laravel) and checks each step Meta expects of them:
+ * answering the hub.verify_token challenge, validating X-Hub-Signature-256
+ * with an HMAC of the raw body and a timing-safe compare, and responding
+ * before doing slow work. Every missing step is a separate finding at the
+ * handler.
+ *
+ * Handlers are found with per-framework patterns; the checks look at the
+ * handler, the functions it names (middleware, controllers) and the rest
+ * of its file and imports, where verification middleware usually lives.
+ */
+
+import { CodebaseFile, CodebaseIndexer } from '../scanner/codebase-indexer';
+import { Violation } from '../types';
+import { AnalyzerContext, createFinding, ProjectAnalyzer } from './analyzer';
+import { blockEnd, escapeRegExp, indentedBlockEnd, languageOf, Language, position, stripComments } from './code-blocks';
+
+const WEBHOOK_ROUTE = /webhook|(^|\/)hooks?(\/|$)|(^|\/)(messenger|instagram|whatsapp|facebook|meta)[-_]?(callback|events?)(\/|$)/i;
+
+const EXPRESS_ROUTE = /\b([A-Za-z_$][\w$]*)\.(get|post|all|use|route)\s*\(\s*(['"`])([^'"`\n]*)\3/g;
+const FASTIFY_ROUTE_OBJECT = /\b([A-Za-z_$][\w$]*)\.route\s*\(\s*\{/g;
+const NEXT_ROUTE_FILE = /(^|\/)(pages\/api\/|app\/(.*\/)?api\/|app\/(.*\/)?webhooks?\/)(.*\/)?[^/]*$/;
+const NEXT_HANDLER = /^export\s+(?:default\s+(?:async\s+)?function\b[^(]*|(?:async\s+)?function\s+(GET|POST|PUT)\b|const\s+(GET|POST|PUT)\s*=)/gm;
+const NEXT_DEFAULT_EXPORT = /^export\s+default\s+([A-Za-z_$][\w$]*)\s*;?\s*$/m;
+const FLASK_ROUTE = /^([ \t]*)@\w+(?:\.\w+)*\.(route|get|post|api_route)\(\s*(?:path\s*=\s*)?[rf]?(['"])([^'"\n]*)\3([^\n]*)\n/gm;
+const DJANGO_ROUTE = /\b(?:path|re_path|url)\(\s*r?(['"])([^'"\n]*)\1\s*,\s*([\w.]+)/g;
+const LARAVEL_ROUTE = /\bRoute::(get|post|match|any)\(\s*(?:\[[^\]]*\]\s*,\s*)?(['"])([^'"\n]*)\2\s*,/g;
+
+/** Verification request handling (`hub.verify_token`, PHP's `hub_verify_token`) */
+const VERIFY_TOKEN = /hub[._](verify_token|challenge)/i;
+const SIGNATURE_HEADER = /x[-_]hub[-_]signature/i;
+const SIGNATURE_256 = /x[-_]hub[-_]signature[-_]256/i;
+const HMAC = /createHmac|\bhmac\.(new|HMAC)\b|hash_hmac|\bHMAC\b|crypto\.subtle\.(sign|verify)/;
+const TIMING_SAFE = /timingSafeEqual|compare_digest|hash_equals|constant_time_compare|safe-compare|tsscmp|safeCompare|secureCompare|constantTimeEqual/i;
+/** HMACs of re-serialized bodies, which never match Meta's signature byte for byte */
+const PARSED_BODY_HMAC = /JSON\.stringify\(\s*(req|request|ctx\.request)\.body\s*\)|json\.dumps\(\s*(request\.(json|get_json\(\))|data|payload|body)\b|json_encode\(\s*\$request->(all|input|json)\(/;
+const RAW_BODY: Record<Language, RegExp> = {
+  javascript: /rawBody|raw_body|express\.raw|bodyParser\.raw|\bverify\s*:|\.text\(\)|arrayBuffer\(\)|getRawBody|raw-body|bodyParser\s*:\s*false|\bbuffer\(\s*req\b|addContentTypeParser|rawBodyPlugin/,
+  python: /get_data\(|request\.data\b|request\.body\b|await\s+request\.body\(\)|raw_body/,
+  php: /getContent\(\)|php:\/\/input|raw_body|rawBody/,
+};
+
+/** Work that delays the 200 response */
+const SLOW_WORK: Record<Language, RegExp> = {
+  javascript: /\bawait\b|\bfetch\(|\baxios\b|\bgot\(|\brequest\(|\.then\(|\bsleep\(|callSendAPI|sendMessage|graph\.facebook\.com/,
+  python: /\brequests\.|\bhttpx\.|urlopen\(|time\.sleep\(|\bawait\b|\.save\(\)|\.objects\.(create|update|get_or_create)|send_message|graph\.facebook\.com/,
+  php: /Http::|curl_exec|->(post|get|request)\(|\bsleep\(|->save\(\)|::create\(|sendMessage|graph\.facebook\.com/,
+};
+/** Reading the request, or handing work to a queue, is fine before responding */
+const FAST_WORK = /\b(req|request)\.(text|json|arrayBuffer|body|formData)\(|get_data\(|get_json\(|queue|enqueue|publish|dispatch|setImmediate|nextTick|waitUntil|\.delay\(|apply_async|background_tasks|BackgroundTasks|add_task/i;
+const RESPONSE: Record<Language, RegExp> = {
+  javascript: /\b(res|response)\.(sendStatus|send|status|json|end|writeHead)\b|\breply\.(send|code|status)\b|\breturn\s+(new\s+)?(Response|NextResponse)\b|\bctx\.(body|status)\s*=|\breturn\s+c\.(text|json|body)\b/,
+  python: /\breturn\b/,
+  php: /\breturn\b|\bresponse\(\)/,
+};
+
+/** Responses that reject the request */
+const REJECTION = /\b[45]\d\d\b|abort\(|forbidden|unauthori[sz]ed|HttpResponseForbidden|HttpResponseBadRequest/i;
+
+interface Handler {
+  file: CodebaseFile;
+  language: Language;
+  framework: string;
+  route: string;
+  /** HTTP method, or undefined when the handler takes any */
+  method?: string;
+  /** Offset of the route registration (where findings are reported) */
+  start: number;
+  /** Code of the handler and the functions it names, comments blanked */
+  code: string;
+  /** Files the handler's functions live in */
+  files: CodebaseFile[];
+}
+
+interface Endpoint {
+  key: string;
+  handlers: Handler[];
+}
+
+export class WebhookAnalyzer implements ProjectAnalyzer {
+  readonly name = 'webhook';
+
+  analyze({ index, rules }: AnalyzerContext): Violation[] {
+    const code = new Map<string, string>();
+    const codeOf = (file: CodebaseFile) => {
+      let text = code.get(file.path);
+      if (text === undefined) {
+        text = stripComments(file);
+        code.set(file.path, text);
+      }
+      return text;
+    };
+    const finder = new HandlerFinder(index, codeOf);
+
+    // GET (verification) and POST (events) handlers of one path belong together
+    const endpoints = new Map<string, Endpoint>();
+    for (const file of index.getFiles()) {
+      if (!languageOf(file.path)) continue;
+      for (const handler of finder.find(file)) {
+        const key = `${handler.file.path}:${handler.route}`;
+        const endpoint = endpoints.get(key) || { key, handlers: [] };
+        endpoint.handlers.push(handler);
+        endpoints.set(key, endpoint);
+      }
+    }
+
+    const violations: Violation[] = [];
+    const report = (code: string, handler: Handler, message: string) => {
+      const rule = rules.get(code);
+      if (!rule) return;
+
+      const { line, column } = position(handler.file.content, handler.start);
+      violations.push(createFinding(rule, {
+        file: handler.file.path,
+        line,
+        column,
+        codeSnippet: (handler.file.content.split('\n')[line - 1] || '').trim(),
+      }, message));
+    };
+
+    for (const { handlers } of endpoints.values()) {
+      const first = handlers[0];
+      const events = handlers.find(h => h.method !== 'GET');
+      const name = `${first.framework} webhook ${first.route}`;
+
+      // Evidence anywhere in the handlers' files and their imports counts:
+      // verification middleware rarely lives in the route itself
+      const scope = new Set<CodebaseFile>();
+      for (const handler of handlers) {
+        for (const file of handler.files) {
+          scope.add(file);
+          for (const dependency of index.findDependencies(file.path)) {
+            const imported = index.getFile(dependency);
+            if (imported) scope.add(imported);
+          }
+        }
+      }
+      const evidence = [...handlers.map(h => h.code), ...[...scope].map(codeOf)].join('\n');
+
+      if (!VERIFY_TOKEN.test(evidence)) {
+        report('WEBHOOK_NO_VERIFY_TOKEN', handlers.find(h => h.method !== 'POST') || first,
+          `${name} never answers the hub.verify_token challenge, so the subscription can't be verified (or is verified for anyone)`);
+      }
+
+      if (!events) continue;
+
+      for (const step of missingSignatureSteps(evidence, events.language)) {
+        report(step.code, events, `${name} ${step.message}`);
+      }
+
+      for (const handler of handlers.filter(h => h.method !== 'GET')) {
+        const work = slowWorkBeforeResponse(handler);
+        if (work) {
+          report('WEBHOOK_SLOW_RESPONSE', handler,
+            `${name} runs \`${work}\` before responding; Meta retries and eventually disables webhooks that don't answer 200 OK quickly`);
+        }
+      }
+    }
+
+    return violations;
+  }
+}
+
+/**
+ * Route registrations per framework, with the code of their handlers
+ */
+class HandlerFinder {
+  constructor(private index: CodebaseIndexer, private codeOf: (file: CodebaseFile) => string) {}
+
+  find(file: CodebaseFile): Handler[] {
+    const language = languageOf(file.path);
+    const code = this.codeOf(file);
+    switch (language) {
+      case 'javascript':
+        return [...this.expressRoutes(file, code), ...this.nextRoutes(file, code)];
+      case 'python':
+        return [...this.flaskRoutes(file, code), ...this.djangoRoutes(file, code)];
+      case 'php':
+        return this.laravelRoutes(file, code);
+      default:
+        return [];
+    }
+  }
+
+  private expressRoutes(file: CodebaseFile, code: string): Handler[] {
+    const handlers: Handler[] = [];
+
+    for (const match of code.matchAll(EXPRESS_ROUTE)) {
+      const [, receiver, verb, , route] = match;
+      if (!WEBHOOK_ROUTE.test(route)) continue;
+
+      const start = match.index!;
+      let end = blockEnd(code, start);
+      // router.route('/webhook').get(verify).post(receive)
+      if (verb === 'route') {
+        for (let chained = /^\s*\.\w+\s*\(/.exec(code.slice(end)); chained; chained = /^\s*\.\w+\s*\(/.exec(code.slice(end))) {
+          end = blockEnd(code, end + chained[0].length - 1);
+        }
+      }
+
+      handlers.push(this.jsHandler(file, code, start, end, {
+        framework: /fastify/i.test(receiver) ? 'Fastify' : 'Express',
+        route,
+        method: verb === 'get' || verb === 'post' ? verb.toUpperCase() : undefined,
+      }));
+    }
+
+    // fastify.route({ method: 'POST', url: '/webhook', handler })
+    for (const match of code.matchAll(FASTIFY_ROUTE_OBJECT)) {
+      const start = match.index!;
+      const end = blockEnd(code, start);
+      const options = code.slice(start, end);
+      const route = options.match(/\burl\s*:\s*(['"`])([^'"`\n]*)\1/)?.[2];
+      if (!route || !WEBHOOK_ROUTE.test(route)) continue;
+
+      const methods = options.match(/\bmethod\s*:\s*(?:\[([^\]]*)\]|(['"`])(\w+)\2)/);
+      const method = methods?.[3]?.toUpperCase() ?? (methods?.[1] && !/GET/i.test(methods[1]) ? 'POST' : undefined);
+      handlers.push(this.jsHandler(file, code, start, end, { framework: 'Fastify', route, method }));
+    }
+
+    return handlers;
+  }
+
+  /**
+   * Next.js API routes: pages/api/webhook.ts or app/api/webhook/route.ts
+   */
+  private nextRoutes(file: CodebaseFile, code: string): Handler[] {
+    const route = '/' + file.path.replace(/^(.*\/)?(pages|app)\//, '').replace(/(\/route|\/index)?\.\w+$/, '');
+    if (!NEXT_ROUTE_FILE.test(file.path) || !WEBHOOK_ROUTE.test(route)) return [];
+
+    const handlers: Handler[] = [];
+    for (const match of code.matchAll(NEXT_HANDLER)) {
+      const start = match.index!;
+      handlers.push(this.jsHandler(file, code, start, blockEnd(code, start), {
+        framework: 'Next.js',
+        route,
+        method: match[1] || match[2],
+      }));
+    }
+
+    // export default handler;
+    const exported = code.match(NEXT_DEFAULT_EXPORT);
+    if (handlers.length === 0 && exported) {
+      const start = exported.index!;
+      handlers.push(this.jsHandler(file, code, start, start + exported[0].length, { framework: 'Next.js', route }));
+    }
+    return handlers;
+  }
+
+  private flaskRoutes(file: CodebaseFile, code: string): Handler[] {
+    const handlers: Handler[] = [];
+
+    for (const match of code.matchAll(FLASK_ROUTE)) {
+      const [decorator, , verb, , route, rest] = match;
+      if (!WEBHOOK_ROUTE.test(route)) continue;
+
+      const start = match.index! + decorator.length - decorator.trimStart().length;
+      const def = /^[ \t]*(?:@[^\n]*\n[ \t]*)*(?:async\s+)?def\s/.exec(code.slice(match.index! + decorator.length));
+      const bodyStart = def ? match.index! + decorator.length + def[0].length : start;
+      const methods = verb === 'get' || verb === 'post' ? [verb.toUpperCase()] : rest.match(/['"](GET|POST)['"]/gi) || [];
+
+      handlers.push(this.handler(file, code, start, indentedBlockEnd(code, bodyStart), {
+        framework: /fastapi|APIRouter/.test(code) ? 'FastAPI' : 'Flask',
+        route,
+        method: methods.length === 1 ? methods[0].replace(/['"]/g, '').toUpperCase() : undefined,
+      }, 'python'));
+    }
+
+    return handlers;
+  }
+
+  /**
+   * path('webhook/', views.webhook) in urls.py, with the view resolved
+   * anywhere in the project
+   */
+  private djangoRoutes(file: CodebaseFile, code: string): Handler[] {
+    if (!/urlpatterns/.test(code)) return [];
+
+    const handlers: Handler[] = [];
+    for (const match of code.matchAll(DJANGO_ROUTE)) {
+      const [, , route, view] = match;
+      if (!WEBHOOK_ROUTE.test(route)) continue;
+
+      const start = match.index!;
+      const handler = this.handler(file, code, start, blockEnd(code, start), { framework: 'Django', route }, 'python');
+      const name = view.split('.').pop()!;
+      for (const file of this.index.getFiles()) {
+        if (!file.path.endsWith('.py')) continue;
+        const source = this.codeOf(file);
+        const definition = new RegExp(`^[ \\t]*(?:async\\s+)?(?:def|class)\\s+${escapeRegExp(name)}\\b`, 'm').exec(source);
+        if (!definition) continue;
+        handler.code += '\n' + source.slice(definition.index, indentedBlockEnd(source, definition.index));
+        handler.files.push(file);
+        break;
+      }
+      handlers.push(handler);
+    }
+    return handlers;
+  }
+
+  /**
+   * Route::post('/webhook', ...) with a closure or a controller method
+   */
+  private laravelRoutes(file: CodebaseFile, code: string): Handler[] {
+    const handlers: Handler[] = [];
+
+    for (const match of code.matchAll(LARAVEL_ROUTE)) {
+      const [, verb, , route] = match;
+      if (!WEBHOOK_ROUTE.test(route)) continue;
+
+      const start = match.index!;
+      const end = blockEnd(code, start);
+      const handler = this.handler(file, code, start, end, {
+        framework: 'Laravel',
+        route,
+        method: verb === 'get' || verb === 'post' ? verb.toUpperCase() : undefined,
+      }, 'php');
+
+      // [WebhookController::class, 'handle'] or 'WebhookController@handle'
+      const registration = code.slice(start, end);
+      const target = registration.match(/(\w+)::class\s*,\s*['"](\w+)['"]/) || registration.match(/['"](\w+)@(\w+)['"]/);
+      const controller = target ? this.index.getFiles().find(f => new RegExp(`\\bclass\\s+${target[1]}\\b`).test(f.content)) : undefined;
+      if (target && controller) {
+        const source = this.codeOf(controller);
+        const method = new RegExp(`function\\s+${target[2]}\\s*\\(`).exec(source);
+        handler.code += '\n' + (method ? source.slice(method.index, blockEnd(source, method.index)) : source);
+        handler.files.push(controller);
+      }
+      handlers.push(handler);
+    }
+
+    return handlers;
+  }
+
+  /**
+   * Handler whose arguments may name functions (middleware, controllers)
+   * defined in the same file or an imported one
+   */
+  private jsHandler(
+    file: CodebaseFile,
+    code: string,
+    start: number,
+    end: number,
+    route: Pick<Handler, 'framework' | 'route' | 'method'>
+  ): Handler {
+    const handler = this.handler(file, code, start, end, route, 'javascript');
+    const registration = code.slice(start, end);
+    const candidates = [file, ...this.index.findDependencies(file.path).map(p => this.index.getFile(p))]
+      .filter((f): f is CodebaseFile => !!f);
+
+    const names = new Set<string>();
+    for (const arg of topLevelArguments(registration)) {
+      const name = arg.match(/^(?:[\w$]+\.)*([A-Za-z_$][\w$]*)$/)?.[1];
+      if (name && !/^(async|function|true|false|null|undefined)$/.test(name)) names.add(name);
+    }
+    // export default handler
+    const exported = registration.match(/^export\s+default\s+([A-Za-z_$][\w$]*)\s*;?\s*$/)?.[1];
+    if (exported) names.add(exported);
+
+    for (const name of names) {
+      const definition = new RegExp(
+        `(?:function\\s*\\*?\\s*${escapeRegExp(name)}\\s*\\(|(?:const|let|var)\\s+${escapeRegExp(name)}\\s*=|^[ \\t]*(?:async\\s+)?${escapeRegExp(name)}\\s*\\([^)\\n]*\\)\\s*[:{]|\\b${escapeRegExp(name)}\\s*:\\s*(?:async\\s*)?(?:function|\\())`,
+        'm'
+      );
+      for (const candidate of candidates) {
+        const source = this.codeOf(candidate);
+        const found = definition.exec(source);
+        if (!found) continue;
+        handler.code += '\n' + source.slice(found.index, blockEnd(source, found.index));
+        if (!handler.files.includes(candidate)) handler.files.push(candidate);
+        break;
+      }
+    }
+
+    return handler;
+  }
+
+  private handler(
+    file: CodebaseFile,
+    code: string,
+    start: number,
+    end: number,
+    route: Pick<Handler, 'framework' | 'route' | 'method'>,
+    language: Language
+  ): Handler {
+    return { ...route, file, language, start, code: code.slice(start, end), files: [file] };
+  }
+}
+
+/**
+ * Signature validation steps the code is missing. Without the header or an
+ * HMAC there is nothing to check further.
+ */
+function missingSignatureSteps(evidence: string, language: Language): Array<{ code: string; message: string }> {
+  if (!SIGNATURE_HEADER.test(evidence)) {
+    return [{ code: 'WEBHOOK_NO_VERIFICATION', message: 'accepts events without checking the X-Hub-Signature-256 header' }];
+  }
+  if (!HMAC.test(evidence)) {
+    return [{ code: 'WEBHOOK_NO_VERIFICATION', message: 'reads the signature header but never computes an HMAC with the app secret' }];
+  }
+
+  const missing: Array<{ code: string; message: string }> = [];
+  if (!SIGNATURE_256.test(evidence)) {
+    missing.push({ code: 'WEBHOOK_NO_VERIFICATION', message: 'only checks the SHA-1 X-Hub-Signature header; verify X-Hub-Signature-256' });
+  }
+  if (PARSED_BODY_HMAC.test(evidence) || !RAW_BODY[language].test(evidence)) {
+    missing.push({ code: 'WEBHOOK_SIGNATURE_PARSED_BODY', message: 'computes the signature HMAC over the parsed body instead of the raw request bytes' });
+  }
+  if (!TIMING_SAFE.test(evidence)) {
+    missing.push({ code: 'WEBHOOK_TIMING_UNSAFE_COMPARE', message: 'compares signatures with a regular string comparison' });
+  }
+  return missing;
+}
+
+/**
+ * First slow call of a handler that comes before its success response
+ * (rejections and the verification challenge don't count)
+ */
+function slowWorkBeforeResponse(handler: Handler): string | undefined {
+  const lines = handler.code.split('\n');
+  const response = lines.findIndex(line =>
+    RESPONSE[handler.language].test(line) && !REJECTION.test(line) && !VERIFY_TOKEN.test(line)
+  );
+  if (response < 0) return undefined;
+
+  // The first line is the route registration itself
+  for (const line of lines.slice(1, response + 1)) {
+    const beforeResponse = line.split(RESPONSE[handler.language])[0];
+    const slow = beforeResponse.match(SLOW_WORK[handler.language]);
+    if (slow && !FAST_WORK.test(beforeResponse) && !VERIFY_TOKEN.test(beforeResponse) && !HMAC.test(beforeResponse)) {
+      const statement = beforeResponse.trim();
+      return statement.length > 60 ? `${statement.substring(0, 57)}...` : statement;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Top-level arguments of the first call in `code`
+ */
+function topLevelArguments(code: string): string[] {
+  const open = code.indexOf('(');
+  if (open < 0) return [];
+
+  const args: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of code.slice(open + 1)) {
+    if ('([{'.includes(ch)) depth++;
+    if (')]}'.includes(ch)) {
+      if (depth === 0) break;
+      depth--;
+    }
+    if (ch === ',' && depth === 0) {
+      args.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  args.push(current.trim());
+  return args;
+}
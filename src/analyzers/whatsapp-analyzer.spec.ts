@@ -0,0 +1,75 @@
+import { WhatsAppAnalyzer } from './whatsapp-analyzer';
+import { analyze, findings } from '../test-utils/analyzers';
+
+const analyzer = new WhatsAppAnalyzer();
+
+const CONTACT_MODEL = [
+  'const contactSchema = new mongoose.Schema({',
+  '  phone: String,',
+  '  whatsapp_opt_in: Boolean,',
+  '});',
+].join('\n');
+
+describe('WhatsAppAnalyzer', () => {
+  it('reports free-form broadcasts and missing opt-in storage', async () => {
+    const violations = await analyze(analyzer, {
+      'jobs/broadcast.js': [
+        "cron.schedule('0 10 * * 1', async () => {",
+        '  for (const contact of contacts) {',
+        '    await axios.post(`https://graph.facebook.com/v21.0/${PHONE_ID}/messages`, {',
+        "      messaging_product: 'whatsapp',",
+        '      to: contact.phone,',
+        "      type: 'text',",
+        "      text: { body: 'New arrivals this week!' },",
+        '    });',
+        '  }',
+        '});',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual([
+      'WA_TEMPLATE_REQUIRED:jobs/broadcast.js:4',
+      'WA_OPT_IN_REQUIRED:jobs/broadcast.js:4',
+    ]);
+  });
+
+  it('reports templates sent without checking the stored opt-in', async () => {
+    const violations = await analyze(analyzer, {
+      'models/contact.js': CONTACT_MODEL,
+      'orders.js': [
+        'async function sendShippingUpdate(order) {',
+        '  await axios.post(MESSAGES_URL, {',
+        "    messaging_product: 'whatsapp',",
+        '    to: order.phone,',
+        "    type: 'template',",
+        "    template: { name: 'order_shipped', language: { code: 'en' } },",
+        '  });',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(findings(violations)).toEqual(['WA_OPT_IN_REQUIRED:orders.js:3']);
+    expect(violations[0].message).toContain("without checking the recipient's opt-in");
+  });
+
+  it('accepts replies to inbound messages and opted-in template sends', async () => {
+    const violations = await analyze(analyzer, {
+      'models/contact.js': CONTACT_MODEL,
+      'webhook.js': [
+        "app.post('/webhook', async (req, res) => {",
+        '  const message = req.body.entry[0].changes[0].value.messages[0];',
+        "  await axios.post(MESSAGES_URL, { messaging_product: 'whatsapp', to: message.from, type: 'text', text: { body: 'Got it' } });",
+        '  res.sendStatus(200);',
+        '});',
+      ].join('\n'),
+      'orders.js': [
+        'async function sendShippingUpdate(order, contact) {',
+        '  if (!contact.whatsapp_opt_in) return;',
+        "  await axios.post(MESSAGES_URL, { messaging_product: 'whatsapp', to: contact.phone, type: 'template', template: { name: 'order_shipped' } });",
+        '}',
+      ].join('\n'),
+    });
+
+    expect(violations).toEqual([]);
+  });
+});
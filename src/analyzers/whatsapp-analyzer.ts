@@ -0,0 +1,135 @@
+/**
+ * WhatsApp Analyzer
+ *
+ * Finds WhatsApp Cloud API sends - `/messages` payloads with
+ * `messaging_product: 'whatsapp'` and send methods of the Cloud API SDKs -
+ * and tells template messages from free-form ones (text, media,
+ * interactive). Free-form messages are only delivered inside the 24-hour
+ * customer service window, so business-initiated sends (scheduled jobs,
+ * event triggers, broadcasts) must use a template. Business-initiated
+ * messages also need the user's opt-in, stored before the first send and
+ * checked when sending.
+ */
+
+import { CodebaseFile, CodebaseIndexer } from '../scanner/codebase-indexer';
+import { Violation } from '../types';
+import { AnalyzerContext, createFinding, ProjectAnalyzer } from './analyzer';
+import { blockEnd, indexedCode, languageOf, openingBracket, position } from './code-blocks';
+import { sendContexts, WINDOW_CHECK } from './send-context';
+
+/** Every Cloud API message payload names the product */
+const MESSAGING_PRODUCT = /['"]?\bmessaging_product['"]?\s*(?::|=>|=(?!=))\s*['"]whatsapp['"]/g;
+const MESSAGE_TYPE = /['"]?\btype['"]?\s*(?::|=>|=(?!=))\s*['"](\w+)['"]/;
+const TEXT_KEY = /['"]?\btext['"]?\s*(?::|=>|=(?!=))/;
+/** Cloud API SDKs: whatsapp (Node), heyoo and pywa (Python), netflie/whatsapp-cloud-api (PHP) */
+const WHATSAPP_SDK = /['"](?:whatsapp|whatsapp-cloud-api|@great-detail\/whatsapp)['"]|\b(?:from|import)\s+(?:heyoo|pywa)\b|Netflie\\WhatsAppCloudApi/;
+const SDK_SEND = /(?:\.|->)(?:messages\s*\.\s*(\w+)|(send_?(?:text|template|message|image|video|audio|document|location|sticker|contacts|reaction|buttons?|interactive|list)\w*|send\w*(?:Message|Template)\w*))\s*\(/gi;
+
+/** Inbound message webhooks: replies there are inside the service window */
+const INBOUND = /\.entry\b|\['entry'\]|value\.messages|\['messages'\]\s*\[|\bchanges\s*\[|webhook|\bmessage\.from\b|\bmsg\.from\b|\['from'\]|\bcontext\b\s*(?::|=>|=)\s*[{[]?\s*['"]?message_id/i;
+/** Opt-in records and checks */
+const OPT_IN = /opt_?in|opted_?in|consent|whatsapp_?(?:subscribed|allowed|permission)|subscribed_?to_?whatsapp|marketing_?allowed/i;
+
+interface WhatsAppSend {
+  file: CodebaseFile;
+  offset: number;
+  template: boolean;
+  kind: string;
+}
+
+export class WhatsAppAnalyzer implements ProjectAnalyzer {
+  readonly name = 'whatsapp-messaging';
+
+  analyze({ index, rules }: AnalyzerContext): Violation[] {
+    const violations: Violation[] = [];
+    const report = (ruleCode: string, send: WhatsAppSend, message: string) => {
+      const rule = rules.get(ruleCode);
+      if (!rule) return;
+      const { line, column } = position(send.file.content, send.offset);
+      violations.push(createFinding(rule, {
+        file: send.file.path,
+        line,
+        column,
+        codeSnippet: (send.file.content.split('\n')[line - 1] || '').trim(),
+      }, message));
+    };
+
+    const code = indexedCode(index);
+    const optInStored = this.storesOptIn(index, code);
+    let optInReported = false;
+
+    for (const file of index.getFiles()) {
+      const language = languageOf(file.path);
+      if (!language) continue;
+
+      const fileCode = code(file.path);
+      const sends = findSends(file, fileCode);
+      if (sends.length === 0) continue;
+
+      const contextOf = sendContexts(file, fileCode, language);
+      const related = index.findDependencies(file.path).map(code);
+      for (const send of sends) {
+        const { scope, proactive } = contextOf(send.offset);
+        const inbound = INBOUND.test(scope);
+
+        if (!send.template && proactive && !inbound && !WINDOW_CHECK.test(scope)) {
+          report('WA_TEMPLATE_REQUIRED', send,
+            `Free-form ${send.kind} message sent ${proactive}, outside a reply to an inbound message; business-initiated messages must use an approved template`);
+        }
+
+        // Business-initiated: templates outside a reply, or any proactive send
+        if (inbound || !(send.template || proactive)) continue;
+        if (!optInStored) {
+          if (optInReported) continue;
+          optInReported = true;
+          report('WA_OPT_IN_REQUIRED', send,
+            `Business-initiated WhatsApp ${send.template ? 'template' : send.kind} message is sent, but no opt-in is stored in the database layer`);
+        } else if (!OPT_IN.test(scope) && !related.some(dep => OPT_IN.test(dep))) {
+          report('WA_OPT_IN_REQUIRED', send,
+            `Business-initiated WhatsApp ${send.template ? 'template' : send.kind} message is sent without checking the recipient's opt-in`);
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Whether a database layer (model, schema, migration) records opt-in
+   */
+  private storesOptIn(index: CodebaseIndexer, code: (path: string) => string): boolean {
+    return index.findPatternUsage('database', { maxResults: Infinity })
+      .some(usage => OPT_IN.test(code(usage.file)));
+  }
+}
+
+/**
+ * Cloud API payload literals and SDK send calls of a file
+ */
+function findSends(file: CodebaseFile, code: string): WhatsAppSend[] {
+  const sends: WhatsAppSend[] = [];
+  const payloads: Array<[number, number]> = [];
+
+  for (const match of code.matchAll(MESSAGING_PRODUCT)) {
+    const start = openingBracket(code, match.index!);
+    if (start < 0 || payloads.some(([from]) => from === start)) continue;
+    const end = blockEnd(code, start);
+    payloads.push([start, end]);
+
+    const payload = code.slice(start, end);
+    const kind = payload.match(MESSAGE_TYPE)?.[1] || (TEXT_KEY.test(payload) ? 'text' : undefined);
+    if (!kind) continue;
+    sends.push({ file, offset: match.index!, template: kind === 'template', kind });
+  }
+
+  if (WHATSAPP_SDK.test(code)) {
+    for (const match of code.matchAll(SDK_SEND)) {
+      if (payloads.some(([start, end]) => match.index! > start && match.index! < end)) continue;
+      const method = (match[1] || match[2]).toLowerCase();
+      const kind = method.replace(/^send_?|_?message$/g, '') || 'text';
+      sends.push({ file, offset: match.index! + 1, template: method.includes('template'), kind });
+    }
+  }
+
+  return sends.sort((a, b) => a.offset - b.offset);
+}
@@ -2,28 +2,19 @@
 
 import { Command } from 'commander';
 import { config } from 'dotenv';
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync } from 'fs';
 import { join } from 'path';
 
 // Load environment variables
 config();
 
-// Load local config if exists
-const configPath = join(process.cwd(), 'meta-scan.config.json');
-if (existsSync(configPath)) {
-  try {
-    JSON.parse(readFileSync(configPath, 'utf-8'));
-    // Config loaded - could apply defaults here in future
-  } catch {
-    // Ignore config parse errors
-  }
-}
-
 import {
   registerScanCommand,
   registerRulesCommands,
   registerDocsCommands,
   registerInitCommand,
+  registerFixCommand,
+  registerReviewReadinessCommand,
 } from '../cli/commands';
 
 const packageJson = JSON.parse(
@@ -39,6 +30,8 @@ program
 
 // Register commands
 registerScanCommand(program);
+registerFixCommand(program);
+registerReviewReadinessCommand(program);
 registerRulesCommands(program);
 registerDocsCommands(program);
 registerInitCommand(program);
@@ -52,12 +45,19 @@ Examples:
   $ meta-scan scan . --platform=instagram         Scan for Instagram-specific issues
   $ meta-scan scan . --severity=error             Only show errors
   $ meta-scan scan . --format=json -o results.json Export results to JSON
+  $ meta-scan scan . --format=sarif -o results.sarif Export results to SARIF 2.1.0
+
+  $ meta-scan fix . --dry-run                     Preview automatic fixes as a diff
+  $ meta-scan fix . --rule=TOKEN_EXPOSED          Fix one rule, confirming each change
+
+  $ meta-scan review-readiness .                  Check what App Review will question
 
   $ meta-scan rules list                          List all rules
   $ meta-scan rules show RATE_LIMIT_MISSING       Show rule details
   $ meta-scan rules seed                          Seed built-in rules
 
   $ meta-scan init                                Initialize configuration
+  $ meta-scan scan . --config=team.config.json    Use a specific config file
 
 Documentation: https://github.com/your-org/meta-policy-scanner
 `);
@@ -0,0 +1,23 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findFixableViolations } from './fix';
+import { applyFixes } from '../../fixes';
+
+describe('findFixableViolations', () => {
+  let dir: string;
+
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'meta-scan-fix-')); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('bumps deprecated Graph API versions in URLs', async () => {
+    const original = "const url = 'https://graph.facebook.com/v9.0/me/accounts';\n";
+    writeFileSync(join(dir, 'client.js'), original);
+
+    const fixable = await findFixableViolations(dir, { graphVersion: 'v21.0', rules: ['deprecated_api_version'] });
+
+    expect(fixable.map(v => `${v.ruleCode}:${v.file}:${v.line}`)).toEqual(['DEPRECATED_API_VERSION:client.js:1']);
+    expect(applyFixes(original, fixable.map(v => v.fix!)).content)
+      .toBe("const url = 'https://graph.facebook.com/v21.0/me/accounts';\n");
+  });
+});
@@ -0,0 +1,174 @@
+import { Command } from 'commander';
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { scanDirectory } from '../../scanner/local-scanner';
+import { loadProjectConfig, MetaScanConfig, toRuleSettings } from '../../config';
+import { applyFixes, createUnifiedDiff } from '../../fixes';
+import { Violation, ViolationFix } from '../../types';
+
+// Dynamic import helper that bypasses TypeScript's CommonJS transform
+// eslint-disable-next-line @typescript-eslint/no-implied-eval
+const dynamicImport = new Function('specifier', 'return import(specifier)');
+
+type FixAnswer = 'yes' | 'no' | 'all' | 'quit';
+
+interface Prompter {
+  prompt(questions: unknown[]): Promise<{ answer: FixAnswer }>;
+}
+
+export function registerFixCommand(program: Command) {
+  program
+    .command('fix [path]')
+    .description('Apply automatic fixes for violations that have a known fix')
+    .option('--dry-run', 'Print a unified diff of the fixes without changing files')
+    .option('-y, --yes', 'Apply every fix without asking')
+    .option('-r, --rule <codes>', 'Only fix these rule codes (comma-separated)')
+    .option('--graph-version <version>', 'Graph API version to upgrade deprecated URLs to (e.g. v21.0)')
+    .option('--config <file>', 'Config file (default: meta-scan.config.json in the current or target directory)')
+    .action(async (path: string | undefined, options) => {
+      try {
+        const dirPath = path || '.';
+        const loaded = loadProjectConfig(dirPath, options.config);
+        const config = loaded?.config;
+
+        if (!options.dryRun && !options.yes && !process.stdin.isTTY) {
+          throw new Error('Interactive confirmation needs a terminal. Use --dry-run to preview or --yes to apply all fixes.');
+        }
+
+        console.log('\n🔧 Meta API Policy Scanner - Fix\n');
+
+        const fixable = await findFixableViolations(dirPath, {
+          config,
+          graphVersion: options.graphVersion,
+          rules: options.rule?.split(','),
+        });
+
+        if (fixable.length === 0) {
+          console.log('✅ No automatically fixable violations found.\n');
+          return;
+        }
+
+        const byFile = groupByFile(fixable);
+        console.log(`Found ${fixable.length} fixable violation(s) in ${byFile.size} file(s)\n`);
+
+        let prompter: Prompter | null = null;
+        let applyAll = !!options.yes || !!options.dryRun;
+        let quit = false;
+        let fixedCount = 0;
+        let changedFiles = 0;
+
+        for (const [file, violations] of byFile) {
+          if (quit) break;
+
+          const absolutePath = join(dirPath, file);
+          const original = readFileSync(absolutePath, 'utf-8');
+          const accepted: ViolationFix[] = [];
+
+          for (const violation of violations) {
+            const fix = violation.fix!;
+
+            if (!applyAll) {
+              console.log(`${violation.ruleCode} ${file}:${violation.line} - ${fix.description}`);
+              console.log(createUnifiedDiff(file, original, applyFixes(original, [fix]).content));
+
+              prompter = prompter || (await dynamicImport('inquirer')).default as Prompter;
+              const { answer } = await prompter.prompt([{
+                type: 'expand',
+                name: 'answer',
+                message: 'Apply this fix?',
+                default: 'y',
+                choices: [
+                  { key: 'y', name: 'Apply', value: 'yes' },
+                  { key: 'n', name: 'Skip', value: 'no' },
+                  { key: 'a', name: 'Apply this and all remaining fixes', value: 'all' },
+                  { key: 'q', name: 'Quit (fixes accepted so far are still written)', value: 'quit' },
+                ],
+              }]);
+
+              if (answer === 'quit') {
+                quit = true;
+                break;
+              }
+              if (answer === 'no') continue;
+              if (answer === 'all') applyAll = true;
+            }
+
+            accepted.push(fix);
+          }
+
+          if (accepted.length === 0) continue;
+
+          const { content, applied, skipped } = applyFixes(original, accepted);
+          for (const fix of skipped) {
+            console.log(`⚠️  Skipped overlapping fix in ${file}: ${fix.description}`);
+          }
+          if (content === original) continue;
+
+          fixedCount += applied.length;
+          changedFiles++;
+
+          if (options.dryRun) {
+            console.log(createUnifiedDiff(file, original, content));
+          } else {
+            writeFileSync(absolutePath, content);
+            console.log(`✓ ${file}: applied ${applied.length} fix(es)`);
+          }
+        }
+
+        console.log('');
+        if (options.dryRun) {
+          console.log(`Dry run: ${fixedCount} fix(es) in ${changedFiles} file(s) would be applied. No files were changed.\n`);
+        } else {
+          console.log(`✅ Applied ${fixedCount} fix(es) in ${changedFiles} file(s). Review the changes and re-run meta-scan scan.\n`);
+        }
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`\n✗ Error: ${message}\n`);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Scan for violations that have an autofix, optionally only for some rule
+ * codes. SDK detection stays on: it reports the deprecated Graph API
+ * versions the version bump fixes.
+ */
+export async function findFixableViolations(
+  dirPath: string,
+  options: { config?: MetaScanConfig; graphVersion?: string; rules?: string[] } = {}
+): Promise<Violation[]> {
+  const { config } = options;
+  const result = await scanDirectory(dirPath, {
+    platforms: config?.platforms,
+    severity: 'info',
+    ignorePatterns: config?.ignore,
+    rules: config ? toRuleSettings(config) : undefined,
+    fix: {
+      ...config?.fix,
+      graphApiVersion: options.graphVersion || config?.fix?.graphApiVersion,
+    },
+  });
+
+  const ruleFilter = options.rules
+    ?.map(code => code.trim().toUpperCase())
+    .filter(Boolean);
+
+  return result.violations.filter(v =>
+    v.fix && (!ruleFilter || ruleFilter.includes(v.ruleCode))
+  );
+}
+
+function groupByFile(violations: Violation[]): Map<string, Violation[]> {
+  const byFile = new Map<string, Violation[]>();
+  for (const violation of violations) {
+    const list = byFile.get(violation.file) || [];
+    list.push(violation);
+    byFile.set(violation.file, list);
+  }
+
+  for (const list of byFile.values()) {
+    list.sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+  return byFile;
+}
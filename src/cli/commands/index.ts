@@ -2,3 +2,5 @@ export { registerScanCommand } from './scan';
 export { registerRulesCommands } from './rules';
 export { registerDocsCommands } from './docs';
 export { registerInitCommand } from './init';
+export { registerFixCommand } from './fix';
+export { registerReviewReadinessCommand } from './review-readiness';
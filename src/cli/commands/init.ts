@@ -30,6 +30,14 @@ const CONFIG_TEMPLATE = {
   platforms: ['all'],
   includeSdkAnalysis: true,
   outputFormat: 'console',
+  rules: {
+    disabled: [],
+    overrides: {},
+  },
+  customRules: [],
+  ai: {
+    enabled: false,
+  },
 };
 
 export function registerInitCommand(program: Command) {
@@ -0,0 +1,107 @@
+import { Command } from 'commander';
+import { writeFileSync } from 'fs';
+import { scanWorkspace } from '../../scanner/workspace-scanner';
+import { findScannableFiles, readSources } from '../../scanner/local-scanner';
+import { toReviewReadiness, ReadinessCheck, ReadinessStatus, ReviewReadinessReport } from '../../reporters';
+import { loadProjectConfig, toRuleSettings } from '../../config';
+
+const STATUS_ICONS: Record<ReadinessStatus, string> = { pass: '✅', manual: '📝', warn: '⚠️ ', fail: '❌' };
+
+export function registerReviewReadinessCommand(program: Command) {
+  program
+    .command('review-readiness [path]')
+    .description('Checklist of what Meta App Review will question, per requested permission')
+    .option('-f, --format <format>', 'Output format (console|json)', 'console')
+    .option('-o, --output <file>', 'Output file path for JSON results')
+    .option('--config <file>', 'Config file (default: meta-scan.config.json in the current or target directory)')
+    .action(async (path: string | undefined, options) => {
+      try {
+        const dirPath = path || '.';
+        if (!['console', 'json'].includes(options.format)) {
+          throw new Error(`Unknown output format "${options.format}". Use console or json.`);
+        }
+
+        const loaded = loadProjectConfig(dirPath, options.config);
+        const config = loaded?.config;
+
+        if (options.format === 'console') {
+          console.log('\n📋 Meta API Policy Scanner - App Review Readiness\n');
+          console.log(`Scanning: ${dirPath}\n`);
+        }
+
+        // Reviewers never see test code, so its findings are left out
+        const result = await scanWorkspace(dirPath, {
+          platforms: config?.platforms,
+          severity: 'info',
+          ignorePatterns: config?.ignore,
+          includeSdkAnalysis: true,
+          rules: config ? toRuleSettings(config) : undefined,
+          testFiles: { findings: 'ignore', patterns: config?.testFiles?.patterns },
+        });
+        const sources = readSources(await findScannableFiles(dirPath, config?.ignore), dirPath);
+        const report = toReviewReadiness(result, sources);
+
+        if (options.format === 'json') {
+          const output = JSON.stringify(report, null, 2);
+          if (options.output) {
+            writeFileSync(options.output, output);
+            console.log(`✓ Report written to ${options.output}`);
+          } else {
+            console.log(output);
+          }
+        } else {
+          displayReport(report);
+        }
+
+        if (!report.ready) {
+          process.exit(1);
+        }
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`\n✗ Error: ${message}\n`);
+        process.exit(1);
+      }
+    });
+}
+
+function displayReport(report: ReviewReadinessReport) {
+  console.log('━'.repeat(60));
+  console.log('🔐 PERMISSIONS');
+  console.log('━'.repeat(60));
+
+  if (report.permissions.length === 0) {
+    console.log('\nNo Facebook Login permissions are requested or used.');
+  }
+  for (const permission of report.permissions) {
+    console.log(`\n${STATUS_ICONS[permission.status]} ${permission.permission} [${permission.platform}]`);
+    permission.checks.forEach(check => displayCheck(check, '   '));
+  }
+
+  console.log('\n' + '━'.repeat(60));
+  console.log('🏛️  APP REQUIREMENTS');
+  console.log('━'.repeat(60));
+  console.log('');
+  report.app.forEach(check => displayCheck(check, ''));
+
+  const { pass, manual, warn, fail } = report.summary;
+  console.log('\n' + '━'.repeat(60));
+  console.log(`Checks: ${pass} passed, ${fail} failed, ${warn} warnings, ${manual} to verify by hand`);
+  console.log(report.ready
+    ? '✅ READY: nothing in the code is likely to fail App Review'
+    : '❌ NOT READY: fix the failed checks before submitting for App Review');
+  console.log('');
+}
+
+function displayCheck(check: ReadinessCheck, indent: string) {
+  console.log(`${indent}${STATUS_ICONS[check.status]} ${check.title}`);
+  console.log(`${indent}   ↳ ${check.question}`);
+  for (const item of check.evidence.slice(0, 5)) {
+    console.log(`${indent}     • ${item}`);
+  }
+  if (check.evidence.length > 5) {
+    console.log(`${indent}     • ...and ${check.evidence.length - 5} more`);
+  }
+  if (check.docUrl && check.status !== 'pass') {
+    console.log(`${indent}   📚 ${check.docUrl}`);
+  }
+}
@@ -1,9 +1,28 @@
-import { Command } from 'commander';
+import { Command, OptionValues } from 'commander';
 import { writeFileSync } from 'fs';
+import { join } from 'path';
 import { isGitHubUrl, scanGitHubRepo } from '../../scanner/github-scanner';
 import { scanGitHubRepoViaApi } from '../../scanner/github-api-scanner';
-import { scanDirectory } from '../../scanner/local-scanner';
-import { ScanResult, Severity } from '../../types';
+import { getBuiltinRules, loadRules } from '../../scanner/local-scanner';
+import { resolveRules } from '../../scanner/rule-settings';
+import { scanWorkspace } from '../../scanner/workspace-scanner';
+import { selectPackages } from '../../scanner/workspaces';
+import { applyBaseline, loadBaseline, saveBaseline, BaselineScope, DEFAULT_BASELINE_FILE } from '../../scanner/baseline';
+import { toSarif } from '../../reporters';
+import { findConfigFile, loadConfig, loadProjectConfig, toRuleSettings, LoadedConfig } from '../../config';
+import {
+  ApiVersionSettings,
+  DataFlowStep,
+  Platform,
+  RuleSettings,
+  ScanEvent,
+  ScanOptions,
+  ScanResult,
+  Severity,
+  Violation,
+  ViolationFix,
+  ViolationRule,
+} from '../../types';
 
 export function registerScanCommand(program: Command) {
   program
@@ -14,24 +33,70 @@ export function registerScanCommand(program: Command) {
     .option('--auth <token>', 'GitHub PAT for private repos (or use GITHUB_PAT env var)')
     .option('-p, --platform <platform>', 'Filter by platform (facebook|instagram|messenger|whatsapp|ads|all)')
     .option('-s, --severity <severity>', 'Minimum severity to report (error|warning|info)', 'warning')
-    .option('-f, --format <format>', 'Output format (console|json)', 'console')
-    .option('-o, --output <file>', 'Output file path for JSON results')
+    .option('-f, --format <format>', 'Output format (console|json|sarif)', 'console')
+    .option('-o, --output <file>', 'Output file path for JSON/SARIF results')
     .option('--ignore <patterns>', 'Glob patterns to ignore (comma-separated)')
-    .option('--no-sdk-analysis', 'Skip SDK usage analysis')
+    .option('--no-sdk-analysis', 'Skip SDK usage and permission analysis')
+    .option('--baseline <file>', 'Only report findings that are not in this baseline file')
+    .option('--update-baseline', `Write current findings to the baseline file (default: ${DEFAULT_BASELINE_FILE})`)
+    .option('--fail-on-unused-suppressions', 'Fail when a meta-scan-disable comment no longer matches any finding')
     .option('--api', 'Force GitHub API mode (default when PAT available)')
     .option('--clone', 'Force git clone mode (even if PAT available)')
     .option('--max-files <number>', 'Max files to scan (API mode)', '500')
     .option('--ai', 'Enable AI-powered detection (requires SUPABASE_URL, SUPABASE_ANON_KEY, VOYAGE_API_KEY)')
-    .action(async (pathOrUrl: string, options) => {
+    .option('--since <ref>', 'Only scan lines changed since the merge-base with this git ref (local only)')
+    .option('--diff <range>', 'Only scan lines changed in a git range, e.g. main..feature (local only)')
+    .option('--as-of <date>', 'Evaluate Graph API version lifecycles as of this date (YYYY-MM-DD, default: today)')
+    .option('--config <file>', 'Config file (default: meta-scan.config.json in the current or scanned directory)')
+    .option('--no-workspaces', 'Scan a monorepo as a single project instead of per package')
+    .option('--package <names>', 'Only report findings of these monorepo packages (comma-separated names or paths)')
+    .option('--test-findings <mode>', 'Findings in test and fixture files: keep, downgrade (one severity lower) or ignore')
+    .option('--no-cache', 'Re-scan every file instead of reusing results of unchanged files')
+    .option('--concurrency <n>', 'Worker threads for file scanning (default: automatic for large repos, 1 = in-process)')
+    .action(async (pathOrUrl: string, cliOptions, command: Command) => {
       try {
         let result: ScanResult;
+        let apiMode = false;
 
-        console.log('\n🔍 Meta API Policy Scanner\n');
+        const loaded = loadProjectConfig(isGitHubUrl(pathOrUrl) ? undefined : pathOrUrl, cliOptions.config);
+        const options = resolveOptions(cliOptions, command, loaded);
+        const ruleSettings = loaded ? toRuleSettings(loaded.config) : undefined;
+        const asOf = options.asOf ? parseAsOfDate(options.asOf) : undefined;
+        const apiVersions: ApiVersionSettings = {
+          asOf,
+          expiringWithinDays: loaded?.config.apiVersions?.expiringWithinDays,
+        };
+        const onEvent = options.format === 'console' && process.stderr.isTTY ? createProgressLine() : undefined;
+        // A new baseline records every finding; the filters apply to what is reported
+        const unfiltered = !!options.updateBaseline;
+
+        if (!['console', 'json', 'sarif'].includes(options.format)) {
+          throw new Error(`Unknown output format "${options.format}". Use console, json or sarif.`);
+        }
+        if (options.testFindings && !['keep', 'downgrade', 'ignore'].includes(options.testFindings)) {
+          throw new Error(`Unknown test finding mode "${options.testFindings}". Use keep, downgrade or ignore.`);
+        }
+
+        // Status lines go to stderr when stdout carries JSON or SARIF
+        const log = options.format === 'console' ? console.log : console.error;
+
+        log('\n🔍 Meta API Policy Scanner\n');
+        if (loaded && options.format === 'console') {
+          log(`Config: ${loaded.path}`);
+        }
+
+        if (options.since && options.diff) {
+          throw new Error('Use either --since or --diff, not both');
+        }
 
         if (isGitHubUrl(pathOrUrl)) {
-          console.log(`Scanning GitHub repository: ${pathOrUrl}`);
+          if (options.since || options.diff) {
+            throw new Error('--since and --diff are only supported for local directories');
+          }
+
+          log(`Scanning GitHub repository: ${pathOrUrl}`);
           if (options.branch) {
-            console.log(`Branch: ${options.branch}`);
+            log(`Branch: ${options.branch}`);
           }
 
           const token = options.auth || process.env.GITHUB_PAT;
@@ -40,47 +105,114 @@ export function registerScanCommand(program: Command) {
           const useApiMode = options.clone ? false : (options.api || !!token);
 
           if (useApiMode && token) {
+            apiMode = true;
             // Use GitHub API (faster, no download)
-            console.log('Mode: GitHub API (no download)');
+            log('Mode: GitHub API (no download)');
             if (options.ai) {
-              console.log('AI Detection: Enabled\n');
+              log('AI Detection: Enabled\n');
             } else {
-              console.log('');
+              log('');
             }
             result = await scanGitHubRepoViaApi(pathOrUrl, {
               branch: options.branch,
               token,
               maxFiles: parseInt(options.maxFiles),
-              excludePatterns: options.ignore?.split(','),
+              excludePatterns: options.ignore.length > 0 ? options.ignore : undefined,
               enableAI: options.ai,
-              onProgress: (msg) => console.log(msg),
+              ai: loaded?.config.ai,
+              rules: ruleSettings,
+              apiVersions,
+              onProgress: log,
             });
           } else {
             // Fallback: Clone repo to temp directory
-            console.log('Mode: git clone (shallow, cleaned after scan)\n');
+            log('Mode: git clone (shallow, cleaned after scan)\n');
             result = await scanGitHubRepo(pathOrUrl, {
               branch: options.branch,
               depth: parseInt(options.depth),
               auth: token,
-              platform: options.platform,
-              severity: options.severity as Severity,
-              ignorePatterns: options.ignore?.split(','),
-              includeSdkAnalysis: options.sdkAnalysis !== false,
+              platforms: unfiltered ? undefined : options.platforms,
+              severity: unfiltered ? undefined : options.severity,
+              ignorePatterns: options.ignore,
+              includeSdkAnalysis: options.sdkAnalysis,
+              ai: loaded?.config.ai,
+              rules: ruleSettings,
+              fix: loaded?.config.fix,
+              testFiles: { findings: options.testFindings, patterns: loaded?.config.testFiles?.patterns },
+              apiVersions,
+              concurrency: options.concurrency,
+              onEvent,
+              workspaces: options.workspaces,
             });
           }
         } else {
-          console.log(`Scanning local directory: ${pathOrUrl}\n`);
+          log(`Scanning local directory: ${pathOrUrl}`);
+          if (options.ai) {
+            log('AI Detection: Enabled');
+          }
+          log('');
 
-          result = await scanDirectory(pathOrUrl, {
-            platform: options.platform,
-            severity: options.severity as Severity,
-            ignorePatterns: options.ignore?.split(','),
-            includeSdkAnalysis: options.sdkAnalysis !== false,
+          const toScanOptions = (resolved: OptionValues, config?: LoadedConfig | null): ScanOptions => ({
+            platforms: unfiltered ? undefined : resolved.platforms,
+            severity: unfiltered ? undefined : resolved.severity,
+            ignorePatterns: resolved.ignore,
+            includeSdkAnalysis: resolved.sdkAnalysis,
+            diff: resolved.since || resolved.diff
+              ? { since: resolved.since, range: resolved.diff }
+              : undefined,
+            enableAI: resolved.ai,
+            ai: config?.config.ai,
+            rules: config ? toRuleSettings(config.config) : undefined,
+            fix: config?.config.fix,
+            testFiles: { findings: resolved.testFindings, patterns: config?.config.testFiles?.patterns },
+            apiVersions: { asOf, expiringWithinDays: config?.config.apiVersions?.expiringWithinDays },
+            concurrency: resolved.concurrency,
+            cache: resolved.cache,
+            onProgress: log,
+            onEvent,
           });
+
+          result = await scanWorkspace(pathOrUrl, {
+            ...toScanOptions(options, loaded),
+            workspaces: options.workspaces,
+            // Packages with their own meta-scan.config.json use it instead of the root config
+            packageOptions: pkg => {
+              const configPath = findConfigFile([join(pathOrUrl, pkg.path)]);
+              if (!configPath) return undefined;
+              const pkgConfig = loadConfig(configPath);
+              return {
+                configPath: pkgConfig.path,
+                options: toScanOptions(resolveOptions(cliOptions, command, pkgConfig), pkgConfig),
+              };
+            },
+          });
+        }
+
+        const baselinePath = options.updateBaseline ? options.baseline || DEFAULT_BASELINE_FILE : options.baseline;
+        const baseline = options.updateBaseline ? saveBaseline(baselinePath, result.violations) : undefined;
+        if (baseline) {
+          log(`✓ Baseline written to ${baselinePath} (${baseline.findings.length} findings)\n`);
+        }
+
+        const scope: BaselineScope = {
+          severity: options.severity,
+          platforms: options.platforms,
+          disabledRules: ruleSettings?.disabled,
+        };
+        if (options.package) {
+          result = selectPackages(result, options.package.split(',').map((name: string) => name.trim()).filter(Boolean));
+          scope.packages = result.packages?.map(pkg => pkg.name);
+        }
+
+        // Baseline: keep only findings that are new since the stored baseline
+        if (baselinePath) {
+          result = applyBaseline(result, baseline || loadBaseline(baselinePath), baselinePath, scope);
         }
 
-        if (options.format === 'json') {
-          const output = JSON.stringify(result, null, 2);
+        if (options.format === 'json' || options.format === 'sarif') {
+          const output = options.format === 'sarif'
+            ? JSON.stringify(toSarif(result, { rules: await scannedRules(result, ruleSettings, apiMode) }), null, 2)
+            : JSON.stringify(result, null, 2);
           if (options.output) {
             writeFileSync(options.output, output);
             console.log(`✓ Results written to ${options.output}`);
@@ -92,7 +224,18 @@ export function registerScanCommand(program: Command) {
         }
 
         // Exit with error code if critical violations found
-        if (result.summary.errors > 0) {
+        if (options.failOnErrors && result.summary.errors > 0) {
+          process.exit(1);
+        }
+
+        if (options.failOnWarnings && result.summary.warnings > 0) {
+          process.exit(1);
+        }
+
+        if (options.failOnUnusedSuppressions && (result.unusedSuppressions?.length || 0) > 0) {
+          if (options.format !== 'console') {
+            console.error(`✗ ${result.unusedSuppressions!.length} unused suppression comment(s) found`);
+          }
           process.exit(1);
         }
       } catch (error: unknown) {
@@ -103,6 +246,103 @@ export function registerScanCommand(program: Command) {
     });
 }
 
+/**
+ * Rules the scan ran with, so SARIF describes custom and database rules
+ * too: API scans use the built-in rules, local scans the database's, each
+ * with the custom rules of the root and package configs
+ */
+async function scannedRules(result: ScanResult, settings: RuleSettings | undefined, apiMode: boolean): Promise<ViolationRule[]> {
+  const rules = apiMode ? resolveRules(getBuiltinRules(), settings) : await loadRules(settings);
+  const packageRules = (result.packages || [])
+    .flatMap(pkg => (pkg.configPath ? toRuleSettings(loadConfig(pkg.configPath).config).custom || [] : []));
+  return [...rules, ...packageRules];
+}
+
+/**
+ * Merge CLI flags with the config file: flags given on the command line
+ * win, then config values, then the CLI defaults. Ignore patterns from
+ * both sources are combined.
+ */
+function resolveOptions(cliOptions: OptionValues, command: Command, loaded: LoadedConfig | null): OptionValues {
+  const config = loaded?.config || {};
+  const pick = <T>(name: string, configValue: T | undefined): T =>
+    command.getOptionValueSource(name) === 'cli' || configValue === undefined
+      ? cliOptions[name]
+      : configValue;
+
+  const platforms: Platform[] | undefined = command.getOptionValueSource('platform') === 'cli'
+    ? [cliOptions.platform]
+    : config.platforms;
+
+  return {
+    ...cliOptions,
+    platform: platforms?.length === 1 ? platforms[0] : undefined,
+    platforms,
+    severity: pick<Severity>('severity', config.severity),
+    format: pick<string>('format', config.outputFormat),
+    output: pick<string | undefined>('output', config.output),
+    ignore: [...(config.ignore || []), ...(cliOptions.ignore?.split(',') || [])],
+    sdkAnalysis: pick<boolean>('sdkAnalysis', config.includeSdkAnalysis) !== false,
+    baseline: pick<string | undefined>('baseline', config.baseline),
+    failOnUnusedSuppressions: pick<boolean | undefined>('failOnUnusedSuppressions', config.failOnUnusedSuppressions),
+    ai: pick<boolean | undefined>('ai', config.ai?.enabled),
+    workspaces: pick<boolean>('workspaces', config.workspaces) !== false,
+    testFindings: pick<string | undefined>('testFindings', config.testFiles?.findings),
+    cache: pick<boolean>('cache', config.cache) !== false,
+    concurrency: parseConcurrency(pick<string | number | undefined>('concurrency', config.concurrency)),
+    failOnErrors: config.failOnErrors !== false,
+    failOnWarnings: config.failOnWarnings === true,
+  };
+}
+
+function parseAsOfDate(value: string): Date {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+    throw new Error(`Invalid --as-of date "${value}". Use YYYY-MM-DD.`);
+  }
+  return date;
+}
+
+function parseConcurrency(value: string | number | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid --concurrency "${value}". Use a whole number of at least 1.`);
+  }
+  return concurrency;
+}
+
+/**
+ * Live "files scanned" line on stderr, cleared when a scan finishes
+ */
+function createProgressLine(): (event: ScanEvent) => void {
+  let findings = 0;
+  let lastWrite = 0;
+
+  return event => {
+    switch (event.type) {
+      case 'start':
+        findings = 0;
+        break;
+      case 'dependencies':
+      case 'analysis':
+        findings += event.violations.length;
+        break;
+      case 'file': {
+        findings += event.violations.length;
+        const now = Date.now();
+        if (now - lastWrite < 100 && event.filesScanned < event.filesTotal) return;
+        lastWrite = now;
+        process.stderr.write(`\r\x1b[K  Scanned ${event.filesScanned}/${event.filesTotal} files, ${findings} findings`);
+        break;
+      }
+      case 'done':
+        process.stderr.write('\r\x1b[K');
+        break;
+    }
+  };
+}
+
 function displayResults(result: ScanResult) {
   const { summary, violations, sdkAnalysis, filesScanned, scanDuration } = result;
 
@@ -111,6 +351,9 @@ function displayResults(result: ScanResult) {
   console.log('📊 SCAN SUMMARY');
   console.log('━'.repeat(60));
   console.log(`Files scanned:    ${filesScanned}`);
+  if (result.diff) {
+    console.log(`Diff scope:       ${result.diff.changedFiles} changed files since ${result.diff.base}`);
+  }
   console.log(`Scan duration:    ${(scanDuration / 1000).toFixed(2)}s`);
   console.log(`Total violations: ${violations.length}`);
   console.log('');
@@ -118,6 +361,23 @@ function displayResults(result: ScanResult) {
   console.log(`  ⚠️  Warnings: ${summary.warnings}`);
   console.log(`  ℹ️  Info:     ${summary.info}`);
 
+  if (result.packages) {
+    console.log('');
+    console.log(`Packages:         ${result.packages.length}`);
+    for (const pkg of result.packages) {
+      const config = pkg.configPath ? ` (config: ${pkg.configPath})` : '';
+      console.log(`  📦 ${pkg.name} [${pkg.kind}] ${pkg.path}: ${pkg.summary.errors} errors, ${pkg.summary.warnings} warnings${config}`);
+    }
+  }
+
+  if (result.baseline) {
+    console.log('');
+    console.log(`Baseline:         ${result.baseline.path || 'in memory'}`);
+    console.log(`  🆕 New:       ${result.baseline.newCount}`);
+    console.log(`  ➖ Unchanged: ${result.baseline.unchangedCount}`);
+    console.log(`  ✅ Fixed:     ${result.baseline.fixed.length}`);
+  }
+
   // SDK Analysis
   if (sdkAnalysis) {
     console.log('\n━'.repeat(60));
@@ -147,33 +407,79 @@ function displayResults(result: ScanResult) {
     }
   }
 
+  // Requested vs. used Login permissions
+  if (result.permissions) {
+    console.log('\n' + '━'.repeat(60));
+    console.log('🔐 PERMISSIONS');
+    console.log('━'.repeat(60));
+
+    for (const { platform, permissions } of result.permissions.platforms) {
+      console.log(`\n${platform}:`);
+      for (const p of permissions) {
+        const at = (refs: Array<{ file: string; line: number }>) => refs.slice(0, 3).map(r => `${r.file}:${r.line}`).join(', ');
+        const uses = [...new Set(p.usedBy.map(u => u.name))].join(', ');
+        if (p.status === 'unused') {
+          console.log(`   ⚠️  ${p.permission}: requested but unused (${at(p.requestedAt)})`);
+        } else if (p.status === 'unrequested') {
+          const or = p.alternatives ? ` — or ${p.alternatives.join(', ')}` : '';
+          console.log(`   ❌ ${p.permission}: ${uses} used but not requested (${at(p.usedBy)})${or}`);
+        } else {
+          console.log(`   ✅ ${p.permission}${uses ? `: ${uses}` : ''}`);
+        }
+      }
+    }
+  }
+
   // Violations
   if (violations.length > 0) {
     console.log('\n━'.repeat(60));
-    console.log('⚠️  VIOLATIONS');
+    console.log(result.baseline ? '⚠️  NEW VIOLATIONS (not in baseline)' : '⚠️  VIOLATIONS');
     console.log('━'.repeat(60));
 
-    // Group by severity
-    const errors = violations.filter(v => v.severity === 'error');
-    const warnings = violations.filter(v => v.severity === 'warning');
-    const infos = violations.filter(v => v.severity === 'info');
+    if (result.packages) {
+      for (const pkg of result.packages.filter(p => p.violations.length > 0)) {
+        console.log(`\n📦 ${pkg.name} (${pkg.path})`);
+        displayBySeverity(pkg.violations);
+      }
+    } else {
+      displayBySeverity(violations);
+    }
+  } else {
+    console.log(result.baseline ? '\n✅ No new violations since baseline!' : '\n✅ No violations found!');
+  }
+
+  // Baseline findings that no longer occur
+  if (result.baseline && result.baseline.fixed.length > 0) {
+    console.log('\n' + '━'.repeat(60));
+    console.log(`✅ FIXED SINCE BASELINE (${result.baseline.fixed.length})`);
+    console.log('━'.repeat(60));
 
-    if (errors.length > 0) {
-      console.log('\n❌ ERRORS:\n');
-      errors.forEach(v => displayViolation(v));
+    for (const f of result.baseline.fixed) {
+      console.log(`  ${f.ruleCode} ${f.file}:${f.line}`);
     }
+  }
+
+  // Suppressed findings
+  if (result.suppressed && result.suppressed.length > 0) {
+    console.log('\n' + '━'.repeat(60));
+    console.log(`🔕 SUPPRESSED (${result.suppressed.length})`);
+    console.log('━'.repeat(60));
 
-    if (warnings.length > 0) {
-      console.log('\n⚠️  WARNINGS:\n');
-      warnings.forEach(v => displayViolation(v));
+    for (const v of result.suppressed) {
+      console.log(`  ${v.ruleCode} ${v.file}:${v.line}`);
+      console.log(`     ${v.suppression.justification ? `↳ ${v.suppression.justification}` : '↳ (no justification given)'}`);
     }
+  }
+
+  if (result.unusedSuppressions && result.unusedSuppressions.length > 0) {
+    console.log('\n' + '━'.repeat(60));
+    console.log(`🧹 UNUSED SUPPRESSIONS (${result.unusedSuppressions.length})`);
+    console.log('━'.repeat(60));
 
-    if (infos.length > 0) {
-      console.log('\nℹ️  INFO:\n');
-      infos.forEach(v => displayViolation(v));
+    for (const s of result.unusedSuppressions) {
+      const rules = s.rules.length > 0 ? s.rules.join(', ') : 'all rules';
+      console.log(`  ${s.file}:${s.line} meta-scan-disable${s.kind === 'block' ? '' : `-${s.kind}`} (${rules}) no longer matches any finding`);
     }
-  } else {
-    console.log('\n✅ No violations found!');
   }
 
   console.log('\n' + '━'.repeat(60));
@@ -190,6 +496,27 @@ function displayResults(result: ScanResult) {
   console.log('━'.repeat(60) + '\n');
 }
 
+function displayBySeverity(violations: Violation[]) {
+  const errors = violations.filter(v => v.severity === 'error');
+  const warnings = violations.filter(v => v.severity === 'warning');
+  const infos = violations.filter(v => v.severity === 'info');
+
+  if (errors.length > 0) {
+    console.log('\n❌ ERRORS:\n');
+    errors.forEach(v => displayViolation(v));
+  }
+
+  if (warnings.length > 0) {
+    console.log('\n⚠️  WARNINGS:\n');
+    warnings.forEach(v => displayViolation(v));
+  }
+
+  if (infos.length > 0) {
+    console.log('\nℹ️  INFO:\n');
+    infos.forEach(v => displayViolation(v));
+  }
+}
+
 function displayViolation(v: {
   ruleName: string;
   ruleCode: string;
@@ -198,6 +525,8 @@ function displayViolation(v: {
   message: string;
   codeSnippet: string;
   recommendation?: string;
+  fix?: ViolationFix;
+  dataFlow?: DataFlowStep[];
 }) {
   console.log(`  ${v.ruleName} [${v.ruleCode}]`);
   console.log(`  📁 ${v.file}:${v.line}`);
@@ -207,9 +536,19 @@ function displayViolation(v: {
     console.log(`  📄 ${v.codeSnippet.substring(0, 80)}${v.codeSnippet.length > 80 ? '...' : ''}`);
   }
 
+  if (v.dataFlow) {
+    for (const step of v.dataFlow) {
+      console.log(`  🔀 ${step.file}:${step.line} ${step.note}`);
+    }
+  }
+
   if (v.recommendation) {
     console.log(`  💡 ${v.recommendation}`);
   }
 
+  if (v.fix) {
+    console.log(`  🔧 Fixable with meta-scan fix: ${v.fix.description}`);
+  }
+
   console.log('');
 }
@@ -0,0 +1,11 @@
+export { ConfigSchema, CustomRuleSchema } from './schema';
+export type { MetaScanConfig } from './schema';
+export {
+  CONFIG_FILE_NAMES,
+  findConfigFile,
+  loadConfig,
+  loadCustomRules,
+  loadProjectConfig,
+  toRuleSettings,
+} from './loader';
+export type { LoadedConfig, ResolvedConfig } from './loader';
@@ -0,0 +1,98 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findConfigFile, loadConfig } from './loader';
+
+describe('loadConfig', () => {
+  let dir: string;
+  const write = (name: string, value: unknown) => {
+    const path = join(dir, name);
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(path, JSON.stringify(value));
+    return path;
+  };
+
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'meta-scan-config-')); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('lets the extending config win over the configs it extends', () => {
+    write('team.json', { severity: 'info', failOnWarnings: true, outputFormat: 'json' });
+    const path = write('meta-scan.config.json', { extends: './team.json', severity: 'error' });
+
+    expect(loadConfig(path).config).toMatchObject({ severity: 'error', failOnWarnings: true, outputFormat: 'json' });
+  });
+
+  it('combines lists and merges rule overrides', () => {
+    write('team.json', {
+      ignore: ['vendor/**'],
+      rules: { disabled: ['TOKEN_EXPOSED'], overrides: { WA_OPT_IN_REQUIRED: 'error', LOGGING_SENSITIVE_DATA: 'info' } },
+    });
+    const path = write('meta-scan.config.json', {
+      extends: './team.json',
+      ignore: ['fixtures/**', 'vendor/**'],
+      rules: { disabled: ['UNOFFICIAL_IG_LIBRARY'], overrides: { LOGGING_SENSITIVE_DATA: 'warning' } },
+    });
+    const { config } = loadConfig(path);
+
+    expect(config.ignore).toEqual(['vendor/**', 'fixtures/**']);
+    expect(config.rules).toEqual({
+      disabled: ['TOKEN_EXPOSED', 'UNOFFICIAL_IG_LIBRARY'],
+      overrides: { WA_OPT_IN_REQUIRED: 'error', LOGGING_SENSITIVE_DATA: 'warning' },
+    });
+  });
+
+  it('applies a list of extends in order, later entries winning', () => {
+    write('a.json', { severity: 'info', fix: { graphApiVersion: 'v19.0' } });
+    write('b.json', { severity: 'warning' });
+    const path = write('meta-scan.config.json', { extends: ['./a.json', './b.json'] });
+
+    expect(loadConfig(path).config).toMatchObject({ severity: 'warning', fix: { graphApiVersion: 'v19.0' } });
+  });
+
+  it('follows extends chains and resolves custom rule paths per file', () => {
+    write('shared/base.json', { customRules: ['./rules.json'], apiVersions: { expiringWithinDays: 30 } });
+    write('shared/team.json', { extends: './base.json', ai: { enabled: true } });
+    const path = write('meta-scan.config.json', { extends: './shared/team.json', customRules: ['./local-rules.json'] });
+    const { config } = loadConfig(path);
+
+    expect(config.customRules).toEqual([join(dir, 'shared/rules.json'), join(dir, 'local-rules.json')]);
+    expect(config).toMatchObject({ apiVersions: { expiringWithinDays: 30 }, ai: { enabled: true } });
+  });
+
+  it('resolves package names that ship a meta-scan.config.json', () => {
+    write('node_modules/@acme/meta-scan-config/meta-scan.config.json', { severity: 'warning' });
+    const path = write('meta-scan.config.json', { extends: '@acme/meta-scan-config' });
+
+    expect(loadConfig(path).config.severity).toBe('warning');
+  });
+
+  it('rejects circular extends', () => {
+    write('a.json', { extends: './b.json' });
+    write('b.json', { extends: './a.json' });
+
+    expect(() => loadConfig(join(dir, 'a.json'))).toThrow('Circular config extends');
+  });
+
+  it('reports invalid settings with their path', () => {
+    const path = write('meta-scan.config.json', { rules: { overrides: { TOKEN_EXPOSED: 'fatal' } } });
+    expect(() => loadConfig(path)).toThrow(/rules\.overrides\.TOKEN_EXPOSED/);
+  });
+
+  it('ignores comment keys', () => {
+    const path = write('meta-scan.config.json', { '// note': 'shared by all services', severity: 'error' });
+    expect(loadConfig(path).config).toEqual({ severity: 'error' });
+  });
+});
+
+describe('findConfigFile', () => {
+  it('returns the first config found', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'meta-scan-config-'));
+    try {
+      writeFileSync(join(dir, '.meta-scan.config.json'), '{}');
+      expect(findConfigFile([join(dir, 'missing'), dir])).toBe(join(dir, '.meta-scan.config.json'));
+      expect(findConfigFile([join(dir, 'missing')])).toBeNull();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
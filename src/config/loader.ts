@@ -0,0 +1,200 @@
+/**
+ * Config Loader
+ *
+ * Finds, validates and resolves meta-scan.config.json, including any
+ * configs it `extends`. Values from the extending config win; list
+ * settings (ignore, disabled rules, custom rules) are combined so a repo
+ * can add to a shared team config without copying it.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { z } from 'zod';
+import { ConfigSchema, CustomRuleSchema, MetaScanConfig } from './schema';
+import { RuleSettings, ViolationRule } from '../types';
+
+export const CONFIG_FILE_NAMES = ['meta-scan.config.json', '.meta-scan.config.json'];
+
+export type ResolvedConfig = Omit<MetaScanConfig, 'extends'>;
+
+export interface LoadedConfig {
+  path: string;
+  config: ResolvedConfig;
+}
+
+/**
+ * Look for a config file in each directory, in order
+ */
+export function findConfigFile(dirs: string[]): string | null {
+  for (const dir of dirs) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load and validate a config file, resolving `extends` chains.
+ * Paths in `customRules` are resolved relative to the file declaring them.
+ */
+export function loadConfig(filePath: string): LoadedConfig {
+  const path = resolve(filePath);
+  return { path, config: resolveConfig(path, []) };
+}
+
+/**
+ * Load the project config: an explicit path, else meta-scan.config.json
+ * in the current directory, else in the scanned directory
+ */
+export function loadProjectConfig(scanDir?: string, configPath?: string): LoadedConfig | null {
+  if (configPath) {
+    return loadConfig(configPath);
+  }
+
+  const dirs = [process.cwd()];
+  if (scanDir && existsSync(scanDir) && statSync(scanDir).isDirectory()) {
+    dirs.push(scanDir);
+  }
+
+  const found = findConfigFile(dirs);
+  return found ? loadConfig(found) : null;
+}
+
+/**
+ * Rule settings for the scanners (loads custom rule files)
+ */
+export function toRuleSettings(config: ResolvedConfig): RuleSettings {
+  return {
+    disabled: config.rules?.disabled,
+    overrides: config.rules?.overrides,
+    custom: config.customRules ? loadCustomRules(config.customRules) : undefined,
+  };
+}
+
+/**
+ * Load rule definitions from custom rule files (disabled rules are dropped)
+ */
+export function loadCustomRules(filePaths: string[]): ViolationRule[] {
+  const rules: ViolationRule[] = [];
+
+  for (const filePath of filePaths) {
+    const data = readJson(filePath, 'Custom rule file');
+    const parsed = z.array(CustomRuleSchema).safeParse(data);
+    if (!parsed.success) {
+      throw new Error(`Invalid custom rule file ${filePath}:\n${formatIssues(parsed.error)}`);
+    }
+    rules.push(...(parsed.data as ViolationRule[]).filter(r => r.enabled));
+  }
+
+  return rules;
+}
+
+function resolveConfig(path: string, chain: string[]): ResolvedConfig {
+  if (chain.includes(path)) {
+    throw new Error(`Circular config extends: ${[...chain, path].join(' -> ')}`);
+  }
+
+  const parsed = ConfigSchema.safeParse(stripComments(readJson(path, 'Config file')));
+  if (!parsed.success) {
+    throw new Error(`Invalid config ${path}:\n${formatIssues(parsed.error)}`);
+  }
+
+  const { extends: parents, ...config } = parsed.data;
+  const dir = dirname(path);
+
+  if (config.customRules) {
+    config.customRules = config.customRules.map(p => resolve(dir, p));
+  }
+
+  const baseConfigs = (typeof parents === 'string' ? [parents] : parents || [])
+    .map(spec => resolveConfig(resolveExtends(spec, dir, path), [...chain, path]));
+
+  return [...baseConfigs, config].reduce(mergeConfigs, {});
+}
+
+function mergeConfigs(base: ResolvedConfig, override: ResolvedConfig): ResolvedConfig {
+  const merged: ResolvedConfig = { ...base, ...override };
+
+  merged.ignore = mergeLists(base.ignore, override.ignore);
+  merged.customRules = mergeLists(base.customRules, override.customRules);
+
+  if (base.rules || override.rules) {
+    merged.rules = {
+      disabled: mergeLists(base.rules?.disabled, override.rules?.disabled),
+      overrides: { ...base.rules?.overrides, ...override.rules?.overrides },
+    };
+  }
+  if (base.ai || override.ai) {
+    merged.ai = { ...base.ai, ...override.ai };
+  }
+  if (base.apiVersions || override.apiVersions) {
+    merged.apiVersions = { ...base.apiVersions, ...override.apiVersions };
+  }
+  if (base.fix || override.fix) {
+    merged.fix = { ...base.fix, ...override.fix };
+  }
+
+  return merged;
+}
+
+function mergeLists(base?: string[], override?: string[]): string[] | undefined {
+  if (!base && !override) return undefined;
+  return [...new Set([...(base || []), ...(override || [])])];
+}
+
+/**
+ * `extends` accepts a path relative to the config, or a package name
+ * (resolved from the config's directory) that ships a meta-scan.config.json
+ */
+function resolveExtends(spec: string, dir: string, from: string): string {
+  if (spec.startsWith('.') || isAbsolute(spec)) {
+    return resolve(dir, spec);
+  }
+
+  const candidates = spec.endsWith('.json') ? [spec] : [`${spec}/meta-scan.config.json`, spec];
+  for (const candidate of candidates) {
+    try {
+      return require.resolve(candidate, { paths: [dir] });
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  throw new Error(`Cannot resolve "${spec}" extended by ${from}`);
+}
+
+function readJson(path: string, label: string): unknown {
+  if (!existsSync(path)) {
+    throw new Error(`${label} not found: ${path}`);
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    throw new Error(`${label} is not valid JSON: ${path}`);
+  }
+}
+
+/**
+ * Drop "// ..." comment keys (recursively) before strict validation
+ */
+function stripComments(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripComments);
+  if (!value || typeof value !== 'object') return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (!key.startsWith('//')) {
+      result[key] = stripComments(child);
+    }
+  }
+  return result;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `  • ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+}
@@ -0,0 +1,117 @@
+/**
+ * Config Schema
+ *
+ * zod schemas for meta-scan.config.json and custom rule files.
+ * Keys starting with "//" are treated as comments and stripped before
+ * validation, so configs can document themselves.
+ */
+
+import { z } from 'zod';
+
+export const PlatformSchema = z.enum(['facebook', 'instagram', 'messenger', 'whatsapp', 'ads', 'all']);
+export const SeveritySchema = z.enum(['error', 'warning', 'info']);
+export const OutputFormatSchema = z.enum(['console', 'json', 'sarif']);
+export const TestFindingModeSchema = z.enum(['keep', 'downgrade', 'ignore']);
+
+const RuleCodeSchema = z.string().regex(/^[A-Z][A-Z0-9_]*$/, 'Rule codes are UPPER_SNAKE_CASE');
+
+const RegexSchema = z.string().refine(pattern => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid regular expression');
+
+export const ConfigSchema = z.object({
+  /** Config file(s) to inherit from: relative paths or package names */
+  extends: z.union([z.string(), z.array(z.string())]).optional(),
+
+  platforms: z.array(PlatformSchema).optional(),
+  severity: SeveritySchema.optional(),
+  ignore: z.array(z.string()).optional(),
+  includeSdkAnalysis: z.boolean().optional(),
+  /** Scan monorepo packages separately and group results per package */
+  workspaces: z.boolean().optional(),
+  /** Findings in test and fixture files */
+  testFiles: z.object({
+    findings: TestFindingModeSchema.optional(),
+    /** Globs for test files; replaces the built-in list */
+    patterns: z.array(z.string()).optional(),
+  }).strict().optional(),
+
+  /** Reuse results of unchanged files from .meta-scan-cache */
+  cache: z.boolean().optional(),
+  /** Worker threads for file scanning (1 scans in-process) */
+  concurrency: z.number().int().positive().optional(),
+
+  outputFormat: OutputFormatSchema.optional(),
+  output: z.string().optional(),
+  baseline: z.string().optional(),
+
+  failOnErrors: z.boolean().optional(),
+  failOnWarnings: z.boolean().optional(),
+  failOnUnusedSuppressions: z.boolean().optional(),
+
+  rules: z.object({
+    disabled: z.array(RuleCodeSchema).optional(),
+    overrides: z.record(RuleCodeSchema, SeveritySchema).optional(),
+  }).strict().optional(),
+
+  /** JSON files with rule definitions (same format as `meta-scan rules export`) */
+  customRules: z.array(z.string()).optional(),
+
+  fix: z.object({
+    graphApiVersion: z.string().regex(/^v?\d+\.\d+$/, 'Expected a Graph API version like v21.0').optional(),
+  }).strict().optional(),
+
+  apiVersions: z.object({
+    /** Warn when a Graph/Marketing API version reaches end of life within this many days */
+    expiringWithinDays: z.number().int().nonnegative().optional(),
+  }).strict().optional(),
+
+  ai: z.object({
+    enabled: z.boolean().optional(),
+    minConfidence: z.number().min(0).max(1).optional(),
+    maxAnalysisPerFile: z.number().int().positive().optional(),
+  }).strict().optional(),
+}).strict();
+
+export const CustomRuleSchema = z.object({
+  rule_code: RuleCodeSchema,
+  name: z.string().min(1),
+  description: z.string().optional(),
+  platform: PlatformSchema,
+  severity: SeveritySchema,
+  category: z.string().min(1),
+  detection: z.object({
+    type: z.enum(['ast-pattern', 'regex', 'semantic', 'sdk-check', 'analyzer']),
+    pattern: RegexSchema.optional(),
+    astQuery: z.string().optional(),
+    semanticHint: z.string().optional(),
+    fileTypes: z.array(z.string()).optional(),
+    /** Match `pattern` across lines instead of line by line */
+    multiline: z.boolean().optional(),
+    /** Whole-file assertions */
+    mustContain: RegexSchema.optional(),
+    mustNotContain: RegexSchema.optional(),
+    /** Only report matches in code, string literals and/or comments */
+    contexts: z.array(z.enum(['code', 'string', 'comment'])).optional(),
+    /** Project analyzer reporting the rule (taint, webhook, ...) */
+    analyzer: z.string().optional(),
+  }),
+  recommendation: z.string().optional(),
+  fix_example: z.string().optional(),
+  autofix: z.array(z.object({
+    description: z.string().min(1),
+    find: z.string().min(1),
+    replace: z.string(),
+    fileTypes: z.array(z.string()).optional(),
+  })).optional(),
+  doc_urls: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  enabled: z.boolean().default(true),
+}).passthrough();
+
+export type MetaScanConfig = z.infer<typeof ConfigSchema>;
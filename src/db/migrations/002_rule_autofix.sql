@@ -0,0 +1,10 @@
+-- Migration: Rule Autofix Specs
+--
+-- Adds machine-applicable fixes to rules, used by `meta-scan fix`.
+-- Each entry: {description, find, replace, fileTypes}
+--
+-- RUN THIS AFTER the initial schema.sql
+
+ALTER TABLE violation_rules ADD COLUMN IF NOT EXISTS autofix jsonb;
+
+COMMENT ON COLUMN violation_rules.autofix IS 'Autofix specs: find is a regex matched on the violating line, replace supports $1 groups and {{graphApiVersion}}';
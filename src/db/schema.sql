@@ -45,6 +45,7 @@ create table if not exists violation_rules (
   -- Metadata
   recommendation text,
   fix_example text,  -- Code example of correct implementation
+  autofix jsonb,  -- [{description, find, replace, fileTypes}] machine-applicable fixes
   doc_urls text[],
   tags text[],
 
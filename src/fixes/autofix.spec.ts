@@ -0,0 +1,90 @@
+import { applyFixes, buildFix } from './autofix';
+import { AutofixSpec } from '../types';
+
+const UPGRADE_URL: AutofixSpec = {
+  description: 'Upgrade the Graph API version in the URL to {{graphApiVersion}}',
+  find: 'graph\\.facebook\\.com\\/v\\d+\\.\\d+',
+  replace: 'graph.facebook.com/{{graphApiVersion}}',
+};
+
+const ENV_TOKEN: AutofixSpec = {
+  description: 'Read the token from the environment',
+  find: "'EAA\\w+'",
+  replace: 'process.env.META_ACCESS_TOKEN',
+  fileTypes: ['.js', '.ts'],
+};
+
+describe('buildFix', () => {
+  it('edits every match on the flagged line', () => {
+    const line = "get('https://graph.facebook.com/v9.0/me'); get('https://graph.facebook.com/v2.5/me');";
+    const fix = buildFix([UPGRADE_URL], line, 4, 'api.js', { graphApiVersion: '21.0' });
+
+    expect(fix).toEqual({
+      description: 'Upgrade the Graph API version in the URL to v21.0',
+      edits: [
+        { line: 4, column: 13, endColumn: 36, text: 'graph.facebook.com/v21.0' },
+        { line: 4, column: 56, endColumn: 79, text: 'graph.facebook.com/v21.0' },
+      ],
+    });
+  });
+
+  it('supports capture groups in the replacement', () => {
+    const spec: AutofixSpec = { description: 'Quote the key', find: '(\\w+): token', replace: "'$1': token" };
+    expect(buildFix([spec], '{ auth: token }', 1, 'a.ts')!.edits[0].text).toBe("'auth': token");
+  });
+
+  it('uses the first spec for the file type', () => {
+    const pythonSpec: AutofixSpec = { ...ENV_TOKEN, replace: "os.environ['META_ACCESS_TOKEN']", fileTypes: ['.py'] };
+    const fix = buildFix([pythonSpec, ENV_TOKEN], "token = 'EAAB12'", 2, 'config.ts');
+
+    expect(fix!.edits[0].text).toBe('process.env.META_ACCESS_TOKEN');
+    expect(buildFix([ENV_TOKEN], "token = 'EAAB12'", 2, 'config.rb')).toBeUndefined();
+  });
+
+  it('returns nothing when the line has no match or the fix changes nothing', () => {
+    expect(buildFix([UPGRADE_URL], 'const x = 1;', 1, 'a.js')).toBeUndefined();
+    expect(buildFix([UPGRADE_URL], 'graph.facebook.com/v21.0/me', 1, 'a.js', { graphApiVersion: 'v21.0' })).toBeUndefined();
+    expect(buildFix(undefined, 'graph.facebook.com/v9.0', 1, 'a.js')).toBeUndefined();
+  });
+
+  it('skips specs with invalid patterns', () => {
+    expect(buildFix([{ description: 'Broken', find: '(', replace: '' }], '(', 1, 'a.js')).toBeUndefined();
+  });
+});
+
+describe('applyFixes', () => {
+  const content = [
+    "const token = 'EAAB12';",
+    "fetch('https://graph.facebook.com/v9.0/me?access_token=' + token);",
+  ].join('\n');
+
+  it('applies the edits of every fix', () => {
+    const tokenFix = buildFix([ENV_TOKEN], "const token = 'EAAB12';", 1, 'a.js')!;
+    const urlFix = buildFix([UPGRADE_URL], content.split('\n')[1], 2, 'a.js', { graphApiVersion: 'v21.0' })!;
+    const result = applyFixes(content, [tokenFix, urlFix]);
+
+    expect(result.content).toBe([
+      'const token = process.env.META_ACCESS_TOKEN;',
+      "fetch('https://graph.facebook.com/v21.0/me?access_token=' + token);",
+    ].join('\n'));
+    expect(result.applied).toHaveLength(2);
+    expect(result.skipped).toHaveLength(0);
+  });
+
+  it('keeps columns valid when a line has several edits', () => {
+    const line = "a('graph.facebook.com/v9.0'); b('graph.facebook.com/v10.0');";
+    const fix = buildFix([UPGRADE_URL], line, 1, 'a.js', { graphApiVersion: 'v21.0' })!;
+
+    expect(applyFixes(line, [fix]).content).toBe("a('graph.facebook.com/v21.0'); b('graph.facebook.com/v21.0');");
+  });
+
+  it('skips fixes overlapping an applied fix and drops duplicates', () => {
+    const first = { description: 'first', edits: [{ line: 1, column: 14, endColumn: 22, text: 'TOKEN' }] };
+    const overlapping = { description: 'second', edits: [{ line: 1, column: 20, endColumn: 23, text: '' }] };
+    const result = applyFixes(content, [first, overlapping, { ...first }]);
+
+    expect(result.applied).toEqual([first]);
+    expect(result.skipped).toEqual([overlapping]);
+    expect(result.content.split('\n')[0]).toBe('const token = TOKEN;');
+  });
+});
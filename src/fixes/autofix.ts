@@ -0,0 +1,120 @@
+/**
+ * Autofix Engine
+ *
+ * Turns a rule's declarative `autofix` specs into concrete text edits for
+ * a violation, and applies accepted fixes to file content. Edits are
+ * line-scoped: `find` is matched on the violating line only, so a fix can
+ * never touch code the rule didn't flag.
+ */
+
+import { extname } from 'path';
+import { AutofixSpec, FixSettings, TextEdit, ViolationFix } from '../types';
+import { getLatestApiVersion } from '../knowledge';
+
+// Used when the version calendar is unavailable
+export const DEFAULT_GRAPH_API_VERSION = 'v21.0';
+
+export interface ApplyFixesResult {
+  content: string;
+  applied: ViolationFix[];
+  skipped: ViolationFix[];   // Overlapping with an earlier fix
+}
+
+/**
+ * Build the fix for a violating line, or undefined if no spec applies
+ */
+export function buildFix(
+  specs: AutofixSpec[] | undefined,
+  lineText: string,
+  lineNumber: number,
+  filePath: string,
+  settings: FixSettings = {}
+): ViolationFix | undefined {
+  if (!specs || specs.length === 0) return undefined;
+
+  const ext = extname(filePath).toLowerCase();
+  const spec = specs.find(s => !s.fileTypes || s.fileTypes.includes(ext));
+  if (!spec) return undefined;
+
+  const variables = resolveVariables(settings);
+  const replace = substitute(spec.replace, variables);
+
+  let find: RegExp;
+  try {
+    find = new RegExp(spec.find, 'g');
+  } catch {
+    // Invalid pattern in a custom rule
+    return undefined;
+  }
+
+  const edits: TextEdit[] = [];
+  for (const match of lineText.matchAll(find)) {
+    if (match[0].length === 0) continue;
+
+    const text = match[0].replace(new RegExp(spec.find), replace);
+    if (text === match[0]) continue;
+
+    edits.push({
+      line: lineNumber,
+      column: match.index!,
+      endColumn: match.index! + match[0].length,
+      text,
+    });
+  }
+
+  if (edits.length === 0) return undefined;
+  return { description: substitute(spec.description, variables), edits };
+}
+
+/**
+ * Apply fixes to file content. A fix is applied all-or-nothing; fixes
+ * whose edits overlap an already accepted fix are skipped.
+ */
+export function applyFixes(content: string, fixes: ViolationFix[]): ApplyFixesResult {
+  const applied: ViolationFix[] = [];
+  const skipped: ViolationFix[] = [];
+  const accepted: TextEdit[] = [];
+
+  for (const fix of fixes) {
+    const duplicate = fix.edits.every(e => accepted.some(a => sameEdit(a, e)));
+    if (duplicate) continue;
+
+    if (fix.edits.some(e => accepted.some(a => overlaps(a, e)))) {
+      skipped.push(fix);
+      continue;
+    }
+
+    accepted.push(...fix.edits);
+    applied.push(fix);
+  }
+
+  const lines = content.split('\n');
+  // Apply right-to-left so earlier columns on the same line stay valid
+  const ordered = [...accepted].sort((a, b) => b.line - a.line || b.column - a.column);
+  for (const edit of ordered) {
+    const line = lines[edit.line - 1];
+    if (line === undefined) continue;
+    lines[edit.line - 1] = line.substring(0, edit.column) + edit.text + line.substring(edit.endColumn);
+  }
+
+  return { content: lines.join('\n'), applied, skipped };
+}
+
+function resolveVariables(settings: FixSettings): Record<string, string> {
+  const version = settings.graphApiVersion || getLatestApiVersion('graph')?.version || DEFAULT_GRAPH_API_VERSION;
+  return {
+    graphApiVersion: version.startsWith('v') ? version : `v${version}`,
+  };
+}
+
+function substitute(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => variables[name] ?? placeholder);
+}
+
+function sameEdit(a: TextEdit, b: TextEdit): boolean {
+  return a.line === b.line && a.column === b.column && a.endColumn === b.endColumn && a.text === b.text;
+}
+
+function overlaps(a: TextEdit, b: TextEdit): boolean {
+  return a.line === b.line && a.column < b.endColumn && b.column < a.endColumn;
+}
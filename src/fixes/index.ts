@@ -0,0 +1,3 @@
+export { buildFix, applyFixes, DEFAULT_GRAPH_API_VERSION } from './autofix';
+export type { ApplyFixesResult } from './autofix';
+export { createUnifiedDiff } from './unified-diff';
@@ -0,0 +1,55 @@
+import { createUnifiedDiff } from './unified-diff';
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe('createUnifiedDiff', () => {
+  it('returns an empty string for identical content', () => {
+    expect(createUnifiedDiff('a.js', 'same\n', 'same\n')).toBe('');
+  });
+
+  it('shows a changed line with three lines of context', () => {
+    const before = numbered(10);
+    const after = [...before];
+    after[4] = 'changed';
+
+    expect(createUnifiedDiff('src\\a.js', before.join('\n') + '\n', after.join('\n') + '\n')).toBe([
+      '--- a/src/a.js',
+      '+++ b/src/a.js',
+      '@@ -2,7 +2,7 @@',
+      ' line 2',
+      ' line 3',
+      ' line 4',
+      '-line 5',
+      '+changed',
+      ' line 6',
+      ' line 7',
+      ' line 8',
+      '',
+    ].join('\n'));
+  });
+
+  it('merges nearby changes into one hunk and splits distant ones', () => {
+    const before = numbered(40);
+    const near = [...before];
+    near[5] = 'x';
+    near[10] = 'y';
+    const far = [...before];
+    far[5] = 'x';
+    far[30] = 'y';
+
+    const hunks = (after: string[]) =>
+      createUnifiedDiff('a.js', before.join('\n'), after.join('\n')).split('\n').filter(l => l.startsWith('@@'));
+
+    expect(hunks(near)).toEqual(['@@ -3,12 +3,12 @@']);
+    expect(hunks(far)).toEqual(['@@ -3,7 +3,7 @@', '@@ -28,7 +28,7 @@']);
+  });
+
+  it('numbers insertions and deletions', () => {
+    const diff = createUnifiedDiff('a.js', 'a\nb\nc\n', 'a\nc\nd\n', 0);
+    expect(diff.split('\n').slice(2)).toEqual(['@@ -2 +1,0 @@', '-b', '@@ -3,0 +3 @@', '+d', '']);
+  });
+
+  it('describes a new file', () => {
+    expect(createUnifiedDiff('a.js', '', 'one\ntwo\n')).toBe('--- a/a.js\n+++ b/a.js\n@@ -0,0 +1,2 @@\n+one\n+two\n');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unified Diff
+ *
+ * Minimal line-based unified diff used to preview fixes (`git apply`
+ * compatible). Common leading/trailing lines are trimmed before the LCS
+ * pass, so the cost depends on the size of the change, not the file.
+ */
+
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; line: string };
+
+// Changed regions larger than this are emitted as a full replacement
+// instead of running the quadratic LCS
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Create a unified diff between two versions of a file.
+ * Returns an empty string when the contents are identical.
+ */
+export function createUnifiedDiff(filePath: string, before: string, after: string, context = 3): string {
+  if (before === after) return '';
+
+  const ops = diffLines(toLines(before), toLines(after));
+  const hunks = buildHunks(ops, context);
+  const path = filePath.replace(/\\/g, '/');
+
+  return [`--- a/${path}`, `+++ b/${path}`, ...hunks].join('\n') + '\n';
+}
+
+/**
+ * Split into lines; a trailing newline terminates the last line rather
+ * than starting an empty one
+ */
+function toLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map(line => ({ type: 'equal', line }));
+  ops.push(...diffMiddle(a.slice(start, endA), b.slice(start, endB)));
+  ops.push(...a.slice(endA).map(line => ({ type: 'equal' as const, line })));
+  return ops;
+}
+
+function diffMiddle(a: string[], b: string[]): DiffOp[] {
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    return [
+      ...a.map(line => ({ type: 'delete' as const, line })),
+      ...b.map(line => ({ type: 'insert' as const, line })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: Uint32Array[] = [];
+  for (let i = 0; i <= a.length; i++) lcs.push(new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'delete', line: a[i++] });
+    } else {
+      ops.push({ type: 'insert', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: 'delete', line: a[i++] });
+  while (j < b.length) ops.push({ type: 'insert', line: b[j++] });
+  return ops;
+}
+
+function buildHunks(ops: DiffOp[], context: number): string[] {
+  const changed = ops.map((op, index) => (op.type === 'equal' ? -1 : index)).filter(index => index >= 0);
+  const output: string[] = [];
+
+  let index = 0;
+  while (index < changed.length) {
+    // Extend the hunk while the next change is within 2 * context lines
+    let last = index;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] <= context * 2) last++;
+
+    const from = Math.max(0, changed[index] - context);
+    const to = Math.min(ops.length, changed[last] + context + 1);
+
+    // Line numbers where the hunk starts in the old and new file
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < from; k++) {
+      if (ops[k].type !== 'insert') oldLine++;
+      if (ops[k].type !== 'delete') newLine++;
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let k = from; k < to; k++) {
+      const op = ops[k];
+      if (op.type === 'equal') {
+        body.push(` ${op.line}`);
+        oldCount++;
+        newCount++;
+      } else if (op.type === 'delete') {
+        body.push(`-${op.line}`);
+        oldCount++;
+      } else {
+        body.push(`+${op.line}`);
+        newCount++;
+      }
+    }
+
+    output.push(`@@ -${formatRange(oldLine, oldCount)} +${formatRange(newLine, newCount)} @@`, ...body);
+    index = last + 1;
+  }
+
+  return output;
+}
+
+function formatRange(start: number, count: number): string {
+  // An empty range refers to the line before it
+  if (count === 0) return `${start - 1},0`;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
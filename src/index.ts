@@ -4,9 +4,26 @@
 export * from './types';
 
 // Export scanner functions
-export { scanDirectory } from './scanner/local-scanner';
+export { scanDirectory, scanDirectoryStream } from './scanner/local-scanner';
+export { scanWorkspace } from './scanner/workspace-scanner';
+export { detectWorkspacePackages } from './scanner/workspaces';
 export { scanGitHubRepo, isGitHubUrl, parseGitHubUrl } from './scanner/github-scanner';
 export { SDKDetector, detectMetaPackages, SDK_REGISTRY } from './scanner/sdk-detector';
+export { findDependencyViolations } from './scanner/dependency-analyzer';
+export { buildPermissionInventory } from './scanner/permission-inventory';
+export { parseManifest, MANIFEST_FILE_NAMES } from './scanner/dependency-manifests';
+
+// Export project analyzers
+export { runAnalyzers, AdsTargetingAnalyzer, DataLifecycleAnalyzer, InstagramAutomationAnalyzer, MessagingWindowAnalyzer, PixelCapiAnalyzer, RateLimitAnalyzer, TaintAnalyzer, WebhookAnalyzer, WhatsAppAnalyzer } from './analyzers';
+export type { ProjectAnalyzer, AnalyzerContext } from './analyzers';
+
+// Export reporters
+export { toSarif, severityToSarifLevel, toReviewReadiness } from './reporters';
+export type { SarifLog, SarifOptions, ReviewReadinessReport } from './reporters';
+
+// Export config loading
+export { findConfigFile, loadConfig, loadCustomRules } from './config';
+export type { MetaScanConfig, ResolvedConfig } from './config';
 
 // Export rule management
 export { RuleManager } from './rules/rule-manager';
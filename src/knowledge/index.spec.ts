@@ -0,0 +1,50 @@
+import { classifyApiVersion, getLatestApiVersion, loadApiVersionCalendar } from './index';
+
+const asOf = new Date('2025-06-01');
+
+describe('classifyApiVersion', () => {
+  it('classifies Graph API versions by their end-of-life date', () => {
+    expect(classifyApiVersion('v9.0', { asOf })).toMatchObject({ status: 'expired', endOfLife: '2023-02-23', latest: 'v23.0' });
+    expect(classifyApiVersion('v17.0', { asOf })).toMatchObject({ status: 'current', daysRemaining: 103, estimated: undefined });
+    expect(classifyApiVersion('v17.0', { asOf: new Date('2025-07-01') })).toMatchObject({ status: 'expiring', daysRemaining: 73 });
+    expect(classifyApiVersion('v23.0', { asOf })).toMatchObject({ status: 'current', estimated: true });
+  });
+
+  it('normalizes versions without a minor number or prefix', () => {
+    expect(classifyApiVersion('9', { asOf })).toMatchObject({ version: 'v9.0', status: 'expired' });
+  });
+
+  it('honors a custom expiry window', () => {
+    expect(classifyApiVersion('v17.0', { asOf, expiringWithinDays: 30 })?.status).toBe('current');
+    expect(classifyApiVersion('v17.0', { asOf, expiringWithinDays: 120 })?.status).toBe('expiring');
+  });
+
+  it('treats versions newer than the calendar as current', () => {
+    expect(classifyApiVersion('v99.0', { asOf })?.status).toBe('current');
+    expect(classifyApiVersion('v2.13', { asOf })?.status).toBe('unknown');
+  });
+
+  it('does not report Marketing API versions without a published end-of-life date', () => {
+    const info = classifyApiVersion('v16.0', { api: 'marketing', asOf: new Date('2030-01-01') });
+
+    expect(info).toEqual({ version: 'v16.0', api: 'marketing', status: 'unknown', latest: 'v24.0' });
+  });
+});
+
+describe('graph-api-versions.json', () => {
+  const calendar = loadApiVersionCalendar()!;
+
+  it.each(['graph', 'marketing'] as const)('lists %s versions in release order with valid dates', api => {
+    const entries = calendar[api];
+    for (const [i, entry] of entries.entries()) {
+      expect(entry.version).toMatch(/^v\d+\.\d+$/);
+      expect(Number.isNaN(Date.parse(entry.released))).toBe(false);
+      if (entry.endOfLife) expect(Date.parse(entry.endOfLife)).toBeGreaterThan(Date.parse(entry.released));
+      if (i > 0) expect(Date.parse(entry.released)).toBeGreaterThan(Date.parse(entries[i - 1].released));
+    }
+  });
+
+  it('picks the newest version released by a date', () => {
+    expect(getLatestApiVersion('graph', new Date('2024-06-01'))?.version).toBe('v20.0');
+  });
+});
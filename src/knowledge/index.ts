@@ -8,6 +8,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { ApiVersionInfo, ApiVersionKind, ApiVersionStatus, Platform } from '../types';
 
 // Type definitions for knowledge files
 export interface PolicyDoc {
@@ -103,11 +104,50 @@ export interface CustomRules {
   }>;
 }
 
+export interface ApiVersionEntry {
+  version: string;      // e.g. "v18.0"
+  released: string;     // YYYY-MM-DD
+  endOfLife?: string;   // YYYY-MM-DD, first day the version is no longer available (omitted when unknown)
+  estimated?: boolean;  // End-of-life date not announced yet
+}
+
+export interface ApiVersionCalendar {
+  version: string;
+  lastUpdated: string;
+  source: string;
+  expiringWithinDays: number;
+  graph: ApiVersionEntry[];
+  marketing: ApiVersionEntry[];
+}
+
+export interface PermissionEntry {
+  platform: Platform;
+  default?: boolean;    // Granted to every app without App Review
+  fields?: string[];    // Node fields that need the permission
+  edges?: string[];     // Edges that need the permission
+  review?: string;      // What App Review asks to see for the permission
+}
+
+export interface PermissionCatalog {
+  version: string;
+  lastUpdated: string;
+  source: string;
+  permissions: Record<string, PermissionEntry>;
+}
+
+export interface ApiVersionCheckOptions {
+  api?: ApiVersionKind;
+  asOf?: Date;
+  expiringWithinDays?: number;
+}
+
 // Cache for loaded knowledge
 let metaPoliciesCache: MetaPolicies | null = null;
 let analysisRulesCache: AnalysisRules | null = null;
 let customRulesCache: CustomRules | null = null;
 let platformConfigsCache: Map<string, PlatformConfig> = new Map();
+let apiVersionCalendarCache: ApiVersionCalendar | null = null;
+let permissionCatalogCache: PermissionCatalog | null = null;
 
 /**
  * Find the knowledge directory
@@ -226,6 +266,102 @@ export function loadAllPlatformConfigs(): Map<string, PlatformConfig> {
   return platformConfigsCache;
 }
 
+/**
+ * Load the Graph/Marketing API version calendar
+ */
+export function loadApiVersionCalendar(): ApiVersionCalendar | null {
+  if (apiVersionCalendarCache) return apiVersionCalendarCache;
+
+  const knowledgeDir = findKnowledgeDir();
+  if (!knowledgeDir) return null;
+
+  apiVersionCalendarCache = loadJsonFile<ApiVersionCalendar>(path.join(knowledgeDir, 'graph-api-versions.json'));
+  return apiVersionCalendarCache;
+}
+
+/**
+ * Load the Facebook Login permission catalog
+ */
+export function loadPermissionCatalog(): PermissionCatalog | null {
+  if (permissionCatalogCache) return permissionCatalogCache;
+
+  const knowledgeDir = findKnowledgeDir();
+  if (!knowledgeDir) return null;
+
+  permissionCatalogCache = loadJsonFile<PermissionCatalog>(path.join(knowledgeDir, 'permissions.json'));
+  return permissionCatalogCache;
+}
+
+/**
+ * Classify an API version as current, expiring soon or expired on a given
+ * date. Returns null when the calendar is unavailable.
+ */
+export function classifyApiVersion(version: string, options: ApiVersionCheckOptions = {}): ApiVersionInfo | null {
+  const calendar = loadApiVersionCalendar();
+  if (!calendar) return null;
+
+  const api = options.api || 'graph';
+  const asOf = options.asOf || new Date();
+  const expiringWithinDays = options.expiringWithinDays ?? calendar.expiringWithinDays;
+  const normalized = normalizeApiVersion(version);
+  const entries = calendar[api] || [];
+  const latest = getLatestApiVersion(api, asOf)?.version;
+
+  const entry = entries.find(e => e.version === normalized);
+  if (!entry) {
+    // Newer than anything in the calendar: assume current
+    const newest = entries[entries.length - 1];
+    const status = newest && compareApiVersions(normalized, newest.version) > 0 ? 'current' : 'unknown';
+    return { version: normalized, api, status, latest };
+  }
+
+  // Without a known end-of-life date there is nothing to report
+  if (!entry.endOfLife) {
+    return { version: normalized, api, status: 'unknown', latest };
+  }
+
+  const daysRemaining = Math.floor((Date.parse(entry.endOfLife) - asOf.getTime()) / 86_400_000);
+  let status: ApiVersionStatus = 'current';
+  if (daysRemaining <= 0) {
+    status = 'expired';
+  } else if (daysRemaining <= expiringWithinDays) {
+    status = 'expiring';
+  }
+
+  return {
+    version: normalized,
+    api,
+    status,
+    endOfLife: entry.endOfLife,
+    daysRemaining,
+    estimated: entry.estimated,
+    latest,
+  };
+}
+
+/**
+ * Newest version released on or before the given date
+ */
+export function getLatestApiVersion(api: ApiVersionKind = 'graph', asOf: Date = new Date()): ApiVersionEntry | null {
+  const calendar = loadApiVersionCalendar();
+  if (!calendar) return null;
+
+  const released = (calendar[api] || []).filter(e => Date.parse(e.released) <= asOf.getTime());
+  return released.sort((a, b) => compareApiVersions(a.version, b.version)).pop() || null;
+}
+
+function normalizeApiVersion(version: string): string {
+  const match = version.match(/(\d+)(?:\.(\d+))?/);
+  if (!match) return version;
+  return `v${match[1]}.${match[2] || '0'}`;
+}
+
+function compareApiVersions(a: string, b: string): number {
+  const [aMajor, aMinor] = a.replace(/^v/, '').split('.').map(Number);
+  const [bMajor, bMinor] = b.replace(/^v/, '').split('.').map(Number);
+  return aMajor - bMajor || (aMinor || 0) - (bMinor || 0);
+}
+
 /**
  * Get policy doc URL by key
  */
@@ -353,6 +489,8 @@ export function clearKnowledgeCache(): void {
   metaPoliciesCache = null;
   analysisRulesCache = null;
   customRulesCache = null;
+  apiVersionCalendarCache = null;
+  permissionCatalogCache = null;
   platformConfigsCache.clear();
 }
 
@@ -26,7 +26,7 @@ const DEFAULT_REQUESTS_PER_MINUTE = 50;
 export class ClaudeProvider implements LLMProvider {
   readonly name = 'Claude';
   private client: Anthropic;
-  private model: string;
+  readonly model: string;
   private requestsPerMinute: number;
   private lastRequestTime: number = 0;
   private requestCount: number = 0;
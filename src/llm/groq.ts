@@ -30,7 +30,7 @@ const DEFAULT_REQUESTS_PER_MINUTE = 10;
 export class GroqProvider implements LLMProvider {
   readonly name = 'Groq';
   private apiKey: string;
-  private model: string;
+  readonly model: string;
   private baseUrl: string;
   private requestsPerMinute: number;
   private lastRequestTime: number = 0;
@@ -23,7 +23,7 @@ const DEFAULT_BASE_URL = 'http://localhost:11434';
 
 export class OllamaProvider implements LLMProvider {
   readonly name = 'Ollama';
-  private model: string;
+  readonly model: string;
   private baseUrl: string;
 
   constructor(config: OllamaConfig = {}) {
@@ -23,7 +23,7 @@ const DEFAULT_MODEL = 'gpt-4o-mini';
 export class OpenAIProvider implements LLMProvider {
   readonly name = 'OpenAI';
   private client: OpenAI;
-  private model: string;
+  readonly model: string;
 
   constructor(config: OpenAIConfig) {
     this.client = new OpenAI({
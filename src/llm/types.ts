@@ -14,6 +14,11 @@ export interface LLMProvider {
    */
   name: string;
 
+  /**
+   * Model used for analysis (part of the scan cache key)
+   */
+  readonly model?: string;
+
   /**
    * Analyze code for policy violations
    * @param prompt The analysis prompt
@@ -3,20 +3,38 @@
  * These are the core policy violations that don't require scraping
  */
 
+import { AutofixSpec, CodeContext } from '../types';
+
+export type BundledRuleCategory =
+  | 'Security'
+  | 'Policy Violation'
+  | 'Best Practice'
+  | 'Deprecation'
+  | 'Maintenance'
+  | 'Rate Limiting'
+  | 'Ads';  // Pixel and Conversions API event data
+
 export interface BundledRule {
   code: string;
   name: string;
   platform: 'facebook' | 'instagram' | 'messenger' | 'whatsapp' | 'ads' | 'all';
   severity: 'error' | 'warning' | 'info';
-  category: string;
+  category: BundledRuleCategory;
   description: string;
   detection: {
-    type: 'regex' | 'package' | 'sdk';
+    type: 'regex' | 'package' | 'sdk' | 'ast' | 'analyzer';
     pattern?: string;
     packages?: string[];
+    astQuery?: string;  // tree-sitter query for JS/TS (pattern is the regex fallback)
+    multiline?: boolean;
+    mustContain?: string;
+    mustNotContain?: string;
+    contexts?: CodeContext[];
+    analyzer?: string;  // Project analyzer reporting the rule (src/analyzers)
   };
   recommendation: string;
   docUrl?: string;
+  autofix?: AutofixSpec[];
 }
 
 /**
@@ -35,9 +53,31 @@ export const BUNDLED_RULES: BundledRule[] = [
     detection: {
       type: 'regex',
       pattern: '(EAAA[A-Za-z0-9]{50,}|access_token\\s*[=:]\\s*["\'][A-Za-z0-9_-]{50,}["\'])',
+      // Sample tokens in comments and docs are not credentials
+      contexts: ['code', 'string'],
     },
     recommendation: 'Store tokens in environment variables or secure secret management. Never commit tokens to source control.',
     docUrl: 'https://developers.facebook.com/docs/facebook-login/security/',
+    autofix: [
+      {
+        description: 'Read the token from the META_ACCESS_TOKEN environment variable',
+        find: '([\'"`])EAAA[A-Za-z0-9]{50,}\\1',
+        replace: 'process.env.META_ACCESS_TOKEN',
+        fileTypes: ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs'],
+      },
+      {
+        description: 'Read the token from the META_ACCESS_TOKEN environment variable',
+        find: '([\'"])EAAA[A-Za-z0-9]{50,}\\1',
+        replace: "getenv('META_ACCESS_TOKEN')",
+        fileTypes: ['.php'],
+      },
+      {
+        description: 'Read the token from the META_ACCESS_TOKEN environment variable',
+        find: '([\'"])EAAA[A-Za-z0-9]{50,}\\1',
+        replace: "ENV['META_ACCESS_TOKEN']",
+        fileTypes: ['.rb'],
+      },
+    ],
   },
   {
     code: 'APP_SECRET_EXPOSED',
@@ -53,35 +93,54 @@ export const BUNDLED_RULES: BundledRule[] = [
     recommendation: 'App secrets must only be used server-side and stored in environment variables.',
     docUrl: 'https://developers.facebook.com/docs/facebook-login/security/',
   },
+  {
+    code: 'TOKEN_IN_GRAPH_URL',
+    name: 'Access Token in Graph API URL',
+    platform: 'all',
+    severity: 'warning',
+    category: 'Security',
+    description: 'Access token passed as a query string parameter of a Graph API request URL. URLs end up in proxy, server and error logs.',
+    detection: {
+      type: 'ast',
+      astQuery: '(call_expression arguments: (arguments . [(string) (template_string)] @violation (#match? @violation "graph\\\\.facebook\\\\.com.*[?&]access_token=")))',
+      pattern: '\\(\\s*[`"\'][^`"\']*graph\\.facebook\\.com[^`"\']*[?&]access_token=',
+    },
+    recommendation: 'Send the token in an Authorization: Bearer header (or request body) and add appsecret_proof for server-side calls.',
+    docUrl: 'https://developers.facebook.com/docs/graph-api/securing-requests/',
+  },
 
-  // === DEPRECATED API VERSIONS ===
+  // === DEPRECATED API VERSIONS (reported by SDK detection with the version calendar) ===
   {
-    code: 'DEPRECATED_API_V1_V9',
-    name: 'Deprecated API Version (v1-v9)',
+    code: 'DEPRECATED_API_VERSION',
+    name: 'Deprecated API Version',
     platform: 'all',
     severity: 'error',
     category: 'Deprecation',
-    description: 'Using deprecated Graph API version. Versions v1-v9 are no longer supported.',
-    detection: {
-      type: 'regex',
-      pattern: 'graph\\.facebook\\.com\\/v[1-9]\\.',
-    },
-    recommendation: 'Upgrade to v18.0 or later. See https://developers.facebook.com/docs/graph-api/changelog/versions',
+    description: 'A Graph or Marketing API version is past its end of life on the scan date (--as-of).',
+    detection: { type: 'sdk' },
+    recommendation: 'Upgrade to the latest Graph API version. See https://developers.facebook.com/docs/graph-api/changelog/versions',
     docUrl: 'https://developers.facebook.com/docs/graph-api/changelog/',
+    autofix: [{
+      description: 'Upgrade the Graph API version in the URL to {{graphApiVersion}}',
+      find: 'graph\\.facebook\\.com\\/v\\d+\\.\\d+',
+      replace: 'graph.facebook.com/{{graphApiVersion}}',
+    }],
   },
   {
-    code: 'DEPRECATED_API_V10_V15',
-    name: 'Deprecated API Version (v10-v15)',
+    code: 'API_VERSION_EXPIRING',
+    name: 'API Version Expiring Soon',
     platform: 'all',
     severity: 'warning',
     category: 'Deprecation',
-    description: 'Using soon-to-be-deprecated Graph API version.',
-    detection: {
-      type: 'regex',
-      pattern: 'graph\\.facebook\\.com\\/v1[0-5]\\.',
-    },
-    recommendation: 'Upgrade to v18.0 or later to avoid disruption.',
+    description: 'A Graph or Marketing API version reaches its end of life soon, or is past an estimated end-of-life date.',
+    detection: { type: 'sdk' },
+    recommendation: 'Plan the upgrade to the latest Graph API version before the end-of-life date.',
     docUrl: 'https://developers.facebook.com/docs/graph-api/changelog/',
+    autofix: [{
+      description: 'Upgrade the Graph API version in the URL to {{graphApiVersion}}',
+      find: 'graph\\.facebook\\.com\\/v\\d+\\.\\d+',
+      replace: 'graph.facebook.com/{{graphApiVersion}}',
+    }],
   },
 
   // === UNOFFICIAL INSTAGRAM LIBRARIES ===
@@ -105,12 +164,71 @@ export const BUNDLED_RULES: BundledRule[] = [
         'instagram_private_api',
         'pylgram',
         'instalooter',
+        'mgp25/instagram-php',
+        'github.com/ahmdrz/goinsta',
       ],
     },
     recommendation: 'Use official Instagram Graph API via facebook-nodejs-business-sdk. Unofficial libraries can result in account bans and legal action.',
     docUrl: 'https://developers.facebook.com/docs/instagram-api/',
   },
 
+  // === INSTAGRAM AUTOMATION (reported by the instagram-automation analyzer) ===
+  {
+    code: 'IG_NO_AUTOMATED_DM',
+    name: 'Automated Instagram DMs',
+    platform: 'instagram',
+    severity: 'error',
+    category: 'Policy Violation',
+    description: 'Instagram DMs or comment replies are sent in a loop over followers, commenters or another audience list instead of in response to a user\'s own message.',
+    detection: { type: 'analyzer', analyzer: 'instagram-automation' },
+    recommendation: 'Only message users who messaged the account (within 24 hours) or commented on its media (private replies), one reply per user action.',
+    docUrl: 'https://developers.facebook.com/docs/instagram-platform/policy',
+  },
+  {
+    code: 'IG_AUTOMATED_ENGAGEMENT',
+    name: 'Automated Follows, Likes or Comments',
+    platform: 'instagram',
+    severity: 'error',
+    category: 'Policy Violation',
+    description: 'Accounts are followed, or media liked or commented on, in a loop over followers, hashtags or other accounts. Instagram treats this as inauthentic activity.',
+    detection: { type: 'analyzer', analyzer: 'instagram-automation' },
+    recommendation: 'Remove follow/like/comment automation. The Instagram Graph API does not offer these actions for other accounts.',
+    docUrl: 'https://help.instagram.com/581066165581870',
+  },
+  {
+    code: 'IG_RATE_LIMIT_EVASION',
+    name: 'Randomized Delays Between Automated Actions',
+    platform: 'instagram',
+    severity: 'warning',
+    category: 'Policy Violation',
+    description: 'Random sleeps between automated Instagram actions or browser steps imitate a person to get around rate limits and bot detection.',
+    detection: { type: 'analyzer', analyzer: 'instagram-automation' },
+    recommendation: 'Stay within the documented rate limits (X-Business-Use-Case-Usage) instead of disguising automated traffic.',
+    docUrl: 'https://developers.facebook.com/docs/graph-api/overview/rate-limiting#instagram-graph-api',
+  },
+  {
+    code: 'IG_BROWSER_AUTOMATION',
+    name: 'Headless Browser Automation of instagram.com',
+    platform: 'instagram',
+    severity: 'error',
+    category: 'Policy Violation',
+    description: 'Puppeteer, Playwright, Selenium or another browser automation tool drives the Instagram website. Automated access to instagram.com violates the Instagram Terms of Use.',
+    detection: { type: 'analyzer', analyzer: 'instagram-automation' },
+    recommendation: 'Use the Instagram Graph API with an approved app for the data and actions you need.',
+    docUrl: 'https://help.instagram.com/581066165581870',
+  },
+  {
+    code: 'IG_USER_AGENT_SPOOFING',
+    name: 'Spoofed User Agent for Instagram',
+    platform: 'instagram',
+    severity: 'error',
+    category: 'Policy Violation',
+    description: 'Requests to Instagram impersonate a browser or the Instagram app (browser or app user agents, random user agents, X-IG-App-ID), the signature of private API clients and scrapers.',
+    detection: { type: 'analyzer', analyzer: 'instagram-automation' },
+    recommendation: 'Call graph.instagram.com or graph.facebook.com with your app\'s access token instead of impersonating Instagram clients.',
+    docUrl: 'https://developers.facebook.com/docs/instagram-platform',
+  },
+
   // === MESSENGER POLICY VIOLATIONS ===
   {
     code: 'HUMAN_AGENT_ABUSE',
@@ -141,6 +259,52 @@ export const BUNDLED_RULES: BundledRule[] = [
     docUrl: 'https://developers.facebook.com/docs/messenger-platform/policy/',
   },
 
+  // === MESSAGING WINDOW (reported by the messaging-window analyzer) ===
+  {
+    code: 'MSG_24HR_STANDARD',
+    name: 'Send Outside the 24-Hour Window',
+    platform: 'messenger',
+    severity: 'error',
+    category: 'Policy Violation',
+    description: 'A scheduled, broadcast or bulk Send API call has no message tag and no check that the user messaged the Page in the last 24 hours. Standard messages are only allowed inside that window.',
+    detection: { type: 'analyzer', analyzer: 'messaging-window' },
+    recommendation: 'Only send to users whose last message is less than 24 hours old, or use messaging_type MESSAGE_TAG with a tag that matches the content.',
+    docUrl: 'https://developers.facebook.com/docs/messenger-platform/policy/policy-overview#24hours_window',
+  },
+  {
+    code: 'MSG_TAGS_REQUIRED',
+    name: 'Invalid Message Tag Usage',
+    platform: 'messenger',
+    severity: 'warning',
+    category: 'Policy Violation',
+    description: 'A Send API call uses messaging_type MESSAGE_TAG without a tag, a tag that does not exist or a tag without MESSAGE_TAG, or sends HUMAN_AGENT from automation.',
+    detection: { type: 'analyzer', analyzer: 'messaging-window' },
+    recommendation: 'Send messaging_type MESSAGE_TAG together with CONFIRMED_EVENT_UPDATE, POST_PURCHASE_UPDATE, ACCOUNT_UPDATE or (for replies written by a person) HUMAN_AGENT.',
+    docUrl: 'https://developers.facebook.com/docs/messenger-platform/send-messages/message-tags/',
+  },
+  {
+    code: 'MSG_DEPRECATED_TAG',
+    name: 'Deprecated Message Tag',
+    platform: 'messenger',
+    severity: 'error',
+    category: 'Deprecation',
+    description: 'A Send API call uses a message tag that Meta has retired (e.g. SHIPPING_UPDATE, ISSUE_RESOLUTION, NON_PROMOTIONAL_SUBSCRIPTION). The Send API rejects these messages.',
+    detection: { type: 'analyzer', analyzer: 'messaging-window' },
+    recommendation: 'Switch to one of the current tags (CONFIRMED_EVENT_UPDATE, POST_PURCHASE_UPDATE, ACCOUNT_UPDATE, HUMAN_AGENT) or send inside the 24-hour window.',
+    docUrl: 'https://developers.facebook.com/docs/messenger-platform/send-messages/message-tags/',
+  },
+  {
+    code: 'MSG_NO_PROMOTIONAL',
+    name: 'Promotional Content With a Message Tag',
+    platform: 'messenger',
+    severity: 'error',
+    category: 'Policy Violation',
+    description: 'A message sent with a message tag contains promotional content (sales, discounts, coupons). Tags may only be used for their non-promotional purpose.',
+    detection: { type: 'analyzer', analyzer: 'messaging-window' },
+    recommendation: 'Send promotions only inside the 24-hour window, or through sponsored messages or Marketing Messages.',
+    docUrl: 'https://developers.facebook.com/docs/messenger-platform/policy/policy-overview',
+  },
+
   // === WHATSAPP POLICY ===
   {
     code: 'WHATSAPP_UNOFFICIAL_API',
@@ -159,32 +323,169 @@ export const BUNDLED_RULES: BundledRule[] = [
         'wa-automate',
         'whatsapp-web',
         'wwebjs',
+        'go.mau.fi/whatsmeow',
+        'yowsup',
+        'yowsup2',
       ],
     },
     recommendation: 'Use official WhatsApp Business API via Cloud API or On-Premises. Unofficial APIs violate WhatsApp Terms.',
     docUrl: 'https://developers.facebook.com/docs/whatsapp/cloud-api/',
   },
 
+  // === WHATSAPP MESSAGING (reported by the whatsapp-messaging analyzer) ===
+  {
+    code: 'WA_TEMPLATE_REQUIRED',
+    name: 'Free-Form WhatsApp Message Outside a Conversation',
+    platform: 'whatsapp',
+    severity: 'error',
+    category: 'Policy Violation',
+    description: 'A free-form (text, media, interactive) WhatsApp message is sent from a scheduled job, event trigger or broadcast rather than in reply to an inbound message. Outside the 24-hour customer service window only approved templates are delivered.',
+    detection: { type: 'analyzer', analyzer: 'whatsapp-messaging' },
+    recommendation: 'Send business-initiated messages with type "template" and an approved template, or only send free-form messages while the customer service window is open.',
+    docUrl: 'https://developers.facebook.com/docs/whatsapp/cloud-api/guides/send-message-templates',
+  },
+  {
+    code: 'WA_OPT_IN_REQUIRED',
+    name: 'WhatsApp Opt-In Not Stored or Checked',
+    platform: 'whatsapp',
+    severity: 'error',
+    category: 'Policy Violation',
+    description: 'Business-initiated WhatsApp messages are sent, but the opt-in is not stored in the database or not checked before sending. The WhatsApp Business Policy requires opt-in before the first message.',
+    detection: { type: 'analyzer', analyzer: 'whatsapp-messaging' },
+    recommendation: 'Record when and how each user opted in to WhatsApp messages, and only send templates to users whose opt-in is on record.',
+    docUrl: 'https://developers.facebook.com/docs/whatsapp/overview/getting-opt-in',
+  },
+
   // === RATE LIMITING ===
   // Note: Rate limit handling is better checked via codebase analysis (AI scanner)
   // since it requires understanding the surrounding error handling context.
   // Removed overly broad regex pattern that caused false positives.
 
-  // === WEBHOOK SECURITY ===
+  // === RATE LIMITING (reported by the rate-limit analyzer) ===
+  {
+    code: 'RATE_LIMIT_MISSING',
+    name: 'Missing Rate Limit Handling',
+    platform: 'all',
+    severity: 'warning',
+    category: 'Rate Limiting',
+    description: 'Graph API call without retry/backoff, X-App-Usage/X-Business-Use-Case-Usage checks or handling of the rate limit error codes (4, 17, 32, 613). Meta temporarily blocks apps that keep calling once throttled.',
+    detection: { type: 'analyzer', analyzer: 'rate-limit' },
+    recommendation: 'Retry throttled calls with exponential backoff and jitter: wait = min(cap, base * 2^attempt) + random_jitter. Slow down as X-App-Usage approaches 100.',
+    docUrl: 'https://developers.facebook.com/docs/graph-api/overview/rate-limiting/',
+  },
+  {
+    code: 'RATE_LIMIT_HOT_PATH',
+    name: 'Unthrottled Graph API Calls in a Loop',
+    platform: 'all',
+    severity: 'error',
+    category: 'Rate Limiting',
+    description: 'Graph API call inside a loop with no backoff or rate limit handling. Batches of calls exhaust the app or business use case quota quickly.',
+    detection: { type: 'analyzer', analyzer: 'rate-limit' },
+    recommendation: 'Use batch requests or field expansion instead of per-item calls, limit concurrency, and back off on error codes 4, 17, 32 and 613.',
+    docUrl: 'https://developers.facebook.com/docs/graph-api/overview/rate-limiting/',
+  },
+
+  // === WEBHOOK SECURITY (reported by the webhook analyzer) ===
+  {
+    code: 'WEBHOOK_NO_VERIFY_TOKEN',
+    name: 'Webhook Without Verify Token Check',
+    platform: 'all',
+    severity: 'warning',
+    category: 'Security',
+    description: 'Webhook endpoint does not answer the hub.mode/hub.verify_token/hub.challenge verification request, or echoes the challenge without checking the token.',
+    detection: { type: 'analyzer', analyzer: 'webhook' },
+    recommendation: 'On GET, compare hub.verify_token with your configured token and only then respond with hub.challenge.',
+    docUrl: 'https://developers.facebook.com/docs/graph-api/webhooks/getting-started#verification-requests',
+  },
   {
     code: 'WEBHOOK_NO_VERIFICATION',
     name: 'Webhook Without Signature Verification',
     platform: 'all',
     severity: 'warning',
     category: 'Security',
-    description: 'Webhook endpoint should verify x-hub-signature header to prevent spoofed events.',
-    detection: {
-      type: 'regex',
-      // Only match webhook handlers that process POST body without signature check
-      pattern: '(app\\.(post|use).*webhook|webhook.*handler|handleWebhook)(?!.*x-hub-signature)',
-    },
+    description: 'Webhook endpoint should verify the X-Hub-Signature-256 header to prevent spoofed events.',
+    detection: { type: 'analyzer', analyzer: 'webhook' },
     recommendation: 'Always verify webhook signatures using your app secret. Check x-hub-signature-256 header.',
-    docUrl: 'https://developers.facebook.com/docs/graph-api/webhooks/getting-started#verification-requests',
+    docUrl: 'https://developers.facebook.com/docs/graph-api/webhooks/getting-started#event-notifications',
+  },
+  {
+    code: 'WEBHOOK_SIGNATURE_PARSED_BODY',
+    name: 'Webhook Signature Computed Over Parsed Body',
+    platform: 'all',
+    severity: 'warning',
+    category: 'Security',
+    description: 'The signature HMAC is computed over a parsed and re-serialized body. Whitespace and escaping differ from what Meta signed, so valid events fail or checks get disabled.',
+    detection: { type: 'analyzer', analyzer: 'webhook' },
+    recommendation: 'Compute the HMAC over the raw request bytes (express.raw or the verify option of express.json, request.get_data(), $request->getContent()).',
+    docUrl: 'https://developers.facebook.com/docs/graph-api/webhooks/getting-started#event-notifications',
+  },
+  {
+    code: 'WEBHOOK_TIMING_UNSAFE_COMPARE',
+    name: 'Webhook Signature Compared Unsafely',
+    platform: 'all',
+    severity: 'warning',
+    category: 'Security',
+    description: 'The webhook signature is compared with ==/=== or string equality, which leaks timing information.',
+    detection: { type: 'analyzer', analyzer: 'webhook' },
+    recommendation: 'Compare signatures with crypto.timingSafeEqual, hmac.compare_digest or hash_equals.',
+    docUrl: 'https://developers.facebook.com/docs/graph-api/webhooks/getting-started#event-notifications',
+  },
+  {
+    code: 'WEBHOOK_SLOW_RESPONSE',
+    name: 'Webhook Responds After Slow Work',
+    platform: 'all',
+    severity: 'info',
+    category: 'Best Practice',
+    description: 'Webhook handler calls APIs or the database before sending its 200 response. Slow responses are retried and can get the subscription disabled.',
+    detection: { type: 'analyzer', analyzer: 'webhook' },
+    recommendation: 'Respond with 200 OK first and process events asynchronously (queue, background task).',
+    docUrl: 'https://developers.facebook.com/docs/messenger-platform/webhooks#event-notifications',
+  },
+
+  // === DATA LIFECYCLE (reported by the data-lifecycle analyzer) ===
+  {
+    code: 'DATA_DELETION_CALLBACK_MISSING',
+    name: 'No Data Deletion Callback',
+    platform: 'all',
+    severity: 'error',
+    category: 'Policy Violation',
+    description: 'Meta user data is stored in the database, but there is no data deletion callback (parsing signed_request and returning a confirmation code) or data deletion instructions page. Apps with Facebook Login must provide one.',
+    detection: { type: 'analyzer', analyzer: 'data-lifecycle' },
+    recommendation: 'Add a deletion callback that verifies signed_request with the app secret, deletes (or queues deletion of) the user\'s data and responds with { url, confirmation_code }. Register it as the Data Deletion Request URL in App Settings.',
+    docUrl: 'https://developers.facebook.com/docs/development/create-an-app/app-dashboard/data-deletion-callback',
+  },
+  {
+    code: 'DATA_DELETION_CALLBACK_INCOMPLETE',
+    name: 'Incomplete Data Deletion Callback',
+    platform: 'all',
+    severity: 'warning',
+    category: 'Policy Violation',
+    description: 'The data deletion callback does not verify the signed_request signature or does not respond with a status URL and confirmation code, so Meta rejects it or anyone can trigger deletions.',
+    detection: { type: 'analyzer', analyzer: 'data-lifecycle' },
+    recommendation: 'Verify the HMAC-SHA256 signature of signed_request with the app secret and respond with JSON { url, confirmation_code } where url shows the deletion status.',
+    docUrl: 'https://developers.facebook.com/docs/development/create-an-app/app-dashboard/data-deletion-callback',
+  },
+  {
+    code: 'DEAUTHORIZE_CALLBACK_MISSING',
+    name: 'No Deauthorize Callback',
+    platform: 'all',
+    severity: 'warning',
+    category: 'Policy Violation',
+    description: 'Meta user data is stored, but no deauthorize callback handles users removing the app, so their tokens and data stay behind.',
+    detection: { type: 'analyzer', analyzer: 'data-lifecycle' },
+    recommendation: 'Add a Deauthorize Callback URL that verifies signed_request and revokes the user\'s tokens and stored data.',
+    docUrl: 'https://developers.facebook.com/docs/facebook-login/guides/advanced/manual-flow#deauth-callback',
+  },
+  {
+    code: 'DATA_RETENTION_VIOLATION',
+    name: 'Meta Data Stored Without Retention Limit',
+    platform: 'all',
+    severity: 'warning',
+    category: 'Policy Violation',
+    description: 'Meta user data is stored without a TTL, expiry column or scheduled cleanup job, so it is kept longer than the Platform Terms allow.',
+    detection: { type: 'analyzer', analyzer: 'data-lifecycle' },
+    recommendation: 'Add an expiry (TTL index, expires_at column) or a scheduled job that deletes data that is no longer needed, and delete a user\'s data when they remove the app.',
+    docUrl: 'https://developers.facebook.com/terms/',
   },
 
   // === DATA HANDLING ===
@@ -214,11 +515,58 @@ export const BUNDLED_RULES: BundledRule[] = [
       type: 'regex',
       // More specific: only match when actually logging the value, not just referencing the field name
       pattern: '(console\\.log|logger\\.(info|warn|error|debug)|print)\\s*\\([^)]*(?:access_token|accessToken|user\\.email|password)',
+      contexts: ['code'],
     },
     recommendation: 'Never log access tokens or PII. Use redaction for sensitive fields in logs.',
     docUrl: 'https://developers.facebook.com/docs/development/release/data-deletion/',
   },
 
+  // === DATA FLOW (reported by the taint analyzer) ===
+  {
+    code: 'PLATFORM_DATA_LOGGED',
+    name: 'Platform Data Written to Logs',
+    platform: 'all',
+    severity: 'warning',
+    category: 'Security',
+    description: 'Data returned by the Graph API reaches a logging call. Logs are widely readable, rarely encrypted and outlive data deletion requests.',
+    detection: { type: 'analyzer', analyzer: 'taint' },
+    recommendation: 'Log IDs or request metadata instead of Graph API responses, or redact user fields before logging.',
+    docUrl: 'https://developers.facebook.com/terms/',
+  },
+  {
+    code: 'PLATFORM_DATA_THIRD_PARTY',
+    name: 'Platform Data Sent to a Third Party',
+    platform: 'all',
+    severity: 'error',
+    category: 'Policy Violation',
+    description: 'Data returned by the Graph API is sent to a non-Meta HTTP endpoint. The Platform Terms restrict sharing Platform Data with third parties.',
+    detection: { type: 'analyzer', analyzer: 'taint' },
+    recommendation: 'Only share Platform Data with service providers processing it on your behalf, and disclose it in your privacy policy.',
+    docUrl: 'https://developers.facebook.com/terms/#datause',
+  },
+  {
+    code: 'PLATFORM_DATA_ANALYTICS',
+    name: 'Platform Data Sent to Analytics',
+    platform: 'all',
+    severity: 'warning',
+    category: 'Policy Violation',
+    description: 'Data returned by the Graph API is passed to an analytics SDK (Segment, Mixpanel, Amplitude, Google Analytics, ...).',
+    detection: { type: 'analyzer', analyzer: 'taint' },
+    recommendation: 'Send anonymous identifiers to analytics tools instead of profile data, and never use Platform Data for profiling outside your app.',
+    docUrl: 'https://developers.facebook.com/terms/#datause',
+  },
+  {
+    code: 'PLATFORM_DATA_STORED',
+    name: 'Platform Data Persisted',
+    platform: 'all',
+    severity: 'info',
+    category: 'Best Practice',
+    description: 'Data returned by the Graph API is written to a database, cache, file or browser storage.',
+    detection: { type: 'analyzer', analyzer: 'taint' },
+    recommendation: 'Store only the fields you need, and delete them on data deletion callbacks and when users remove your app.',
+    docUrl: 'https://developers.facebook.com/docs/development/release/data-deletion/',
+  },
+
   // === SDK USAGE ===
   {
     code: 'OUTDATED_SDK',
@@ -235,6 +583,65 @@ export const BUNDLED_RULES: BundledRule[] = [
     docUrl: 'https://github.com/facebook/facebook-nodejs-business-sdk',
   },
 
+  // === SPECIAL AD CATEGORIES (reported by the ads-targeting analyzer) ===
+  {
+    code: 'ADS_SPECIAL_CATEGORY_MISSING',
+    name: 'Special Ad Category Not Declared',
+    platform: 'ads',
+    severity: 'warning',
+    category: 'Policy Violation',
+    description: 'A campaign is created without special_ad_categories, or declares none while its ads are about housing, jobs, credit or politics.',
+    detection: { type: 'analyzer', analyzer: 'ads-targeting' },
+    recommendation: 'Send special_ad_categories on every campaign: HOUSING, EMPLOYMENT, FINANCIAL_PRODUCTS_SERVICES or ISSUES_ELECTIONS_POLITICS where they apply, [] otherwise.',
+    docUrl: 'https://developers.facebook.com/docs/marketing-api/audiences/special-ad-category',
+  },
+  {
+    code: 'ADS_SPECIAL_CATEGORY_TARGETING',
+    name: 'Restricted Targeting in a Special Ad Category',
+    platform: 'ads',
+    severity: 'error',
+    category: 'Policy Violation',
+    description: 'An ad set of a special ad category campaign targets by age, gender, ZIP code, a small radius or detailed demographics and interests. These options are not allowed for housing, employment, credit and social issue ads.',
+    detection: { type: 'analyzer', analyzer: 'ads-targeting' },
+    recommendation: 'Target ages 18-65+, all genders and locations with at least a 15-mile radius, and use Special Ad Audiences instead of detailed targeting or lookalikes.',
+    docUrl: 'https://www.facebook.com/business/help/298000447747885',
+  },
+
+  // === PIXEL & CONVERSIONS API (reported by the pixel-capi analyzer) ===
+  {
+    code: 'ADS_UNHASHED_USER_DATA',
+    name: 'Unhashed Customer Information',
+    platform: 'ads',
+    severity: 'error',
+    category: 'Ads',
+    description: 'Email, phone, name, birth date, address or external ID is sent to the Conversions API without SHA-256 hashing, or in clear text in Pixel event parameters.',
+    detection: { type: 'analyzer', analyzer: 'pixel-capi' },
+    recommendation: 'Trim, lowercase and SHA-256 hash each user_data value (or build it with the Business SDK UserData, which hashes for you). Keep customer information out of Pixel event parameters.',
+    docUrl: 'https://developers.facebook.com/docs/marketing-api/conversions-api/parameters/customer-information-parameters',
+  },
+  {
+    code: 'ADS_SENSITIVE_EVENT_DATA',
+    name: 'Health or Financial Data in Conversion Events',
+    platform: 'ads',
+    severity: 'error',
+    category: 'Ads',
+    description: 'A Pixel or Conversions API event names a health condition or financial status in its event name, URL or custom data. Meta does not allow sharing this information.',
+    detection: { type: 'analyzer', analyzer: 'pixel-capi' },
+    recommendation: 'Use generic event names (Lead, Schedule) and remove conditions, diagnoses and financial details from URLs and custom data.',
+    docUrl: 'https://www.facebook.com/business/help/361948878201809',
+  },
+  {
+    code: 'ADS_EVENT_DEDUPLICATION',
+    name: 'Pixel and Conversions API Events Not Deduplicated',
+    platform: 'ads',
+    severity: 'warning',
+    category: 'Ads',
+    description: 'The project sends an event from both the Pixel and the Conversions API, but one side has no event ID, so Meta counts it twice.',
+    detection: { type: 'analyzer', analyzer: 'pixel-capi' },
+    recommendation: "Generate one ID per event and send it as eventID in fbq('track', name, data, { eventID }) and as event_id in the Conversions API event.",
+    docUrl: 'https://developers.facebook.com/docs/marketing-api/conversions-api/deduplicate-pixel-and-server-events',
+  },
+
   // === ADS API SPECIFIC ===
   {
     code: 'ADS_HARDCODED_TARGETING',
@@ -245,7 +652,9 @@ export const BUNDLED_RULES: BundledRule[] = [
     description: 'Hardcoded demographic targeting may violate anti-discrimination policies.',
     detection: {
       type: 'regex',
-      pattern: 'targeting.*(?:age_min|age_max|genders|ethnic)',
+      // A targeting key set in code, not prose or pattern definitions about targeting
+      pattern: '\\btargeting\\b[\'"]?\\s*(?::|=>|=(?!=)).*(?:age_min|age_max|genders|ethnic)',
+      contexts: ['code'],
     },
     recommendation: 'Review targeting for compliance with advertising policies. Avoid discriminatory targeting.',
     docUrl: 'https://www.facebook.com/policies/ads/',
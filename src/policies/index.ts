@@ -8,7 +8,7 @@ export {
   getRuleByCode,
   getBundledRulesStats,
 } from './bundled-policies';
-export type { BundledRule } from './bundled-policies';
+export type { BundledRule, BundledRuleCategory } from './bundled-policies';
 
 export {
   BUNDLED_DOCS,
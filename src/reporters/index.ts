@@ -0,0 +1,4 @@
+export { toSarif, severityToSarifLevel } from './sarif';
+export type { SarifLog, SarifResult, SarifReportingDescriptor, SarifLevel, SarifOptions } from './sarif';
+export { toReviewReadiness } from './review-readiness';
+export type { ReviewReadinessReport, PermissionReadiness, ReadinessCheck, ReadinessStatus, ProjectSource } from './review-readiness';
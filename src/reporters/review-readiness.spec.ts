@@ -0,0 +1,90 @@
+import { toReviewReadiness } from './review-readiness';
+import { scanResult, violation } from '../test-utils/fixtures';
+import { PermissionInventory } from '../types';
+
+const permissions: PermissionInventory = {
+  platforms: [{
+    platform: 'facebook',
+    permissions: [
+      { permission: 'public_profile', status: 'used', requestedAt: [], usedBy: [] },
+      {
+        permission: 'email',
+        status: 'used',
+        requestedAt: [{ file: 'web/login.js', line: 1 }],
+        usedBy: [{ file: 'server/graph.js', line: 2, kind: 'field', name: 'email' }],
+      },
+      { permission: 'user_birthday', status: 'unused', requestedAt: [{ file: 'web/login.js', line: 1 }], usedBy: [] },
+    ],
+  }],
+  requestedButUnused: ['user_birthday'],
+  usedButUnrequested: [],
+};
+
+const DELETION_CALLBACK = [
+  "app.post('/facebook/data-deletion', (req, res) => {",
+  '  const data = parseSignedRequest(req.body.signed_request);',
+  '  queueDeletion(data.user_id);',
+  '  res.json({ url: statusUrl, confirmation_code: code });',
+  '});',
+].join('\n');
+
+const check = (report: ReturnType<typeof toReviewReadiness>, id: string) => report.app.find(c => c.id === id)!;
+
+describe('toReviewReadiness', () => {
+  it('checks every non-default permission for use and platform findings', () => {
+    const report = toReviewReadiness(scanResult([violation({ platform: 'facebook', file: 'server/graph.js', line: 9 })], { permissions }), []);
+
+    expect(report.permissions.map(p => [p.permission, p.status])).toEqual([['email', 'fail'], ['user_birthday', 'fail']]);
+    const [email, birthday] = report.permissions;
+    expect(email.checks.map(c => [c.id, c.status])).toEqual([
+      ['permission-use', 'pass'],
+      ['platform-findings', 'fail'],
+    ]);
+    expect(email.checks[0].evidence).toEqual(['field email (server/graph.js:2)']);
+    expect(birthday.checks[0]).toMatchObject({ title: 'Requested but unused', evidence: ['requested at web/login.js:1'] });
+    expect(report.ready).toBe(false);
+  });
+
+  it('finds privacy policy pages and deletion callbacks outside comments', () => {
+    const report = toReviewReadiness(scanResult([]), [
+      { path: 'pages/privacy-policy.tsx', content: 'export default () => <h1>Privacy</h1>;' },
+      { path: 'server/deletion.js', content: DELETION_CALLBACK },
+      { path: 'server/notes.js', content: '// TODO: add /data-deletion page' },
+    ]);
+
+    expect(check(report, 'privacy-policy')).toMatchObject({ status: 'pass', evidence: ['pages/privacy-policy.tsx:1'] });
+    expect(check(report, 'data-deletion')).toMatchObject({ status: 'pass', evidence: ['server/deletion.js:4'] });
+  });
+
+  it('fails the deletion check for apps with Facebook user data and no callback', () => {
+    const withLogin = toReviewReadiness(scanResult([], { permissions }), [
+      { path: 'server/notes.js', content: '// TODO: add /data-deletion page' },
+    ]);
+    const withoutLogin = toReviewReadiness(scanResult([]), []);
+
+    expect(check(withLogin, 'data-deletion').status).toBe('fail');
+    expect(check(withoutLogin, 'data-deletion').status).toBe('warn');
+    expect(check(withoutLogin, 'privacy-policy').status).toBe('warn');
+  });
+
+  it('summarizes app-wide findings by their worst severity', () => {
+    const report = toReviewReadiness(scanResult([
+      violation({ ruleCode: 'WEBHOOK_SIGNATURE_MISSING', severity: 'warning' }),
+      violation({ ruleCode: 'RATE_LIMIT_MISSING', severity: 'info' }),
+    ], { sdkAnalysis: { official: [], wrappers: [], directApi: [], violations: [] } }), [
+      { path: 'server/deletion.js', content: DELETION_CALLBACK },
+      { path: 'web/footer.js', content: "link('/privacy')" },
+    ]);
+
+    expect(report.app.map(c => [c.id, c.status])).toEqual([
+      ['privacy-policy', 'pass'],
+      ['data-deletion', 'pass'],
+      ['token-handling', 'pass'],
+      ['webhook-security', 'warn'],
+      ['platform-data', 'pass'],
+      ['official-sdks', 'pass'],
+      ['rate-limits', 'warn'],
+    ]);
+    expect(report).toMatchObject({ ready: true, summary: { pass: 5, manual: 0, warn: 2, fail: 0 } });
+  });
+});
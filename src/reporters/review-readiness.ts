@@ -0,0 +1,272 @@
+/**
+ * Review Readiness Reporter - App Review checklist from scan results
+ *
+ * Turns a scan result into the checklist a Meta reviewer works through:
+ * for every permission the app requests or needs, whether the code uses
+ * it and which platform policies will be tested, plus the app-wide
+ * requirements (privacy policy, data deletion, token handling, webhook
+ * security, official SDKs) that get submissions rejected.
+ */
+
+import { getPolicyDocUrl, loadAllPlatformConfigs, loadPermissionCatalog, PlatformConfig } from '../knowledge';
+import { lexSource } from '../scanner/lexer';
+import { PermissionUsage, Platform, ScanResult, Violation } from '../types';
+
+export type ReadinessStatus = 'pass' | 'manual' | 'warn' | 'fail';
+
+export interface ReadinessCheck {
+  id: string;
+  title: string;
+  status: ReadinessStatus;
+  /** What the reviewer is likely to question */
+  question: string;
+  /** Code locations, findings or policy points behind the status */
+  evidence: string[];
+  docUrl?: string;
+}
+
+export interface PermissionReadiness {
+  permission: string;
+  platform: Platform;
+  /** Worst status of the permission's checks */
+  status: ReadinessStatus;
+  checks: ReadinessCheck[];
+}
+
+export interface ReviewReadinessReport {
+  /** No check failed */
+  ready: boolean;
+  permissions: PermissionReadiness[];
+  app: ReadinessCheck[];
+  summary: Record<ReadinessStatus, number>;
+}
+
+export interface ProjectSource {
+  path: string;
+  content: string;
+}
+
+const STATUS_ORDER: Record<ReadinessStatus, number> = { pass: 0, manual: 1, warn: 2, fail: 3 };
+
+const DATA_LIFECYCLE_RULES = ['DATA_DELETION_CALLBACK_MISSING', 'DATA_DELETION_CALLBACK_INCOMPLETE', 'DEAUTHORIZE_CALLBACK_MISSING', 'DATA_RETENTION_VIOLATION'];
+const TOKEN_RULES = ['TOKEN_EXPOSED', 'APP_SECRET_EXPOSED', 'TOKEN_IN_GRAPH_URL', 'STORING_ACCESS_TOKEN', 'LOGGING_SENSITIVE_DATA'];
+
+/** Privacy policy pages, routes and links */
+const PRIVACY_POLICY = /privacy[_-]?policy|['"`]\/privacy\b/i;
+const PRIVACY_PAGE = /(?:^|\/)privacy(?:[_-]?policy)?(?:\/index)?\.\w+$/i;
+
+/** Meta posts a `signed_request` to deletion and deauthorize callbacks */
+const SIGNED_REQUEST = /signed_request/;
+/** Deletion callbacks answer with a status URL and confirmation code */
+const DELETION_RESPONSE = /confirmation_code/;
+/** Deletion instruction pages and callback routes */
+const DELETION_ROUTE = /['"`/]data[_-]?deletion\b|['"`/]delete[_-]?(?:my[_-]?)?data\b/i;
+
+/**
+ * Build the App Review checklist. `sources` are the project's files, used
+ * for the privacy policy and data deletion checks.
+ */
+export function toReviewReadiness(result: ScanResult, sources: ProjectSource[]): ReviewReadinessReport {
+  const catalog = loadPermissionCatalog();
+  const platformConfigs = loadAllPlatformConfigs();
+
+  const permissions: PermissionReadiness[] = [];
+  for (const { platform, permissions: usages } of result.permissions?.platforms || []) {
+    const config = platformConfigs.get(platform);
+    const name = config?.displayName || platform.charAt(0).toUpperCase() + platform.slice(1);
+    for (const usage of usages) {
+      if (catalog?.permissions[usage.permission]?.default) continue;
+
+      const checks = [
+        usageCheck(usage, catalog?.permissions[usage.permission]?.review),
+        findingCheck(
+          'platform-findings',
+          `${name} policy findings`,
+          `The reviewer tests the ${name} features the permission unlocks; findings in that code are likely rejection reasons.`,
+          result.violations.filter(v => v.platform === platform),
+          config?.policyUrl
+        ),
+      ];
+      if (config) checks.push(platformPolicyCheck(config));
+
+      permissions.push({ permission: usage.permission, platform, status: worst(checks), checks });
+    }
+  }
+
+  const userData = permissions.some(p => p.platform === 'facebook');
+  const app: ReadinessCheck[] = [
+    privacyPolicyCheck(sources),
+    dataDeletionCheck(result, sources, userData),
+    findingCheck(
+      'token-handling',
+      'Access token handling',
+      'Reviewers and the security review check that tokens and the app secret never reach source code, URLs, logs or the client.',
+      result.violations.filter(v => TOKEN_RULES.includes(v.ruleCode)),
+      getPolicyDocUrl('accessTokens') || undefined
+    ),
+    findingCheck(
+      'webhook-security',
+      'Webhook verification',
+      'Webhook endpoints must answer the verify challenge and check X-Hub-Signature-256 on every event.',
+      result.violations.filter(v => v.ruleCode.startsWith('WEBHOOK_')),
+      getPolicyDocUrl('webhookSecurity') || undefined
+    ),
+    findingCheck(
+      'platform-data',
+      'Platform data use',
+      'The data use checkup asks where platform data goes; logging it or sending it to third parties and analytics must be justified.',
+      result.violations.filter(v => v.ruleCode.startsWith('PLATFORM_DATA_')),
+      getPolicyDocUrl('dataUse') || undefined
+    ),
+    officialSdkCheck(result),
+    findingCheck(
+      'rate-limits',
+      'Rate limit handling',
+      'Apps that hammer the API during review get throttled and fail their test flows.',
+      result.violations.filter(v => v.ruleCode.startsWith('RATE_LIMIT_')),
+      getPolicyDocUrl('rateLimiting') || undefined
+    ),
+  ];
+
+  const summary: Record<ReadinessStatus, number> = { pass: 0, manual: 0, warn: 0, fail: 0 };
+  for (const check of [...app, ...permissions.flatMap(p => p.checks)]) {
+    summary[check.status]++;
+  }
+
+  return { ready: summary.fail === 0, permissions, app, summary };
+}
+
+function usageCheck(usage: PermissionUsage, review?: string): ReadinessCheck {
+  const docUrl = getPolicyDocUrl('permissions') || undefined;
+  const uses = usage.usedBy.slice(0, 5).map(u => `${u.kind} ${u.name} (${u.file}:${u.line})`);
+
+  if (usage.status === 'unused') {
+    return {
+      id: 'permission-use',
+      title: 'Requested but unused',
+      status: 'fail',
+      question: 'Nothing in the code uses this permission. Reviewers decline permissions without a working use case, so remove it from the Login request.',
+      evidence: usage.requestedAt.map(r => `requested at ${r.file}:${r.line}`),
+      docUrl,
+    };
+  }
+  if (usage.status === 'unrequested') {
+    return {
+      id: 'permission-use',
+      title: 'Used but not requested',
+      status: 'fail',
+      question: 'The code needs this permission but no Login request asks for it, so these calls fail for real users. Request it and submit it for review.',
+      evidence: [...uses, ...(usage.alternatives ? [`also granted by ${usage.alternatives.join(', ')}`] : [])],
+      docUrl,
+    };
+  }
+  return {
+    id: 'permission-use',
+    title: 'Requested and used',
+    status: 'pass',
+    question: review || 'Show the feature that uses this permission in the screencast.',
+    evidence: uses,
+    docUrl,
+  };
+}
+
+function platformPolicyCheck(config: PlatformConfig): ReadinessCheck {
+  const rejections = Array.isArray(config.commonRejectionReasons) ? config.commonRejectionReasons as string[] : [];
+  return {
+    id: 'platform-policy',
+    title: `${config.displayName} policy`,
+    status: 'manual',
+    question: `Expect the reviewer to test these ${config.displayName} policies in the screencast and test app.`,
+    evidence: [
+      ...config.specificRules.map(rule => `${rule.name}: ${rule.description}`),
+      ...rejections.map(reason => `Common rejection: ${reason}`),
+    ],
+    docUrl: config.policyUrl,
+  };
+}
+
+function privacyPolicyCheck(sources: ProjectSource[]): ReadinessCheck {
+  const pages = sources.filter(file => PRIVACY_PAGE.test(file.path)).map(file => `${file.path}:1`);
+  const evidence = [...pages, ...findInCode(sources, PRIVACY_POLICY)];
+  return {
+    id: 'privacy-policy',
+    title: 'Privacy policy',
+    status: evidence.length > 0 ? 'pass' : 'warn',
+    question: evidence.length > 0
+      ? 'The privacy policy URL in App Settings must be public and describe the Meta data the app collects.'
+      : 'No privacy policy page or link was found in the code. App Settings need a public privacy policy URL that covers Meta data.',
+    evidence,
+    docUrl: getPolicyDocUrl('appReview') || undefined,
+  };
+}
+
+function dataDeletionCheck(result: ScanResult, sources: ProjectSource[], userData: boolean): ReadinessCheck {
+  const findings = result.violations.filter(v => DATA_LIFECYCLE_RULES.includes(v.ruleCode));
+  const callback = sources
+    .filter(file => SIGNED_REQUEST.test(file.content) && DELETION_RESPONSE.test(file.content))
+    .flatMap(file => findInCode([file], DELETION_RESPONSE));
+  const found = callback.length > 0 ? callback : findInCode(sources, DELETION_ROUTE);
+  const missing = findings.some(v => v.ruleCode === 'DATA_DELETION_CALLBACK_MISSING') || found.length === 0;
+
+  let status: ReadinessStatus = 'pass';
+  if (missing) status = userData || findings.length > 0 ? 'fail' : 'warn';
+  else if (findings.length > 0) status = 'warn';
+
+  return {
+    id: 'data-deletion',
+    title: 'Data deletion callback',
+    status,
+    question: missing
+      ? 'No data deletion callback (signed_request with a confirmation code) or instructions page was found. Apps with Facebook Login or stored Meta user data must provide one.'
+      : 'The deletion callback or instructions URL in App Settings must point at this code and delete the user\'s Meta data, including on deauthorization.',
+    evidence: [...findings.map(v => `${v.ruleCode} ${v.file}:${v.line}`), ...found],
+    docUrl: getPolicyDocUrl('dataRetention') || undefined,
+  };
+}
+
+function officialSdkCheck(result: ScanResult): ReadinessCheck {
+  const unofficial = result.sdkAnalysis?.violations || [];
+  return {
+    id: 'official-sdks',
+    title: 'Official SDKs and APIs',
+    status: !result.sdkAnalysis ? 'manual' : unofficial.length > 0 ? 'fail' : 'pass',
+    question: 'Apps built on unofficial or scraping libraries are rejected and can be disabled after approval.',
+    evidence: unofficial.map(d => `${d.sdk} (${d.file}:${d.line})`),
+    docUrl: getPolicyDocUrl('platformTerms') || undefined,
+  };
+}
+
+function findingCheck(id: string, title: string, question: string, violations: Violation[], docUrl?: string): ReadinessCheck {
+  const status = violations.some(v => v.severity === 'error') ? 'fail' : violations.length > 0 ? 'warn' : 'pass';
+  return {
+    id,
+    title,
+    status,
+    question,
+    evidence: violations.map(v => `${v.ruleCode} ${v.file}:${v.line}`),
+    docUrl,
+  };
+}
+
+/**
+ * `file:line` of the first match of `pattern` in each file, ignoring
+ * comments
+ */
+function findInCode(sources: ProjectSource[], pattern: RegExp): string[] {
+  const found: string[] = [];
+  for (const file of sources) {
+    const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+    const matches = [...file.content.matchAll(global)];
+    if (matches.length === 0) continue;
+
+    const contexts = lexSource(file.content, file.path);
+    const match = matches.find(m => contexts?.at(m.index!) !== 'comment');
+    if (match) found.push(`${file.path}:${file.content.slice(0, match.index!).split('\n').length}`);
+  }
+  return found;
+}
+
+function worst(checks: ReadinessCheck[]): ReadinessStatus {
+  return checks.reduce<ReadinessStatus>((status, check) =>
+    STATUS_ORDER[check.status] > STATUS_ORDER[status] ? check.status : status, 'pass');
+}
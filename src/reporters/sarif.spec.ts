@@ -0,0 +1,99 @@
+import { severityToSarifLevel, toSarif } from './sarif';
+import { scanResult, violation } from '../test-utils/fixtures';
+
+describe('severityToSarifLevel', () => {
+  it('maps info to note', () => {
+    expect(severityToSarifLevel('error')).toBe('error');
+    expect(severityToSarifLevel('warning')).toBe('warning');
+    expect(severityToSarifLevel('info')).toBe('note');
+  });
+});
+
+describe('toSarif', () => {
+  it('converts 0-based columns to 1-based SARIF columns', () => {
+    const log = toSarif(scanResult([violation({ column: 0, endLine: 3, endColumn: 20 }), violation({ line: 7, column: 14 })]), {
+      toolVersion: '1.0.0',
+    });
+    const regions = log.runs[0].results.map(r => r.locations[0].physicalLocation.region);
+
+    expect(regions[0]).toMatchObject({ startLine: 3, startColumn: 1, endLine: 3, endColumn: 21 });
+    expect(regions[1]).toMatchObject({ startLine: 7, startColumn: 15 });
+  });
+
+  it('uses forward slashes relative to %SRCROOT%', () => {
+    const location = toSarif(scanResult([violation({ file: 'src\\api.ts' })]), { toolVersion: '1.0.0' }).runs[0].results[0].locations[0];
+    expect(location.physicalLocation.artifactLocation).toEqual({ uri: 'src/api.ts', uriBaseId: '%SRCROOT%' });
+  });
+
+  it('lists each reported rule once, in first-seen order', () => {
+    const log = toSarif(scanResult([
+      violation({ ruleCode: 'WA_OPT_IN_REQUIRED', severity: 'warning' }),
+      violation(),
+      violation({ line: 9 }),
+    ]), { toolVersion: '1.0.0' });
+    const run = log.runs[0];
+
+    expect(run.tool.driver.rules.map(r => r.id)).toEqual(['WA_OPT_IN_REQUIRED', 'TOKEN_EXPOSED']);
+    expect(run.results.map(r => r.ruleIndex)).toEqual([0, 1, 1]);
+    expect(run.results[0].level).toBe('warning');
+  });
+
+  it('describes rules that are not bundled from the violation', () => {
+    const log = toSarif(scanResult([violation({ ruleCode: 'CUSTOM_RULE', ruleName: 'Custom Rule', severity: 'info' })]), {
+      toolVersion: '1.0.0',
+    });
+    const [rule] = log.runs[0].tool.driver.rules;
+
+    expect(rule.id).toBe('CUSTOM_RULE');
+    expect(rule.defaultConfiguration.level).toBe('note');
+  });
+
+  it('gives every result a stable fingerprint', () => {
+    const first = toSarif(scanResult(), { toolVersion: '1.0.0' }).runs[0].results[0];
+    const moved = toSarif(scanResult([violation({ line: 30 })]), { toolVersion: '1.0.0' }).runs[0].results[0];
+
+    expect(first.partialFingerprints).toEqual(moved.partialFingerprints);
+  });
+
+  it('reports suppressed findings as in-source suppressions', () => {
+    const log = toSarif(scanResult([], {
+      suppressed: [{
+        ...violation(),
+        suppression: { kind: 'next-line', line: 2, justification: 'revoked test token' },
+      }],
+    }), { toolVersion: '1.0.0' });
+
+    expect(log.runs[0].results[0].suppressions).toEqual([{ kind: 'inSource', justification: 'revoked test token' }]);
+  });
+
+  it('marks new and fixed findings against a baseline', () => {
+    const log = toSarif(scanResult([violation()], {
+      baseline: {
+        newCount: 1,
+        unchangedCount: 0,
+        fixed: [{
+          fingerprint: 'abc',
+          ruleCode: 'TOKEN_EXPOSED',
+          severity: 'error',
+          file: 'src/old.ts',
+          line: 4,
+          codeSnippet: 'x',
+        }],
+      },
+    }), { toolVersion: '1.0.0' });
+
+    expect(log.runs[0].results.map(r => r.baselineState)).toEqual(['new', 'absent']);
+  });
+
+  it('records the repository of GitHub scans', () => {
+    const log = toSarif(scanResult([violation()], {
+      source: { type: 'github', owner: 'acme', repo: 'bot', branch: 'main' },
+    }), { toolVersion: '1.0.0' });
+
+    expect(log.runs[0].versionControlProvenance).toEqual([{
+      repositoryUri: 'https://github.com/acme/bot',
+      revisionId: undefined,
+      branch: 'main',
+    }]);
+  });
+});
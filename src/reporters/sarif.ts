@@ -0,0 +1,405 @@
+/**
+ * SARIF Reporter - Converts scan results to SARIF 2.1.0
+ *
+ * SARIF (Static Analysis Results Interchange Format) is consumed by GitHub
+ * code scanning, Azure DevOps and most code-quality dashboards, so Meta
+ * policy findings can be shown next to other linters.
+ *
+ * Spec: https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BUNDLED_RULES, BundledRule } from '../policies/bundled-policies';
+import { fingerprintViolations } from '../scanner/baseline';
+import { BaselineEntry, ScanResult, Severity, Violation, ViolationRule } from '../types';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SARIF_VERSION = '2.1.0';
+const TOOL_NAME = 'meta-policy-scanner';
+const TOOL_URI = 'https://github.com/Erriccc/meta-policy-scanner';
+const FINGERPRINT_KEY = 'metaPolicyScanner/v1';
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription?: { text: string };
+  help?: { text: string; markdown?: string };
+  helpUri?: string;
+  defaultConfiguration: { level: SarifLevel };
+  properties?: {
+    category?: string;
+    platform?: string;
+    tags?: string[];
+  };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region: {
+        startLine: number;
+        startColumn: number;
+        endLine?: number;
+        endColumn?: number;
+        snippet?: { text: string };
+      };
+    };
+  }>;
+  /** Source-to-sink path of data flow findings */
+  codeFlows?: Array<{
+    threadFlows: Array<{
+      locations: Array<{
+        location: {
+          physicalLocation: {
+            artifactLocation: { uri: string; uriBaseId: string };
+            region: { startLine: number; startColumn: number };
+          };
+          message: { text: string };
+        };
+      }>;
+    }>;
+  }>;
+  partialFingerprints?: Record<string, string>;
+  baselineState?: 'new' | 'unchanged' | 'updated' | 'absent';
+  suppressions?: Array<{
+    kind: 'inSource' | 'external';
+    justification?: string;
+  }>;
+  properties?: {
+    platform: string;
+    recommendation?: string;
+    fixExample?: string;
+    docUrls?: string[];
+    dependencyPath?: string[];
+    package?: string;
+  };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: SarifReportingDescriptor[];
+      };
+    };
+    originalUriBaseIds?: Record<string, { uri?: string; description?: { text: string } }>;
+    versionControlProvenance?: Array<{
+      repositoryUri: string;
+      revisionId?: string;
+      branch?: string;
+    }>;
+    results: SarifResult[];
+  }>;
+}
+
+export interface SarifOptions {
+  /** Rule metadata used to describe each ruleId (defaults to BUNDLED_RULES) */
+  rules?: Array<ViolationRule | BundledRule>;
+  /** Tool version reported in tool.driver.version */
+  toolVersion?: string;
+}
+
+/**
+ * Map scanner severity to SARIF result level
+ */
+export function severityToSarifLevel(severity: Severity): SarifLevel {
+  switch (severity) {
+    case 'error':
+      return 'error';
+    case 'warning':
+      return 'warning';
+    case 'info':
+      return 'note';
+  }
+}
+
+/**
+ * Convert a scan result into a SARIF 2.1.0 log
+ */
+export function toSarif(result: ScanResult, options: SarifOptions = {}): SarifLog {
+  const knownRules = new Map<string, SarifReportingDescriptor>();
+  for (const rule of options.rules || BUNDLED_RULES) {
+    const descriptor = toReportingDescriptor(rule);
+    knownRules.set(descriptor.id, descriptor);
+  }
+
+  // Only rules that produced results are listed, in first-seen order,
+  // so ruleIndex stays stable for a given set of violations
+  const rules: SarifReportingDescriptor[] = [];
+  const ruleIndexes = new Map<string, number>();
+
+  const getRuleIndex = (ruleCode: string, fallback: () => SarifReportingDescriptor): number => {
+    let ruleIndex = ruleIndexes.get(ruleCode);
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.length;
+      rules.push(knownRules.get(ruleCode) || fallback());
+      ruleIndexes.set(ruleCode, ruleIndex);
+    }
+    return ruleIndex;
+  };
+  const ruleIndexFor = (violation: Violation) =>
+    getRuleIndex(violation.ruleCode, () => descriptorFromViolation(violation));
+
+  const fingerprints = fingerprintViolations(result.violations);
+  const results: SarifResult[] = result.violations.map((violation, i) => {
+    const sarifResult = toSarifResult(violation, ruleIndexFor(violation));
+    sarifResult.partialFingerprints = { [FINGERPRINT_KEY]: violation.fingerprint || fingerprints[i] };
+    if (result.baseline) {
+      sarifResult.baselineState = 'new';
+    }
+    return sarifResult;
+  });
+
+  // Baseline findings that no longer occur are reported as absent
+  for (const entry of result.baseline?.fixed || []) {
+    const ruleIndex = getRuleIndex(entry.ruleCode, () => buildDescriptor({
+      id: entry.ruleCode,
+      name: entry.ruleCode,
+      severity: entry.severity,
+    }));
+    results.push(absentResult(entry, ruleIndex));
+  }
+
+  // Suppressed findings are kept in the log, marked as in-source suppressions
+  const suppressedFingerprints = fingerprintViolations(result.suppressed || []);
+  for (const [i, violation] of (result.suppressed || []).entries()) {
+    const sarifResult = toSarifResult(violation, ruleIndexFor(violation));
+    sarifResult.partialFingerprints = { [FINGERPRINT_KEY]: suppressedFingerprints[i] };
+    sarifResult.suppressions = [{
+      kind: 'inSource',
+      justification: violation.suppression.justification,
+    }];
+    results.push(sarifResult);
+  }
+
+  const run: SarifLog['runs'][number] = {
+    tool: {
+      driver: {
+        name: TOOL_NAME,
+        version: options.toolVersion || getToolVersion(),
+        informationUri: TOOL_URI,
+        rules,
+      },
+    },
+    results,
+  };
+
+  if (result.source.type === 'local' && result.source.path) {
+    run.originalUriBaseIds = {
+      '%SRCROOT%': { description: { text: `Scanned directory: ${result.source.path}` } },
+    };
+  }
+
+  if (result.source.type === 'github' && result.source.owner && result.source.repo) {
+    run.versionControlProvenance = [{
+      repositoryUri: `https://github.com/${result.source.owner}/${result.source.repo}`,
+      revisionId: result.source.commit || undefined,
+      branch: result.source.branch,
+    }];
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [run],
+  };
+}
+
+function toSarifResult(violation: Violation, ruleIndex: number): SarifResult {
+  return {
+    ruleId: violation.ruleCode,
+    ruleIndex,
+    level: severityToSarifLevel(violation.severity),
+    message: { text: violation.message },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: {
+          uri: toArtifactUri(violation.file),
+          uriBaseId: '%SRCROOT%',
+        },
+        region: {
+          startLine: Math.max(1, violation.line),
+          // Violation columns are 0-based, SARIF columns are 1-based
+          startColumn: Math.max(1, violation.column + 1),
+          endLine: violation.endLine,
+          endColumn: violation.endColumn !== undefined ? violation.endColumn + 1 : undefined,
+          snippet: violation.codeSnippet ? { text: violation.codeSnippet } : undefined,
+        },
+      },
+    }],
+    codeFlows: violation.dataFlow && [{
+      threadFlows: [{
+        locations: violation.dataFlow.map(step => ({
+          location: {
+            physicalLocation: {
+              artifactLocation: { uri: toArtifactUri(step.file), uriBaseId: '%SRCROOT%' },
+              region: { startLine: step.line, startColumn: step.column + 1 },
+            },
+            message: { text: step.note },
+          },
+        })),
+      }],
+    }],
+    properties: {
+      platform: violation.platform,
+      recommendation: violation.recommendation,
+      fixExample: violation.fixExample,
+      docUrls: violation.docUrls,
+      dependencyPath: violation.dependencyPath,
+      package: violation.package,
+    },
+  };
+}
+
+function absentResult(entry: BaselineEntry, ruleIndex: number): SarifResult {
+  return {
+    ruleId: entry.ruleCode,
+    ruleIndex,
+    level: severityToSarifLevel(entry.severity),
+    message: { text: `Fixed since baseline: ${entry.ruleCode}` },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: {
+          uri: toArtifactUri(entry.file),
+          uriBaseId: '%SRCROOT%',
+        },
+        region: {
+          startLine: Math.max(1, entry.line),
+          startColumn: 1,
+          snippet: entry.codeSnippet ? { text: entry.codeSnippet } : undefined,
+        },
+      },
+    }],
+    partialFingerprints: { [FINGERPRINT_KEY]: entry.fingerprint },
+    baselineState: 'absent',
+  };
+}
+
+function toReportingDescriptor(rule: ViolationRule | BundledRule): SarifReportingDescriptor {
+  if ('rule_code' in rule) {
+    return buildDescriptor({
+      id: rule.rule_code,
+      name: rule.name,
+      description: rule.description,
+      severity: rule.severity,
+      recommendation: rule.recommendation,
+      fixExample: rule.fix_example,
+      docUrl: rule.doc_urls?.[0],
+      category: rule.category,
+      platform: rule.platform,
+      tags: rule.tags,
+    });
+  }
+
+  return buildDescriptor({
+    id: rule.code,
+    name: rule.name,
+    description: rule.description,
+    severity: rule.severity,
+    recommendation: rule.recommendation,
+    docUrl: rule.docUrl,
+    category: rule.category,
+    platform: rule.platform,
+  });
+}
+
+/**
+ * Fallback for violations whose rule is not in the known rule set
+ * (SDK detections, AI findings, database-only rules)
+ */
+function descriptorFromViolation(violation: Violation): SarifReportingDescriptor {
+  return buildDescriptor({
+    id: violation.ruleCode,
+    name: violation.ruleName,
+    severity: violation.severity,
+    recommendation: violation.recommendation,
+    fixExample: violation.fixExample,
+    docUrl: violation.docUrls?.[0],
+    platform: violation.platform,
+  });
+}
+
+function buildDescriptor(rule: {
+  id: string;
+  name: string;
+  description?: string;
+  severity: Severity;
+  recommendation?: string;
+  fixExample?: string;
+  docUrl?: string;
+  category?: string;
+  platform?: string;
+  tags?: string[];
+}): SarifReportingDescriptor {
+  const helpText = [rule.recommendation, rule.fixExample ? `Example fix:\n${rule.fixExample}` : '']
+    .filter(Boolean)
+    .join('\n\n');
+
+  const helpMarkdown = [
+    rule.recommendation,
+    rule.fixExample ? `**Example fix:**\n\n\`\`\`\n${rule.fixExample}\n\`\`\`` : '',
+    rule.docUrl ? `[Meta documentation](${rule.docUrl})` : '',
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    id: rule.id,
+    name: toPascalCase(rule.id),
+    shortDescription: { text: rule.name },
+    fullDescription: rule.description ? { text: rule.description } : undefined,
+    help: helpText ? { text: helpText, markdown: helpMarkdown } : undefined,
+    helpUri: rule.docUrl,
+    defaultConfiguration: { level: severityToSarifLevel(rule.severity) },
+    properties: {
+      category: rule.category,
+      platform: rule.platform,
+      tags: rule.tags,
+    },
+  };
+}
+
+/**
+ * SARIF rule names are expected to be identifier-like (e.g. TokenExposed)
+ */
+function toPascalCase(ruleCode: string): string {
+  return ruleCode
+    .toLowerCase()
+    .split(/[_\-\s]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Artifact URIs must be relative, forward-slashed and percent-encoded
+ */
+function toArtifactUri(filePath: string): string {
+  return filePath
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .split('/')
+    .map(segment => encodeURIComponent(segment))
+    .join('/');
+}
+
+function getToolVersion(): string {
+  try {
+    const packageJson = JSON.parse(readFileSync(join(__dirname, '../../package.json'), 'utf-8'));
+    return packageJson.version;
+  } catch {
+    return '0.0.0';
+  }
+}
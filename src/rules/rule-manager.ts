@@ -140,9 +140,8 @@ export class RuleManager {
         severity: 'error',
         category: 'rate-limiting',
         detection: {
-          type: 'ast-pattern',
-          astQuery: '(call_expression) @call',
-          fileTypes: ['.js', '.ts'],
+          type: 'analyzer',
+          analyzer: 'rate-limit',
         },
         recommendation: 'Implement exponential backoff and respect x-app-usage headers',
         doc_urls: ['https://developers.facebook.com/docs/graph-api/overview/rate-limiting/'],
@@ -225,8 +224,8 @@ export class RuleManager {
         severity: 'warning',
         category: 'error-handling',
         detection: {
-          type: 'ast-pattern',
-          astQuery: '(call_expression) @call',
+          type: 'semantic',
+          semanticHint: 'Graph API calls without try-catch or promise error handling',
         },
         recommendation: 'Wrap API calls in try-catch blocks and handle errors gracefully',
         enabled: true,
@@ -240,9 +239,8 @@ export class RuleManager {
         severity: 'error',
         category: 'security',
         detection: {
-          type: 'regex',
-          pattern: 'webhook|/webhook',
-          fileTypes: ['.js', '.ts', '.py'],
+          type: 'analyzer',
+          analyzer: 'webhook',
         },
         recommendation: 'Always verify webhook signatures using your app secret',
         doc_urls: ['https://developers.facebook.com/docs/graph-api/webhooks/getting-started#verification-requests'],
@@ -257,8 +255,8 @@ export class RuleManager {
         severity: 'warning',
         category: 'data-storage',
         detection: {
-          type: 'semantic',
-          semanticHint: 'database schema, data retention, user data storage',
+          type: 'analyzer',
+          analyzer: 'data-lifecycle',
         },
         recommendation: 'Implement data deletion after 90 days or user account deletion',
         doc_urls: ['https://developers.facebook.com/docs/development/release/data-deletion'],
@@ -15,14 +15,18 @@
  * - platforms/*.json: Platform-specific rules
  */
 
+import { createHash } from 'crypto';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { createEmbeddingProvider, type EmbeddingConfig } from '../embeddings';
 import type { EmbeddingProvider } from '../embeddings/types';
 import { createAutoLLMProvider, type LLMProvider } from '../llm';
-import { Violation, Platform, Severity } from '../types';
+import { Violation, Platform, Severity, AIAnalysisSummary } from '../types';
 import { CodebaseIndexer } from './codebase-indexer';
 import {
   loadAnalysisRules,
+  loadMetaPolicies,
+  loadCustomRules,
+  loadAllPlatformConfigs,
   getSuspiciousPatterns,
   buildAnalysisPrompt,
   getViolationDocUrls,
@@ -68,8 +72,13 @@ export interface AnalyzedSection {
 export interface AIFileAnalysisResult {
   violations: Violation[];
   sections: AnalyzedSection[];
+  /** Some sections couldn't be analyzed (LLM or lookup errors) */
+  incomplete?: boolean;
 }
 
+/** Bump when the analysis prompts or response handling change */
+const AI_ANALYSIS_VERSION = 1;
+
 // Suspicious patterns are now loaded from knowledge/analysis-rules.json
 // Use getSuspiciousPatterns() to get the configured patterns
 
@@ -122,6 +131,7 @@ export class AIScanner {
   ): Promise<AIFileAnalysisResult> {
     const violations: Violation[] = [];
     const analyzedSections: AnalyzedSection[] = [];
+    let incomplete = false;
     const lines = content.split('\n');
     const minConfidence = options.minConfidence ?? 0.85; // High threshold for clear violations
     const maxAnalysis = options.maxAnalysisPerFile ?? 10;
@@ -203,6 +213,7 @@ export class AIScanner {
             this.log(`    ✗ L${section.line} [${section.category}]: No LLM response`);
             analyzedSection.status = 'no_policy';
             analyzedSection.analysisResult = 'LLM analysis failed';
+            incomplete = true;
           }
         } else {
           // Fallback: Use semantic similarity only (no LLM)
@@ -235,10 +246,28 @@ export class AIScanner {
         analyzedSection.status = 'no_policy';
         analyzedSection.analysisResult = `Error: ${error instanceof Error ? error.message : 'Unknown'}`;
         analyzedSections.push(analyzedSection);
+        incomplete = true;
       }
     }
 
-    return { violations, sections: analyzedSections };
+    return { violations, sections: analyzedSections, incomplete };
+  }
+
+  /**
+   * Identifies the model, prompts and knowledge files behind an analysis;
+   * cached verdicts are only reused while it stays the same
+   */
+  getAnalysisVersion(options: AIScanOptions = {}): string {
+    const knowledge = [loadMetaPolicies(), loadAnalysisRules(), loadCustomRules(), [...loadAllPlatformConfigs()]];
+    return createHash('sha256')
+      .update(JSON.stringify({
+        version: AI_ANALYSIS_VERSION,
+        llm: this.llmProvider ? [this.llmProvider.name, this.llmProvider.model] : null,
+        knowledge,
+        options,
+      }))
+      .digest('hex')
+      .substring(0, 16);
   }
 
   /**
@@ -631,6 +660,31 @@ If no violation found (this is the expected case for most code):
   }
 }
 
+/**
+ * Summarize analyzed sections for ScanResult.aiAnalysis
+ */
+export function buildAIAnalysisSummary(sections: AnalyzedSection[]): AIAnalysisSummary | undefined {
+  if (sections.length === 0) return undefined;
+
+  return {
+    totalSuspicious: sections.length,
+    analyzed: sections.filter(s => s.status !== 'low_confidence').length,
+    compliant: sections.filter(s => s.status === 'compliant').length,
+    violations: sections.filter(s => s.status === 'violation').length,
+    noPolicyMatch: sections.filter(s => s.status === 'no_policy').length,
+    sections: sections.map(s => ({
+      file: s.file,
+      line: s.line,
+      column: s.column,
+      snippet: s.snippet,
+      category: s.category,
+      description: s.description,
+      status: s.status === 'low_confidence' ? 'pending' : s.status,
+      analysisResult: s.analysisResult,
+    })),
+  };
+}
+
 /**
  * Create AI scanner from environment variables
  * Uses auto-detection for LLM provider (Groq > OpenAI > Ollama)
@@ -0,0 +1,49 @@
+import { AstEngine } from './ast-engine';
+
+const GRAPH_FETCH = `(call_expression
+  function: (identifier) @fn (#eq? @fn "fetch")
+  arguments: (arguments . (string) @violation (#match? @violation "graph\\\\.facebook\\\\.com")))`;
+
+describe('AstEngine', () => {
+  const engine = new AstEngine();
+
+  it('reports the @violation capture with its range', () => {
+    const source = [
+      '// fetch("https://graph.facebook.com/v9.0/me")',
+      'async function load(token: string) {',
+      "  const note = 'fetch(\"https://graph.facebook.com/v9.0/me\")';",
+      "  return fetch('https://graph.facebook.com/v21.0/me');",
+      '}',
+    ].join('\n');
+
+    expect(engine.query(GRAPH_FETCH, source, 'src/load.ts')).toEqual([{
+      line: 4,
+      column: 15,
+      endLine: 4,
+      endColumn: 52,
+      text: "'https://graph.facebook.com/v21.0/me'",
+      captures: { fn: 'fetch', violation: "'https://graph.facebook.com/v21.0/me'" },
+    }]);
+  });
+
+  it('parses JSX in .tsx files', () => {
+    const root = engine.parse('export const App = () => <Login appId="123" />;', 'App.tsx');
+
+    expect(root?.type).toBe('program');
+    expect(root?.text).toContain('<Login');
+    expect(engine.query('(jsx_self_closing_element) @violation', root!.text, 'App.tsx')).toHaveLength(1);
+  });
+
+  it('matches sources longer than a single parse chunk', () => {
+    const source = `${'const pad = 1;\n'.repeat(3000)}fetch('https://graph.facebook.com/v21.0/me');`;
+
+    expect(engine.query(GRAPH_FETCH, source, 'big.js')?.map(m => m.line)).toEqual([3001]);
+  });
+
+  it('returns null for unsupported languages and invalid queries', () => {
+    expect(engine.supports('app.py')).toBe(false);
+    expect(engine.query(GRAPH_FETCH, "requests.get('https://graph.facebook.com')", 'app.py')).toBeNull();
+    expect(engine.parse('x = 1', 'app.py')).toBeNull();
+    expect(engine.query('(not_a_node_type) @violation', 'const x = 1;', 'app.js')).toBeNull();
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * AST Rule Engine
+ *
+ * Runs tree-sitter S-expression queries (`Detection.astQuery`) against
+ * JavaScript/TypeScript sources. Unlike regex rules, AST rules understand
+ * code structure, so they ignore comments and strings unless the query
+ * targets them and can report the exact node range.
+ *
+ * Query conventions:
+ * - Capture the node to report as `@violation` (falls back to the first capture)
+ * - Predicates like `#eq?` and `#match?` are supported by tree-sitter
+ *
+ * @example
+ * (call_expression
+ *   function: (identifier) @fn (#eq? @fn "fetch")
+ *   arguments: (arguments . (string) @violation (#match? @violation "graph\\.facebook\\.com")))
+ */
+
+import { extname } from 'path';
+
+export type AstLanguage = 'javascript' | 'typescript' | 'tsx';
+
+export interface AstMatch {
+  line: number;       // 1-based
+  column: number;     // 0-based
+  endLine: number;    // 1-based
+  endColumn: number;  // 0-based, exclusive
+  text: string;
+  captures: Record<string, string>;
+}
+
+// Minimal structural types for the parts of tree-sitter we use.
+// tree-sitter is a native module, so it is loaded lazily and may be missing.
+interface TSPoint { row: number; column: number }
+
+/**
+ * Node of a tree-sitter syntax tree (rows and columns are 0-based)
+ */
+export interface SyntaxNode {
+  type: string;
+  text: string;
+  startIndex: number;
+  startPosition: TSPoint;
+  endPosition: TSPoint;
+  /** All children, including anonymous tokens like `static` or `default` */
+  children: SyntaxNode[];
+  namedChildren: SyntaxNode[];
+  childForFieldName(name: string): SyntaxNode | null;
+}
+interface TSQueryMatch { captures: Array<{ name: string; node: SyntaxNode }> }
+interface TSQuery { matches(node: SyntaxNode): TSQueryMatch[] }
+interface TSTree { rootNode: SyntaxNode }
+interface TSParser {
+  setLanguage(language: unknown): void;
+  parse(input: string | ((index: number) => string | null)): TSTree;
+}
+interface TSModule {
+  new (): TSParser;
+  Query: new (language: unknown, source: string) => TSQuery;
+}
+
+const EXTENSION_LANGUAGES: Record<string, AstLanguage> = {
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.ts': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.tsx': 'tsx',
+};
+
+// tree-sitter's node binding rejects string inputs above ~32KB,
+// so sources are fed through the callback interface in chunks
+const PARSE_CHUNK_SIZE = 8192;
+
+export class AstEngine {
+  private treeSitter: TSModule | null | undefined;
+  private languages = new Map<AstLanguage, unknown>();
+  private parsers = new Map<AstLanguage, TSParser>();
+  private queries = new Map<string, TSQuery | null>();
+  // Only the most recent tree is kept: rules run file by file, so this
+  // avoids re-parsing for every AST rule without holding every tree in memory
+  private lastParsed: { filePath: string; content: string; tree: TSTree } | null = null;
+
+  /**
+   * Get the AST language for a file, or null if AST matching is unsupported
+   */
+  getLanguage(filePath: string): AstLanguage | null {
+    return EXTENSION_LANGUAGES[extname(filePath).toLowerCase()] || null;
+  }
+
+  /**
+   * Check whether a file can be matched with AST queries
+   */
+  supports(filePath: string): boolean {
+    const language = this.getLanguage(filePath);
+    return language !== null && this.loadLanguage(language) !== null;
+  }
+
+  /**
+   * Run an S-expression query against a file.
+   * Returns null when the language (or the query for that language) is
+   * unsupported, so callers can fall back to regex matching.
+   */
+  query(astQuery: string, content: string, filePath: string): AstMatch[] | null {
+    const language = this.getLanguage(filePath);
+    if (!language) return null;
+
+    const query = this.compileQuery(language, astQuery);
+    if (!query) return null;
+
+    const tree = this.parseTree(language, content, filePath);
+    if (!tree) return null;
+
+    const results: AstMatch[] = [];
+    const seen = new Set<string>();
+
+    for (const match of query.matches(tree.rootNode)) {
+      if (match.captures.length === 0) continue;
+
+      const reported = match.captures.find(c => c.name === 'violation') || match.captures[0];
+      const { startPosition, endPosition } = reported.node;
+      const key = `${startPosition.row}:${startPosition.column}:${endPosition.row}:${endPosition.column}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const captures: Record<string, string> = {};
+      for (const capture of match.captures) {
+        captures[capture.name] = capture.node.text;
+      }
+
+      results.push({
+        line: startPosition.row + 1,
+        column: startPosition.column,
+        endLine: endPosition.row + 1,
+        endColumn: endPosition.column,
+        text: reported.node.text,
+        captures,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Parse a file into a syntax tree for analyzers that walk the code
+   * themselves. Returns null when the language is unsupported.
+   */
+  parse(content: string, filePath: string): SyntaxNode | null {
+    const language = this.getLanguage(filePath);
+    if (!language) return null;
+    return this.parseTree(language, content, filePath)?.rootNode || null;
+  }
+
+  /**
+   * Drop the cached syntax tree (compiled queries are kept)
+   */
+  clear(): void {
+    this.lastParsed = null;
+  }
+
+  private parseTree(language: AstLanguage, content: string, filePath: string): TSTree | null {
+    const cached = this.lastParsed;
+    if (cached && cached.filePath === filePath && cached.content === content) return cached.tree;
+
+    const parser = this.getParser(language);
+    if (!parser) return null;
+
+    try {
+      const tree = parser.parse(index => index < content.length
+        ? content.slice(index, index + PARSE_CHUNK_SIZE)
+        : null);
+      this.lastParsed = { filePath, content, tree };
+      return tree;
+    } catch {
+      return null;
+    }
+  }
+
+  private getParser(language: AstLanguage): TSParser | null {
+    const existing = this.parsers.get(language);
+    if (existing) return existing;
+
+    const treeSitter = this.loadTreeSitter();
+    const grammar = this.loadLanguage(language);
+    if (!treeSitter || !grammar) return null;
+
+    const parser = new treeSitter();
+    parser.setLanguage(grammar);
+    this.parsers.set(language, parser);
+    return parser;
+  }
+
+  private compileQuery(language: AstLanguage, source: string): TSQuery | null {
+    const key = `${language}\0${source}`;
+    if (this.queries.has(key)) return this.queries.get(key) || null;
+
+    const treeSitter = this.loadTreeSitter();
+    const grammar = this.loadLanguage(language);
+    let query: TSQuery | null = null;
+
+    if (treeSitter && grammar) {
+      try {
+        query = new treeSitter.Query(grammar, source);
+      } catch {
+        // Query uses node types this grammar doesn't have
+        // (e.g. TypeScript-only nodes run against a .js file)
+        query = null;
+      }
+    }
+
+    this.queries.set(key, query);
+    return query;
+  }
+
+  private loadTreeSitter(): TSModule | null {
+    if (this.treeSitter !== undefined) return this.treeSitter;
+
+    try {
+      this.treeSitter = require('tree-sitter') as TSModule;
+    } catch {
+      // Native binding unavailable on this platform
+      this.treeSitter = null;
+    }
+    return this.treeSitter;
+  }
+
+  private loadLanguage(language: AstLanguage): unknown | null {
+    if (this.languages.has(language)) return this.languages.get(language) || null;
+
+    let grammar: unknown = null;
+    try {
+      if (language === 'javascript') {
+        grammar = require('tree-sitter-javascript');
+      } else {
+        const typescript = require('tree-sitter-typescript') as { typescript: unknown; tsx: unknown };
+        grammar = language === 'tsx' ? typescript.tsx : typescript.typescript;
+      }
+    } catch {
+      grammar = null;
+    }
+
+    this.languages.set(language, grammar);
+    return grammar;
+  }
+}
+
+let sharedEngine: AstEngine | null = null;
+
+/**
+ * Get the shared AST engine (parsers and compiled queries are reused across scans)
+ */
+export function getAstEngine(): AstEngine {
+  if (!sharedEngine) {
+    sharedEngine = new AstEngine();
+  }
+  return sharedEngine;
+}
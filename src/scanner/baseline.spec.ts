@@ -0,0 +1,102 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { applyBaseline, fingerprintViolations, loadBaseline, saveBaseline } from './baseline';
+import { scanResult, violation } from '../test-utils/fixtures';
+
+describe('fingerprintViolations', () => {
+  it('ignores line and column changes', () => {
+    const [before] = fingerprintViolations([violation()]);
+    const [after] = fingerprintViolations([violation({ line: 40, column: 2 })]);
+    expect(after).toBe(before);
+  });
+
+  it('ignores whitespace and path separator differences', () => {
+    const [before] = fingerprintViolations([violation()]);
+    const [after] = fingerprintViolations([violation({ file: './src\\api.ts', codeSnippet: "  const  token = 'EAAA';\t" })]);
+    expect(after).toBe(before);
+  });
+
+  it('changes with the rule, file or code', () => {
+    const [base, ...others] = fingerprintViolations([
+      violation(),
+      violation({ ruleCode: 'TOKEN_IN_GRAPH_URL' }),
+      violation({ file: 'src/other.ts' }),
+      violation({ codeSnippet: "const key = 'EAAA';" }),
+    ]);
+    for (const other of others) expect(other).not.toBe(base);
+  });
+
+  it('numbers identical findings in the same file', () => {
+    const [first, second, third] = fingerprintViolations([violation(), violation({ line: 9 }), violation({ line: 12 })]);
+    expect(second).toBe(`${first}:1`);
+    expect(third).toBe(`${first}:2`);
+  });
+});
+
+describe('applyBaseline', () => {
+  let dir: string;
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'meta-scan-baseline-')); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('keeps only new findings and reports missing ones as fixed', () => {
+    const path = join(dir, 'baseline.json');
+    saveBaseline(path, [violation(), violation({ file: 'src/old.ts' })]);
+
+    const result = applyBaseline(scanResult([
+      violation({ line: 10 }),
+      violation({ ruleCode: 'LOGGING_SENSITIVE_DATA', severity: 'warning' }),
+    ]), loadBaseline(path), path);
+
+    expect(result.violations.map(v => v.ruleCode)).toEqual(['LOGGING_SENSITIVE_DATA']);
+    expect(result.summary).toEqual({ errors: 0, warnings: 1, info: 0 });
+    expect(result.baseline).toMatchObject({ newCount: 1, unchangedCount: 1 });
+    expect(result.baseline!.fixed.map(f => f.file)).toEqual(['src/old.ts']);
+  });
+
+  it('only reports entries of scanned files as fixed in diff scans', () => {
+    const path = join(dir, 'baseline.json');
+    saveBaseline(path, [violation(), violation({ file: 'src/old.ts' })]);
+
+    const result = applyBaseline(scanResult([], {
+      diff: { base: 'main', changedFiles: 1, files: ['src/api.ts'] },
+    }), loadBaseline(path));
+
+    expect(result.baseline!.fixed.map(f => f.file)).toEqual(['src/api.ts']);
+  });
+
+  it('only compares findings the scan reports', () => {
+    const path = join(dir, 'baseline.json');
+    const findings = [
+      violation(),
+      violation({ ruleCode: 'RATE_LIMIT_MISSING', severity: 'info', file: 'src/graph.ts' }),
+      violation({ ruleCode: 'IG_NO_AUTOMATED_DM', platform: 'instagram', file: 'src/dm.ts' }),
+      violation({ ruleCode: 'LOGGING_SENSITIVE_DATA', file: 'src/log.ts' }),
+      violation({ file: 'packages/bot/index.ts', package: 'bot' }),
+    ];
+    saveBaseline(path, findings);
+
+    // --update-baseline scans without filters and saves every finding
+    const updated = applyBaseline(scanResult(findings), loadBaseline(path), path, {
+      severity: 'warning',
+      platforms: ['facebook'],
+    });
+    expect(loadBaseline(path).findings).toHaveLength(5);
+    expect(updated.baseline).toMatchObject({ newCount: 0, unchangedCount: 3, fixed: [] });
+
+    const result = applyBaseline(scanResult([violation({ ruleCode: 'APP_SECRET_EXPOSED', file: 'src/new.ts' })]), loadBaseline(path), path, {
+      severity: 'warning',
+      platforms: ['facebook'],
+      packages: ['web'],
+      disabledRules: ['LOGGING_SENSITIVE_DATA'],
+    });
+    expect(result.violations.map(v => v.file)).toEqual(['src/new.ts']);
+    expect(result.baseline!.fixed.map(f => f.file)).toEqual(['src/api.ts']);
+  });
+
+  it('rejects baselines of another version', () => {
+    const path = join(dir, 'baseline.json');
+    writeFileSync(path, JSON.stringify({ version: 99, findings: [] }));
+    expect(() => loadBaseline(path)).toThrow('Unsupported baseline version');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Baseline Support
+ *
+ * Stores the fingerprints of known findings so CI only fails on new
+ * violations. Fingerprints use the rule code, file path and normalized
+ * code snippet (not the line number), so findings survive unrelated edits
+ * that shift lines around.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { BaselineEntry, Platform, ScanResult, Severity, Violation } from '../types';
+import { SEVERITY_ORDER } from './local-scanner';
+import { groupPackages } from './workspaces';
+
+export const DEFAULT_BASELINE_FILE = '.meta-scan-baseline.json';
+const BASELINE_VERSION = 1;
+
+export interface BaselineFile {
+  version: number;
+  createdAt: string;
+  findings: BaselineEntry[];
+}
+
+/**
+ * What a scan reports. Baselines hold every finding, so findings and
+ * baseline entries outside the scope are neither new nor fixed.
+ */
+export interface BaselineScope {
+  /** Minimum severity (--severity) */
+  severity?: Severity;
+  /** Platforms (--platform); all when empty */
+  platforms?: Platform[];
+  /** Names of the selected monorepo packages (--package); all when omitted */
+  packages?: string[];
+  /** Rules that did not run */
+  disabledRules?: string[];
+}
+
+/**
+ * Compute stable fingerprints for a list of violations.
+ * Identical findings in the same file get an occurrence suffix so each
+ * one is tracked separately.
+ */
+export function fingerprintViolations(violations: Violation[]): string[] {
+  const occurrences = new Map<string, number>();
+
+  return violations.map(v => {
+    const base = hashFingerprint(v);
+    const count = occurrences.get(base) || 0;
+    occurrences.set(base, count + 1);
+    return count === 0 ? base : `${base}:${count}`;
+  });
+}
+
+/**
+ * Load a baseline file (throws if the file is invalid)
+ */
+export function loadBaseline(filePath: string): BaselineFile {
+  if (!existsSync(filePath)) {
+    throw new Error(`Baseline file not found: ${filePath}\nRun with --update-baseline to create it.`);
+  }
+
+  let data: BaselineFile;
+  try {
+    data = JSON.parse(readFileSync(filePath, 'utf-8')) as BaselineFile;
+  } catch {
+    throw new Error(`Baseline file is not valid JSON: ${filePath}`);
+  }
+
+  if (!Array.isArray(data.findings)) {
+    throw new Error(`Baseline file has no findings list: ${filePath}`);
+  }
+  if (data.version !== BASELINE_VERSION) {
+    throw new Error(
+      `Unsupported baseline version ${data.version} in ${filePath}. Regenerate it with --update-baseline.`
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Write the current findings as the new baseline
+ */
+export function saveBaseline(filePath: string, violations: Violation[]): BaselineFile {
+  const fingerprints = fingerprintViolations(violations);
+  const findings: BaselineEntry[] = violations
+    .map((v, i) => ({
+      fingerprint: fingerprints[i],
+      ruleCode: v.ruleCode,
+      severity: v.severity,
+      platform: v.platform,
+      package: v.package,
+      file: v.file,
+      line: v.line,
+      codeSnippet: v.codeSnippet,
+    }))
+    .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.ruleCode.localeCompare(b.ruleCode));
+
+  const baseline: BaselineFile = {
+    version: BASELINE_VERSION,
+    createdAt: new Date().toISOString(),
+    findings,
+  };
+
+  writeFileSync(filePath, JSON.stringify(baseline, null, 2) + '\n');
+  return baseline;
+}
+
+/**
+ * Reduce a scan result to findings in scope that are new relative to the
+ * baseline. Baseline entries that no longer occur are reported as fixed
+ * when the scan covered them: their file was scanned (diff scans only
+ * cover the changed files), their package selected (--package) and their
+ * rule, severity and platform in scope.
+ */
+export function applyBaseline(
+  result: ScanResult,
+  baseline: BaselineFile,
+  baselinePath?: string,
+  scope: BaselineScope = {}
+): ScanResult {
+  const known = new Map(baseline.findings.map(f => [f.fingerprint, f]));
+  // Fingerprints count occurrences, so they are computed before filtering
+  const fingerprints = fingerprintViolations(result.violations);
+  const found = new Set(fingerprints);
+  const seen = new Set<string>();
+
+  const scanned = result.diff && new Set(result.diff.files.map(normalizePath));
+  const packages = scope.packages && new Set(scope.packages);
+  const disabled = new Set(scope.disabledRules || []);
+  const platforms = (scope.platforms || []).filter(p => p !== 'all');
+  const inScope = (f: { ruleCode: string; severity: Severity; platform?: Platform; package?: string }) =>
+    !disabled.has(f.ruleCode) &&
+    (!scope.severity || SEVERITY_ORDER[f.severity] >= SEVERITY_ORDER[scope.severity]) &&
+    (platforms.length === 0 || !f.platform || f.platform === 'all' || platforms.includes(f.platform)) &&
+    (!packages || !f.package || packages.has(f.package));
+
+  const newViolations: Violation[] = [];
+  result.violations.forEach((v, i) => {
+    const fingerprint = fingerprints[i];
+    if (!inScope(v)) return;
+    if (known.has(fingerprint)) {
+      seen.add(fingerprint);
+    } else {
+      newViolations.push({ ...v, fingerprint });
+    }
+  });
+
+  const fixed = baseline.findings.filter(f =>
+    !found.has(f.fingerprint) &&
+    inScope(f) &&
+    (!scanned || scanned.has(normalizePath(f.file)))
+  );
+
+  return groupPackages({
+    ...result,
+    violations: newViolations,
+    baseline: {
+      path: baselinePath,
+      newCount: newViolations.length,
+      unchangedCount: seen.size,
+      fixed,
+    },
+    summary: {
+      errors: newViolations.filter(v => v.severity === 'error').length,
+      warnings: newViolations.filter(v => v.severity === 'warning').length,
+      info: newViolations.filter(v => v.severity === 'info').length,
+    },
+  });
+}
+
+function hashFingerprint(v: Violation): string {
+  const file = normalizePath(v.file);
+  const snippet = normalizeSnippet(v.codeSnippet);
+
+  return createHash('sha256')
+    .update(`${v.ruleCode}\0${file}\0${snippet}`)
+    .digest('hex')
+    .substring(0, 32);
+}
+
+function normalizePath(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * Whitespace and indentation changes shouldn't create "new" findings
+ */
+function normalizeSnippet(snippet: string): string {
+  return (snippet || '').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,41 @@
+import { CodebaseIndexer, SourceFile } from './codebase-indexer';
+
+describe('CodebaseIndexer', () => {
+  const reads = new Map<string, number>();
+  const source = (path: string, content: string): SourceFile => ({
+    path,
+    get content() {
+      reads.set(path, (reads.get(path) || 0) + 1);
+      return content;
+    },
+  });
+
+  beforeEach(() => reads.clear());
+
+  it('links imports and detects the structure without keeping every file', async () => {
+    const index = new CodebaseIndexer(60);
+    await index.index([
+      source('src/server.js', "const express = require('express');\nconst { fetchPage } = require('./graph');\napp.get('/', handler);"),
+      source('src/graph.js', "export async function fetchPage(id) { return axios.get(id); }\n"),
+    ]);
+
+    expect(index.findDependencies('src/server.js')).toEqual(['src/graph.js']);
+    expect(index.findDependents('src/graph.js')).toEqual(['src/server.js']);
+    expect(index.getFile('src/graph.js')?.exports).toEqual(['fetchPage']);
+    expect(index.getStructure()).toMatchObject({ type: 'backend', framework: 'Express' });
+    expect([...reads.values()]).toEqual([1, 1]);
+  });
+
+  it('reads evicted files again from their source', async () => {
+    const index = new CodebaseIndexer(60);
+    await index.index([
+      source('a.js', `// ${'a'.repeat(40)}`),
+      source('b.js', `// ${'b'.repeat(40)}`),
+    ]);
+
+    expect(index.getFile('b.js')?.content).toContain('bbb');
+    expect(reads.get('b.js')).toBe(1);
+    expect(index.getFile('a.js')?.content).toContain('aaa');
+    expect(reads.get('a.js')).toBe(2);
+  });
+});
@@ -11,8 +11,23 @@
  * - Import/export relationship graph
  * - Codebase structure detection (fullstack, script, library)
  * - Smart search for related code patterns
+ *
+ * The index keeps each file's imports, exports and names. File content is
+ * read from its source when used, through a cache of bounded size, so
+ * large repositories are never held in memory at once.
  */
 
+import { posix } from 'path';
+
+/**
+ * A file to index. `content` may be a getter that reads the file; it is
+ * read again whenever the file has been evicted from the content cache.
+ */
+export interface SourceFile {
+  path: string;
+  readonly content: string;
+}
+
 export interface CodebaseFile {
   path: string;
   content: string;
@@ -95,20 +110,75 @@ const CLASS_PATTERNS = [
   /class\s+(\w+)/g,
 ];
 
+const FRAMEWORKS: Array<[string, RegExp]> = [
+  ['Next.js', /next/i],
+  ['Express', /express/i],
+  ['Fastify', /fastify/i],
+  ['React', /react/i],
+  ['Vue', /vue/i],
+];
+
+/** Characters of file content kept in memory (~64 MB) */
+const CONTENT_CACHE_SIZE = 32 * 1024 * 1024;
+
+type StructureFeature = keyof typeof STRUCTURE_PATTERNS;
+
+/**
+ * Least recently used file contents, up to a total size
+ */
+class ContentCache {
+  private entries = new Map<string, string>();
+  private size = 0;
+
+  constructor(private maxSize: number) {}
+
+  read(source: SourceFile): string {
+    const cached = this.entries.get(source.path);
+    if (cached !== undefined) {
+      // Move to the most recently used end
+      this.entries.delete(source.path);
+      this.entries.set(source.path, cached);
+      return cached;
+    }
+
+    const content = source.content;
+    this.entries.set(source.path, content);
+    this.size += content.length;
+    for (const [path, evicted] of this.entries) {
+      if (this.size <= this.maxSize || path === source.path) break;
+      this.entries.delete(path);
+      this.size -= evicted.length;
+    }
+    return content;
+  }
+}
+
 export class CodebaseIndexer {
   private files: Map<string, CodebaseFile> = new Map();
   private structure: CodebaseStructure | null = null;
   private importGraph: Map<string, Set<string>> = new Map();
   private exportMap: Map<string, string[]> = new Map(); // export name -> files that export it
+  private contents: ContentCache;
+  /** Structure patterns and frameworks seen in any file */
+  private features = new Set<StructureFeature>();
+  private frameworks = new Set<string>();
+
+  /**
+   * @param contentCacheSize Characters of file content kept in memory
+   */
+  constructor(contentCacheSize = CONTENT_CACHE_SIZE) {
+    this.contents = new ContentCache(contentCacheSize);
+  }
 
   /**
    * Index a codebase from file contents
    */
-  async index(files: Array<{ path: string; content: string }>): Promise<void> {
+  async index(files: SourceFile[]): Promise<void> {
     // Parse each file
-    for (const { path, content } of files) {
-      const parsed = this.parseFile(path, content);
-      this.files.set(path, parsed);
+    for (const source of files) {
+      const content = this.contents.read(source);
+      this.files.set(source.path, this.parseFile(source, content));
+      this.detectFeatures(content);
     }
 
     // Build import graph
@@ -121,7 +191,7 @@ export class CodebaseIndexer {
   /**
    * Parse a file to extract metadata
    */
-  private parseFile(path: string, content: string): CodebaseFile {
+  private parseFile(source: SourceFile, content: string): CodebaseFile {
     const imports: string[] = [];
     const exports: string[] = [];
     const functions: string[] = [];
@@ -172,9 +242,12 @@ export class CodebaseIndexer {
       }
     }
 
+    const contents = this.contents;
     return {
-      path,
-      content,
+      path: source.path,
+      get content() {
+        return contents.read(source);
+      },
       imports: [...new Set(imports)],
       exports: [...new Set(exports)],
       functions: [...new Set(functions)],
@@ -182,6 +255,19 @@ export class CodebaseIndexer {
     };
   }
 
+  /**
+   * Record the structure patterns and frameworks a file shows
+   */
+  private detectFeatures(content: string): void {
+    for (const [feature, patterns] of Object.entries(STRUCTURE_PATTERNS) as Array<[StructureFeature, RegExp[]]>) {
+      if (this.features.has(feature)) continue;
+      if (patterns.some(p => { p.lastIndex = 0; return p.test(content); })) this.features.add(feature);
+    }
+    for (const [framework, pattern] of FRAMEWORKS) {
+      if (!this.frameworks.has(framework) && pattern.test(content)) this.frameworks.add(framework);
+    }
+  }
+
   /**
    * Build import relationship graph
    */
@@ -216,28 +302,29 @@ export class CodebaseIndexer {
   }
 
   /**
-   * Resolve a relative import path
+   * Resolve a relative import to an indexed file (null for packages and
+   * files outside the index)
    */
-  private resolveImport(fromPath: string, importPath: string): string | null {
-    // Simple resolution - in real impl would need proper path resolution
-    const dir = fromPath.split('/').slice(0, -1).join('/');
-    let resolved = importPath;
-
-    if (importPath.startsWith('./')) {
-      resolved = dir + importPath.substring(1);
-    } else if (importPath.startsWith('../')) {
-      const parts = dir.split('/');
-      parts.pop();
-      resolved = parts.join('/') + importPath.substring(2);
-    }
+  resolveImport(fromPath: string, importPath: string): string | null {
+    if (!importPath.startsWith('.')) return null;
+
+    const resolved = posix.join(posix.dirname(fromPath), importPath);
 
     // Try to find matching file
-    const extensions = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.js'];
+    const extensions = ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '/index.ts', '/index.tsx', '/index.js'];
     for (const ext of extensions) {
       const fullPath = resolved + ext;
       if (this.files.has(fullPath)) return fullPath;
     }
 
+    // ESM TypeScript imports name the compiled file (./client.js for client.ts)
+    const compiled = resolved.match(/^(.*)\.(m|c)?js$/);
+    if (compiled) {
+      for (const ext of ['.ts', '.tsx', '.mts', '.cts']) {
+        if (this.files.has(compiled[1] + ext)) return compiled[1] + ext;
+      }
+    }
+
     return null;
   }
 
@@ -245,24 +332,16 @@ export class CodebaseIndexer {
    * Detect codebase structure
    */
   private detectStructure(): CodebaseStructure {
-    const allContent = Array.from(this.files.values())
-      .map(f => f.content)
-      .join('\n');
-
-    const hasAuth = STRUCTURE_PATTERNS.auth.some(p => p.test(allContent));
-    const hasDatabase = STRUCTURE_PATTERNS.database.some(p => p.test(allContent));
-    const hasApi = STRUCTURE_PATTERNS.api.some(p => p.test(allContent));
-    const hasMiddleware = STRUCTURE_PATTERNS.middleware.some(p => p.test(allContent));
-    const hasFrontend = STRUCTURE_PATTERNS.frontend.some(p => p.test(allContent));
-    const hasTests = STRUCTURE_PATTERNS.tests.some(p => p.test(allContent));
+    const has = (feature: StructureFeature) => this.features.has(feature);
+    const hasAuth = has('auth');
+    const hasDatabase = has('database');
+    const hasApi = has('api');
+    const hasMiddleware = has('middleware');
+    const hasFrontend = has('frontend');
+    const hasTests = has('tests');
 
     // Detect framework
-    let framework: string | undefined;
-    if (/next/i.test(allContent)) framework = 'Next.js';
-    else if (/express/i.test(allContent)) framework = 'Express';
-    else if (/fastify/i.test(allContent)) framework = 'Fastify';
-    else if (/react/i.test(allContent)) framework = 'React';
-    else if (/vue/i.test(allContent)) framework = 'Vue';
+    const framework = FRAMEWORKS.find(([name]) => this.frameworks.has(name))?.[0];
 
     // Determine type
     let type: CodebaseStructure['type'] = 'unknown';
@@ -301,6 +380,20 @@ export class CodebaseIndexer {
     };
   }
 
+  /**
+   * Get an indexed file by its path
+   */
+  getFile(path: string): CodebaseFile | undefined {
+    return this.files.get(path);
+  }
+
+  /**
+   * Get all indexed files
+   */
+  getFiles(): CodebaseFile[] {
+    return Array.from(this.files.values());
+  }
+
   /**
    * Get codebase structure
    */
@@ -427,7 +520,11 @@ export class CodebaseIndexer {
   /**
    * Search for specific patterns (auth, rate limiting, etc.)
    */
-  findPatternUsage(pattern: 'auth' | 'rateLimit' | 'permissions' | 'middleware' | 'errorHandler' | 'database' | 'cache' | 'storage'): RelatedCode[] {
+  findPatternUsage(
+    pattern: 'auth' | 'rateLimit' | 'permissions' | 'middleware' | 'errorHandler' | 'database' | 'cache' | 'storage',
+    options: { maxResults?: number } = {}
+  ): RelatedCode[] {
+    const { maxResults = 10 } = options;
     const patterns: Record<string, RegExp[]> = {
       auth: [
         /(?:authenticate|authorize|verifyToken|isAuthenticated|requireAuth|checkAuth)/gi,
@@ -452,6 +549,7 @@ export class CodebaseIndexer {
       database: [
         /(?:createTable|CREATE TABLE|schema|model\s*\(|defineModel)/gi,
         /(?:mongoose\.Schema|sequelize\.define|prisma\.\w+\.create)/gi,
+        /(?:models\.Model|db\.Model|__tablename__|@Entity|Schema::create|^\s*model\s+\w+\s*\{)/gi,
         /(?:ttl|expires_at|retention|delete_after)/gi,
       ],
       cache: [
@@ -494,7 +592,7 @@ export class CodebaseIndexer {
       }
     }
 
-    return results.slice(0, 10);
+    return results.slice(0, maxResults);
   }
 
   /**
@@ -556,7 +654,7 @@ export class CodebaseIndexer {
  * Create a codebase indexer from scanned files
  */
 export async function createCodebaseIndex(
-  files: Array<{ path: string; content: string }>
+  files: SourceFile[]
 ): Promise<CodebaseIndexer> {
   const indexer = new CodebaseIndexer();
   await indexer.index(files);
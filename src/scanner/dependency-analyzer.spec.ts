@@ -0,0 +1,70 @@
+import { findDependencyViolations } from './dependency-analyzer';
+import { ViolationRule } from '../types';
+
+const RULES: ViolationRule[] = [{
+  rule_code: 'IG_UNOFFICIAL_LIBRARY',
+  name: 'Unofficial Instagram library',
+  platform: 'instagram',
+  severity: 'error',
+  category: 'sdk',
+  detection: { type: 'sdk-check', pattern: 'instagram-private-api | instagrapi' },
+  enabled: true,
+}];
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+const PACKAGE_LOCK = json({
+  lockfileVersion: 3,
+  packages: {
+    '': { name: 'app', dependencies: { 'insta-bot': '^1.0.0', 'social-kit': '^2.0.0' } },
+    'node_modules/insta-bot': { version: '1.2.0', dependencies: { 'instagram-private-api': '^1.45.0' } },
+    'node_modules/social-kit': { version: '2.0.0', dependencies: { 'insta-bot': '^1.0.0' } },
+    'node_modules/instagram-private-api': { version: '1.45.3' },
+  },
+});
+
+describe('findDependencyViolations', () => {
+  it('reports transitive packages with the shortest path that pulls them in', () => {
+    const [violation, ...rest] = findDependencyViolations([{ path: 'package-lock.json', content: PACKAGE_LOCK }], RULES);
+
+    expect(rest).toEqual([]);
+    expect(violation).toMatchObject({ ruleCode: 'IG_UNOFFICIAL_LIBRARY', file: 'package-lock.json', line: 23 });
+    expect(violation.dependencyPath).toEqual(['insta-bot', 'instagram-private-api']);
+    expect(violation.message).toContain('is pulled in via insta-bot > instagram-private-api (package-lock.json)');
+  });
+
+  it('walks lockfiles without roots from the manifest next to them', () => {
+    const violations = findDependencyViolations([
+      { path: 'bot/requirements.txt', content: 'insta-helper==1.0\n' },
+      {
+        path: 'bot/poetry.lock',
+        content: [
+          '[[package]]',
+          'name = "insta-helper"',
+          'version = "1.0"',
+          '',
+          '[package.dependencies]',
+          'instagrapi = "*"',
+          '',
+          '[[package]]',
+          'name = "instagrapi"',
+          'version = "2.0.0"',
+        ].join('\n'),
+      },
+    ], RULES);
+
+    expect(violations.map(v => [v.file, v.line, v.dependencyPath])).toEqual([
+      ['bot/poetry.lock', 8, ['insta-helper', 'instagrapi']],
+    ]);
+  });
+
+  it('keeps the manifest finding when a package is also listed directly', () => {
+    const violations = findDependencyViolations([
+      { path: 'package.json', content: json({ dependencies: { 'instagram-private-api': '^1.45.0' } }) },
+      { path: 'package-lock.json', content: PACKAGE_LOCK },
+    ], RULES);
+
+    expect(violations.map(v => [v.file, v.dependencyPath])).toEqual([['package.json', ['instagram-private-api']]]);
+    expect(violations[0].message).toContain('detected in package.json');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Dependency Analyzer
+ *
+ * Checks every manifest and lockfile of a project against the package
+ * lists of `sdk-check` rules (unofficial Instagram/WhatsApp libraries,
+ * custom rules). Lockfiles are walked from the project's direct
+ * dependencies so transitive packages are reported with the path that
+ * introduced them.
+ */
+
+import { basename, dirname } from 'path';
+import { Violation, ViolationRule } from '../types';
+import { DependencyGraph, normalizePackageName, parseManifest } from './dependency-manifests';
+
+export interface ManifestFile {
+  /** Path relative to the scan root */
+  path: string;
+  content: string;
+}
+
+interface Finding {
+  dir: string;
+  /** Normalized package name */
+  name: string;
+  violation: Violation;
+}
+
+interface ParsedManifest {
+  file: string;
+  dir: string;
+  lines: string[];
+  graph: DependencyGraph;
+}
+
+/**
+ * Find packages matched by `sdk-check` rules in manifests and lockfiles.
+ * A lockfile finding is dropped when a manifest in the same project (or one
+ * of its workspaces) already lists the package directly.
+ */
+export function findDependencyViolations(manifests: ManifestFile[], rules: ViolationRule[]): Violation[] {
+  const packageRules = rules
+    .filter(rule => rule.detection.type === 'sdk-check' && rule.detection.pattern)
+    .map(rule => ({ rule, packages: rule.detection.pattern!.split('|').map(p => p.trim()).filter(Boolean) }));
+  if (packageRules.length === 0) return [];
+
+  const parsed: ParsedManifest[] = [];
+  for (const manifest of manifests) {
+    const graph = parseManifest(manifest.path, manifest.content);
+    if (!graph) continue;
+    const file = manifest.path.replace(/\\/g, '/');
+    parsed.push({ file, dir: dirname(file), lines: manifest.content.split('\n'), graph });
+  }
+
+  const direct: Finding[] = [];
+  const transitive: Finding[] = [];
+
+  for (const manifest of parsed) {
+    const { graph } = manifest;
+    const paths = shortestPaths(graph, resolveRoots(manifest, parsed));
+    const reported = new Map<string, Finding>();
+
+    for (const [id, pkg] of graph.packages) {
+      const name = normalizePackageName(graph.ecosystem, pkg.name);
+      const match = packageRules.find(({ packages }) =>
+        packages.some(p => normalizePackageName(graph.ecosystem, p) === name)
+      );
+      if (!match) continue;
+
+      // The same package can be installed more than once; keep the shortest path
+      const path = paths.get(id) || [pkg.name];
+      const key = `${match.rule.rule_code}:${name}`;
+      const previous = reported.get(key);
+      if (previous && previous.violation.dependencyPath!.length <= path.length) continue;
+
+      const violation: Violation = {
+        ruleCode: match.rule.rule_code,
+        ruleName: match.rule.name,
+        severity: match.rule.severity,
+        platform: match.rule.platform,
+        file: manifest.file,
+        line: pkg.line,
+        column: 0,
+        message: `${match.rule.name} "${pkg.name}" ${describeOrigin(manifest.file, path, pkg.indirect)}. ` +
+          'This violates Meta Platform Terms.',
+        codeSnippet: manifest.lines[pkg.line - 1]?.trim() || pkg.name,
+        recommendation: match.rule.recommendation,
+        docUrls: match.rule.doc_urls,
+        dependencyPath: path,
+      };
+      reported.set(key, { dir: manifest.dir, name, violation });
+    }
+
+    (graph.lockfile ? transitive : direct).push(...reported.values());
+  }
+
+  const listedDirectly = (finding: Finding) =>
+    direct.some(d =>
+      d.violation.ruleCode === finding.violation.ruleCode &&
+      d.name === finding.name &&
+      isWithin(d.dir, finding.dir)
+    );
+
+  return [...direct, ...transitive.filter(finding => !listedDirectly(finding))].map(f => f.violation);
+}
+
+function describeOrigin(file: string, path: string[], indirect?: boolean): string {
+  const name = basename(file);
+  if (path.length > 1) return `is pulled in via ${path.join(' > ')} (${name})`;
+  if (indirect) return `is an indirect dependency in ${name}`;
+  return `detected in ${name}`;
+}
+
+/**
+ * Direct dependencies to walk a lockfile from. yarn.lock, poetry.lock and
+ * composer.lock don't record them, so use the manifest next to the
+ * lockfile, or else every package nothing else depends on.
+ */
+function resolveRoots(manifest: ParsedManifest, all: ParsedManifest[]): string[] {
+  const { graph } = manifest;
+  if (graph.roots.length > 0 || !graph.lockfile) return graph.roots;
+
+  const byName = new Map<string, string>();
+  for (const [id, pkg] of graph.packages) {
+    byName.set(normalizePackageName(graph.ecosystem, pkg.name), id);
+  }
+
+  const sibling = all.find(other =>
+    other !== manifest && other.dir === manifest.dir && !other.graph.lockfile && other.graph.ecosystem === graph.ecosystem
+  );
+  if (sibling) {
+    const roots = [...sibling.graph.packages.values()]
+      .map(pkg => byName.get(normalizePackageName(graph.ecosystem, pkg.name)))
+      .filter((id): id is string => id !== undefined);
+    if (roots.length > 0) return roots;
+  }
+
+  const required = new Set([...graph.packages.values()].flatMap(pkg => pkg.dependencies));
+  return [...graph.packages.keys()].filter(id => !required.has(id));
+}
+
+/**
+ * Breadth-first walk from the roots; returns the package names along the
+ * shortest path to each reachable package
+ */
+function shortestPaths(graph: DependencyGraph, roots: string[]): Map<string, string[]> {
+  const paths = new Map<string, string[]>();
+  const queue: string[] = [];
+
+  for (const id of roots) {
+    const pkg = graph.packages.get(id);
+    if (!pkg || paths.has(id)) continue;
+    paths.set(id, [pkg.name]);
+    queue.push(id);
+  }
+
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    const path = paths.get(id)!;
+    for (const dep of graph.packages.get(id)?.dependencies || []) {
+      const pkg = graph.packages.get(dep);
+      if (!pkg || paths.has(dep)) continue;
+      paths.set(dep, [...path, pkg.name]);
+      queue.push(dep);
+    }
+  }
+
+  return paths;
+}
+
+function isWithin(dir: string, parent: string): boolean {
+  return parent === '.' || dir === parent || dir.startsWith(`${parent}/`);
+}
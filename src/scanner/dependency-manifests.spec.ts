@@ -0,0 +1,177 @@
+import { DependencyGraph, isManifestFile, normalizePackageName, parseManifest } from './dependency-manifests';
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+/** Package id => ids of its dependencies */
+const edges = (graph: DependencyGraph | null) =>
+  Object.fromEntries([...graph!.packages].map(([id, pkg]) => [id, pkg.dependencies]));
+
+describe('parseManifest', () => {
+  it('resolves package-lock.json v3 dependencies like node does', () => {
+    const graph = parseManifest('package-lock.json', json({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', dependencies: { 'insta-bot': '^1.0.0' }, devDependencies: { jest: '^29.0.0' } },
+        'node_modules/insta-bot': { version: '1.2.0', dependencies: { 'instagram-private-api': '^1.45.0' } },
+        'node_modules/insta-bot/node_modules/instagram-private-api': { version: '1.45.3' },
+        'node_modules/instagram-private-api': { version: '1.40.0' },
+        'node_modules/jest': { version: '29.7.0', dev: true },
+      },
+    }));
+
+    expect(graph).toMatchObject({ ecosystem: 'npm', lockfile: true });
+    expect(graph!.roots).toEqual(['node_modules/insta-bot', 'node_modules/jest']);
+    expect(edges(graph)['node_modules/insta-bot']).toEqual(['node_modules/insta-bot/node_modules/instagram-private-api']);
+    expect(graph!.packages.get('node_modules/instagram-private-api')).toMatchObject({ name: 'instagram-private-api', line: 22 });
+  });
+
+  it('follows workspace links in package-lock.json', () => {
+    const graph = parseManifest('package-lock.json', json({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'monorepo', workspaces: ['packages/*'] },
+        'node_modules/bot': { resolved: 'packages/bot', link: true },
+        'packages/bot': { name: 'bot', dependencies: { 'whatsapp-web.js': '^1.23.0' } },
+        'node_modules/whatsapp-web.js': { version: '1.23.0' },
+      },
+    }));
+
+    expect(graph!.roots).toEqual(['packages/bot']);
+    expect(edges(graph)).toEqual({ 'packages/bot': ['node_modules/whatsapp-web.js'], 'node_modules/whatsapp-web.js': [] });
+  });
+
+  it('walks nested package-lock.json v1 dependencies', () => {
+    const graph = parseManifest('package-lock.json', json({
+      lockfileVersion: 1,
+      dependencies: {
+        'insta-bot': {
+          version: '1.2.0',
+          requires: { 'instagram-private-api': '^1.45.0' },
+          dependencies: { 'instagram-private-api': { version: '1.45.3' } },
+        },
+      },
+    }));
+
+    expect(edges(graph)).toEqual({
+      'node_modules/insta-bot': ['node_modules/insta-bot/node_modules/instagram-private-api'],
+      'node_modules/insta-bot/node_modules/instagram-private-api': [],
+    });
+  });
+
+  it('links yarn.lock descriptors to their entries', () => {
+    const graph = parseManifest('yarn.lock', [
+      '# yarn lockfile v1',
+      '',
+      '"insta-bot@^1.0.0":',
+      '  version "1.2.0"',
+      '  dependencies:',
+      '    instagram-private-api "^1.45.0"',
+      '',
+      'instagram-private-api@^1.45.0, instagram-private-api@^1.45.1:',
+      '  version "1.45.3"',
+    ].join('\n'));
+
+    expect(edges(graph)).toEqual({ 'insta-bot@^1.0.0': ['instagram-private-api@^1.45.0'], 'instagram-private-api@^1.45.0': [] });
+    expect(graph!.packages.get('instagram-private-api@^1.45.0')).toMatchObject({ version: '1.45.3', line: 8 });
+    expect(graph!.roots).toEqual([]);
+  });
+
+  it('reads pnpm-lock.yaml v9 snapshots and importers', () => {
+    const graph = parseManifest('pnpm-lock.yaml', [
+      "lockfileVersion: '9.0'",
+      'importers:',
+      '  .:',
+      '    dependencies:',
+      '      insta-bot:',
+      '        specifier: ^1.0.0',
+      '        version: 1.2.0',
+      '  packages/web:',
+      '    dependencies:',
+      '      shared:',
+      '        specifier: workspace:*',
+      '        version: link:../shared',
+      'snapshots:',
+      '  insta-bot@1.2.0:',
+      '    dependencies:',
+      '      instagram-private-api: 1.45.3',
+      '  instagram-private-api@1.45.3: {}',
+    ].join('\n'));
+
+    expect(graph!.roots).toEqual(['insta-bot@1.2.0', 'importer:packages/web']);
+    expect(edges(graph)['insta-bot@1.2.0']).toEqual(['instagram-private-api@1.45.3']);
+    expect(graph!.packages.get('instagram-private-api@1.45.3')).toMatchObject({ name: 'instagram-private-api', version: '1.45.3' });
+  });
+
+  it('reads Python lockfiles', () => {
+    const poetry = parseManifest('poetry.lock', [
+      '[[package]]',
+      'name = "Instagrapi"',
+      'version = "2.0.0"',
+      '',
+      '[package.dependencies]',
+      'requests = ">=2.0"',
+      '',
+      '[[package]]',
+      'name = "requests"',
+      'version = "2.31.0"',
+    ].join('\n'));
+    const pipfile = parseManifest('Pipfile.lock', json({
+      default: { instagrapi: { version: '==2.0.0' } },
+      develop: { pytest: {} },
+    }));
+
+    expect(edges(poetry)).toEqual({ instagrapi: ['requests'], requests: [] });
+    expect(pipfile).toMatchObject({ lockfile: false, roots: ['instagrapi', 'pytest'] });
+    expect(pipfile!.packages.get('instagrapi')).toMatchObject({ version: '==2.0.0', line: 3 });
+  });
+
+  it('reads composer.lock without platform requirements', () => {
+    const graph = parseManifest('composer.lock', json({
+      packages: [
+        { name: 'Acme/WA-Bot', version: '1.0.0', require: { php: '>=8.1', 'ext-json': '*', 'guzzlehttp/guzzle': '^7.0' } },
+        { name: 'guzzlehttp/guzzle', version: '7.8.1' },
+      ],
+      'packages-dev': [],
+    }));
+
+    expect(edges(graph)).toEqual({ 'acme/wa-bot': ['guzzlehttp/guzzle'], 'guzzlehttp/guzzle': [] });
+  });
+
+  it('reads Gemfile.lock specs and direct dependencies', () => {
+    const graph = parseManifest('Gemfile.lock', [
+      'GEM',
+      '  remote: https://rubygems.org/',
+      '  specs:',
+      '    insta_bot (0.3.0)',
+      '      faraday (>= 1.0)',
+      '    faraday (2.7.4)',
+      '',
+      'DEPENDENCIES',
+      '  insta_bot!',
+    ].join('\n'));
+
+    expect(graph).toMatchObject({ ecosystem: 'rubygems', roots: ['insta_bot'] });
+    expect(edges(graph)).toEqual({ insta_bot: ['faraday'], faraday: [] });
+  });
+
+  it('returns null for malformed files and unknown names', () => {
+    expect(parseManifest('package-lock.json', '{ "lockfileVersion": 3,')).toBeNull();
+    expect(parseManifest('composer.lock', json({ packages: { name: 'acme/bot' } }))).toBeNull();
+    expect(parseManifest('Cargo.lock', '')).toBeNull();
+    expect(isManifestFile('apps/web/pnpm-lock.yaml')).toBe(true);
+  });
+
+  it('ignores dependency fields that are not objects', () => {
+    const graph = parseManifest('package.json', json({ dependencies: 'none', devDependencies: { jest: '^29.0.0' } }));
+
+    expect(graph!.roots).toEqual(['jest']);
+  });
+});
+
+describe('normalizePackageName', () => {
+  it('normalizes Python and Go names', () => {
+    expect(normalizePackageName('pypi', 'Insta_Grapi.Client')).toBe('insta-grapi-client');
+    expect(normalizePackageName('go', 'github.com/Acme/WA/v2')).toBe('github.com/acme/wa');
+    expect(normalizePackageName('npm', '@Acme/Bot')).toBe('@acme/bot');
+  });
+});
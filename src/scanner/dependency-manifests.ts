@@ -0,0 +1,692 @@
+/**
+ * Dependency Manifests
+ *
+ * Parsers for package manifests and lockfiles across ecosystems. Each
+ * parser returns the packages it lists as a graph: lockfiles record which
+ * package requires which, manifests only list the project's direct
+ * dependencies.
+ */
+
+import { basename } from 'path';
+import { z } from 'zod';
+
+export type Ecosystem = 'npm' | 'pypi' | 'composer' | 'go' | 'rubygems';
+
+export interface DependencyPackage {
+  name: string;
+  version?: string;
+  /** 1-based line of the package's entry in the file */
+  line: number;
+  /** Ids of the packages this package depends on */
+  dependencies: string[];
+  /** Marked `// indirect` in go.mod */
+  indirect?: boolean;
+}
+
+export interface DependencyGraph {
+  ecosystem: Ecosystem;
+  /** True when the file records dependencies between packages */
+  lockfile: boolean;
+  /** Packages keyed by an id unique within the file */
+  packages: Map<string, DependencyPackage>;
+  /**
+   * Ids of the project's direct dependencies (and workspaces). Empty when
+   * the file doesn't say - e.g. yarn.lock and poetry.lock
+   */
+  roots: string[];
+}
+
+type ManifestParser = (content: string) => DependencyGraph;
+
+/** `{ "package": "version range" }` maps of JSON manifests and lockfiles */
+const DependencyMapSchema = z.record(z.string(), z.unknown());
+
+const PARSERS: Record<string, ManifestParser> = {
+  'package.json': parsePackageJson,
+  'package-lock.json': parsePackageLock,
+  'npm-shrinkwrap.json': parsePackageLock,
+  'yarn.lock': parseYarnLock,
+  'pnpm-lock.yaml': parsePnpmLock,
+  'requirements.txt': parseRequirementsTxt,
+  'Pipfile.lock': parsePipfileLock,
+  'poetry.lock': parsePoetryLock,
+  'composer.json': parseComposerJson,
+  'composer.lock': parseComposerLock,
+  'go.mod': parseGoMod,
+  'Gemfile.lock': parseGemfileLock,
+};
+
+export const MANIFEST_FILE_NAMES = Object.keys(PARSERS);
+
+export function isManifestFile(filePath: string): boolean {
+  return basename(filePath) in PARSERS;
+}
+
+/**
+ * Parse a manifest or lockfile. Returns null for unknown file names and
+ * files that fail to parse.
+ */
+export function parseManifest(filePath: string, content: string): DependencyGraph | null {
+  const parser = PARSERS[basename(filePath)];
+  if (!parser) return null;
+
+  try {
+    return parser(content);
+  } catch {
+    // Malformed manifest, nothing to analyze
+    return null;
+  }
+}
+
+/**
+ * Normalize a package name for comparison (PEP 503 for Python packages,
+ * major version suffix dropped for Go modules)
+ */
+export function normalizePackageName(ecosystem: Ecosystem, name: string): string {
+  const lower = name.toLowerCase();
+  if (ecosystem === 'pypi') return lower.replace(/[-_.]+/g, '-');
+  if (ecosystem === 'go') return lower.replace(/\/v\d+$/, '');
+  return lower;
+}
+
+// ============================================
+// npm
+// ============================================
+
+const NPM_DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'] as const;
+
+const NpmLockPackageSchema = z.object({
+  name: z.string().optional(),
+  version: z.string().optional(),
+  resolved: z.string().optional(),
+  link: z.boolean().optional(),
+  dependencies: DependencyMapSchema.optional(),
+  devDependencies: DependencyMapSchema.optional(),
+  optionalDependencies: DependencyMapSchema.optional(),
+  peerDependencies: DependencyMapSchema.optional(),
+});
+
+interface NpmLockV1Dependency {
+  version?: string;
+  requires?: Record<string, unknown>;
+  dependencies?: Record<string, NpmLockV1Dependency>;
+}
+
+const NpmLockV1DependencySchema: z.ZodType<NpmLockV1Dependency> = z.lazy(() => z.object({
+  version: z.string().optional(),
+  requires: DependencyMapSchema.optional(),
+  dependencies: z.record(z.string(), NpmLockV1DependencySchema).optional(),
+}));
+
+const PackageLockSchema = z.object({
+  packages: z.record(z.string(), NpmLockPackageSchema).optional(),
+  dependencies: z.record(z.string(), NpmLockV1DependencySchema).optional(),
+});
+
+function parsePackageJson(content: string): DependencyGraph {
+  const pkg = JSON.parse(content);
+  const lines = content.split('\n');
+  return flatGraph('npm', lines, collectJsonDependencies(pkg, NPM_DEPENDENCY_FIELDS), name => `"${name}":`);
+}
+
+interface NpmLockEntry {
+  name: string;
+  version?: string;
+  line: number;
+  requires: string[];
+  /** Install path of the workspace a `link: true` entry points to */
+  link?: string;
+}
+
+function parsePackageLock(content: string): DependencyGraph {
+  const lock = PackageLockSchema.parse(JSON.parse(content));
+  const lines = content.split('\n');
+  const entries = new Map<string, NpmLockEntry>();
+
+  if (lock.packages) {
+    // lockfileVersion 2 and 3: flat map keyed by install path
+    for (const [key, entry] of Object.entries(lock.packages)) {
+      entries.set(key, {
+        name: entry.name || packageNameFromInstallPath(key),
+        version: entry.version,
+        line: key ? findLine(lines, `"${key}":`) : 1,
+        requires: NPM_DEPENDENCY_FIELDS.flatMap(field => Object.keys(entry[field] || {})),
+        link: entry.link ? entry.resolved : undefined,
+      });
+    }
+  } else {
+    // lockfileVersion 1: nested `dependencies` with `requires`
+    const walk = (dependencies: Record<string, NpmLockV1Dependency>, parentKey: string) => {
+      for (const [name, entry] of Object.entries(dependencies)) {
+        const key = `${parentKey ? `${parentKey}/` : ''}node_modules/${name}`;
+        entries.set(key, {
+          name,
+          version: entry.version,
+          line: findLine(lines, `"${name}":`),
+          requires: Object.keys(entry.requires || {}),
+        });
+        if (entry.dependencies) walk(entry.dependencies, key);
+      }
+    };
+    walk(lock.dependencies || {}, '');
+  }
+
+  // Resolve a dependency the way node does: nearest node_modules upwards
+  const resolve = (fromKey: string, name: string): string | undefined => {
+    let key = fromKey;
+    for (;;) {
+      const candidate = `${key ? `${key}/` : ''}node_modules/${name}`;
+      const entry = entries.get(candidate);
+      if (entry) return entry.link !== undefined ? entry.link : candidate;
+      if (!key) return undefined;
+      const index = key.lastIndexOf('/node_modules/');
+      key = index >= 0 ? key.slice(0, index) : '';
+    }
+  };
+
+  const packages = new Map<string, DependencyPackage>();
+  for (const [key, entry] of entries) {
+    if (!key || entry.link !== undefined) continue;
+    packages.set(key, {
+      name: entry.name,
+      version: entry.version,
+      line: entry.line,
+      dependencies: entry.requires
+        .map(name => resolve(key, name))
+        .filter((id): id is string => id !== undefined && id !== key),
+    });
+  }
+
+  const root = entries.get('');
+  const roots = root
+    ? root.requires.map(name => resolve('', name)).filter((id): id is string => id !== undefined)
+    : [];
+  // Workspace packages are listed by their path (no node_modules segment)
+  roots.push(...[...packages.keys()].filter(key => !key.includes('node_modules/')));
+
+  return { ecosystem: 'npm', lockfile: true, packages, roots: unique(roots) };
+}
+
+function packageNameFromInstallPath(key: string): string {
+  const index = key.lastIndexOf('node_modules/');
+  return index >= 0 ? key.slice(index + 'node_modules/'.length) : key;
+}
+
+/**
+ * yarn.lock - both the classic (v1) format and the YAML-like Berry format
+ */
+function parseYarnLock(content: string): DependencyGraph {
+  const lines = content.split('\n');
+  const packages = new Map<string, DependencyPackage>();
+  const byDescriptor = new Map<string, string>();
+  const pending: Array<{ id: string; descriptors: string[] }> = [];
+  const roots: string[] = [];
+
+  let current: { id: string; descriptors: string[] } | null = null;
+  let inDependencies = false;
+
+  lines.forEach((text, index) => {
+    if (!text.trim() || text.trimStart().startsWith('#')) return;
+    const indent = text.length - text.trimStart().length;
+    const trimmed = text.trim();
+
+    if (indent === 0 && trimmed.endsWith(':')) {
+      // Classic quotes each descriptor, Berry quotes the whole list
+      const descriptors = trimmed.slice(0, -1).split(/,\s*/).map(d => d.replace(/"/g, '').trim());
+      if (descriptors[0] === '__metadata') {
+        current = null;
+        return;
+      }
+      const id = descriptors[0];
+      current = { id, descriptors: [] };
+      packages.set(id, { name: packageNameFromDescriptor(id), line: index + 1, dependencies: [] });
+      for (const descriptor of descriptors) byDescriptor.set(descriptor, id);
+      pending.push(current);
+      // Berry lists the project's workspaces as entries
+      if (descriptors.some(d => d.includes('@workspace:'))) roots.push(id);
+      inDependencies = false;
+      return;
+    }
+
+    if (!current) return;
+    const pair = splitKeyValue(trimmed);
+    if (!pair) return;
+
+    if (indent === 2) {
+      inDependencies = pair.key === 'dependencies' || pair.key === 'optionalDependencies';
+      if (pair.key === 'version' && pair.value) packages.get(current.id)!.version = pair.value;
+    } else if (indent === 4 && inDependencies && pair.value) {
+      current.descriptors.push(`${pair.key}@${pair.value}`);
+    }
+  });
+
+  // Dependencies are recorded as descriptors (name@range)
+  for (const { id, descriptors } of pending) {
+    const pkg = packages.get(id)!;
+    for (const descriptor of descriptors) {
+      const target = byDescriptor.get(descriptor) || findByName(packages, packageNameFromDescriptor(descriptor));
+      if (target && target !== id) pkg.dependencies.push(target);
+    }
+  }
+
+  return { ecosystem: 'npm', lockfile: true, packages, roots };
+}
+
+function packageNameFromDescriptor(descriptor: string): string {
+  const index = descriptor.indexOf('@', 1);
+  return index > 0 ? descriptor.slice(0, index) : descriptor;
+}
+
+/**
+ * pnpm-lock.yaml - lockfile versions 5 to 9
+ */
+function parsePnpmLock(content: string): DependencyGraph {
+  const doc = parseYamlMap(content);
+  const packages = new Map<string, DependencyPackage>();
+
+  // v9 keeps the dependency graph in `snapshots`, older versions in `packages`
+  const entries = doc.children.get('snapshots') || doc.children.get('packages');
+  for (const [key, node] of entries?.children || []) {
+    const parsed = parsePnpmPackageKey(key);
+    packages.set(key, {
+      name: parsed.name,
+      version: parsed.version,
+      line: node.line,
+      dependencies: [],
+    });
+  }
+
+  const resolve = (name: string, ref: string): string | undefined => {
+    if (ref.startsWith('link:')) return undefined;
+    return [`/${name}@${ref}`, `${name}@${ref}`, `/${name}/${ref}`, ref, `/${ref}`].find(id => packages.has(id));
+  };
+
+  const dependenciesOf = (node: YamlNode): string[] => {
+    const ids: string[] = [];
+    for (const field of ['dependencies', 'optionalDependencies', 'devDependencies']) {
+      for (const [name, dep] of node.children.get(field)?.children || []) {
+        // v6+ importers use { specifier, version }
+        const ref = dep.value ?? dep.children.get('version')?.value;
+        const id = ref ? resolve(name, ref) : undefined;
+        if (id) ids.push(id);
+      }
+    }
+    return ids;
+  };
+
+  for (const [key, node] of entries?.children || []) {
+    packages.get(key)!.dependencies = dependenciesOf(node);
+  }
+
+  const roots: string[] = [];
+  const importers = doc.children.get('importers');
+  if (importers) {
+    for (const [path, node] of importers.children) {
+      if (path === '.') {
+        roots.push(...dependenciesOf(node));
+        continue;
+      }
+      // Workspace packages become named roots so paths show the workspace
+      const id = `importer:${path}`;
+      packages.set(id, { name: path, line: node.line, dependencies: dependenciesOf(node) });
+      roots.push(id);
+    }
+  } else {
+    roots.push(...dependenciesOf(doc));
+  }
+
+  return { ecosystem: 'npm', lockfile: true, packages, roots: unique(roots) };
+}
+
+function parsePnpmPackageKey(key: string): { name: string; version?: string } {
+  const id = key.replace(/^\//, '').replace(/\(.*$/, '');
+
+  // v6+: name@version, v5: name/version_peers
+  const atStyle = id.match(/^((?:@[^/]+\/)?[^@/]+)@(.+)$/);
+  if (atStyle) return { name: atStyle[1], version: atStyle[2] };
+
+  const slashStyle = id.match(/^((?:@[^/]+\/)?[^/]+)\/([^_/]+)/);
+  if (slashStyle) return { name: slashStyle[1], version: slashStyle[2] };
+
+  return { name: id };
+}
+
+// ============================================
+// Python
+// ============================================
+
+function parseRequirementsTxt(content: string): DependencyGraph {
+  const lines = content.split('\n');
+  const deps: Array<{ name: string; version?: string; line: number }> = [];
+
+  lines.forEach((text, index) => {
+    const line = text.replace(/(^|\s)#.*$/, '').trim();
+    // Options (-r, -e, --index-url) and direct URLs
+    if (!line || line.startsWith('-') || /^[a-z+]+:\/\//i.test(line)) return;
+
+    const match = line.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;]*)/);
+    if (match) deps.push({ name: match[1], version: match[2].trim() || undefined, line: index + 1 });
+  });
+
+  return flatGraphFromList('pypi', deps);
+}
+
+const PipfileLockSectionSchema = z.record(z.string(), z.object({ version: z.string().optional() })).optional();
+
+const PipfileLockSchema = z.object({
+  default: PipfileLockSectionSchema,
+  develop: PipfileLockSectionSchema,
+});
+
+function parsePipfileLock(content: string): DependencyGraph {
+  const lock = PipfileLockSchema.parse(JSON.parse(content));
+  const lines = content.split('\n');
+  const deps: Record<string, string | undefined> = {};
+
+  for (const section of ['default', 'develop'] as const) {
+    for (const [name, entry] of Object.entries(lock[section] || {})) {
+      deps[name] = deps[name] || entry.version;
+    }
+  }
+
+  // Pipfile.lock pins every package but doesn't record who requires whom
+  return flatGraph('pypi', lines, deps, name => `"${name}":`);
+}
+
+/**
+ * poetry.lock - TOML with one [[package]] table per package
+ */
+function parsePoetryLock(content: string): DependencyGraph {
+  const lines = content.split('\n');
+  const packages = new Map<string, DependencyPackage>();
+  const requires = new Map<string, string[]>();
+
+  let current: { line: number; name?: string; version?: string; deps: string[] } | null = null;
+  let section = '';
+
+  const flush = () => {
+    if (!current?.name) return;
+    const id = normalizePackageName('pypi', current.name);
+    packages.set(id, { name: current.name, version: current.version, line: current.line, dependencies: [] });
+    requires.set(id, current.deps);
+  };
+
+  lines.forEach((text, index) => {
+    const line = text.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const table = line.match(/^\[\[?([^\]]+)\]\]?$/);
+    if (table) {
+      section = table[1];
+      if (line === '[[package]]') {
+        flush();
+        current = { line: index + 1, deps: [] };
+      } else if (!section.startsWith('package.')) {
+        flush();
+        current = null;
+      }
+      return;
+    }
+
+    if (!current) return;
+    const pair = line.match(/^"?([A-Za-z0-9._-]+)"?\s*=\s*(.*)$/);
+    if (!pair) return;
+
+    if (section === 'package') {
+      if (pair[1] === 'name') current.name = unquote(pair[2]);
+      if (pair[1] === 'version') current.version = unquote(pair[2]);
+    } else if (section === 'package.dependencies') {
+      current.deps.push(normalizePackageName('pypi', pair[1]));
+    }
+  });
+  flush();
+
+  for (const [id, deps] of requires) {
+    packages.get(id)!.dependencies = deps.filter(dep => packages.has(dep) && dep !== id);
+  }
+
+  return { ecosystem: 'pypi', lockfile: true, packages, roots: [] };
+}
+
+// ============================================
+// PHP
+// ============================================
+
+function parseComposerJson(content: string): DependencyGraph {
+  const pkg = JSON.parse(content);
+  const lines = content.split('\n');
+  const deps = collectJsonDependencies(pkg, ['require', 'require-dev']);
+  return flatGraph('composer', lines, withoutPlatformPackages(deps), name => `"${name}":`);
+}
+
+const ComposerLockPackageSchema = z.object({
+  name: z.string(),
+  version: z.string().optional(),
+  require: DependencyMapSchema.optional(),
+});
+
+const ComposerLockSchema = z.object({
+  packages: z.array(ComposerLockPackageSchema).optional(),
+  'packages-dev': z.array(ComposerLockPackageSchema).optional(),
+});
+
+function parseComposerLock(content: string): DependencyGraph {
+  const lock = ComposerLockSchema.parse(JSON.parse(content));
+  const lines = content.split('\n');
+  const packages = new Map<string, DependencyPackage>();
+  const entries = [...(lock.packages || []), ...(lock['packages-dev'] || [])];
+
+  for (const entry of entries) {
+    const id = entry.name.toLowerCase();
+    packages.set(id, {
+      name: entry.name,
+      version: entry.version,
+      line: findLine(lines, `"name": "${entry.name}"`),
+      dependencies: [],
+    });
+  }
+
+  for (const entry of entries) {
+    const id = entry.name.toLowerCase();
+    packages.get(id)!.dependencies = Object.keys(withoutPlatformPackages(collectJsonDependencies(entry, ['require'])))
+      .map(name => name.toLowerCase())
+      .filter(dep => packages.has(dep) && dep !== id);
+  }
+
+  return { ecosystem: 'composer', lockfile: true, packages, roots: [] };
+}
+
+/** Drop php, ext-* and lib-* requirements, which aren't packages */
+function withoutPlatformPackages(deps: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(deps).filter(([name]) => name.includes('/')));
+}
+
+// ============================================
+// Go and Ruby
+// ============================================
+
+function parseGoMod(content: string): DependencyGraph {
+  const packages = new Map<string, DependencyPackage>();
+  let inRequireBlock = false;
+
+  content.split('\n').forEach((text, index) => {
+    const line = text.trim();
+    if (inRequireBlock && line === ')') {
+      inRequireBlock = false;
+      return;
+    }
+    if (/^require\s*\($/.test(line)) {
+      inRequireBlock = true;
+      return;
+    }
+
+    const spec = inRequireBlock ? line : line.match(/^require\s+(.*)$/)?.[1];
+    const match = spec?.match(/^(\S+)\s+(\S+)(.*)$/);
+    if (!match || match[1].startsWith('//')) return;
+
+    packages.set(match[1], {
+      name: match[1],
+      version: match[2],
+      line: index + 1,
+      dependencies: [],
+      indirect: /\/\/\s*indirect/.test(match[3]),
+    });
+  });
+
+  // go.mod lists the whole build list but not who requires whom
+  return { ecosystem: 'go', lockfile: false, packages, roots: [...packages.keys()] };
+}
+
+function parseGemfileLock(content: string): DependencyGraph {
+  const packages = new Map<string, DependencyPackage>();
+  const requires = new Map<string, string[]>();
+  const roots: string[] = [];
+
+  let section = '';
+  let currentGem: string | null = null;
+
+  content.split('\n').forEach((text, index) => {
+    if (!text.trim()) return;
+    const indent = text.length - text.trimStart().length;
+    const line = text.trim();
+
+    if (indent === 0) {
+      section = line;
+      currentGem = null;
+      return;
+    }
+
+    const match = line.match(/^([^\s(!]+)!?(?:\s+\(([^)]*)\))?$/);
+    if (!match) return;
+
+    if (section === 'DEPENDENCIES' && indent === 2) {
+      roots.push(match[1].toLowerCase());
+    } else if (['GEM', 'PATH', 'GIT'].includes(section) && indent === 4) {
+      currentGem = match[1].toLowerCase();
+      packages.set(currentGem, { name: match[1], version: match[2], line: index + 1, dependencies: [] });
+      requires.set(currentGem, []);
+    } else if (currentGem && indent === 6) {
+      requires.get(currentGem)!.push(match[1].toLowerCase());
+    }
+  });
+
+  for (const [id, deps] of requires) {
+    packages.get(id)!.dependencies = deps.filter(dep => packages.has(dep) && dep !== id);
+  }
+
+  return { ecosystem: 'rubygems', lockfile: true, packages, roots: roots.filter(id => packages.has(id)) };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Merge the dependency maps in `fields` of a parsed manifest. The first
+ * field listing a package wins; fields that aren't objects are ignored
+ */
+function collectJsonDependencies(pkg: unknown, fields: readonly string[]): Record<string, string> {
+  const deps: Record<string, string> = {};
+  const manifest = z.record(z.string(), z.unknown()).safeParse(pkg);
+  if (!manifest.success) return deps;
+
+  for (const field of fields) {
+    const map = DependencyMapSchema.safeParse(manifest.data[field]);
+    for (const [name, version] of Object.entries(map.success ? map.data : {})) {
+      if (!(name in deps)) deps[name] = String(version);
+    }
+  }
+  return deps;
+}
+
+/**
+ * Graph for a file that only lists direct dependencies
+ */
+function flatGraph(
+  ecosystem: Ecosystem,
+  lines: string[],
+  deps: Record<string, string | undefined>,
+  needle: (name: string) => string
+): DependencyGraph {
+  return flatGraphFromList(
+    ecosystem,
+    Object.entries(deps).map(([name, version]) => ({ name, version, line: findLine(lines, needle(name)) }))
+  );
+}
+
+function flatGraphFromList(
+  ecosystem: Ecosystem,
+  deps: Array<{ name: string; version?: string; line: number }>
+): DependencyGraph {
+  const packages = new Map<string, DependencyPackage>();
+  for (const dep of deps) {
+    const id = normalizePackageName(ecosystem, dep.name);
+    if (!packages.has(id)) packages.set(id, { ...dep, dependencies: [] });
+  }
+  return { ecosystem, lockfile: false, packages, roots: [...packages.keys()] };
+}
+
+function findByName(packages: Map<string, DependencyPackage>, name: string): string | undefined {
+  for (const [id, pkg] of packages) {
+    if (pkg.name === name) return id;
+  }
+  return undefined;
+}
+
+/** 1-based line of the first line containing `needle` (1 when absent) */
+function findLine(lines: string[], needle: string): number {
+  const index = lines.findIndex(line => line.includes(needle));
+  return index >= 0 ? index + 1 : 1;
+}
+
+function splitKeyValue(text: string): { key: string; value?: string } | null {
+  // "key value" (yarn v1) or "key: value" (YAML)
+  const match = text.match(/^("[^"]*"|[^\s:]+):?(?:\s+(.+))?$/);
+  if (!match) return null;
+  return { key: unquote(match[1]), value: match[2] !== undefined ? unquote(match[2]) : undefined };
+}
+
+function unquote(text: string): string {
+  const trimmed = text.trim();
+  return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+function unique(ids: string[]): string[] {
+  return [...new Set(ids)];
+}
+
+interface YamlNode {
+  value?: string;
+  line: number;
+  children: Map<string, YamlNode>;
+}
+
+/**
+ * Parse the block-mapping subset of YAML used by lockfiles. Sequences are
+ * skipped and flow collections are kept as plain strings.
+ */
+function parseYamlMap(content: string): YamlNode {
+  const root: YamlNode = { line: 0, children: new Map() };
+  const stack: Array<{ indent: number; node: YamlNode }> = [{ indent: -1, node: root }];
+
+  content.split('\n').forEach((text, index) => {
+    const trimmed = text.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('-')) return;
+
+    const match = trimmed.match(/^('[^']*'|"[^"]*"|[^:]+?):(?:\s+(.*))?$/);
+    if (!match) return;
+
+    const indent = text.length - text.trimStart().length;
+    while (stack[stack.length - 1].indent >= indent) stack.pop();
+
+    const node: YamlNode = {
+      value: match[2] !== undefined ? unquote(match[2]) : undefined,
+      line: index + 1,
+      children: new Map(),
+    };
+    stack[stack.length - 1].node.children.set(unquote(match[1]), node);
+    stack.push({ indent, node });
+  });
+
+  return root;
+}
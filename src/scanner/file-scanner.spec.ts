@@ -0,0 +1,94 @@
+import { checkRule, FileScanner } from './file-scanner';
+import { getBuiltinRules } from './local-scanner';
+import { Detection, ViolationRule } from '../types';
+
+const TOKEN = `EAAA${'x'.repeat(60)}`;
+const SOURCE = [
+  "import { client } from './client';",
+  '',
+  "it('refreshes expired tokens', async () => {",
+  '  // meta-scan-disable-next-line TOKEN_EXPOSED -- revoked fixture token',
+  `  const token = '${TOKEN}';`,
+  '});',
+].join('\n');
+
+describe('FileScanner', () => {
+  const scan = (findings: 'keep' | 'ignore') => new FileScanner({
+    rules: getBuiltinRules().filter(rule => rule.rule_code === 'TOKEN_EXPOSED'),
+    includeSdkAnalysis: false,
+    testFiles: { findings },
+  }).scanContent({ filePath: 'test/a.test.ts', relativePath: 'test/a.test.ts', testFile: true }, SOURCE);
+
+  it('suppresses findings in test files', async () => {
+    const result = await scan('keep');
+
+    expect(result.violations).toEqual([]);
+    expect(result.suppressed.map(v => `${v.ruleCode}:${v.line}`)).toEqual(['TOKEN_EXPOSED:5']);
+    expect(result.unused).toEqual([]);
+  });
+
+  it('counts directives as used when test file findings are ignored', async () => {
+    const result = await scan('ignore');
+
+    expect(result.violations).toEqual([]);
+    expect(result.suppressed).toEqual([]);
+    expect(result.unused).toEqual([]);
+  });
+});
+
+describe('checkRule', () => {
+  const rule = (detection: Partial<Detection>): ViolationRule => ({
+    rule_code: 'TEST_RULE',
+    name: 'Test rule',
+    platform: 'all',
+    severity: 'warning',
+    category: 'test',
+    detection: { type: 'regex', ...detection },
+    enabled: true,
+  });
+
+  const check = async (detection: Partial<Detection>, content: string) =>
+    (await checkRule(rule(detection), content, 'app.js')).map(v => [v.line, v.column, v.endLine, v.endColumn]);
+
+  it('matches multiline patterns across lines with their full range', async () => {
+    const source = "fetch(url, {\n  method: 'POST',\n  body: token,\n});";
+
+    expect(await check({ pattern: 'fetch\\([^)]*body:\\s*token', multiline: true }, source)).toEqual([[1, 0, 3, 13]]);
+    expect(await check({ pattern: 'fetch\\([^)]*body:\\s*token' }, source)).toEqual([]);
+  });
+
+  it('treats files containing mustContain as compliant', async () => {
+    const detection = { pattern: 'graph\\.facebook\\.com', mustContain: 'appsecret_proof' };
+
+    expect(await check(detection, "get('https://graph.facebook.com/me');")).toEqual([[1, 13, 1, 31]]);
+    expect(await check(detection, "get('https://graph.facebook.com/me', { appsecret_proof });")).toEqual([]);
+  });
+
+  it('reports the file when mustContain is missing and there is no pattern', async () => {
+    expect(await check({ mustContain: 'X-Hub-Signature-256' }, "app.post('/webhook', handler);")).toEqual([[1, 0, 1, 0]]);
+    expect(await check({ mustContain: 'X-Hub-Signature-256' }, "req.get('X-Hub-Signature-256');")).toEqual([]);
+  });
+
+  it('reports mustNotContain matches only in files the pattern matched', async () => {
+    const detection = { pattern: 'messaging_type', mustNotContain: "tag:\\s*'[A-Z_]+'" };
+    const source = "send({ messaging_type: 'MESSAGE_TAG',\n  tag: 'PAIRING' });";
+
+    expect(await check(detection, source)).toEqual([[2, 2, 2, 16]]);
+    expect(await check(detection, "send({ tag: 'PAIRING' });")).toEqual([]);
+    expect(await check({ mustNotContain: 'eval\\(' }, 'eval(code);\nrun();\neval(more);')).toEqual([[1, 0, 1, 5], [3, 0, 3, 5]]);
+  });
+
+  it('counts string literal keys as code for code-only rules', async () => {
+    const targeting = getBuiltinRules().find(r => r.rule_code === 'ADS_HARDCODED_TARGETING')!;
+    const lines = async (content: string, filePath: string) => (await checkRule(targeting, content, filePath)).map(v => v.line);
+
+    expect(await lines("params = {'targeting': {'age_min': 25, 'genders': [1]}}", 'ads.py')).toEqual([1]);
+    expect(await lines('adSet.create({ targeting: { age_max: 40 } });', 'ads.js')).toEqual([1]);
+    expect(await lines([
+      '// targeting: { age_min: 25 }',
+      "const hint = 'Avoid targeting: genders in housing ads';",
+      'const FIELD = /targeting:\\s*age_min/;',
+      "pattern: 'targeting.*(?:age_min|genders)',",
+    ].join('\n'), 'rules.ts')).toEqual([]);
+  });
+});
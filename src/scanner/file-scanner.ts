@@ -0,0 +1,504 @@
+/**
+ * File Scanner
+ *
+ * Scans a single file: SDK detection, rule checks, optional AI analysis,
+ * rule settings and inline suppressions. Shared by the in-process scan
+ * loop and the scan worker threads, so it only takes serializable
+ * settings. Rules are compiled once per scanner instead of once per file.
+ */
+
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { DETECTION_RULE_CODES, detectionMessage, detectionRuleCode, SDKDetector } from './sdk-detector';
+import { getAstEngine } from './ast-engine';
+import { applySuppressions } from './suppressions';
+import { applyRuleSettings } from './rule-settings';
+import { AIFileAnalysisResult, AIScanner } from './ai-scanner';
+import { inCode, lexSource, SourceContexts } from './lexer';
+import { rankTestFindings } from './test-files';
+import { buildFix } from '../fixes/autofix';
+import {
+  ApiVersionSettings,
+  CodeContext,
+  FixSettings,
+  Platform,
+  RuleSettings,
+  SDKDetection,
+  SuppressedViolation,
+  TestFileSettings,
+  UnusedSuppression,
+  Violation,
+  ViolationRule,
+} from '../types';
+
+export const SCANNABLE_EXTENSIONS = [
+  '.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs',
+  '.py', '.php', '.java', '.rb', '.go',
+  '.json',  // For package.json detection
+  '.sql',   // Database schemas
+  '.prisma', // Prisma ORM schemas
+  '.graphql', '.gql', // GraphQL schemas
+];
+
+/**
+ * Everything a scanner needs, in a form that can be sent to a worker
+ */
+export interface FileScanSettings {
+  /** Resolved rules (custom rules added, disabled and other-platform rules dropped) */
+  rules: ViolationRule[];
+  ruleSettings?: RuleSettings;
+  fix?: FixSettings;
+  apiVersions?: ApiVersionSettings;
+  includeSdkAnalysis: boolean;
+  /** What happens to findings in test files (jobs flagged `testFile`) */
+  testFiles?: TestFileSettings;
+}
+
+export interface FileAIOptions {
+  scanner: AIScanner;
+  platform?: Platform;
+  maxAnalysisPerFile: number;
+  minConfidence: number;
+  log: (msg: string) => void;
+}
+
+export interface ScanJob {
+  filePath: string;
+  /** Path relative to the scanned directory */
+  relativePath: string;
+  /** AI verdict from an earlier scan of the same content, reused instead of calling the LLM */
+  ai?: AIFileAnalysisResult;
+  /** Matches a test/fixture file pattern */
+  testFile?: boolean;
+}
+
+export interface FileScanResult {
+  /** Path relative to the scanned directory */
+  file: string;
+  /** sha256 of the scanned content */
+  contentHash?: string;
+  violations: Violation[];
+  suppressed: SuppressedViolation[];
+  unused: UnusedSuppression[];
+  sdkDetections: SDKDetection[];
+  /** Raw AI findings, before rule settings and suppressions (AI scans only) */
+  ai?: AIFileAnalysisResult;
+  /** Set when the file couldn't be read or scanned */
+  error?: string;
+}
+
+interface CompiledRule {
+  rule: ViolationRule;
+  fileTypes: string[];
+  /** Matched per line, or against the whole file for multiline rules */
+  regex?: RegExp;
+  /** Lowercased `sdk-check` package names */
+  packages?: string[];
+  mustContain?: RegExp;
+  mustNotContain?: RegExp;
+  /** Contexts matches must start in; undefined matches anywhere */
+  contexts?: Set<CodeContext>;
+  /** Set when a pattern doesn't compile; the rule is skipped */
+  error?: string;
+}
+
+interface SourceText {
+  content: string;
+  lines: string[];
+  /** Offset of each line's first character */
+  lineStarts: number[];
+  /** Code/string/comment map, lexed on first use (undefined for unsupported languages) */
+  contexts(): SourceContexts | undefined;
+}
+
+interface MatchPosition {
+  line: number;       // 1-based
+  column: number;     // 0-based
+  endLine: number;
+  endColumn: number;  // 0-based, exclusive
+  text?: string;
+}
+
+const compiledRules = new WeakMap<ViolationRule, CompiledRule>();
+
+export class FileScanner {
+  private sdkDetector: SDKDetector;
+  private rules: CompiledRule[];
+  /** Rules by code, for the autofix and docs of SDK detection findings */
+  private rulesByCode: Map<string, ViolationRule>;
+  /** Rules this scan reports on, so directives for other rules aren't flagged unused */
+  private evaluatedRules: Set<string>;
+
+  constructor(private settings: FileScanSettings, private ai?: FileAIOptions) {
+    this.sdkDetector = new SDKDetector(settings.apiVersions);
+    this.rules = settings.rules.map(compileRule).filter(compiled => !compiled.error);
+    this.rulesByCode = new Map(settings.rules.map(rule => [rule.rule_code, rule]));
+
+    const disabled = new Set(settings.ruleSettings?.disabled || []);
+    this.evaluatedRules = new Set([
+      ...settings.rules.map(rule => rule.rule_code),
+      ...(settings.includeSdkAnalysis ? DETECTION_RULE_CODES : []),
+    ].filter(code => !disabled.has(code)));
+  }
+
+  async scan(job: ScanJob): Promise<FileScanResult> {
+    let content: string;
+    try {
+      content = await readFile(job.filePath, 'utf-8');
+    } catch (err) {
+      return { ...emptyResult(job.relativePath), error: err instanceof Error ? err.message : String(err) };
+    }
+    return this.scanContent(job, content);
+  }
+
+  /**
+   * Scan content that was read elsewhere (e.g. fetched from the GitHub API)
+   */
+  async scanContent(job: ScanJob, content: string): Promise<FileScanResult> {
+    const { filePath, relativePath } = job;
+    const result = emptyResult(relativePath);
+
+    try {
+      result.contentHash = hashContent(content);
+      const ext = extname(filePath);
+      const source = toSourceText(content, filePath);
+      const fileViolations: Violation[] = [];
+
+      if (this.settings.includeSdkAnalysis) {
+        result.sdkDetections = await this.sdkDetector.detectInFile(relativePath, content);
+        fileViolations.push(...result.sdkDetections.flatMap(detectionToViolation)
+          .map(v => this.withRuleFix(v, source.lines)));
+      }
+
+      for (const compiled of this.rules) {
+        if (!compiled.fileTypes.some(t => ext === t || ext === t.replace('.', ''))) {
+          continue;
+        }
+        fileViolations.push(...runRule(compiled, source, relativePath, this.settings.fix));
+      }
+
+      // AI-powered detection (if enabled)
+      if (this.ai) {
+        try {
+          result.ai = job.ai || await this.ai.scanner.analyzeFileDetailed(relativePath.replace(/\\/g, '/'), content, {
+            platform: this.ai.platform,
+            maxAnalysisPerFile: this.ai.maxAnalysisPerFile,
+            minConfidence: this.ai.minConfidence,
+          });
+          fileViolations.push(...result.ai.violations);
+        } catch (aiError) {
+          // AI analysis is optional, don't fail the scan
+          this.ai.log(`  ⚠️ AI analysis skipped: ${aiError instanceof Error ? aiError.message : 'Unknown error'}`);
+        }
+      }
+
+      // Inline suppression comments, then test file ranking, so directives
+      // in test files still count as used when their findings are dropped
+      const settled = applyRuleSettings(fileViolations, this.settings.ruleSettings);
+      const suppression = applySuppressions(
+        settled,
+        content,
+        relativePath,
+        new Set([...this.evaluatedRules, ...settled.map(v => v.ruleCode)])
+      );
+      const rank = <T extends Violation>(violations: T[]) =>
+        job.testFile ? rankTestFindings(violations, this.settings.testFiles?.findings) : violations;
+      result.violations = rank(suppression.violations);
+      result.suppressed = rank(suppression.suppressed);
+      result.unused = suppression.unused;
+    } catch (err) {
+      result.error = err instanceof Error ? err.message : String(err);
+    }
+
+    return result;
+  }
+
+  /**
+   * Give an SDK detection finding (e.g. DEPRECATED_API_VERSION) the
+   * autofix and docs of the rule with its code
+   */
+  private withRuleFix(violation: Violation, lines: string[]): Violation {
+    const rule = this.rulesByCode.get(violation.ruleCode);
+    if (!rule) return violation;
+    return {
+      ...violation,
+      fix: buildFix(rule.autofix, lines[violation.line - 1] || '', violation.line, violation.file, this.settings.fix),
+      docUrls: violation.docUrls || rule.doc_urls,
+    };
+  }
+}
+
+function emptyResult(file: string): FileScanResult {
+  return { file, violations: [], suppressed: [], unused: [], sdkDetections: [] };
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Run a single rule against a file's content
+ */
+export async function checkRule(
+  rule: ViolationRule,
+  content: string,
+  filePath: string,
+  fixSettings?: FixSettings
+): Promise<Violation[]> {
+  const compiled = compileRule(rule);
+  if (compiled.error) return [];
+  return runRule(compiled, toSourceText(content, filePath), filePath, fixSettings);
+}
+
+/**
+ * Rules whose patterns don't compile, with the error. Scans skip them.
+ */
+export function findInvalidRules(rules: ViolationRule[]): Array<{ rule: ViolationRule; error: string }> {
+  return rules.flatMap(rule => {
+    const { error } = compileRule(rule);
+    return error ? [{ rule, error }] : [];
+  });
+}
+
+/**
+ * Compile a rule's regexes and package list (cached per rule object)
+ */
+function compileRule(rule: ViolationRule): CompiledRule {
+  let compiled = compiledRules.get(rule);
+  if (!compiled) {
+    const { type, pattern, multiline, mustContain, mustNotContain, contexts } = rule.detection;
+    const wholeFileFlags = multiline ? 'gims' : 'gim';
+    const fileTypes = rule.detection.fileTypes || SCANNABLE_EXTENSIONS;
+    try {
+      compiled = {
+        rule,
+        fileTypes,
+        regex: pattern && type !== 'sdk-check' ? new RegExp(pattern, multiline ? 'gims' : 'gi') : undefined,
+        packages: pattern && type === 'sdk-check' ? pattern.split('|').map(p => p.toLowerCase()) : undefined,
+        mustContain: mustContain ? new RegExp(mustContain, wholeFileFlags) : undefined,
+        mustNotContain: mustNotContain ? new RegExp(mustNotContain, wholeFileFlags) : undefined,
+        contexts: contexts && contexts.length > 0 && contexts.length < 3 ? new Set(contexts) : undefined,
+      };
+    } catch (err) {
+      // One bad pattern (e.g. from the database) must not abort the scan
+      compiled = { rule, fileTypes, error: err instanceof Error ? err.message : String(err) };
+    }
+    compiledRules.set(rule, compiled);
+  }
+  return compiled;
+}
+
+function toSourceText(content: string, filePath: string): SourceText {
+  const lines = content.split('\n');
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+
+  let contexts: SourceContexts | undefined | null = null;
+  return {
+    content,
+    lines,
+    lineStarts,
+    contexts: () => (contexts === null ? (contexts = lexSource(content, filePath)) : contexts),
+  };
+}
+
+/**
+ * Apply a rule's whole-file assertions around its pattern matches:
+ * `mustContain` makes files containing it compliant (without a pattern the
+ * file itself is reported), `mustNotContain` reports its own matches in
+ * files the pattern matched (or in every file without a pattern)
+ */
+function runRule(
+  compiled: CompiledRule,
+  source: SourceText,
+  filePath: string,
+  fixSettings?: FixSettings
+): Violation[] {
+  const { rule, mustContain, mustNotContain } = compiled;
+  const { content, lines } = source;
+  if (mustContain && content.search(mustContain) >= 0) return [];
+
+  const hasPattern = !!(compiled.regex || compiled.packages || rule.detection.astQuery);
+  const violations = hasPattern
+    ? inContexts(compiled, source, findPatternViolations(compiled, source, filePath, fixSettings))
+    : [];
+
+  if (mustNotContain) {
+    if (hasPattern && violations.length === 0) return [];
+    return inContexts(compiled, source, findRegexMatches(mustNotContain, source, true)
+      .map(match => createViolation(rule, filePath, lines, match, fixSettings)));
+  }
+
+  if (mustContain && !hasPattern) {
+    return [createViolation(rule, filePath, lines, { line: 1, column: 0, endLine: 1, endColumn: 0 }, fixSettings)];
+  }
+
+  return violations;
+}
+
+/**
+ * Drop matches outside the rule's contexts (e.g. in comments). String
+ * literals used as keys or values (`'targeting': {`) are code.
+ */
+function inContexts(compiled: CompiledRule, source: SourceText, violations: Violation[]): Violation[] {
+  const allowed = compiled.contexts;
+  const contexts = allowed && violations.length > 0 ? source.contexts() : undefined;
+  if (!allowed || !contexts) return violations;
+
+  return violations.filter(v => {
+    const offset = source.lineStarts[v.line - 1] + v.column;
+    return allowed.has(contexts.at(offset)) || (allowed.has('code') && inCode(contexts, source.content, offset));
+  });
+}
+
+function findPatternViolations(
+  compiled: CompiledRule,
+  source: SourceText,
+  filePath: string,
+  fixSettings?: FixSettings
+): Violation[] {
+  const { rule, regex, packages } = compiled;
+  const { content, lines } = source;
+  const violations: Violation[] = [];
+
+  // AST rules run tree-sitter queries; unsupported languages fall back
+  // to the rule's regex pattern (if it has one)
+  let useRegex = rule.detection.type === 'regex';
+  if (rule.detection.type === 'ast-pattern' && rule.detection.astQuery) {
+    const matches = getAstEngine().query(rule.detection.astQuery, content, filePath);
+
+    if (matches) {
+      return matches.map(match => createViolation(rule, filePath, lines, match, fixSettings));
+    }
+
+    useRegex = true;
+  }
+
+  if (useRegex && regex) {
+    for (const match of findRegexMatches(regex, source, !!rule.detection.multiline)) {
+      violations.push(createViolation(rule, filePath, lines, match, fixSettings));
+    }
+  }
+
+  if (packages) {
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].toLowerCase();
+
+      for (const pattern of packages) {
+        const column = line.indexOf(pattern);
+        if (column >= 0) {
+          const match = { line: i + 1, column, endLine: i + 1, endColumn: column + pattern.length };
+          violations.push(createViolation(rule, filePath, lines, match, fixSettings, rule.description || `${pattern} detected`));
+          break;
+        }
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Every match of a regex, line by line or across the whole file
+ */
+function findRegexMatches(regex: RegExp, source: SourceText, wholeFile: boolean): MatchPosition[] {
+  const { content, lines, lineStarts } = source;
+  const positions: MatchPosition[] = [];
+
+  if (!wholeFile) {
+    lines.forEach((line, i) => {
+      for (const match of line.matchAll(regex)) {
+        positions.push({ line: i + 1, column: match.index!, endLine: i + 1, endColumn: match.index! + match[0].length });
+      }
+    });
+    return positions;
+  }
+
+  for (const match of content.matchAll(regex)) {
+    const start = toPosition(lineStarts, match.index!);
+    const end = toPosition(lineStarts, match.index! + match[0].length);
+    positions.push({ line: start.line, column: start.column, endLine: end.line, endColumn: end.column });
+  }
+  return positions;
+}
+
+function toPosition(lineStarts: number[], offset: number): { line: number; column: number } {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return { line: low + 1, column: offset - lineStarts[low] };
+}
+
+function createViolation(
+  rule: ViolationRule,
+  filePath: string,
+  lines: string[],
+  match: MatchPosition,
+  fixSettings?: FixSettings,
+  message?: string
+): Violation {
+  const lineText = lines[match.line - 1] || '';
+  return {
+    ruleCode: rule.rule_code,
+    ruleName: rule.name,
+    severity: rule.severity,
+    platform: rule.platform,
+    file: filePath,
+    line: match.line,
+    column: match.column,
+    endLine: match.endLine,
+    endColumn: match.endColumn,
+    message: message || rule.description || `Violation of ${rule.name}`,
+    codeSnippet: (lineText || match.text || '').trim(),
+    recommendation: rule.recommendation,
+    fixExample: rule.fix_example,
+    fix: buildFix(rule.autofix, lineText, match.line, filePath, fixSettings),
+    docUrls: rule.doc_urls,
+  };
+}
+
+/**
+ * Convert SDK detections to rule violations
+ */
+function detectionToViolation(detection: SDKDetection): Violation[] {
+  if (detection.riskLevel === 'violation') {
+    return [{
+      ruleCode: detectionRuleCode(detection),
+      ruleName: detection.type === 'unofficial' ? 'Unofficial Library' : 'Deprecated API',
+      severity: 'error',
+      platform: detection.platform,
+      file: detection.file,
+      line: detection.line,
+      column: detection.column,
+      message: detectionMessage(detection),
+      codeSnippet: detection.codeSnippet,
+      recommendation: detection.recommendation,
+    }];
+  }
+
+  if (detection.apiVersion && detection.riskLevel === 'caution') {
+    return [{
+      ruleCode: 'API_VERSION_EXPIRING',
+      ruleName: 'API Version Expiring Soon',
+      severity: 'warning',
+      platform: detection.platform,
+      file: detection.file,
+      line: detection.line,
+      column: detection.column,
+      message: detectionMessage(detection),
+      codeSnippet: detection.codeSnippet,
+      recommendation: detection.recommendation,
+    }];
+  }
+
+  return [];
+}
@@ -0,0 +1,75 @@
+import { isLineChanged, parseUnifiedDiff } from './git-diff';
+
+const DIFF = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -3,0 +4,2 @@ function main() {',
+  "+  const token = 'EAAA';",
+  '+  call(token);',
+  '@@ -10 +12 @@',
+  '-old();',
+  '+updated();',
+  '@@ -20,3 +22,0 @@',
+  '-a();',
+  '-b();',
+  '-c();',
+  'diff --git a/src/new.ts b/src/new.ts',
+  'new file mode 100644',
+  '--- /dev/null',
+  '+++ b/src/new.ts',
+  '@@ -0,0 +1,3 @@',
+  '+one',
+  '+two',
+  '+three',
+  'diff --git a/src/gone.ts b/src/gone.ts',
+  'deleted file mode 100644',
+  '--- a/src/gone.ts',
+  '+++ /dev/null',
+  '@@ -1,2 +0,0 @@',
+  '-x',
+  '-y',
+].join('\n');
+
+describe('parseUnifiedDiff', () => {
+  const changed = parseUnifiedDiff(DIFF);
+
+  it('collects the added line ranges of each file', () => {
+    expect(changed.get('src/app.ts')).toEqual([[4, 5], [12, 12]]);
+    expect(changed.get('src/new.ts')).toEqual([[1, 3]]);
+  });
+
+  it('skips pure deletions and deleted files', () => {
+    expect(changed.get('src/app.ts')).not.toContainEqual([22, 21]);
+    expect(changed.has('src/gone.ts')).toBe(false);
+  });
+
+  it('strips the quotes git puts around unusual paths', () => {
+    const quoted = parseUnifiedDiff('+++ "b/src/caf\\303\\251 app.ts"\n@@ -1 +1 @@\n');
+    expect([...quoted.keys()]).toEqual(['src/caf\\303\\251 app.ts']);
+  });
+
+  it('returns nothing for an empty diff', () => {
+    expect(parseUnifiedDiff('').size).toBe(0);
+  });
+});
+
+describe('isLineChanged', () => {
+  const changed = {
+    base: 'main',
+    files: new Map([['src/app.ts', { path: 'src/app.ts', ranges: parseUnifiedDiff(DIFF).get('src/app.ts')! }]]),
+  };
+
+  it('checks lines against the changed ranges', () => {
+    expect(isLineChanged(changed, 'src/app.ts', 4)).toBe(true);
+    expect(isLineChanged(changed, 'src/app.ts', 5)).toBe(true);
+    expect(isLineChanged(changed, 'src/app.ts', 6)).toBe(false);
+    expect(isLineChanged(changed, 'src/app.ts', 12)).toBe(true);
+  });
+
+  it('accepts Windows paths and rejects unchanged files', () => {
+    expect(isLineChanged(changed, 'src\\app.ts', 4)).toBe(true);
+    expect(isLineChanged(changed, 'src/other.ts', 4)).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Git Diff Scope
+ *
+ * Resolves which files and lines changed between two git refs so pull
+ * request scans only report findings in code the PR actually touches.
+ *
+ * - `since: 'origin/main'` compares the merge-base of origin/main and HEAD
+ *   with the working tree (committed and uncommitted changes)
+ * - `range: 'base..head'` or `'base...head'` is passed to `git diff` as-is
+ */
+
+import { execFileSync } from 'child_process';
+import { join, relative, resolve } from 'path';
+import { DiffScope } from '../types';
+
+export interface ChangedFile {
+  path: string;                          // Relative to the scanned directory
+  ranges: Array<[number, number]>;       // Added/modified line ranges (inclusive)
+}
+
+export interface ChangedFiles {
+  base: string;
+  files: Map<string, ChangedFile>;
+}
+
+/**
+ * Collect changed files and line ranges for a directory inside a git repo
+ */
+export function getChangedFiles(dirPath: string, scope: DiffScope): ChangedFiles {
+  const cwd = resolve(dirPath);
+  const repoRoot = git(cwd, ['rev-parse', '--show-toplevel']).trim();
+
+  let diffArgs: string[];
+  let base: string;
+
+  if (scope.range) {
+    base = scope.range;
+    diffArgs = [scope.range];
+  } else if (scope.since) {
+    const mergeBase = git(cwd, ['merge-base', scope.since, 'HEAD']).trim();
+    base = `${scope.since} (${mergeBase.substring(0, 12)})`;
+    diffArgs = [mergeBase];
+  } else {
+    throw new Error('Diff scope requires either a base ref (since) or a range');
+  }
+
+  const output = git(cwd, [
+    'diff', '--unified=0', '--no-color', '--no-ext-diff', '--diff-filter=ACMR', ...diffArgs, '--',
+  ]);
+
+  const changedPaths = parseUnifiedDiff(output);
+
+  // Comparing against the working tree: untracked files are entirely new
+  if (!scope.range) {
+    const untracked = git(cwd, ['ls-files', '--others', '--exclude-standard', '--full-name']);
+    for (const repoPath of untracked.split('\n').filter(Boolean)) {
+      changedPaths.set(repoPath, [[1, Number.MAX_SAFE_INTEGER]]);
+    }
+  }
+
+  const files = new Map<string, ChangedFile>();
+  for (const [repoPath, ranges] of changedPaths) {
+    const path = relative(cwd, join(repoRoot, repoPath)).replace(/\\/g, '/');
+    // Skip files outside the scanned directory
+    if (path.startsWith('..')) continue;
+    files.set(path, { path, ranges });
+  }
+
+  return { base, files };
+}
+
+/**
+ * Parse `git diff --unified=0` output into added line ranges per file
+ */
+export function parseUnifiedDiff(diff: string): Map<string, Array<[number, number]>> {
+  const result = new Map<string, Array<[number, number]>>();
+  let current: Array<[number, number]> | null = null;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = line.substring(4).trim();
+      if (target === '/dev/null') {
+        current = null;
+        continue;
+      }
+      const path = target.replace(/^"?b\//, '').replace(/"$/, '');
+      current = [];
+      result.set(path, current);
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk && current) {
+      const start = parseInt(hunk[1], 10);
+      const count = hunk[2] !== undefined ? parseInt(hunk[2], 10) : 1;
+      // count 0 = pure deletion, nothing to scan on the new side
+      if (count > 0) {
+        current.push([start, start + count - 1]);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check whether a line of a file was changed in the diff
+ */
+export function isLineChanged(changed: ChangedFiles, filePath: string, line: number): boolean {
+  const file = changed.files.get(filePath.replace(/\\/g, '/'));
+  if (!file) return false;
+  return file.ranges.some(([start, end]) => line >= start && line <= end);
+}
+
+function git(cwd: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      maxBuffer: 1024 * 1024 * 100,
+    });
+  } catch (error: unknown) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ''}`);
+  }
+}
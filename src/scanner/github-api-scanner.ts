@@ -3,11 +3,26 @@
  * Inspired by PocketFlow's approach: https://github.com/The-Pocket/PocketFlow-Tutorial-Codebase-Knowledge
  */
 
-import { ScanResult, Violation, SDKAnalysis, AIAnalysisSummary, SuspiciousSection } from '../types';
-import { SDKDetector, detectMetaPackages } from './sdk-detector';
-import { BUNDLED_RULES } from '../policies/bundled-policies';
-import { createAIScanner, AIScanner, AnalyzedSection } from './ai-scanner';
+import {
+  ScanResult,
+  Violation,
+  SDKAnalysis,
+  SuppressedViolation,
+  UnusedSuppression,
+  AISettings,
+  ApiVersionSettings,
+  RuleSettings,
+} from '../types';
+import { createAIScanner, AIScanner, AnalyzedSection, buildAIAnalysisSummary } from './ai-scanner';
 import { createCodebaseIndex, CodebaseIndexer } from './codebase-indexer';
+import { applyRuleSettings, resolveRules } from './rule-settings';
+import { getBuiltinRules } from './local-scanner';
+import { FileScanner, findInvalidRules } from './file-scanner';
+import { analyzeProject, withoutUsedDirectives } from './project-analysis';
+import { hasAnalyzerRules } from '../analyzers';
+import { findDependencyViolations } from './dependency-analyzer';
+import { isManifestFile } from './dependency-manifests';
+import { buildPermissionInventory } from './permission-inventory';
 
 interface GitHubFile {
   name: string;
@@ -26,6 +41,9 @@ interface GitHubApiOptions {
   includePatterns?: string[];
   excludePatterns?: string[];
   enableAI?: boolean;    // Enable AI-powered detection (requires env vars)
+  ai?: AISettings;
+  rules?: RuleSettings;  // Disabled rules, severity overrides, custom rules
+  apiVersions?: ApiVersionSettings;
 }
 
 const SCANNABLE_EXTENSIONS = [
@@ -44,6 +62,7 @@ const DEFAULT_EXCLUDE = [
 ];
 
 const MAX_FILE_SIZE = 100 * 1024;  // 100KB default
+const MAX_MANIFEST_SIZE = 5 * 1024 * 1024;  // Lockfiles are often larger
 const MAX_FILES = 500;  // Don't scan more than 500 files
 const API_BASE = 'https://api.github.com';
 
@@ -56,6 +75,8 @@ export class GitHubApiScanner {
   private retryCount = 0;
   private maxRetries = 3;
   private aiScanner?: AIScanner;
+  /** Set when the file or directory limit cut the repository listing short */
+  private truncated = false;
 
   constructor(options?: { token?: string; onProgress?: (msg: string) => void; enableAI?: boolean }) {
     this.token = options?.token || process.env.GITHUB_TOKEN || process.env.GITHUB_PAT;
@@ -146,8 +167,9 @@ export class GitHubApiScanner {
     await this.initAIScanner();
 
     const violations: Violation[] = [];
+    const suppressed: SuppressedViolation[] = [];
+    let unusedSuppressions: UnusedSuppression[] = [];
     const allSections: AnalyzedSection[] = [];
-    const sdkDetector = new SDKDetector();
     const sdkAnalysis: SDKAnalysis = {
       official: [],
       wrappers: [],
@@ -167,37 +189,15 @@ export class GitHubApiScanner {
     // Collect file contents for codebase indexing
     const fileContents: Array<{path: string, content: string}> = [];
 
-    // Check package.json first
-    const packageJson = files.find(f => f.name === 'package.json');
-    if (packageJson) {
-      try {
-        const content = await this.fetchFileContent(packageJson.download_url!);
-        fileContents.push({ path: 'package.json', content });
-
-        const pkgAnalysis = await detectMetaPackages(content);
-
-        for (const pkg of pkgAnalysis.violations) {
-          violations.push({
-            ruleCode: 'UNOFFICIAL_IG_LIBRARY',
-            ruleName: 'Unofficial Instagram Library',
-            severity: 'error',
-            platform: 'instagram',
-            file: 'package.json',
-            line: 1,
-            column: 0,
-            message: `Unofficial library "${pkg}" in package.json violates Meta Platform Terms.`,
-            codeSnippet: `"${pkg}": "..."`,
-            recommendation: 'Use official Instagram Graph API via facebook-nodejs-business-sdk',
-          });
-        }
-      } catch (e) {
-        // Skip if can't read package.json
-      }
-    }
+    // Dependency manifests are fetched first so the file limit never cuts them off
+    const orderedFiles = [
+      ...files.filter(f => isManifestFile(f.name)),
+      ...files.filter(f => !isManifestFile(f.name)),
+    ];
 
     // First pass: collect all file contents for codebase indexing
     this.log(`Fetching file contents...`);
-    for (const file of files) {
+    for (const file of orderedFiles) {
       if (fileContents.length >= (options.maxFiles || MAX_FILES)) break;
       if (!this.isScannable(file)) continue;
 
@@ -206,10 +206,26 @@ export class GitHubApiScanner {
         const content = await this.fetchFileContent(file.download_url!);
         fileContents.push({ path: file.path, content });
       } catch (e) {
+        // Out of API quota: the remaining fetches would fail as well
+        if (e instanceof Error && e.message.startsWith('Rate limit exceeded')) {
+          this.log(`⚠️ ${e.message} Scanning the ${fileContents.length} files fetched so far.`);
+          this.truncated = true;
+          break;
+        }
         // Skip files that fail to fetch
       }
     }
 
+    // Bundled rules plus custom rules, matched by the same scanner as local scans
+    const rules = resolveRules(getBuiltinRules(), options.rules);
+    for (const { rule, error } of findInvalidRules(rules)) {
+      this.log(`⚠️ Skipping rule ${rule.rule_code}, its pattern is invalid: ${error}`);
+    }
+
+    // Unofficial libraries in manifests and lockfiles, with the dependency path
+    const manifests = fileContents.filter(f => isManifestFile(f.path));
+    violations.push(...applyRuleSettings(findDependencyViolations(manifests, rules), options.rules));
+
     // Create codebase index BEFORE AI analysis (so AI has full context)
     let codebaseIndex: CodebaseIndexer | undefined;
     if (fileContents.length > 0) {
@@ -228,6 +244,16 @@ export class GitHubApiScanner {
       }
     }
 
+    const scanner = new FileScanner(
+      { rules, ruleSettings: options.rules, apiVersions: options.apiVersions, includeSdkAnalysis: true },
+      this.aiScanner && {
+        scanner: this.aiScanner,
+        maxAnalysisPerFile: options.ai?.maxAnalysisPerFile ?? 5,
+        minConfidence: options.ai?.minConfidence ?? 0.7,
+        log: msg => this.log(msg),
+      }
+    );
+
     // Second pass: analyze files with full codebase context
     this.log(`\nAnalyzing ${fileContents.length} files...`);
     for (const { path: filePath, content } of fileContents) {
@@ -236,99 +262,53 @@ export class GitHubApiScanner {
         break;
       }
 
-      this.filesScanned++;
       const file = files.find(f => f.path === filePath);
-      if (!file) continue;
-
-      try {
+      if (!file || !this.hasScannableExtension(file.name)) continue;
+      this.filesScanned++;
 
-        // SDK Detection
-        const sdkDetections = await sdkDetector.detectInFile(file.path, content);
-        for (const detection of sdkDetections) {
-          switch (detection.type) {
-            case 'official-sdk':
-              sdkAnalysis.official.push(detection);
-              break;
-            case 'wrapper':
-              sdkAnalysis.wrappers.push(detection);
-              break;
-            case 'direct-api':
-              sdkAnalysis.directApi.push(detection);
-              break;
-            case 'unofficial':
-            case 'deprecated':
-              sdkAnalysis.violations.push(detection);
-              violations.push({
-                ruleCode: detection.type === 'unofficial' ? 'UNOFFICIAL_IG_LIBRARY' : 'DEPRECATED_API_VERSION',
-                ruleName: detection.type === 'unofficial' ? 'Unofficial Library' : 'Deprecated API',
-                severity: 'error',
-                platform: detection.platform,
-                file: file.path,
-                line: detection.line,
-                column: detection.column,
-                message: `${detection.sdk}: ${detection.recommendation || 'Policy violation'}`,
-                codeSnippet: detection.codeSnippet,
-                recommendation: detection.recommendation,
-              });
-              break;
-          }
+      const fileResult = await scanner.scanContent({ filePath, relativePath: filePath }, content);
+
+      for (const detection of fileResult.sdkDetections) {
+        switch (detection.type) {
+          case 'official-sdk':
+            sdkAnalysis.official.push(detection);
+            break;
+          case 'wrapper':
+            sdkAnalysis.wrappers.push(detection);
+            break;
+          case 'direct-api':
+            sdkAnalysis.directApi.push(detection);
+            break;
+          case 'unofficial':
+          case 'deprecated':
+            sdkAnalysis.violations.push(detection);
+            break;
         }
+      }
 
-        // Regex-based rule checks
-        const regexViolations = this.checkRegexRules(content, file.path);
-        violations.push(...regexViolations);
-
-        // AI-powered detection (if enabled)
-        if (this.aiScanner) {
-          try {
-            const aiResult = await this.aiScanner.analyzeFileDetailed(file.path, content, {
-              maxAnalysisPerFile: 5,
-              minConfidence: 0.7,
-            });
-            violations.push(...aiResult.violations);
-            allSections.push(...aiResult.sections);
-          } catch (aiError) {
-            // AI analysis is optional, don't fail the scan
-            this.log(`  ⚠️ AI analysis skipped: ${aiError instanceof Error ? aiError.message : 'Unknown error'}`);
-          }
-        }
+      violations.push(...fileResult.violations);
+      suppressed.push(...fileResult.suppressed);
+      unusedSuppressions.push(...fileResult.unused);
+      allSections.push(...(fileResult.ai?.sections || []));
+    }
 
-      } catch (e) {
-        // Skip files that fail to fetch
-        const msg = e instanceof Error ? e.message : String(e);
-        if (msg.includes('rate limit')) {
-          this.log(`⚠️ Rate limit hit, stopping scan`);
-          break;
-        }
+    // Project analyzers run once over every fetched file
+    if (codebaseIndex) {
+      if (hasAnalyzerRules(rules) && (this.truncated || fileContents.length >= (options.maxFiles || MAX_FILES))) {
+        this.log(`⚠️ Only ${fileContents.length} files were fetched: cross-file checks may miss code ` +
+          `in the rest of the repository. Use --clone to scan all files.`);
       }
+      const analysis = await analyzeProject(codebaseIndex, rules, { ruleSettings: options.rules });
+      violations.push(...analysis.violations);
+      suppressed.push(...analysis.suppressed);
+      unusedSuppressions = withoutUsedDirectives(unusedSuppressions, analysis.usedDirectives);
     }
 
     // Deduplicate violations
     const uniqueViolations = this.deduplicateViolations(violations);
 
     // Build AI analysis summary if we have sections
-    let aiAnalysis: AIAnalysisSummary | undefined;
-    if (allSections.length > 0) {
-      const suspiciousSections: SuspiciousSection[] = allSections.map(s => ({
-        file: s.file,
-        line: s.line,
-        column: s.column,
-        snippet: s.snippet,
-        category: s.category,
-        description: s.description,
-        status: s.status === 'low_confidence' ? 'pending' : s.status,
-        analysisResult: s.analysisResult,
-      }));
-
-      aiAnalysis = {
-        totalSuspicious: allSections.length,
-        analyzed: allSections.filter(s => s.status !== 'low_confidence').length,
-        compliant: allSections.filter(s => s.status === 'compliant').length,
-        violations: allSections.filter(s => s.status === 'violation').length,
-        noPolicyMatch: allSections.filter(s => s.status === 'no_policy').length,
-        sections: suspiciousSections,
-      };
-    }
+    const aiAnalysis = buildAIAnalysisSummary(allSections);
 
     return {
       source: {
@@ -341,8 +321,11 @@ export class GitHubApiScanner {
       filesScanned: this.filesScanned,
       scanDuration: Date.now() - startTime,
       violations: uniqueViolations,
+      suppressed,
+      unusedSuppressions,
       sdkAnalysis,
       aiAnalysis,
+      permissions: buildPermissionInventory(fileContents),
       summary: {
         errors: uniqueViolations.filter(v => v.severity === 'error').length,
         warnings: uniqueViolations.filter(v => v.severity === 'warning').length,
@@ -397,7 +380,7 @@ export class GitHubApiScanner {
             queue.push(item.path);
           } else if (item.type === 'file') {
             // Skip large files
-            if (item.size > options.maxFileSize) continue;
+            if (item.size > (isManifestFile(item.name) ? MAX_MANIFEST_SIZE : options.maxFileSize)) continue;
             // Skip non-scannable files
             if (!this.isScannable(item)) continue;
 
@@ -419,6 +402,7 @@ export class GitHubApiScanner {
       }
     }
 
+    if (queue.length > 0) this.truncated = true;
     return files;
   }
 
@@ -601,8 +585,12 @@ export class GitHubApiScanner {
   }
 
   private isScannable(file: GitHubFile): boolean {
-    const ext = '.' + file.name.split('.').pop()?.toLowerCase();
-    return SCANNABLE_EXTENSIONS.includes(ext) && file.download_url !== null;
+    return (this.hasScannableExtension(file.name) || isManifestFile(file.name)) && file.download_url !== null;
+  }
+
+  private hasScannableExtension(name: string): boolean {
+    const ext = '.' + name.split('.').pop()?.toLowerCase();
+    return SCANNABLE_EXTENSIONS.includes(ext);
   }
 
   private shouldExclude(path: string, patterns: string[]): boolean {
@@ -610,48 +598,10 @@ export class GitHubApiScanner {
     return patterns.some(p => lowerPath.includes(p.toLowerCase()));
   }
 
-  private checkRegexRules(content: string, filePath: string): Violation[] {
-    const violations: Violation[] = [];
-    const lines = content.split('\n');
-
-    // Use BUNDLED_RULES for consistent detection across all scan modes
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      for (const rule of BUNDLED_RULES) {
-        // Skip rules without regex patterns
-        if (!rule.detection.pattern) continue;
-
-        try {
-          const pattern = new RegExp(rule.detection.pattern, 'gi');
-          if (pattern.test(line)) {
-            violations.push({
-              ruleCode: rule.code,
-              ruleName: rule.name,
-              severity: rule.severity,
-              platform: rule.platform,
-              file: filePath,
-              line: i + 1,
-              column: line.search(new RegExp(rule.detection.pattern, 'i')) + 1,
-              message: rule.description,
-              codeSnippet: line.trim().substring(0, 100),
-              recommendation: rule.recommendation,
-              docUrls: rule.docUrl ? [rule.docUrl] : undefined,
-            });
-          }
-        } catch {
-          // Invalid regex pattern, skip
-        }
-      }
-    }
-
-    return violations;
-  }
-
   private deduplicateViolations(violations: Violation[]): Violation[] {
     const seen = new Set<string>();
     return violations.filter(v => {
-      const key = `${v.ruleCode}:${v.file}:${v.line}`;
+      const key = `${v.ruleCode}:${v.file}:${v.line}:${v.column}`;
       if (seen.has(key)) return false;
       seen.add(key);
       return true;
@@ -2,10 +2,10 @@ import { execSync } from 'child_process';
 import { mkdtempSync, rmSync, existsSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
-import { scanDirectory } from './local-scanner';
-import { ScanOptions, ScanResult } from '../types';
+import { scanWorkspace } from './workspace-scanner';
+import { ScanResult, WorkspaceScanOptions } from '../types';
 
-export interface GitHubScanOptions extends ScanOptions {
+export interface GitHubScanOptions extends WorkspaceScanOptions {
   branch?: string;
   depth?: number;
   auth?: string;
@@ -67,8 +67,10 @@ export async function scanGitHubRepo(
     }
 
     // Scan the cloned repo
-    const result = await scanDirectory(tempDir, {
+    const result = await scanWorkspace(tempDir, {
       ...options,
+      // Every clone lands in a new temp directory
+      cache: false,
       source: {
         type: 'github',
         url: repoUrl,
@@ -1,5 +1,28 @@
-export { scanDirectory } from './local-scanner';
+export { scanDirectory, scanDirectoryStream } from './local-scanner';
+export { FileScanner, checkRule, type FileScanSettings, type FileScanResult, type ScanJob } from './file-scanner';
+export { ScanWorkerPool, resolveWorkerCount } from './worker-pool';
+export { ScanCache, type ScanCacheLookup } from './scan-cache';
 export { scanGitHubRepo, isGitHubUrl, parseGitHubUrl } from './github-scanner';
 export { scanGitHubRepoViaApi, GitHubApiScanner } from './github-api-scanner';
 export { SDKDetector, detectMetaPackages, SDK_REGISTRY } from './sdk-detector';
 export { AIScanner, createAIScanner, type AIScannerConfig, type AIScanOptions } from './ai-scanner';
+export { AstEngine, getAstEngine, type AstMatch, type AstLanguage, type SyntaxNode } from './ast-engine';
+export { applySuppressions, parseSuppressions, type SuppressionResult } from './suppressions';
+export { applyBaseline, loadBaseline, saveBaseline, fingerprintViolations, DEFAULT_BASELINE_FILE, type BaselineFile } from './baseline';
+export { getChangedFiles, parseUnifiedDiff, isLineChanged, type ChangedFiles, type ChangedFile } from './git-diff';
+export { applyRuleSettings, resolveRules } from './rule-settings';
+export { analyzeProject, type ProjectAnalysisResult } from './project-analysis';
+export { findDependencyViolations, type ManifestFile } from './dependency-analyzer';
+export { buildPermissionInventory, summarizePermissions, type PermissionRequest } from './permission-inventory';
+export {
+  parseManifest,
+  isManifestFile,
+  MANIFEST_FILE_NAMES,
+  type DependencyGraph,
+  type DependencyPackage,
+  type Ecosystem,
+} from './dependency-manifests';
+export { scanWorkspace } from './workspace-scanner';
+export { detectWorkspacePackages, groupPackages, selectPackages } from './workspaces';
+export { lexSource, SourceContexts } from './lexer';
+export { findTestFiles, rankTestFindings, DEFAULT_TEST_FILE_PATTERNS } from './test-files';
@@ -0,0 +1,122 @@
+import { inCode, lexSource } from './lexer';
+import { CodeContext } from '../types';
+
+/**
+ * Context of the first character of `needle` in `source`
+ */
+function contextOf(source: string, needle: string, filePath = 'app.ts'): CodeContext {
+  const offset = source.indexOf(needle);
+  if (offset < 0) throw new Error(`"${needle}" not in source`);
+  return lexSource(source, filePath)!.at(offset);
+}
+
+describe('lexSource', () => {
+  it('returns nothing for languages without a lexer', () => {
+    expect(lexSource('SELECT 1;', 'schema.sql')).toBeUndefined();
+  });
+
+  describe('JavaScript', () => {
+    it('separates code, strings and comments', () => {
+      const source = "const token = 'EAAA'; // EAAB\n/* EAAC */ call(\"EAAD\");";
+
+      expect(contextOf(source, 'token')).toBe('code');
+      expect(contextOf(source, 'EAAA')).toBe('string');
+      expect(contextOf(source, 'EAAB')).toBe('comment');
+      expect(contextOf(source, 'EAAC')).toBe('comment');
+      expect(contextOf(source, 'call')).toBe('code');
+      expect(contextOf(source, 'EAAD')).toBe('string');
+    });
+
+    it('ends line comments at the newline and ignores comment markers in strings', () => {
+      const source = "const url = 'https://graph.facebook.com'; // note\nconst next = 1;";
+
+      expect(contextOf(source, 'graph')).toBe('string');
+      expect(contextOf(source, 'note')).toBe('comment');
+      expect(contextOf(source, 'next')).toBe('code');
+    });
+
+    it('treats template interpolation as code', () => {
+      const source = 'const url = `https://graph.facebook.com/${version}/me?fields=${fields.join(\'}\')}`; done();';
+
+      expect(contextOf(source, 'https')).toBe('string');
+      expect(contextOf(source, 'version')).toBe('code');
+      expect(contextOf(source, '/me')).toBe('string');
+      expect(contextOf(source, 'fields.join')).toBe('code');
+      expect(contextOf(source, 'done')).toBe('code');
+    });
+
+    it('does not end strings at escaped quotes', () => {
+      const source = "const s = 'it\\'s EAAA'; after();";
+
+      expect(contextOf(source, 'EAAA')).toBe('string');
+      expect(contextOf(source, 'after')).toBe('code');
+    });
+
+    it('tells regex literals from division', () => {
+      const regex = "const re = /'EAAA/; after();";
+      expect(contextOf(regex, 'after')).toBe('code');
+
+      const division = "const half = total / 2; const s = 'EAAA';";
+      expect(contextOf(division, 'EAAA')).toBe('string');
+    });
+  });
+
+  describe('Python', () => {
+    it('reads # comments and triple-quoted strings', () => {
+      const source = 'token = "EAAA"  # EAAB\n"""\ndocs EAAC\n"""\ncall()';
+
+      expect(contextOf(source, 'EAAA', 'app.py')).toBe('string');
+      expect(contextOf(source, 'EAAB', 'app.py')).toBe('comment');
+      expect(contextOf(source, 'EAAC', 'app.py')).toBe('string');
+      expect(contextOf(source, 'call', 'app.py')).toBe('code');
+    });
+  });
+
+  describe('Ruby', () => {
+    it('reads =begin/=end blocks only at the start of a line', () => {
+      const source = "=begin\nEAAA\n=end\nx = '=begin'\ncall()";
+
+      expect(contextOf(source, 'EAAA', 'app.rb')).toBe('comment');
+      expect(contextOf(source, 'call', 'app.rb')).toBe('code');
+    });
+
+    it('treats #{} interpolation as code', () => {
+      const source = 'url = "https://graph.facebook.com/#{version}/me"';
+
+      expect(contextOf(source, 'version', 'app.rb')).toBe('code');
+      expect(contextOf(source, '/me', 'app.rb')).toBe('string');
+    });
+  });
+
+  describe('Go', () => {
+    it('reads raw strings without escapes', () => {
+      const source = 's := `C:\\path\\` + token // EAAB';
+
+      expect(contextOf(source, 'token', 'main.go')).toBe('code');
+      expect(contextOf(source, 'EAAB', 'main.go')).toBe('comment');
+    });
+  });
+
+  it('leaves an unterminated block comment open to the end of the file', () => {
+    const source = 'call();\n/* started\nEAAA';
+    expect(contextOf(source, 'EAAA', 'App.java')).toBe('comment');
+  });
+});
+
+describe('inCode', () => {
+  const check = (source: string, needle: string, filePath = 'app.js') =>
+    inCode(lexSource(source, filePath), source, source.indexOf(needle));
+
+  it('accepts code and string literals used as keys or values', () => {
+    expect(check('parse(req.body.signed_request)', 'signed_request')).toBe(true);
+    expect(check("parse(request.form['signed_request'])", 'signed_request', 'app.py')).toBe(true);
+    expect(check("headers = { 'User-Agent': ua }", "'User-Agent'")).toBe(true);
+  });
+
+  it('rejects regex literals, prose and comments', () => {
+    expect(check('const SIGNED = /signed_request/;', 'signed_request')).toBe(false);
+    expect(check("hint('Send the signed_request field')", 'signed_request')).toBe(false);
+    expect(check('docs = `{"signed_request": "..."}`', 'signed_request')).toBe(false);
+    expect(check("// parse('signed_request')", 'signed_request')).toBe(false);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Lexer
+ *
+ * Splits source files into code, string literals and comments so rules can
+ * ignore commented-out code or only look inside strings. This is a light
+ * per-language tokenizer (JS/TS, Python, PHP, Go, Java, Ruby), not a parser:
+ * it only tracks comments, quotes, template interpolation and JS regex
+ * literals.
+ */
+
+import { extname } from 'path';
+import { CodeContext } from '../types';
+
+interface StringSyntax {
+  open: string;
+  close: string;
+  escapes: boolean;
+  multiline: boolean;
+  /** Opens an embedded expression, closed by the matching `}` */
+  interpolation?: string;
+}
+
+interface BlockComment {
+  open: string;
+  close: string;
+  /** Only recognized at the start of a line (Ruby's =begin/=end) */
+  lineStart?: boolean;
+}
+
+interface Syntax {
+  lineComments: string[];
+  blockComments: BlockComment[];
+  /** Longest openers first */
+  strings: StringSyntax[];
+  regexLiterals?: boolean;
+}
+
+const C_BLOCK: BlockComment = { open: '/*', close: '*/' };
+
+const quoted = (quote: string, multiline = false, interpolation?: string): StringSyntax =>
+  ({ open: quote, close: quote, escapes: true, multiline, interpolation });
+
+const SYNTAX: Record<string, Syntax> = {
+  javascript: {
+    lineComments: ['//'],
+    blockComments: [C_BLOCK],
+    strings: [quoted('`', true, '${'), quoted("'"), quoted('"')],
+    regexLiterals: true,
+  },
+  python: {
+    lineComments: ['#'],
+    blockComments: [],
+    strings: [quoted('"""', true), quoted("'''", true), quoted('"'), quoted("'")],
+  },
+  php: {
+    lineComments: ['//', '#'],
+    blockComments: [C_BLOCK],
+    strings: [quoted("'", true), quoted('"', true)],
+  },
+  go: {
+    lineComments: ['//'],
+    blockComments: [C_BLOCK],
+    strings: [{ open: '`', close: '`', escapes: false, multiline: true }, quoted('"'), quoted("'")],
+  },
+  java: {
+    lineComments: ['//'],
+    blockComments: [C_BLOCK],
+    strings: [quoted('"""', true), quoted('"'), quoted("'")],
+  },
+  ruby: {
+    lineComments: ['#'],
+    blockComments: [{ open: '=begin', close: '=end', lineStart: true }],
+    strings: [quoted('"', true, '#{'), quoted("'", true)],
+  },
+};
+
+const LANGUAGES: Record<string, string> = {
+  '.js': 'javascript', '.jsx': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript',
+  '.ts': 'javascript', '.tsx': 'javascript',
+  '.py': 'python',
+  '.php': 'php',
+  '.go': 'go',
+  '.java': 'java',
+  '.rb': 'ruby',
+};
+
+const CODE = 0;
+const STRING = 1;
+const COMMENT = 2;
+const CONTEXTS: CodeContext[] = ['code', 'string', 'comment'];
+
+const QUOTE = /['"`]/;
+
+/** Keywords after which `/` starts a regex literal rather than a division */
+const REGEX_KEYWORDS = new Set(['return', 'typeof', 'case', 'in', 'of', 'delete', 'void', 'throw', 'new', 'yield', 'await']);
+
+/**
+ * Context of every character of a file
+ */
+export class SourceContexts {
+  constructor(private kinds: Uint8Array) {}
+
+  at(offset: number): CodeContext {
+    return CONTEXTS[this.kinds[offset] ?? CODE];
+  }
+}
+
+/**
+ * Whether a match at `offset` is code rather than text about it: outside
+ * comments, regex literals and prose strings. A match starting a string
+ * literal (`form['signed_request']`, `'User-Agent': ...`) is a key or
+ * value in code.
+ */
+export function inCode(contexts: SourceContexts | undefined, content: string, offset: number): boolean {
+  if (!contexts || contexts.at(offset) === 'code') return true;
+
+  const quote = QUOTE.test(content[offset]) ? offset : offset - 1;
+  return QUOTE.test(content[quote] || '') && contexts.at(quote) === 'string' &&
+    (quote === 0 || contexts.at(quote - 1) !== 'string');
+}
+
+/**
+ * Lex a file; undefined for languages without a lexer
+ */
+export function lexSource(content: string, filePath: string): SourceContexts | undefined {
+  const language = LANGUAGES[extname(filePath).toLowerCase()];
+  if (!language) return undefined;
+
+  const syntax = SYNTAX[language];
+  const kinds = new Uint8Array(content.length);
+  const mark = (from: number, to: number, kind: number) => kinds.fill(kind, from, Math.min(to, content.length));
+
+  // Template strings whose interpolation is open, with the brace depth to return at
+  const templates: Array<{ str: StringSyntax; depth: number }> = [];
+  let braceDepth = 0;
+  let str: StringSyntax | undefined;
+  let lastCode = -1; // Last non-whitespace code character
+
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (str) {
+      if (str.escapes && ch === '\\') {
+        mark(i, i + 2, STRING);
+        i += 2;
+      } else if (content.startsWith(str.close, i)) {
+        mark(i, i + str.close.length, STRING);
+        i += str.close.length;
+        lastCode = i - 1;
+        str = undefined;
+      } else if (str.interpolation && content.startsWith(str.interpolation, i)) {
+        templates.push({ str, depth: braceDepth });
+        braceDepth++;
+        i += str.interpolation.length;
+        str = undefined;
+      } else if (ch === '\n' && !str.multiline) {
+        // Unterminated string
+        str = undefined;
+        i++;
+      } else {
+        kinds[i++] = STRING;
+      }
+      continue;
+    }
+
+    const lineComment = syntax.lineComments.find(open => content.startsWith(open, i));
+    if (lineComment) {
+      const end = content.indexOf('\n', i);
+      mark(i, end < 0 ? content.length : end, COMMENT);
+      i = end < 0 ? content.length : end;
+      continue;
+    }
+
+    const block = syntax.blockComments.find(c =>
+      content.startsWith(c.open, i) && (!c.lineStart || i === 0 || content[i - 1] === '\n')
+    );
+    if (block) {
+      const close = content.indexOf(block.close, i + block.open.length);
+      const end = close < 0 ? content.length : close + block.close.length;
+      mark(i, end, COMMENT);
+      i = end;
+      continue;
+    }
+
+    const opened = syntax.strings.find(s => content.startsWith(s.open, i));
+    if (opened) {
+      mark(i, i + opened.open.length, STRING);
+      i += opened.open.length;
+      str = opened;
+      continue;
+    }
+
+    if (syntax.regexLiterals && ch === '/' && startsRegex(content, lastCode)) {
+      const end = regexLiteralEnd(content, i);
+      if (end > 0) {
+        mark(i, end, STRING);
+        lastCode = end - 1;
+        i = end;
+        continue;
+      }
+    }
+
+    if (ch === '{') {
+      braceDepth++;
+    } else if (ch === '}') {
+      braceDepth--;
+      const template = templates[templates.length - 1];
+      if (template && braceDepth === template.depth) {
+        templates.pop();
+        str = template.str;
+      }
+    }
+
+    if (!/\s/.test(ch)) lastCode = i;
+    i++;
+  }
+
+  return new SourceContexts(kinds);
+}
+
+/**
+ * Whether a `/` after the code character at `last` begins a regex literal
+ */
+function startsRegex(content: string, last: number): boolean {
+  if (last < 0) return true;
+
+  const prev = content[last];
+  if (/[(,=:[!&|?{};+\-*%<>~^]/.test(prev)) return true;
+  if (!/[A-Za-z_$]/.test(prev)) return false;
+
+  let start = last;
+  while (start > 0 && /[A-Za-z0-9_$]/.test(content[start - 1])) start--;
+  return REGEX_KEYWORDS.has(content.slice(start, last + 1));
+}
+
+/**
+ * End of a regex literal starting at `start` (after its flags), or -1
+ */
+function regexLiteralEnd(content: string, start: number): number {
+  let inClass = false;
+  for (let i = start + 1; i < content.length; i++) {
+    const ch = content[i];
+    if (ch === '\n') return -1;
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '[') {
+      inClass = true;
+    } else if (ch === ']') {
+      inClass = false;
+    } else if (ch === '/' && !inClass) {
+      let end = i + 1;
+      while (end < content.length && /[a-z]/i.test(content[end])) end++;
+      return end;
+    }
+  }
+  return -1;
+}
@@ -1,26 +1,36 @@
 import { glob } from 'glob';
-import { readFileSync, existsSync } from 'fs';
-import { join, relative, extname } from 'path';
-import { SDKDetector, detectMetaPackages } from './sdk-detector';
+import { readFileSync } from 'fs';
+import { join, relative } from 'path';
+import { findDependencyViolations, ManifestFile } from './dependency-analyzer';
+import { MANIFEST_FILE_NAMES } from './dependency-manifests';
+import { applyRuleSettings, resolveRules } from './rule-settings';
+import { getChangedFiles, isLineChanged, ChangedFiles } from './git-diff';
+import { createAIScanner, buildAIAnalysisSummary, AIScanner, AnalyzedSection } from './ai-scanner';
+import { createCodebaseIndex, CodebaseIndexer, SourceFile } from './codebase-indexer';
+import { FileAIOptions, FileScanner, FileScanResult, FileScanSettings, findInvalidRules, ScanJob, SCANNABLE_EXTENSIONS } from './file-scanner';
+import { resolveWorkerCount, ScanWorkerPool } from './worker-pool';
+import { ScanCache } from './scan-cache';
+import { findTestFiles, rankTestFindings } from './test-files';
+import { analyzeProject, ProjectAnalysisResult, withoutUsedDirectives } from './project-analysis';
+import { buildPermissionInventory } from './permission-inventory';
+import { hasAnalyzerRules } from '../analyzers';
 import { createClient } from '../db/supabase';
 import { BUNDLED_RULES } from '../policies/bundled-policies';
 import {
+  Platform,
+  RuleSettings,
+  ScanEvent,
   ScanOptions,
   ScanResult,
   Violation,
   SDKAnalysis,
   ViolationRule,
   Severity,
+  SuppressedViolation,
+  UnusedSuppression,
 } from '../types';
 
-const SCANNABLE_EXTENSIONS = [
-  '.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs',
-  '.py', '.php', '.java', '.rb', '.go',
-  '.json',  // For package.json detection
-  '.sql',   // Database schemas
-  '.prisma', // Prisma ORM schemas
-  '.graphql', '.gql', // GraphQL schemas
-];
+export { checkRule } from './file-scanner';
 
 const DEFAULT_IGNORE_PATTERNS = [
   '**/node_modules/**',
@@ -35,13 +45,30 @@ const DEFAULT_IGNORE_PATTERNS = [
   '**/*.bundle.js',
 ];
 
+export const SEVERITY_ORDER: Record<Severity, number> = { error: 3, warning: 2, info: 1 };
+
 export async function scanDirectory(
   dirPath: string,
   options: ScanOptions = {}
 ): Promise<ScanResult> {
+  for await (const event of scanDirectoryStream(dirPath, options)) {
+    options.onEvent?.(event);
+    if (event.type === 'done') return event.result;
+  }
+  throw new Error(`Scan of ${dirPath} ended without a result`);
+}
+
+/**
+ * Scan a directory, yielding progress and each file's findings as soon as
+ * the file is scanned. The final `done` event carries the same result
+ * `scanDirectory` returns, in file order.
+ */
+export async function* scanDirectoryStream(
+  dirPath: string,
+  options: ScanOptions = {}
+): AsyncGenerator<ScanEvent> {
   const startTime = Date.now();
-  const violations: Violation[] = [];
-  const sdkDetector = new SDKDetector();
+  const log = (msg: string) => options.onProgress?.(msg);
 
   const sdkAnalysis: SDKAnalysis = {
     official: [],
@@ -50,23 +77,17 @@ export async function scanDirectory(
     violations: [],
   };
 
-  // Get rules from database or use local fallback
-  let rules: ViolationRule[] = [];
-  try {
-    const supabase = createClient();
-    const { data } = await supabase
-      .from('violation_rules')
-      .select('*')
-      .eq('enabled', true);
-    rules = data || [];
-  } catch {
-    // Use built-in rules if database is not available
-    rules = getBuiltinRules();
-  }
+  let rules = await loadRules(options.rules);
 
   // Filter rules by platform if specified
-  if (options.platform && options.platform !== 'all') {
-    rules = rules.filter(r => r.platform === options.platform || r.platform === 'all');
+  const platforms: Platform[] = (options.platforms || (options.platform ? [options.platform] : []))
+    .filter(p => p !== 'all');
+  if (platforms.length > 0) {
+    rules = rules.filter(r => platforms.includes(r.platform) || r.platform === 'all');
+  }
+
+  for (const { rule, error } of findInvalidRules(rules)) {
+    console.error(`Warning: Skipping rule ${rule.rule_code}, its pattern is invalid: ${error}`);
   }
 
   // Build ignore patterns
@@ -76,212 +97,329 @@ export async function scanDirectory(
   ];
 
   // Find all scannable files
-  const pattern = `**/*{${SCANNABLE_EXTENSIONS.join(',')}}`;
-  const files = await glob(pattern, {
+  const files = await findScannableFiles(dirPath, options.ignorePatterns);
+
+  // Diff-aware scanning: only scan files touched between the refs and
+  // only report findings on changed lines
+  let changed: ChangedFiles | undefined;
+  let filesToScan = files;
+  if (options.diff) {
+    changed = getChangedFiles(dirPath, options.diff);
+    const changedFiles = changed;
+    filesToScan = files.filter(f => changedFiles.files.has(toPosix(relative(dirPath, f))));
+    log(`Diff scope: ${filesToScan.length} changed files since ${changed.base}`);
+  }
+  const inScope = (v: { file: string; line: number }) =>
+    !changed || isLineChanged(changed, v.file, v.line);
+  const meetsSeverity = (v: { severity: Severity }) =>
+    !options.severity || SEVERITY_ORDER[v.severity] >= SEVERITY_ORDER[options.severity];
+
+  // Test and fixture files (only looked up when their findings are ranked)
+  const testFindings = options.testFiles?.findings || 'keep';
+  const testFiles = testFindings === 'keep'
+    ? new Set<string>()
+    : await findTestFiles(dirPath, options.testFiles?.patterns, ignorePatterns);
+  const isTestFile = (file: string) => testFiles.has(toPosix(file));
+
+  let aiScanner: AIScanner | undefined;
+  if (options.enableAI) {
+    aiScanner = (await createAIScanner(options.onProgress)) || undefined;
+    if (!aiScanner) {
+      log('⚠️ AI detection requested but not configured (need SUPABASE_URL, SUPABASE_ANON_KEY, VOYAGE_API_KEY)');
+    }
+  }
+
+  // AI detection, project analyzers and the permission inventory read the
+  // whole repository (not just the diff) so they see auth, middleware,
+  // storage and Login code that lives in other files. Sources are read
+  // from disk on use; the index only keeps a bounded cache of contents
+  const includeSdkAnalysis = options.includeSdkAnalysis !== false;
+  const needsIndex = Boolean(aiScanner) || hasAnalyzerRules(rules);
+  const sources = needsIndex || includeSdkAnalysis ? readSources(files, dirPath) : [];
+  const permissions = includeSdkAnalysis ? buildPermissionInventory(sources) : undefined;
+
+  let codebaseIndex: CodebaseIndexer | undefined;
+  if (needsIndex) {
+    codebaseIndex = await createCodebaseIndex(sources);
+    if (aiScanner) {
+      aiScanner.setCodebaseIndex(codebaseIndex);
+      log(`📊 Codebase: ${codebaseIndex.getStructure()?.summary || 'unknown'}`);
+    }
+  }
+
+  const settings: FileScanSettings = {
+    rules,
+    ruleSettings: options.rules,
+    fix: options.fix,
+    apiVersions: options.apiVersions,
+    includeSdkAnalysis,
+    testFiles: testFindings === 'keep' ? undefined : { findings: testFindings, patterns: options.testFiles?.patterns },
+  };
+  const ai: FileAIOptions | undefined = aiScanner && {
+    scanner: aiScanner,
+    platform: options.platform,
+    maxAnalysisPerFile: options.ai?.maxAnalysisPerFile ?? 5,
+    minConfidence: options.ai?.minConfidence ?? 0.7,
+    log,
+  };
+
+  // Unchanged files reuse their cached results; changed files reuse
+  // cached AI verdicts for content the LLM has already seen
+  const cache = options.cache === false
+    ? undefined
+    : new ScanCache(dirPath, settings, ai && ai.scanner.getAnalysisVersion({
+      platform: ai.platform,
+      maxAnalysisPerFile: ai.maxAnalysisPerFile,
+      minConfidence: ai.minConfidence,
+    }), options.cacheDir);
+  const cached: FileScanResult[] = [];
+  const jobs: ScanJob[] = [];
+  for (const filePath of filesToScan) {
+    const relativePath = relative(dirPath, filePath);
+    const hit = cache?.lookup(filePath, relativePath) || {};
+    if (hit.result) {
+      cached.push(hit.result);
+    } else {
+      jobs.push({ filePath, relativePath, ai: hit.ai, testFile: isTestFile(relativePath) });
+    }
+  }
+  if (cached.length > 0) {
+    log(`♻️  ${cached.length} of ${filesToScan.length} files unchanged since the last scan`);
+  }
+
+  // The AI scanner holds a codebase index and API clients, so AI scans
+  // stay in-process
+  const workers = aiScanner ? 0 : resolveWorkerCount(jobs.length, options.concurrency);
+  if (aiScanner && (options.concurrency || 0) > 1) {
+    log('AI detection enabled: scanning files in-process');
+  }
+  yield { type: 'start', filesTotal: filesToScan.length, cached: cached.length, workers };
+
+  // Dependency manifests and lockfiles of every (sub)project
+  const manifestPaths = await glob(`**/{${MANIFEST_FILE_NAMES.join(',')}}`, {
     cwd: dirPath,
     ignore: ignorePatterns,
     absolute: true,
     nodir: true,
   });
+  const manifests: ManifestFile[] = [];
+  for (const manifestPath of manifestPaths) {
+    try {
+      manifests.push({ path: toPosix(relative(dirPath, manifestPath)), content: readFileSync(manifestPath, 'utf-8') });
+    } catch {
+      // Unreadable manifests are skipped
+    }
+  }
+  const dependencyViolations = applyRuleSettings(findDependencyViolations(manifests, rules), options.rules)
+    .flatMap(v => (isTestFile(v.file) ? rankTestFindings([v], testFindings) : [v]))
+    .filter(inScope);
+  yield { type: 'dependencies', violations: dependencyViolations.filter(meetsSeverity) };
 
-  // Check package.json for SDK violations
-  const packageJsonPath = join(dirPath, 'package.json');
-  if (existsSync(packageJsonPath)) {
-    const packageContent = readFileSync(packageJsonPath, 'utf-8');
-    const packageAnalysis = await detectMetaPackages(packageContent);
-
-    // Add violations for unofficial packages
-    for (const pkg of packageAnalysis.violations) {
-      violations.push({
-        ruleCode: 'UNOFFICIAL_IG_LIBRARY',
-        ruleName: 'Unofficial Instagram Library',
-        severity: 'error',
-        platform: 'instagram',
-        file: relative(dirPath, packageJsonPath),
-        line: 1,
-        column: 0,
-        message: `Unofficial library "${pkg}" detected in package.json. This violates Meta Platform Terms.`,
-        codeSnippet: `"${pkg}": "..."`,
-        recommendation: 'Use official Instagram Graph API via facebook-nodejs-business-sdk',
-        docUrls: ['https://developers.facebook.com/docs/instagram-api/'],
-      });
+  // Scan each file. Results arrive in completion order; keep them by path
+  // to report in file order
+  const results = new Map<string, FileScanResult>();
+  for await (const fileResult of scanFiles(cached, jobs, settings, workers, ai)) {
+    results.set(fileResult.file, fileResult);
+    cache?.store(fileResult);
+    if (fileResult.error) {
+      // Skip files that can't be read
+      console.error(`Warning: Could not read file ${join(dirPath, fileResult.file)}`);
     }
+
+    yield {
+      type: 'file',
+      file: fileResult.file,
+      violations: deduplicateViolations(fileResult.violations.filter(inScope).filter(meetsSeverity)),
+      filesScanned: results.size,
+      filesTotal: filesToScan.length,
+    };
   }
+  cache?.save(files.map(f => relative(dirPath, f)));
 
-  // Scan each file
-  for (const filePath of files) {
-    try {
-      const content = readFileSync(filePath, 'utf-8');
-      const relativePath = relative(dirPath, filePath);
-      const ext = extname(filePath);
-
-      // SDK Detection
-      if (options.includeSdkAnalysis !== false) {
-        const sdkDetections = await sdkDetector.detectInFile(relativePath, content);
-        for (const detection of sdkDetections) {
-          switch (detection.type) {
-            case 'official-sdk':
-              sdkAnalysis.official.push(detection);
-              break;
-            case 'wrapper':
-              sdkAnalysis.wrappers.push(detection);
-              break;
-            case 'direct-api':
-              sdkAnalysis.directApi.push(detection);
-              break;
-            case 'unofficial':
-            case 'deprecated':
-              sdkAnalysis.violations.push(detection);
-              break;
-          }
-
-          // Convert SDK violations to rule violations
-          if (detection.riskLevel === 'violation') {
-            violations.push({
-              ruleCode: detection.type === 'unofficial' ? 'UNOFFICIAL_IG_LIBRARY' : 'DEPRECATED_API_VERSION',
-              ruleName: detection.type === 'unofficial' ? 'Unofficial Library' : 'Deprecated API',
-              severity: 'error',
-              platform: detection.platform,
-              file: relativePath,
-              line: detection.line,
-              column: detection.column,
-              message: `${detection.sdk} detected: ${detection.recommendation || 'Policy violation'}`,
-              codeSnippet: detection.codeSnippet,
-              recommendation: detection.recommendation,
-            });
-          }
-        }
-      }
+  // Project analyzers run once over the whole codebase. Their findings get
+  // the same rule settings, test file ranking and inline suppressions as
+  // per-file findings
+  let analysis: ProjectAnalysisResult | undefined;
+  if (codebaseIndex && hasAnalyzerRules(rules)) {
+    analysis = await analyzeProject(codebaseIndex, rules, {
+      ruleSettings: options.rules,
+      rank: (violations, file) => (isTestFile(file) ? rankTestFindings(violations, testFindings) : violations),
+    });
+    yield { type: 'analysis', violations: deduplicateViolations(analysis.violations.filter(inScope).filter(meetsSeverity)) };
+  }
 
-      // Rule-based scanning
-      for (const rule of rules) {
-        const fileTypes = rule.detection.fileTypes || SCANNABLE_EXTENSIONS;
-        if (!fileTypes.some(t => ext === t || ext === t.replace('.', ''))) {
-          continue;
-        }
+  const violations: Violation[] = [...dependencyViolations];
+  const suppressed: SuppressedViolation[] = [];
+  const unusedSuppressions: UnusedSuppression[] = [];
+  const aiSections: AnalyzedSection[] = [];
 
-        const ruleViolations = await checkRule(rule, content, relativePath);
-        violations.push(...ruleViolations);
+  for (const filePath of filesToScan) {
+    const fileResult = results.get(relative(dirPath, filePath));
+    if (!fileResult) continue;
+
+    for (const detection of fileResult.sdkDetections) {
+      switch (detection.type) {
+        case 'official-sdk':
+          sdkAnalysis.official.push(detection);
+          break;
+        case 'wrapper':
+          sdkAnalysis.wrappers.push(detection);
+          break;
+        case 'direct-api':
+          sdkAnalysis.directApi.push(detection);
+          break;
+        case 'unofficial':
+        case 'deprecated':
+          sdkAnalysis.violations.push(detection);
+          break;
       }
-    } catch (err) {
-      // Skip files that can't be read
-      console.error(`Warning: Could not read file ${filePath}`);
     }
-  }
 
-  // Filter by severity if specified
-  let filteredViolations = violations;
-  if (options.severity) {
-    const severityOrder: Record<Severity, number> = { error: 3, warning: 2, info: 1 };
-    const minSeverity = severityOrder[options.severity];
-    filteredViolations = violations.filter(v => severityOrder[v.severity] >= minSeverity);
+    violations.push(...fileResult.violations.filter(inScope));
+    suppressed.push(...fileResult.suppressed.filter(inScope));
+    unusedSuppressions.push(...fileResult.unused.filter(inScope));
+    aiSections.push(...(fileResult.ai?.sections || []).filter(inScope));
   }
 
+  violations.push(...(analysis?.violations.filter(inScope) || []));
+  suppressed.push(...(analysis?.suppressed.filter(inScope) || []));
+
   // Remove duplicates
-  const uniqueViolations = deduplicateViolations(filteredViolations);
+  const uniqueViolations = deduplicateViolations(violations.filter(meetsSeverity));
 
   const scanDuration = Date.now() - startTime;
 
-  return {
-    source: options.source || { type: 'local', path: dirPath },
-    filesScanned: files.length,
-    scanDuration,
-    violations: uniqueViolations,
-    sdkAnalysis: options.includeSdkAnalysis !== false ? sdkAnalysis : undefined,
-    summary: {
-      errors: uniqueViolations.filter(v => v.severity === 'error').length,
-      warnings: uniqueViolations.filter(v => v.severity === 'warning').length,
-      info: uniqueViolations.filter(v => v.severity === 'info').length,
+  yield {
+    type: 'done',
+    result: {
+      source: options.source || { type: 'local', path: dirPath },
+      filesScanned: filesToScan.length,
+      scanDuration,
+      violations: uniqueViolations,
+      suppressed: suppressed.filter(meetsSeverity),
+      // Directives used only by analyzer findings look unused to the file scan
+      unusedSuppressions: withoutUsedDirectives(unusedSuppressions, analysis?.usedDirectives || new Set()),
+      diff: changed
+        ? { base: changed.base, changedFiles: changed.files.size, files: filesToScan.map(f => toPosix(relative(dirPath, f))) }
+        : undefined,
+      sdkAnalysis: includeSdkAnalysis ? sdkAnalysis : undefined,
+      aiAnalysis: buildAIAnalysisSummary(aiSections),
+      permissions,
+      summary: {
+        errors: uniqueViolations.filter(v => v.severity === 'error').length,
+        warnings: uniqueViolations.filter(v => v.severity === 'warning').length,
+        info: uniqueViolations.filter(v => v.severity === 'info').length,
+      },
     },
   };
 }
 
-async function checkRule(
-  rule: ViolationRule,
-  content: string,
-  filePath: string
-): Promise<Violation[]> {
-  const violations: Violation[] = [];
-  const lines = content.split('\n');
-
-  if (rule.detection.type === 'regex' && rule.detection.pattern) {
-    const regex = new RegExp(rule.detection.pattern, 'gi');
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const matches = line.match(regex);
-
-      if (matches) {
-        violations.push({
-          ruleCode: rule.rule_code,
-          ruleName: rule.name,
-          severity: rule.severity,
-          platform: rule.platform,
-          file: filePath,
-          line: i + 1,
-          column: line.search(regex),
-          message: rule.description || `Violation of ${rule.name}`,
-          codeSnippet: line.trim(),
-          recommendation: rule.recommendation,
-          fixExample: rule.fix_example,
-          docUrls: rule.doc_urls,
-        });
-      }
-    }
+/**
+ * Yield cached results, then scan the remaining files in-process or spread
+ * over a worker pool when `workers` > 0
+ */
+async function* scanFiles(
+  cached: FileScanResult[],
+  jobs: ScanJob[],
+  settings: FileScanSettings,
+  workers: number,
+  ai?: FileAIOptions
+): AsyncGenerator<FileScanResult> {
+  yield* cached;
+
+  if (workers > 0) {
+    yield* new ScanWorkerPool(workers, settings).scan(jobs);
+    return;
   }
 
-  if (rule.detection.type === 'sdk-check' && rule.detection.pattern) {
-    const patterns = rule.detection.pattern.split('|');
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].toLowerCase();
-
-      for (const pattern of patterns) {
-        if (line.includes(pattern.toLowerCase())) {
-          violations.push({
-            ruleCode: rule.rule_code,
-            ruleName: rule.name,
-            severity: rule.severity,
-            platform: rule.platform,
-            file: filePath,
-            line: i + 1,
-            column: line.indexOf(pattern.toLowerCase()),
-            message: rule.description || `${pattern} detected`,
-            codeSnippet: lines[i].trim(),
-            recommendation: rule.recommendation,
-            fixExample: rule.fix_example,
-            docUrls: rule.doc_urls,
-          });
-          break;
-        }
-      }
-    }
+  const scanner = new FileScanner(settings, ai);
+  for (const job of jobs) {
+    yield await scanner.scan(job);
   }
+}
 
-  return violations;
+/**
+ * Absolute paths of every file with a scannable extension, skipping
+ * dependencies and build output as well as `ignorePatterns`
+ */
+export async function findScannableFiles(dirPath: string, ignorePatterns: string[] = []): Promise<string[]> {
+  return glob(`**/*{${SCANNABLE_EXTENSIONS.join(',')}}`, {
+    cwd: dirPath,
+    ignore: [...DEFAULT_IGNORE_PATTERNS, ...ignorePatterns],
+    absolute: true,
+    nodir: true,
+  });
+}
+
+/**
+ * Sources for the codebase index and permission inventory, with paths
+ * relative to `dirPath`. Contents are read from disk on each access, so
+ * holding the list costs no more than holding the paths
+ */
+export function readSources(files: string[], dirPath: string): SourceFile[] {
+  return files.map(filePath => ({
+    path: toPosix(relative(dirPath, filePath)),
+    get content() {
+      try {
+        return readFileSync(filePath, 'utf-8');
+      } catch {
+        // Unreadable files are skipped by the file scan as well
+        return '';
+      }
+    },
+  }));
+}
+
+function toPosix(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
 }
 
 function deduplicateViolations(violations: Violation[]): Violation[] {
   const seen = new Set<string>();
   return violations.filter(v => {
-    const key = `${v.ruleCode}:${v.file}:${v.line}`;
+    const key = `${v.ruleCode}:${v.file}:${v.line}:${v.column}`;
     if (seen.has(key)) return false;
     seen.add(key);
     return true;
   });
 }
 
+/**
+ * Rules a local scan runs with: enabled rules from the database (built-in
+ * rules when it is unavailable), plus custom rules, minus disabled ones
+ */
+export async function loadRules(settings?: RuleSettings): Promise<ViolationRule[]> {
+  let rules: ViolationRule[] = [];
+  try {
+    const supabase = createClient();
+    const { data } = await supabase
+      .from('violation_rules')
+      .select('*')
+      .eq('enabled', true);
+    rules = data || [];
+  } catch {
+    // Use built-in rules if database is not available
+    rules = getBuiltinRules();
+  }
+
+  return resolveRules(rules, settings);
+}
+
 /**
  * Convert bundled rules to ViolationRule format
  * Uses pre-packaged rules that work without database/scraping
  */
-function getBuiltinRules(): ViolationRule[] {
+export function getBuiltinRules(): ViolationRule[] {
   return BUNDLED_RULES.map(rule => {
     // Map detection type to ViolationRule DetectionType format
-    // DetectionType = 'ast-pattern' | 'regex' | 'semantic' | 'sdk-check'
-    let detectionType: 'regex' | 'sdk-check' | 'ast-pattern' | 'semantic';
+    // DetectionType = 'ast-pattern' | 'regex' | 'semantic' | 'sdk-check' | 'analyzer'
+    let detectionType: 'regex' | 'sdk-check' | 'ast-pattern' | 'semantic' | 'analyzer';
     if (rule.detection.type === 'package' || rule.detection.type === 'sdk') {
       detectionType = 'sdk-check';
+    } else if (rule.detection.type === 'ast') {
+      detectionType = 'ast-pattern';
+    } else if (rule.detection.type === 'analyzer') {
+      detectionType = 'analyzer';
     } else {
       detectionType = 'regex'; // Default to regex for pattern matching
     }
@@ -296,9 +434,16 @@ function getBuiltinRules(): ViolationRule[] {
       detection: {
         type: detectionType,
         pattern: rule.detection.pattern || rule.detection.packages?.join('|'),
+        astQuery: rule.detection.astQuery,
+        multiline: rule.detection.multiline,
+        mustContain: rule.detection.mustContain,
+        mustNotContain: rule.detection.mustNotContain,
+        contexts: rule.detection.contexts,
+        analyzer: rule.detection.analyzer,
         fileTypes: ['.js', '.jsx', '.ts', '.tsx', '.py', '.php', '.java', '.go', '.rb'],
       },
       recommendation: rule.recommendation,
+      autofix: rule.autofix,
       doc_urls: rule.docUrl ? [rule.docUrl] : undefined,
       enabled: true,
     };
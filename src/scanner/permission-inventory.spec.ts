@@ -0,0 +1,68 @@
+import { buildPermissionInventory, summarizePermissions } from './permission-inventory';
+
+const status = (inventory: ReturnType<typeof buildPermissionInventory>) =>
+  Object.fromEntries(inventory!.platforms.flatMap(p => p.permissions).map(p => [p.permission, p.status]));
+
+describe('buildPermissionInventory', () => {
+  it('compares requested Login permissions with the fields and edges the code uses', () => {
+    const inventory = buildPermissionInventory([
+      {
+        path: 'web/login.js',
+        content: [
+          "FB.login(handleLogin, { scope: 'email,user_birthday,pages_show_list' });",
+          '// scope: "user_friends" is requested in a comment only',
+        ].join('\n'),
+      },
+      {
+        path: 'server/graph.js',
+        content: [
+          'async function loadProfile(token) {',
+          "  const me = await fetch(`https://graph.facebook.com/v21.0/me?fields=id,name,email&access_token=${token}`);",
+          "  const pages = await fetch('https://graph.facebook.com/v21.0/me/accounts?access_token=' + token);",
+          "  const friends = await fetch('https://graph.facebook.com/v21.0/me/friends?access_token=' + token);",
+          '}',
+        ].join('\n'),
+      },
+    ]);
+
+    expect(status(inventory)).toEqual({
+      email: 'used',
+      user_birthday: 'unused',
+      user_friends: 'unrequested',
+      pages_show_list: 'used',
+    });
+    expect(inventory!.requestedButUnused).toEqual(['user_birthday']);
+    expect(inventory!.usedButUnrequested).toEqual(['user_friends']);
+
+    const email = inventory!.platforms[0].permissions.find(p => p.permission === 'email')!;
+    expect(email.requestedAt).toEqual([{ file: 'web/login.js', line: 1 }]);
+    expect(email.usedBy).toEqual([{ file: 'server/graph.js', line: 2, kind: 'field', name: 'email' }]);
+  });
+
+  it('returns undefined for projects without Login or Graph API code', () => {
+    expect(buildPermissionInventory([{ path: 'index.js', content: "console.log('hello');" }])).toBeUndefined();
+  });
+});
+
+describe('summarizePermissions', () => {
+  it('lists the alternatives of edges that several permissions grant', () => {
+    const inventory = summarizePermissions([], [{ file: 'page.js', line: 3, kind: 'edge', name: 'feed' }]);
+
+    const feed = inventory!.platforms[0].permissions;
+    expect(feed.map(p => [p.permission, p.status])).toEqual([
+      ['user_posts', 'unrequested'],
+      ['pages_read_engagement', 'unrequested'],
+      ['pages_manage_posts', 'unrequested'],
+    ]);
+    expect(feed[0].alternatives).toEqual(['pages_read_engagement', 'pages_manage_posts']);
+  });
+
+  it('counts a use only towards the permission that was requested', () => {
+    const inventory = summarizePermissions(
+      [{ permission: 'pages_manage_posts', file: 'login.js', line: 1 }],
+      [{ file: 'page.js', line: 3, kind: 'edge', name: 'feed' }]
+    );
+
+    expect(status(inventory)).toEqual({ pages_manage_posts: 'used' });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Permission Inventory
+ *
+ * Compares the Facebook Login permissions a project requests (Login dialog
+ * URLs, `scope` options, SDK login calls, config files) with the Graph API
+ * fields and edges its code uses, per platform. App Review rejects apps
+ * that request permissions they do not use, and calls that need a
+ * permission nobody requested fail for real users.
+ */
+
+import { loadPermissionCatalog, PermissionCatalog } from '../knowledge';
+import { PermissionInventory, PermissionReference, PermissionUsage, PermissionUse } from '../types';
+import { lexSource, SourceContexts } from './lexer';
+
+export interface PermissionRequest extends PermissionReference {
+  permission: string;
+}
+
+interface CatalogIndex {
+  catalog: PermissionCatalog;
+  /** Field name -> permissions */
+  fields: Map<string, string[]>;
+  /** Normalized edge name -> permissions */
+  edges: Map<string, string[]>;
+  /** Normalized edge name -> catalog spelling */
+  edgeNames: Map<string, string>;
+}
+
+/** `email` is a scope of every OAuth provider; only count it near Meta code */
+const META_CONTEXT = /facebook|instagram|whatsapp|\bFB\b|fbsdk|LoginManager|graph\.facebook|\bmeta\b/i;
+
+/** `?scope=a,b` and `&scope=a%2Cb` in Login dialog and OAuth URLs */
+const SCOPE_PARAM = /[?&]scope=([^&'"`\s#]+)/g;
+
+/** `scope: 'a,b'`, `FB_SCOPES = [...]`, `'SCOPE' => [...]`, `permissions={[...]}` */
+const SCOPE_OPTION = /\b(?:\w+_)?(?:scopes?|(?:read_?)?permissions)['"]?\s*(?::|=>?)\s*\{?\s*(\[[^\]]*\]|'[^'\n]*'|"[^"\n]*"|`[^`]*`)/gi;
+
+/** `LoginManager.logInWithPermissions([...])`, `->scopes([...])`, `setReadPermissions(...)` */
+const SCOPE_CALL = /\b(?:logInWith\w*Permissions|set(?:Read|Publish)?Permissions|setScopes|scopes)\s*\(\s*(\[[^\]]*\]|'[^'\n]*'|"[^"\n]*")/g;
+
+/** Files that call the Graph API directly or through an SDK */
+const GRAPH_FILE = /graph\.(?:facebook|instagram)\.com|facebook-nodejs-business-sdk|facebook_business|FacebookAds\\|\bFB\.api\b|fbgraph|facebook-sdk|GraphAPI\(|['"`]\/?me[/?'"`]/;
+
+/** Business SDK imports, whose `getInsights()`/`create_ad()` methods read and write edges */
+const BUSINESS_SDK = /facebook-nodejs-business-sdk|facebook_business|FacebookAds\\/;
+
+const STRING = /(['"`])((?:\\.|(?!\1)[^\\\n])*)\1/g;
+const GRAPH_HOST = /^https?:\/\/graph\.(?:facebook|instagram)\.com/i;
+const NODE = /^(?:me|(?:act_)?(?:\$\{[^}]*\}|\{[^}]*\}|\$\w+|%s|\d+))$/;
+const VERSION = /^v\d+(?:\.\d+)?$/;
+const EDGE = /^[a-z][a-z_]*$/;
+
+/** `'/' + pageId + '/feed'` */
+const CONCAT_EDGE = /\+\s*(['"`])\/([a-z_]+)(?:\?([^'"`]*))?\1/g;
+/** `fields: 'id,email'`, `fields=['id', 'email']`, `'fields' => 'id,email'` */
+const FIELDS_OPTION = /\bfields['"]?\s*(?::|=>?)\s*(\[[^\]]*\]|'[^'\n]*'|"[^"\n]*"|`[^`]*`)/g;
+/** facebook-sdk for Python: `graph.get_connections('me', connection_name='friends')` */
+const CONNECTION_NAME = /\bconnection_name\s*=\s*['"]([a-z_]+)['"]/g;
+const SDK_METHOD = /(?:\.|->)(?:get|create|delete)_?([A-Za-z]\w*)\s*\(/g;
+
+/**
+ * Build the permission inventory of a project. Returns undefined when the
+ * catalog is unavailable or the project neither requests nor uses any
+ * permission.
+ */
+export function buildPermissionInventory(files: Array<{ path: string; content: string }>): PermissionInventory | undefined {
+  const catalog = loadPermissionCatalog();
+  if (!catalog) return undefined;
+  const index = indexCatalog(catalog);
+
+  const requests: PermissionRequest[] = [];
+  const uses: PermissionUse[] = [];
+  for (const file of files) {
+    // Sources may read the file on each access
+    const content = file.content;
+    requests.push(...findRequests(file.path, content, index));
+    uses.push(...findUses(file.path, content, index));
+  }
+  return summarizePermissions(requests, uses);
+}
+
+/**
+ * Compare requests with uses. A use counts towards every requested
+ * permission that grants it; when none does, it is reported against each
+ * permission that could.
+ */
+export function summarizePermissions(requests: PermissionRequest[], uses: PermissionUse[]): PermissionInventory | undefined {
+  const catalog = loadPermissionCatalog();
+  if (!catalog) return undefined;
+  const index = indexCatalog(catalog);
+
+  const usages = new Map<string, PermissionUsage>();
+  const usage = (permission: string) => {
+    let entry = usages.get(permission);
+    if (!entry) {
+      entry = { permission, status: 'used', requestedAt: [], usedBy: [] };
+      usages.set(permission, entry);
+    }
+    return entry;
+  };
+
+  for (const request of unique(requests, r => `${r.permission}:${r.file}:${r.line}`)) {
+    if (catalog.permissions[request.permission]) {
+      usage(request.permission).requestedAt.push({ file: request.file, line: request.line });
+    }
+  }
+  const requested = (permission: string) =>
+    Boolean(catalog.permissions[permission].default || usages.get(permission)?.requestedAt.length);
+
+  for (const use of unique(uses, u => `${u.file}:${u.line}:${u.kind}:${u.name}`)) {
+    const candidates = (use.kind === 'field' ? index.fields.get(use.name) : index.edges.get(normalizeEdge(use.name))) || [];
+    if (candidates.length === 0 || candidates.some(p => catalog.permissions[p].default)) continue;
+
+    const granted = candidates.filter(requested);
+    for (const permission of granted.length > 0 ? granted : candidates) {
+      const entry = usage(permission);
+      entry.usedBy.push(use);
+      if (granted.length === 0 && candidates.length > 1) {
+        const others = candidates.filter(p => p !== permission);
+        entry.alternatives = [...new Set([...(entry.alternatives || []), ...others])];
+      }
+    }
+  }
+  if (usages.size === 0) return undefined;
+
+  const inventory: PermissionInventory = { platforms: [], requestedButUnused: [], usedButUnrequested: [] };
+  for (const [permission, entry] of Object.entries(catalog.permissions)) {
+    const found = usages.get(permission);
+    if (!found) continue;
+
+    if (found.requestedAt.length === 0) {
+      found.status = 'unrequested';
+      inventory.usedButUnrequested.push(permission);
+    } else if (found.usedBy.length === 0 && !entry.default) {
+      found.status = 'unused';
+      inventory.requestedButUnused.push(permission);
+    }
+
+    let group = inventory.platforms.find(p => p.platform === entry.platform);
+    if (!group) {
+      group = { platform: entry.platform, permissions: [] };
+      inventory.platforms.push(group);
+    }
+    group.permissions.push(found);
+  }
+  return inventory;
+}
+
+/**
+ * Permissions requested by Login dialog URLs, scope options and SDK login
+ * calls in a file
+ */
+function findRequests(path: string, content: string, index: CatalogIndex): PermissionRequest[] {
+  const requests: PermissionRequest[] = [];
+  const lines = content.split('\n');
+  let contexts: SourceContexts | undefined | null = null;
+
+  for (const pattern of [SCOPE_PARAM, SCOPE_OPTION, SCOPE_CALL]) {
+    for (const match of content.matchAll(pattern)) {
+      // Most files request nothing; only lex the ones that might
+      if (contexts === null) contexts = lexSource(content, path);
+      if (contexts?.at(match.index!) === 'comment') continue;
+
+      const line = lineOf(content, match.index!);
+      const nearby = lines.slice(Math.max(0, line - 11), line + 10).join('\n');
+      const value = decodeScope(match[1]);
+      for (const permission of value.match(/[a-z][a-z_]*[a-z]/g) || []) {
+        if (!index.catalog.permissions[permission]) continue;
+        if (permission === 'email' && !META_CONTEXT.test(nearby) && !META_CONTEXT.test(path)) continue;
+        requests.push({ permission, file: path, line });
+      }
+    }
+  }
+  return requests;
+}
+
+/**
+ * Graph API fields and edges a file reads or writes
+ */
+function findUses(path: string, content: string, index: CatalogIndex): PermissionUse[] {
+  if (!GRAPH_FILE.test(content)) return [];
+
+  const contexts = lexSource(content, path);
+  const uses: PermissionUse[] = [];
+  const add = (offset: number, kind: PermissionUse['kind'], name: string) => {
+    if (contexts?.at(offset) === 'comment') return;
+    const line = lineOf(content, offset);
+    if (kind === 'edge' || !index.fields.has(name)) {
+      const edge = index.edgeNames.get(normalizeEdge(name));
+      if (edge) uses.push({ file: path, line, kind: 'edge', name: edge });
+    } else {
+      uses.push({ file: path, line, kind: 'field', name });
+    }
+  };
+
+  for (const match of content.matchAll(STRING)) {
+    const graph = graphPath(match[2]);
+    if (!graph) continue;
+    if (graph.edge) add(match.index!, 'edge', graph.edge);
+    for (const field of queryFields(graph.query)) add(match.index!, 'field', field);
+  }
+
+  for (const match of content.matchAll(CONCAT_EDGE)) {
+    add(match.index!, 'edge', match[2]);
+    for (const field of queryFields(match[3] || '')) add(match.index!, 'field', field);
+  }
+
+  for (const match of content.matchAll(FIELDS_OPTION)) {
+    for (const field of fieldNames(match[1])) add(match.index!, 'field', field);
+  }
+
+  for (const match of content.matchAll(CONNECTION_NAME)) {
+    add(match.index!, 'edge', match[1]);
+  }
+
+  // SDK methods name their edge: getAdSets() -> adsets, create_ad() -> ads
+  if (BUSINESS_SDK.test(content)) {
+    for (const match of content.matchAll(SDK_METHOD)) {
+      const name = normalizeEdge(match[1]);
+      const edge = index.edgeNames.has(name) ? name : `${name}s`;
+      if (index.edgeNames.has(edge)) add(match.index!, 'edge', edge);
+    }
+  }
+  return uses;
+}
+
+/**
+ * The edge and query of a Graph API path like `/me/accounts`,
+ * `${GRAPH_URL}/${pageId}/feed?fields=message` or a full graph.facebook.com
+ * URL
+ */
+function graphPath(text: string): { edge?: string; query: string } | undefined {
+  const host = GRAPH_HOST.exec(text);
+  const [route, query = ''] = (host ? text.slice(host[0].length) : text).split('?');
+  const segments = route.split('/').filter(Boolean);
+
+  // Base URL and version placeholders: `${GRAPH}/${VERSION}/${id}/feed`
+  while (segments.length > 2 && (VERSION.test(segments[0]) || /^\$?\{[^}]*\}$/.test(segments[0]))) {
+    segments.shift();
+  }
+  if (segments.length > 0 && VERSION.test(segments[0])) segments.shift();
+
+  if (segments.length === 0 || segments.length > 2 || !NODE.test(segments[0])) return undefined;
+  if (!host && segments[0] !== 'me' && !route.includes('/')) return undefined;
+  if (segments[1] && !EDGE.test(segments[1])) return undefined;
+  return { edge: segments[1], query };
+}
+
+function queryFields(query: string): string[] {
+  const match = /(?:^|&)fields=([^&]*)/.exec(query);
+  return match ? fieldNames(decodeScope(match[1])) : [];
+}
+
+/**
+ * Top-level names of a `fields` list; nested field lists and modifiers
+ * (`posts{message}`, `picture.type(large)`) are dropped
+ */
+function fieldNames(value: string): string[] {
+  let text = value.replace(/['"`[\]\s]/g, '');
+  let previous: string;
+  do {
+    previous = text;
+    text = text.replace(/\{[^{}]*\}/g, '');
+  } while (text !== previous);
+  text = text.replace(/\.\w+\([^)]*\)/g, '');
+  return text.split(',').filter(name => EDGE.test(name));
+}
+
+function decodeScope(value: string): string {
+  return value.replace(/%2C/gi, ',').replace(/%20|\+/g, ' ');
+}
+
+function indexCatalog(catalog: PermissionCatalog): CatalogIndex {
+  const index: CatalogIndex = { catalog, fields: new Map(), edges: new Map(), edgeNames: new Map() };
+  for (const [permission, entry] of Object.entries(catalog.permissions)) {
+    for (const field of entry.fields || []) {
+      index.fields.set(field, [...(index.fields.get(field) || []), permission]);
+    }
+    for (const edge of entry.edges || []) {
+      const key = normalizeEdge(edge);
+      index.edges.set(key, [...(index.edges.get(key) || []), permission]);
+      if (!index.edgeNames.has(key)) index.edgeNames.set(key, edge);
+    }
+  }
+  return index;
+}
+
+/** `ad_sets`, `adsets` and `AdSets` name the same edge */
+function normalizeEdge(name: string): string {
+  return name.toLowerCase().replace(/_/g, '');
+}
+
+function lineOf(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+function unique<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
@@ -0,0 +1,58 @@
+/**
+ * Project Analysis
+ *
+ * Runs the project analyzers over an indexed codebase and gives their
+ * findings the same rule settings, test file ranking and inline
+ * suppressions as per-file findings. Shared by local and GitHub API scans.
+ */
+
+import { CodebaseIndexer } from './codebase-indexer';
+import { applyRuleSettings } from './rule-settings';
+import { applySuppressions } from './suppressions';
+import { hasAnalyzerRules, runAnalyzers } from '../analyzers';
+import { RuleSettings, SuppressedViolation, UnusedSuppression, Violation, ViolationRule } from '../types';
+
+export interface ProjectAnalysisOptions {
+  ruleSettings?: RuleSettings;
+  /** Test file ranking of a file's findings: kept, downgraded or dropped */
+  rank?: <T extends Violation>(violations: T[], file: string) => T[];
+}
+
+export interface ProjectAnalysisResult {
+  violations: Violation[];
+  suppressed: SuppressedViolation[];
+  /** `file:line` of every directive that suppressed an analyzer finding */
+  usedDirectives: Set<string>;
+}
+
+export async function analyzeProject(
+  index: CodebaseIndexer,
+  rules: ViolationRule[],
+  options: ProjectAnalysisOptions = {}
+): Promise<ProjectAnalysisResult> {
+  const result: ProjectAnalysisResult = { violations: [], suppressed: [], usedDirectives: new Set() };
+  if (!hasAnalyzerRules(rules)) return result;
+
+  const byFile = new Map<string, Violation[]>();
+  for (const violation of applyRuleSettings(await runAnalyzers(index, rules), options.ruleSettings)) {
+    byFile.set(violation.file, [...(byFile.get(violation.file) || []), violation]);
+  }
+
+  // Suppress before ranking, so directives in test files count as used
+  // even when their findings are dropped
+  const rank = options.rank || (violations => violations);
+  for (const [file, fileViolations] of byFile) {
+    const suppression = applySuppressions(fileViolations, index.getFile(file)?.content || '', file);
+    result.violations.push(...rank(suppression.violations, file));
+    result.suppressed.push(...rank(suppression.suppressed, file));
+    for (const s of suppression.suppressed) result.usedDirectives.add(`${file}:${s.suppression.line}`);
+  }
+  return result;
+}
+
+/**
+ * Directives the file scan found unused, minus those used by analyzer findings
+ */
+export function withoutUsedDirectives(unused: UnusedSuppression[], usedDirectives: Set<string>): UnusedSuppression[] {
+  return unused.filter(u => !usedDirectives.has(`${u.file.replace(/\\/g, '/')}:${u.line}`));
+}
@@ -0,0 +1,39 @@
+/**
+ * Rule Settings
+ *
+ * Applies project-level rule configuration (disabled rules, severity
+ * overrides, custom rules) to rule sets and findings. Overrides are
+ * applied to findings rather than rules so they also cover SDK, package
+ * and AI findings that don't come from a rule definition.
+ */
+
+import { RuleSettings, Violation, ViolationRule } from '../types';
+
+/**
+ * Add custom rules and drop disabled ones.
+ * Custom rules replace built-in rules with the same code.
+ */
+export function resolveRules(rules: ViolationRule[], settings?: RuleSettings): ViolationRule[] {
+  if (!settings) return rules;
+
+  const custom = settings.custom || [];
+  const customCodes = new Set(custom.map(r => r.rule_code));
+  const disabled = new Set(settings.disabled || []);
+
+  return [...rules.filter(r => !customCodes.has(r.rule_code)), ...custom]
+    .filter(r => !disabled.has(r.rule_code));
+}
+
+/**
+ * Drop findings of disabled rules and apply per-rule severity overrides
+ */
+export function applyRuleSettings<T extends Violation>(violations: T[], settings?: RuleSettings): T[] {
+  if (!settings) return violations;
+
+  const disabled = new Set(settings.disabled || []);
+  const overrides = settings.overrides || {};
+
+  return violations
+    .filter(v => !disabled.has(v.ruleCode))
+    .map(v => overrides[v.ruleCode] ? { ...v, severity: overrides[v.ruleCode] } : v);
+}
@@ -0,0 +1,77 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AIFileAnalysisResult } from './ai-scanner';
+import { FileScanResult, FileScanSettings, hashContent } from './file-scanner';
+import { ScanCache } from './scan-cache';
+import { violation } from '../test-utils/fixtures';
+
+describe('ScanCache', () => {
+  let dir: string;
+  let cacheDir: string;
+  const settings: FileScanSettings = { rules: [], includeSdkAnalysis: false };
+  const content = "const token = 'EAAA';\n";
+
+  const result = (overrides: Partial<FileScanResult> = {}): FileScanResult => ({
+    file: 'src/api.ts',
+    contentHash: hashContent(content),
+    violations: [violation()],
+    suppressed: [],
+    unused: [],
+    sdkDetections: [],
+    ...overrides,
+  });
+
+  const cached = (cacheSettings = settings, aiKey?: string) => {
+    const cache = new ScanCache(dir, cacheSettings, aiKey, cacheDir);
+    return cache.lookup(join(dir, 'src/api.ts'), 'src/api.ts');
+  };
+
+  const store = (entry: FileScanResult, aiKey?: string) => {
+    const cache = new ScanCache(dir, settings, aiKey, cacheDir);
+    cache.store(entry);
+    cache.save(['src/api.ts']);
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'meta-scan-cache-'));
+    cacheDir = join(dir, '.cache');
+    mkdirSync(join(dir, 'src'));
+    writeFileSync(join(dir, 'src/api.ts'), content);
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('returns the stored result for unchanged files', () => {
+    store(result());
+
+    expect(cached().result).toEqual(result());
+  });
+
+  it('misses files it has not seen and files whose content changed', () => {
+    expect(cached()).toEqual({});
+
+    store(result());
+    writeFileSync(join(dir, 'src/api.ts'), "const token = process.env.TOKEN;\n");
+    expect(cached()).toEqual({});
+  });
+
+  it('is invalidated by rule settings but keeps AI verdicts', () => {
+    const ai: AIFileAnalysisResult = { violations: [], sections: [] };
+    store(result({ ai }), 'model-1');
+    const changed: FileScanSettings = { ...settings, ruleSettings: { disabled: ['TOKEN_EXPOSED'] } };
+
+    expect(cached(settings, 'model-1').result).toBeDefined();
+    expect(cached(changed, 'model-1')).toEqual({ ai });
+    expect(cached(settings, 'model-2')).toEqual({});
+  });
+
+  it('skips failed scans and drops files that no longer exist', () => {
+    store(result({ error: 'EACCES' }));
+    expect(cached()).toEqual({});
+
+    store(result());
+    const cache = new ScanCache(dir, settings, undefined, cacheDir);
+    cache.save([]);
+    expect(cached()).toEqual({});
+  });
+});
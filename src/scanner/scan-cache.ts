@@ -0,0 +1,160 @@
+/**
+ * Scan Cache
+ *
+ * Per-file scan results stored in .meta-scan-cache (next to the policy
+ * cache) so unchanged files aren't scanned again. Entries are keyed by the
+ * file's content hash; rule results are reused while the rule set is the
+ * same, AI verdicts while the model and prompts are.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { createHash } from 'crypto';
+import { AIFileAnalysisResult } from './ai-scanner';
+import { FileScanResult, FileScanSettings, hashContent } from './file-scanner';
+import { loadApiVersionCalendar } from '../knowledge';
+
+const CACHE_VERSION = 3;
+const DEFAULT_CACHE_DIR = join(process.cwd(), '.meta-scan-cache');
+
+interface CachedFile {
+  hash: string;
+  rulesKey: string;
+  /** Analysis version of the AI verdict (AI scans only) */
+  aiKey?: string;
+  result: FileScanResult;
+}
+
+interface ScanCacheData {
+  version: number;
+  root: string;
+  files: Record<string, CachedFile>;
+}
+
+export interface ScanCacheLookup {
+  /** Complete result for an unchanged file */
+  result?: FileScanResult;
+  /** AI verdict for unchanged content whose rule results are stale */
+  ai?: AIFileAnalysisResult;
+}
+
+export class ScanCache {
+  private cachePath: string;
+  private data: ScanCacheData;
+  private rulesKey: string;
+
+  /**
+   * @param rootDir  Scanned directory (each directory has its own cache file)
+   * @param settings Settings the file results depend on
+   * @param aiKey    `AIScanner.getAnalysisVersion()` when AI detection is on
+   */
+  constructor(
+    rootDir: string,
+    settings: FileScanSettings,
+    private aiKey?: string,
+    private cacheDir: string = DEFAULT_CACHE_DIR
+  ) {
+    const root = resolve(rootDir);
+    this.cachePath = join(cacheDir, `scan-${hashContent(root).substring(0, 16)}.json`);
+    this.rulesKey = rulesCacheKey(settings);
+    this.data = this.load(root);
+  }
+
+  /**
+   * Look up a file by its current content
+   */
+  lookup(filePath: string, relativePath: string): ScanCacheLookup {
+    const entry = this.data.files[toPosix(relativePath)];
+    if (!entry) return {};
+
+    let hash: string;
+    try {
+      hash = hashContent(readFileSync(filePath, 'utf-8'));
+    } catch {
+      // Unreadable now; let the scan report it
+      return {};
+    }
+    if (hash !== entry.hash) return {};
+
+    if (entry.rulesKey === this.rulesKey && entry.aiKey === this.aiKey) {
+      return { result: { ...entry.result, file: relativePath } };
+    }
+    if (this.aiKey && entry.aiKey === this.aiKey) {
+      return { ai: entry.result.ai };
+    }
+    return {};
+  }
+
+  /**
+   * Remember a file's result. Failed scans and incomplete AI verdicts are
+   * not cached.
+   */
+  store(result: FileScanResult): void {
+    if (result.error || !result.contentHash || result.ai?.incomplete) return;
+    if (this.aiKey && !result.ai) return;
+
+    this.data.files[toPosix(result.file)] = {
+      hash: result.contentHash,
+      rulesKey: this.rulesKey,
+      aiKey: this.aiKey,
+      result,
+    };
+  }
+
+  /**
+   * Write the cache, dropping entries for files that no longer exist
+   */
+  save(existingFiles: string[]): void {
+    const existing = new Set(existingFiles.map(toPosix));
+    for (const file of Object.keys(this.data.files)) {
+      if (!existing.has(file)) delete this.data.files[file];
+    }
+
+    if (!existsSync(this.cacheDir)) {
+      mkdirSync(this.cacheDir, { recursive: true });
+    }
+    writeFileSync(this.cachePath, JSON.stringify(this.data));
+  }
+
+  private load(root: string): ScanCacheData {
+    if (existsSync(this.cachePath)) {
+      try {
+        const data = JSON.parse(readFileSync(this.cachePath, 'utf-8')) as ScanCacheData;
+        if (data.version === CACHE_VERSION && data.root === root && data.files) return data;
+      } catch {
+        // Corrupted cache, start fresh
+      }
+    }
+    return { version: CACHE_VERSION, root, files: {} };
+  }
+}
+
+/**
+ * Hash of everything rule results depend on besides the file itself. API
+ * version lifecycles change over time, so the key includes the day
+ * versions are evaluated on.
+ */
+function rulesCacheKey(settings: FileScanSettings): string {
+  const asOf = (settings.apiVersions?.asOf || new Date()).toISOString().substring(0, 10);
+  return createHash('sha256')
+    .update(JSON.stringify({
+      scanner: readScannerVersion(),
+      settings: { ...settings, apiVersions: { ...settings.apiVersions, asOf } },
+      calendar: loadApiVersionCalendar(),
+    }))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+function readScannerVersion(): string | undefined {
+  try {
+    return JSON.parse(readFileSync(join(__dirname, '../../package.json'), 'utf-8')).version;
+  } catch {
+    // Version is only part of the cache key
+    return undefined;
+  }
+}
+
+function toPosix(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
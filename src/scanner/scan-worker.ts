@@ -0,0 +1,15 @@
+/**
+ * Scan Worker
+ *
+ * Worker thread entry point for ScanWorkerPool. Receives the scan settings
+ * as workerData and answers each file job with its FileScanResult.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { FileScanner, FileScanSettings, ScanJob } from './file-scanner';
+
+const scanner = new FileScanner(workerData as FileScanSettings);
+
+parentPort?.on('message', async (job: ScanJob) => {
+  parentPort!.postMessage(await scanner.scan(job));
+});
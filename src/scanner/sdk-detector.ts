@@ -1,4 +1,5 @@
-import { SDKDetection, Platform, RiskLevel } from '../types';
+import { SDKDetection, Platform, RiskLevel, ApiVersionInfo, ApiVersionSettings } from '../types';
+import { classifyApiVersion } from '../knowledge';
 
 interface SDKConfig {
   package: string;
@@ -9,6 +10,8 @@ interface SDKConfig {
   recommendation?: string;
   policyUrl?: string;
   language?: string;
+  /** Platform the library automates (unofficial libraries default to Instagram) */
+  platform?: Platform;
 }
 
 interface SDKRegistry {
@@ -103,12 +106,43 @@ export const SDK_REGISTRY: SDKRegistry = {
       riskLevel: 'violation',
       recommendation: 'POLICY VIOLATION: Scraping violates Meta Platform Terms',
     },
+    'whatsapp-web.js': {
+      package: 'whatsapp-web.js',
+      platform: 'whatsapp',
+      imports: [
+        /require\s*\(\s*['"]whatsapp-web\.js['"]\s*\)/,
+        /from\s+['"]whatsapp-web\.js['"]/,
+      ],
+      riskLevel: 'violation',
+      recommendation: 'POLICY VIOLATION: whatsapp-web.js automates WhatsApp Web; use the WhatsApp Cloud API instead',
+      policyUrl: 'https://developers.facebook.com/docs/whatsapp/cloud-api/',
+    },
+    baileys: {
+      package: 'baileys',
+      platform: 'whatsapp',
+      imports: [
+        /require\s*\(\s*['"](?:@whiskeysockets\/|@adiwajshing\/)?baileys['"]\s*\)/,
+        /from\s+['"](?:@whiskeysockets\/|@adiwajshing\/)?baileys['"]/,
+      ],
+      riskLevel: 'violation',
+      recommendation: 'POLICY VIOLATION: Baileys reverse-engineers the WhatsApp Web protocol; use the WhatsApp Cloud API instead',
+      policyUrl: 'https://developers.facebook.com/docs/whatsapp/cloud-api/',
+    },
+    yowsup: {
+      package: 'yowsup',
+      platform: 'whatsapp',
+      language: 'python',
+      imports: [/from\s+yowsup/, /import\s+yowsup/],
+      riskLevel: 'violation',
+      recommendation: 'POLICY VIOLATION: yowsup uses the private WhatsApp protocol and gets numbers banned; use the WhatsApp Cloud API instead',
+      policyUrl: 'https://developers.facebook.com/docs/whatsapp/cloud-api/',
+    },
   },
 
   directAPI: {
     graphAPI: {
       patterns: [
-        /https?:\/\/graph\.facebook\.com\/v[\d.]+\//i,
+        /https?:\/\/graph\.facebook\.com\/v[\d.]+(\/|['"`])/i,
         /['"]graph\.facebook\.com['"]/i,
       ],
       extract: /v(\d+\.\d+)/,
@@ -138,11 +172,6 @@ export const SDK_REGISTRY: SDKRegistry = {
       riskLevel: 'violation',
       recommendation: 'REST API is deprecated. Use Graph API instead',
     },
-    oldVersions: {
-      patterns: [/graph\.facebook\.com\/v[1-9]\./i],
-      riskLevel: 'violation',
-      recommendation: 'API version is deprecated. Use v18.0 or later',
-    },
     fql: {
       patterns: [/fql\?q=/i],
       riskLevel: 'violation',
@@ -151,9 +180,52 @@ export const SDK_REGISTRY: SDKRegistry = {
   },
 };
 
+/**
+ * Every rule SDK detection can report
+ */
+export const DETECTION_RULE_CODES = [
+  'DEPRECATED_API_VERSION', 'API_VERSION_EXPIRING', 'WHATSAPP_UNOFFICIAL_API', 'UNOFFICIAL_IG_LIBRARY',
+];
+
+/**
+ * Rule reported for an unofficial library or deprecated API detection
+ */
+export function detectionRuleCode(detection: SDKDetection): string {
+  if (detection.type !== 'unofficial') return 'DEPRECATED_API_VERSION';
+  return detection.platform === 'whatsapp' ? 'WHATSAPP_UNOFFICIAL_API' : 'UNOFFICIAL_IG_LIBRARY';
+}
+
+/**
+ * Name of the API family a calendar entry belongs to
+ */
+export function apiFamilyName(apiVersion: ApiVersionInfo): string {
+  return apiVersion.api === 'marketing' ? 'Marketing API' : 'Graph API';
+}
+
+/**
+ * Message of a detection finding; version findings name the API family
+ * of the calendar entry rather than the detected SDK
+ */
+export function detectionMessage(detection: SDKDetection): string {
+  const { apiVersion } = detection;
+  if (!apiVersion) return `${detection.sdk} detected: ${detection.recommendation || 'Policy violation'}`;
+
+  const name = apiFamilyName(apiVersion);
+  if (detection.riskLevel === 'violation') return `${name} detected: ${detection.recommendation || 'Policy violation'}`;
+  return apiVersion.status === 'expired'
+    ? `${name} ${apiVersion.version} is past its estimated end of life`
+    : `${name} ${apiVersion.version} is close to end of life`;
+}
+
 export class SDKDetector {
   private detections: SDKDetection[] = [];
 
+  /**
+   * @param versionSettings Date and warning window used to classify
+   *   Graph/Marketing API versions against the version calendar
+   */
+  constructor(private versionSettings: ApiVersionSettings = {}) {}
+
   async detectInFile(filePath: string, content: string): Promise<SDKDetection[]> {
     this.detections = [];
     const lines = content.split('\n');
@@ -204,7 +276,7 @@ export class SDKDetector {
           this.detections.push({
             type: 'unofficial',
             sdk: config.package,
-            platform: 'instagram',
+            platform: config.platform || 'instagram',
             file: filePath,
             line: lineNumber,
             column: 0,
@@ -220,22 +292,21 @@ export class SDKDetector {
       for (const [, config] of Object.entries(SDK_REGISTRY.directAPI)) {
         for (const pattern of config.patterns) {
           if (pattern.test(line)) {
-            const versionMatch = line.match(/v(\d+\.\d+)/);
-            const version = versionMatch ? parseFloat(versionMatch[1]) : 0;
+            const versionMatch = config.extract ? line.match(config.extract) : null;
+            const lifecycle = versionMatch ? this.checkApiVersion(versionMatch[1], line) : null;
 
             this.detections.push({
               type: 'direct-api',
-              sdk: 'Graph API',
+              sdk: lifecycle?.apiVersion ? apiFamilyName(lifecycle.apiVersion) : 'Graph API',
               platform: this.inferPlatformFromURL(line),
               file: filePath,
               line: lineNumber,
               column: line.search(pattern),
               codeSnippet: line.trim(),
               confidence: 'high',
-              riskLevel: version > 0 && version < 10 ? 'violation' : config.riskLevel,
-              recommendation: version > 0 && version < 10
-                ? `API version v${version} is deprecated. Use v18.0+`
-                : config.recommendation,
+              riskLevel: lifecycle?.riskLevel || config.riskLevel,
+              recommendation: lifecycle?.recommendation || config.recommendation,
+              apiVersion: lifecycle?.apiVersion,
             });
             break;
           }
@@ -267,6 +338,48 @@ export class SDKDetector {
     return this.detections;
   }
 
+  /**
+   * Classify an extracted API version with the version calendar.
+   * Without the calendar only versions below v10 are flagged.
+   */
+  private checkApiVersion(version: string, line: string): {
+    riskLevel: RiskLevel;
+    recommendation?: string;
+    apiVersion?: ApiVersionInfo;
+  } | null {
+    const api = this.inferPlatformFromURL(line) === 'ads' ? 'marketing' : 'graph';
+    const apiVersion = classifyApiVersion(version, { api, ...this.versionSettings });
+
+    if (!apiVersion) {
+      return parseFloat(version) < 10
+        ? { riskLevel: 'violation', recommendation: `API version v${version} is deprecated. Upgrade to a supported version` }
+        : null;
+    }
+
+    const name = apiFamilyName(apiVersion);
+    const upgrade = apiVersion.latest ? ` Upgrade to ${apiVersion.latest}.` : '';
+    const estimated = apiVersion.estimated ? ' (estimated)' : '';
+
+    switch (apiVersion.status) {
+      case 'expired':
+        // Unannounced (estimated) end-of-life dates only warn
+        return {
+          riskLevel: apiVersion.estimated ? 'caution' : 'violation',
+          recommendation: `${name} ${apiVersion.version} reached end of life on ${apiVersion.endOfLife}${estimated}.${upgrade}`,
+          apiVersion,
+        };
+      case 'expiring':
+        return {
+          riskLevel: 'caution',
+          recommendation: `${name} ${apiVersion.version} reaches end of life on ${apiVersion.endOfLife}${estimated} ` +
+            `(in ${apiVersion.daysRemaining} days).${upgrade}`,
+          apiVersion,
+        };
+      default:
+        return { riskLevel: 'safe', apiVersion };
+    }
+  }
+
   private matchesPatterns(line: string, patterns: RegExp[]): boolean {
     return patterns.some(pattern => pattern.test(line));
   }
@@ -0,0 +1,122 @@
+import { applySuppressions, parseSuppressions } from './suppressions';
+import { violation } from '../test-utils/fixtures';
+
+const at = (ruleCode: string, line: number) => violation({ ruleCode, file: 'app.js', line });
+const lines = (...source: string[]) => source.join('\n');
+const suppressedLines = (result: ReturnType<typeof applySuppressions>) => result.suppressed.map(v => v.line);
+
+describe('parseSuppressions', () => {
+  it('reads the kind, rules and justification of each directive', () => {
+    const [next, line, file] = parseSuppressions(lines(
+      '// meta-scan-disable-next-line TOKEN_EXPOSED, TOKEN_IN_GRAPH_URL -- revoked test token',
+      "const token = 'x'; // meta-scan-disable-line",
+      '# meta-scan-disable-file UNOFFICIAL_IG_LIBRARY',
+    ));
+
+    expect(next).toMatchObject({
+      kind: 'next-line', line: 1, startLine: 2, endLine: 2,
+      rules: ['TOKEN_EXPOSED', 'TOKEN_IN_GRAPH_URL'], justification: 'revoked test token',
+    });
+    expect(line).toMatchObject({ kind: 'line', line: 2, startLine: 2, endLine: 2, rules: [] });
+    expect(file).toMatchObject({ kind: 'file', startLine: 1, endLine: 3, rules: ['UNOFFICIAL_IG_LIBRARY'] });
+  });
+
+  it('strips closing comment markers', () => {
+    const [block] = parseSuppressions('/* meta-scan-disable LOGGING_SENSITIVE_DATA -- debug only */');
+    expect(block).toMatchObject({ rules: ['LOGGING_SENSITIVE_DATA'], justification: 'debug only' });
+  });
+
+  it('ignores directives inside string literals', () => {
+    const source = lines(
+      'const help = "add // meta-scan-disable-line to silence it";',
+      "const other = 'meta-scan-disable-file';",
+      'run(); // meta-scan-disable-line TOKEN_EXPOSED',
+    );
+
+    expect(parseSuppressions(source, 'app.js').map(s => s.line)).toEqual([3]);
+    expect(parseSuppressions('help = "# meta-scan-disable-file"', 'app.py')).toEqual([]);
+  });
+
+  it('matches directives anywhere in files without a lexer', () => {
+    expect(parseSuppressions('-- meta-scan-disable-next-line TOKEN_EXPOSED', 'schema.sql')).toHaveLength(1);
+  });
+});
+
+describe('applySuppressions', () => {
+  it('suppresses matching rules only', () => {
+    const source = lines(
+      '// meta-scan-disable-next-line TOKEN_EXPOSED',
+      'call();',
+    );
+    const result = applySuppressions([at('TOKEN_EXPOSED', 2), at('LOGGING_SENSITIVE_DATA', 2)], source, 'app.js');
+
+    expect(result.violations.map(v => v.ruleCode)).toEqual(['LOGGING_SENSITIVE_DATA']);
+    expect(result.suppressed[0].suppression).toEqual({ kind: 'next-line', line: 1, justification: undefined });
+  });
+
+  it('closes a block at the matching enable', () => {
+    const source = lines(
+      '// meta-scan-disable TOKEN_EXPOSED',
+      'a();',
+      '// meta-scan-enable TOKEN_EXPOSED',
+      'b();',
+    );
+    const result = applySuppressions([at('TOKEN_EXPOSED', 2), at('TOKEN_EXPOSED', 4)], source, 'app.js');
+
+    expect(suppressedLines(result)).toEqual([2]);
+  });
+
+  it('re-enables one rule of a multi-rule block', () => {
+    const source = lines(
+      '// meta-scan-disable TOKEN_EXPOSED, LOGGING_SENSITIVE_DATA',
+      'a();',
+      '// meta-scan-enable TOKEN_EXPOSED',
+      'b();',
+      '// meta-scan-enable LOGGING_SENSITIVE_DATA',
+      'c();',
+    );
+    const result = applySuppressions([
+      at('TOKEN_EXPOSED', 2),
+      at('TOKEN_EXPOSED', 4),
+      at('LOGGING_SENSITIVE_DATA', 4),
+      at('LOGGING_SENSITIVE_DATA', 6),
+    ], source, 'app.js');
+
+    expect(result.suppressed.map(v => `${v.ruleCode}:${v.line}`)).toEqual(['TOKEN_EXPOSED:2', 'LOGGING_SENSITIVE_DATA:4']);
+  });
+
+  it('re-enables one rule of a bare disable', () => {
+    const source = lines(
+      '// meta-scan-disable -- generated code',
+      '// meta-scan-enable TOKEN_EXPOSED',
+      'a();',
+    );
+    const result = applySuppressions([at('TOKEN_EXPOSED', 3), at('LOGGING_SENSITIVE_DATA', 3)], source, 'app.js');
+
+    expect(result.violations.map(v => v.ruleCode)).toEqual(['TOKEN_EXPOSED']);
+  });
+
+  it('keeps a block open until the end of the file without an enable', () => {
+    const source = lines('// meta-scan-disable', 'a();', 'b();');
+    expect(suppressedLines(applySuppressions([at('TOKEN_EXPOSED', 3)], source, 'app.js'))).toEqual([3]);
+  });
+
+  it('reports directives that suppressed nothing', () => {
+    const source = lines('// meta-scan-disable-next-line TOKEN_EXPOSED', 'a();');
+    const { unused } = applySuppressions([], source, 'app.js');
+
+    expect(unused).toEqual([{ file: 'app.js', line: 1, kind: 'next-line', rules: ['TOKEN_EXPOSED'], justification: undefined }]);
+  });
+
+  it('only reports directives as unused when their rules were evaluated', () => {
+    const source = lines(
+      '// meta-scan-disable-next-line WA_OPT_IN_REQUIRED',
+      'a();',
+      '// meta-scan-disable-next-line TOKEN_EXPOSED',
+      'b();',
+    );
+    const { unused } = applySuppressions([], source, 'app.js', new Set(['TOKEN_EXPOSED']));
+
+    expect(unused.map(u => u.line)).toEqual([3]);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Inline Suppressions
+ *
+ * Lets developers silence known-acceptable findings with comments.
+ * Directives are only read from comments, so a string mentioning one
+ * doesn't suppress anything. In files without a lexer (e.g. SQL, GraphQL)
+ * any comment style works (--, <!-- -->) since directives are matched
+ * anywhere on the line.
+ *
+ *   // meta-scan-disable-next-line TOKEN_EXPOSED -- test fixture, revoked token
+ *   const token = 'EAA...';
+ *
+ *   const url = buildUrl(); // meta-scan-disable-line TOKEN_IN_GRAPH_URL -- internal proxy
+ *
+ *   /* meta-scan-disable LOGGING_SENSITIVE_DATA -- debug-only block *\/
+ *   ...
+ *   /* meta-scan-enable LOGGING_SENSITIVE_DATA *\/
+ *
+ *   // meta-scan-disable -- generated code
+ *   ...
+ *   // meta-scan-enable TOKEN_EXPOSED  (every rule but TOKEN_EXPOSED stays disabled)
+ *
+ *   # meta-scan-disable-file UNOFFICIAL_IG_LIBRARY -- migration script, removed in Q3
+ *
+ * Omitting rule codes suppresses every rule. Text after `--` is recorded
+ * as the justification and reported alongside the suppressed finding.
+ */
+
+import { lexSource } from './lexer';
+import { SuppressedViolation, SuppressionKind, UnusedSuppression, Violation } from '../types';
+
+interface Suppression {
+  kind: SuppressionKind;
+  line: number;           // Line of the directive comment
+  rules: string[];        // Empty = all rules
+  justification?: string;
+  startLine: number;      // First suppressed line (inclusive)
+  endLine: number;        // Last suppressed line (inclusive)
+  /** Blocks only: rules re-enabled before endLine, with the enable line */
+  enabled?: Map<string, number>;
+  used: boolean;
+}
+
+export interface SuppressionResult {
+  violations: Violation[];
+  suppressed: SuppressedViolation[];
+  unused: UnusedSuppression[];
+}
+
+const DIRECTIVE_PATTERN = /meta-scan-(disable-next-line|disable-line|disable-file|disable|enable)\b(.*)$/;
+const DIRECTIVE_START = /meta-scan-/g;
+
+/**
+ * Parse suppression directives from file content. With a file path,
+ * languages the lexer knows only accept directives inside comments.
+ */
+export function parseSuppressions(content: string, filePath?: string): Suppression[] {
+  const lines = content.split('\n');
+  const suppressions: Suppression[] = [];
+  // Open disable blocks, closed by a matching enable (or end of file)
+  const openBlocks: Suppression[] = [];
+  const contexts = filePath && content.includes('meta-scan-') ? lexSource(content, filePath) : undefined;
+  let lineStart = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const offset = lineStart;
+    lineStart += lines[i].length + 1;
+
+    const match = findDirective(lines[i], column => !contexts || contexts.at(offset + column) === 'comment');
+    if (!match) continue;
+
+    const lineNumber = i + 1;
+    const directive = match[1];
+    const { rules, justification } = parseDirectiveArgs(match[2]);
+
+    switch (directive) {
+      case 'disable-next-line':
+        suppressions.push({
+          kind: 'next-line', line: lineNumber, rules, justification,
+          startLine: lineNumber + 1, endLine: lineNumber + 1, used: false,
+        });
+        break;
+      case 'disable-line':
+        suppressions.push({
+          kind: 'line', line: lineNumber, rules, justification,
+          startLine: lineNumber, endLine: lineNumber, used: false,
+        });
+        break;
+      case 'disable-file':
+        suppressions.push({
+          kind: 'file', line: lineNumber, rules, justification,
+          startLine: 1, endLine: lines.length, used: false,
+        });
+        break;
+      case 'disable': {
+        const block: Suppression = {
+          kind: 'block', line: lineNumber, rules, justification,
+          startLine: lineNumber, endLine: lines.length, used: false,
+        };
+        suppressions.push(block);
+        openBlocks.push(block);
+        break;
+      }
+      case 'enable':
+        closeBlocks(openBlocks, rules, lineNumber);
+        break;
+    }
+  }
+
+  return suppressions;
+}
+
+/**
+ * Split violations of a single file into active and suppressed ones,
+ * and report directives that did not suppress anything
+ */
+export function applySuppressions(
+  violations: Violation[],
+  content: string,
+  filePath: string,
+  evaluatedRules?: Set<string>
+): SuppressionResult {
+  const suppressions = parseSuppressions(content, filePath);
+  if (suppressions.length === 0) {
+    return { violations, suppressed: [], unused: [] };
+  }
+
+  const active: Violation[] = [];
+  const suppressed: SuppressedViolation[] = [];
+
+  for (const violation of violations) {
+    const suppression = suppressions.find(s => covers(s, violation));
+
+    if (suppression) {
+      suppression.used = true;
+      suppressed.push({
+        ...violation,
+        suppression: {
+          kind: suppression.kind,
+          line: suppression.line,
+          justification: suppression.justification,
+        },
+      });
+    } else {
+      active.push(violation);
+    }
+  }
+
+  // A directive for rules that weren't run (e.g. under --platform) may
+  // still be needed, so it is only unused when all its rules were run
+  const unused: UnusedSuppression[] = suppressions
+    .filter(s => !s.used)
+    .filter(s => !evaluatedRules || s.rules.every(r => evaluatedRules.has(r)))
+    .map(s => ({
+      file: filePath,
+      line: s.line,
+      kind: s.kind,
+      rules: s.rules,
+      justification: s.justification,
+    }));
+
+  return { violations: active, suppressed, unused };
+}
+
+/**
+ * First directive on a line that starts where `accept` allows
+ */
+function findDirective(line: string, accept: (column: number) => boolean): RegExpMatchArray | null {
+  for (const start of line.matchAll(DIRECTIVE_START)) {
+    if (!accept(start.index!)) continue;
+    const match = line.substring(start.index!).match(DIRECTIVE_PATTERN);
+    if (match) return match;
+  }
+  return null;
+}
+
+function covers(suppression: Suppression, violation: Violation): boolean {
+  const { rules, enabled } = suppression;
+  if (rules.length > 0 && !rules.includes(violation.ruleCode)) return false;
+  const endLine = enabled?.get(violation.ruleCode) ?? suppression.endLine;
+  return violation.line >= suppression.startLine && violation.line <= endLine;
+}
+
+function parseDirectiveArgs(raw: string): { rules: string[]; justification?: string } {
+  // Strip closing comment markers
+  const text = raw.replace(/\s*(\*\/|-->)\s*$/, '');
+  const separator = text.indexOf('--');
+  const rulePart = separator >= 0 ? text.substring(0, separator) : text;
+  const justification = separator >= 0 ? text.substring(separator + 2).trim() : '';
+
+  const rules = rulePart
+    .split(/[\s,]+/)
+    .map(r => r.trim())
+    .filter(r => /^[A-Z][A-Z0-9_]*$/.test(r));
+
+  return { rules, justification: justification || undefined };
+}
+
+/**
+ * Apply an enable directive to the open blocks. A bare enable closes every
+ * block; `enable RULE` re-enables only that rule, and a block is closed
+ * once all its rules are re-enabled.
+ */
+function closeBlocks(openBlocks: Suppression[], rules: string[], lineNumber: number): void {
+  for (let i = openBlocks.length - 1; i >= 0; i--) {
+    const block = openBlocks[i];
+    if (rules.length > 0) {
+      const enabled = block.enabled || (block.enabled = new Map());
+      for (const rule of rules) {
+        if ((block.rules.length === 0 || block.rules.includes(rule)) && !enabled.has(rule)) {
+          enabled.set(rule, lineNumber);
+        }
+      }
+      if (block.rules.length === 0 || !block.rules.every(r => enabled.has(r))) continue;
+    }
+
+    block.endLine = lineNumber;
+    openBlocks.splice(i, 1);
+  }
+}
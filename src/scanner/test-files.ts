@@ -0,0 +1,41 @@
+/**
+ * Test Files
+ *
+ * Test suites and fixtures often hold fake tokens and sample violations
+ * on purpose. Findings in these files can be kept, downgraded one
+ * severity level or dropped.
+ */
+
+import { glob } from 'glob';
+import { Severity, TestFindingMode, Violation } from '../types';
+
+export const DEFAULT_TEST_FILE_PATTERNS = [
+  '**/test/**', '**/tests/**', '**/__tests__/**', '**/spec/**',
+  '**/__mocks__/**', '**/fixtures/**', '**/__fixtures__/**', '**/testdata/**',
+  '**/*.test.*', '**/*.spec.*',
+  '**/*_test.go', '**/test_*.py', '**/*_test.py', '**/*Test.java', '**/*_spec.rb',
+];
+
+const DOWNGRADED: Record<Severity, Severity> = { error: 'warning', warning: 'info', info: 'info' };
+
+/**
+ * Test files below `dirPath`, as POSIX paths relative to it
+ */
+export async function findTestFiles(
+  dirPath: string,
+  patterns: string[] = DEFAULT_TEST_FILE_PATTERNS,
+  ignore: string[] = []
+): Promise<Set<string>> {
+  if (patterns.length === 0) return new Set();
+  const files = await glob(patterns, { cwd: dirPath, ignore, nodir: true, dot: true, posix: true });
+  return new Set(files.map(file => file.replace(/\\/g, '/')));
+}
+
+/**
+ * Apply the test finding mode to findings from a test file
+ */
+export function rankTestFindings<T extends Violation>(violations: T[], mode: TestFindingMode = 'keep'): T[] {
+  if (mode === 'ignore') return [];
+  if (mode === 'downgrade') return violations.map(v => ({ ...v, severity: DOWNGRADED[v.severity] }));
+  return violations;
+}
@@ -0,0 +1,56 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileScanner, FileScanResult, FileScanSettings, ScanJob } from './file-scanner';
+import { getBuiltinRules } from './local-scanner';
+import { MIN_FILES_FOR_WORKERS, resolveWorkerCount, ScanWorkerPool } from './worker-pool';
+
+const TOKEN = `EAAA${'x'.repeat(60)}`;
+
+describe('resolveWorkerCount', () => {
+  it('scans small projects in-process unless a concurrency is given', () => {
+    expect(resolveWorkerCount(MIN_FILES_FOR_WORKERS - 1)).toBe(0);
+    expect(resolveWorkerCount(10, 3.7)).toBe(3);
+    expect(resolveWorkerCount(10_000, 1)).toBe(0);
+  });
+});
+
+describe('ScanWorkerPool', () => {
+  let dir: string;
+  let jobs: ScanJob[];
+  const settings: FileScanSettings = {
+    rules: getBuiltinRules().filter(rule => rule.rule_code === 'TOKEN_EXPOSED'),
+    includeSdkAnalysis: false,
+  };
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'meta-scan-pool-'));
+    jobs = Array.from({ length: 5 }, (_, i) => {
+      const relativePath = `file${i}.js`;
+      writeFileSync(join(dir, relativePath), i % 2 ? `const token = '${TOKEN}';\n` : 'module.exports = {};\n');
+      return { filePath: join(dir, relativePath), relativePath };
+    });
+    jobs.push({ filePath: join(dir, 'missing.js'), relativePath: 'missing.js' });
+  });
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  const byFile = (results: FileScanResult[]) => [...results].sort((a, b) => a.file.localeCompare(b.file));
+
+  it('returns the same results as an in-process scan', async () => {
+    const scanner = new FileScanner(settings);
+    const expected = await Promise.all(jobs.map(job => scanner.scan(job)));
+
+    const results: FileScanResult[] = [];
+    for await (const result of new ScanWorkerPool(2, settings).scan(jobs)) results.push(result);
+
+    // Errors are compared on their own: jest's realm formats them differently
+    const withoutErrors = (all: FileScanResult[]) => byFile(all).map(({ error, ...result }) => result);
+    expect(withoutErrors(results)).toEqual(withoutErrors(expected));
+    expect(results.flatMap(r => r.violations.map(v => v.file)).sort()).toEqual(['file1.js', 'file3.js']);
+    expect(results.find(r => r.file === 'missing.js')?.error).toContain('ENOENT');
+  }, 60_000);
+
+  it('requires at least one worker', () => {
+    expect(() => new ScanWorkerPool(0, settings)).toThrow('Worker pool size must be at least 1 (got 0)');
+  });
+});
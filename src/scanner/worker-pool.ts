@@ -0,0 +1,112 @@
+/**
+ * Scan Worker Pool
+ *
+ * Spreads file scans over worker threads. Each worker compiles the rules
+ * once and scans one file at a time; results are yielded in completion
+ * order as soon as they arrive.
+ */
+
+import { Worker } from 'worker_threads';
+import { availableParallelism } from 'os';
+import { extname, join } from 'path';
+import { FileScanResult, FileScanSettings, ScanJob } from './file-scanner';
+
+/** Smaller scans aren't worth the worker start-up time */
+export const MIN_FILES_FOR_WORKERS = 500;
+
+const MAX_WORKERS = 8;
+
+/**
+ * Number of workers for a scan; 0 means scan in-process
+ */
+export function resolveWorkerCount(fileCount: number, concurrency?: number): number {
+  if (concurrency !== undefined) return concurrency > 1 ? Math.floor(concurrency) : 0;
+  if (fileCount < MIN_FILES_FOR_WORKERS) return 0;
+
+  const workers = Math.min(availableParallelism(), MAX_WORKERS);
+  return workers > 1 ? workers : 0;
+}
+
+export class ScanWorkerPool {
+  constructor(private size: number, private settings: FileScanSettings) {
+    if (size < 1) {
+      throw new Error(`Worker pool size must be at least 1 (got ${size})`);
+    }
+  }
+
+  /**
+   * Scan the files, yielding each result as its worker finishes. Results
+   * that haven't been consumed yet hold back new jobs.
+   */
+  async *scan(jobs: ScanJob[]): AsyncGenerator<FileScanResult> {
+    const workers = Array.from({ length: Math.min(this.size, jobs.length) }, () => createWorker(this.settings));
+    const idle = [...workers];
+    const ready: FileScanResult[] = [];
+    let next = 0;
+    let pending = 0;
+    let failure: Error | undefined;
+    let terminating = false;
+    let wake: (() => void) | undefined;
+
+    const notify = () => {
+      const resolve = wake;
+      wake = undefined;
+      resolve?.();
+    };
+
+    const dispatch = () => {
+      while (idle.length > 0 && next < jobs.length && ready.length + pending < workers.length * 4) {
+        const worker = idle.pop()!;
+        pending++;
+        worker.postMessage(jobs[next++]);
+      }
+    };
+
+    for (const worker of workers) {
+      worker.on('message', (result: FileScanResult) => {
+        pending--;
+        ready.push(result);
+        idle.push(worker);
+        dispatch();
+        notify();
+      });
+      worker.on('error', err => {
+        failure = failure || new Error(`Scan worker failed: ${err.message}`);
+        notify();
+      });
+      worker.on('exit', code => {
+        if (!terminating && !failure) {
+          failure = new Error(`Scan worker exited unexpectedly (code ${code})`);
+        }
+        notify();
+      });
+    }
+
+    try {
+      dispatch();
+      while (ready.length > 0 || pending > 0 || next < jobs.length) {
+        if (failure) throw failure;
+        if (ready.length > 0) {
+          yield ready.shift()!;
+          dispatch();
+          continue;
+        }
+        await new Promise<void>(resolve => { wake = resolve; });
+      }
+    } finally {
+      terminating = true;
+      await Promise.all(workers.map(worker => worker.terminate()));
+    }
+  }
+}
+
+function createWorker(settings: FileScanSettings): Worker {
+  const script = join(__dirname, `scan-worker${extname(__filename)}`);
+
+  // Running from source under ts-node: the worker has to register it too
+  if (script.endsWith('.ts')) {
+    const bootstrap = `require('ts-node/register/transpile-only'); require(${JSON.stringify(script)});`;
+    return new Worker(bootstrap, { eval: true, workerData: settings });
+  }
+  return new Worker(script, { workerData: settings });
+}
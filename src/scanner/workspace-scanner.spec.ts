@@ -0,0 +1,58 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { scanWorkspace } from './workspace-scanner';
+import { Violation } from '../types';
+
+const TOKEN = `EAAA${'x'.repeat(60)}`;
+
+describe('scanWorkspace', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'meta-scan-workspace-'));
+    const files: Record<string, string> = {
+      'package.json': JSON.stringify({ name: 'shop', workspaces: ['apps/*'] }),
+      'scripts/seed.js': `const token = '${TOKEN}';\n`,
+      'apps/web/package.json': JSON.stringify({ name: 'web' }),
+      'apps/web/src/api.js': `\nconst token = '${TOKEN}';\n`,
+      'apps/bot/package.json': JSON.stringify({ name: 'bot' }),
+      'apps/bot/index.js': 'module.exports = {};\n',
+    };
+    for (const [path, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(dir, path)), { recursive: true });
+      writeFileSync(join(dir, path), content);
+    }
+  });
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  const scan = (workspaces?: boolean) => scanWorkspace(dir, {
+    workspaces,
+    includeSdkAnalysis: false,
+    cache: false,
+  });
+  const tokens = (violations: Violation[]) => violations.filter(v => v.ruleCode === 'TOKEN_EXPOSED');
+
+  it('scans each package once and tags findings with root-relative paths', async () => {
+    const result = await scan();
+
+    expect(tokens(result.violations).map(v => `${v.package}:${v.file}:${v.line}`).sort()).toEqual([
+      'shop:scripts/seed.js:1',
+      'web:apps/web/src/api.js:2',
+    ]);
+    expect(result.packages!.map(pkg => [pkg.name, pkg.path, pkg.filesScanned, pkg.summary.errors])).toEqual([
+      ['shop', '.', 2, 1],
+      ['bot', 'apps/bot', 2, 0],
+      ['web', 'apps/web', 2, 1],
+    ]);
+    // Each package.json is scanned with its own package
+    expect(result.filesScanned).toBe(6);
+  });
+
+  it('scans the directory as one project when workspaces are off', async () => {
+    const result = await scan(false);
+
+    expect(result.packages).toBeUndefined();
+    expect(tokens(result.violations).map(v => v.file).sort()).toEqual(['apps/web/src/api.js', 'scripts/seed.js']);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Workspace Scanner
+ *
+ * Scans a monorepo package by package. Every package is scanned from its
+ * own directory (its own manifests, lockfiles and config); the root scan
+ * skips the package directories. Results are merged back with paths
+ * relative to the repository root and each finding tagged with its package.
+ */
+
+import { basename, join, resolve } from 'path';
+import { scanDirectory } from './local-scanner';
+import { PermissionRequest, summarizePermissions } from './permission-inventory';
+import { detectWorkspacePackages, groupPackages, isWithin, readProjectName, summarize } from './workspaces';
+import {
+  AIAnalysisSummary,
+  PackageScanResult,
+  PermissionInventory,
+  PermissionUse,
+  ScanResult,
+  SDKAnalysis,
+  SDKDetection,
+  Violation,
+  WorkspacePackage,
+  WorkspaceScanOptions,
+} from '../types';
+
+/**
+ * Scan a directory, per package when it is a monorepo. Directories without
+ * workspace packages are scanned exactly like `scanDirectory`.
+ */
+export async function scanWorkspace(dirPath: string, options: WorkspaceScanOptions = {}): Promise<ScanResult> {
+  const startTime = Date.now();
+  const { packageOptions, workspaces, ...baseOptions } = options;
+  const packages = workspaces === false ? [] : await detectWorkspacePackages(dirPath, options.ignorePatterns);
+  if (packages.length === 0) {
+    return scanDirectory(dirPath, baseOptions);
+  }
+
+  const log = (msg: string) => options.onProgress?.(msg);
+  log(`📦 Monorepo: ${packages.length} packages`);
+
+  const rootName = readProjectName(dirPath) || options.source?.repo || basename(resolve(dirPath));
+  const root: WorkspacePackage = {
+    name: packages.some(pkg => pkg.name === rootName) ? '.' : rootName,
+    path: '.',
+    kind: 'root',
+  };
+
+  const scans: Array<{ pkg: WorkspacePackage; result: ScanResult }> = [];
+  for (const candidate of [root, ...packages]) {
+    const custom = candidate === root ? undefined : packageOptions?.(candidate);
+    const pkg = custom?.configPath ? { ...candidate, configPath: custom.configPath } : candidate;
+    const pkgOptions = custom?.options || baseOptions;
+
+    // Packages nested in this one are scanned on their own
+    const nested = packages
+      .filter(other => other !== candidate && isWithin(other.path, candidate.path))
+      .map(other => `${relativeTo(other.path, candidate.path)}/**`);
+
+    log(`\n📦 ${pkg.name} (${pkg.path})`);
+    const result = await scanDirectory(join(dirPath, pkg.path), {
+      ...pkgOptions,
+      ignorePatterns: [...(pkgOptions.ignorePatterns || []), ...nested],
+      source: undefined,
+    });
+    scans.push({ pkg, result });
+  }
+
+  const byName = new Map(scans.map(({ pkg }) => [pkg.name, pkg]));
+  const violations = attributeRootDependencies(
+    scans.flatMap(({ pkg, result }) => result.violations.map(v => tag(v, pkg))),
+    byName,
+    root
+  );
+
+  const merged: ScanResult = {
+    source: options.source || { type: 'local', path: dirPath },
+    filesScanned: scans.reduce((sum, { result }) => sum + result.filesScanned, 0),
+    scanDuration: Date.now() - startTime,
+    violations,
+    suppressed: scans.flatMap(({ pkg, result }) => (result.suppressed || []).map(v => tag(v, pkg))),
+    unusedSuppressions: scans.flatMap(({ pkg, result }) =>
+      (result.unusedSuppressions || []).map(s => ({ ...s, file: prefix(pkg, s.file) }))
+    ),
+    diff: scans[0].result.diff
+      ? {
+        base: scans[0].result.diff.base,
+        changedFiles: scans.reduce((sum, { result }) => sum + (result.diff?.changedFiles || 0), 0),
+        files: scans.flatMap(({ pkg, result }) => (result.diff?.files || []).map(file => prefix(pkg, file))),
+      }
+      : undefined,
+    sdkAnalysis: options.includeSdkAnalysis !== false ? mergeSdkAnalysis(scans) : undefined,
+    aiAnalysis: mergeAIAnalysis(scans),
+    permissions: mergePermissions(scans),
+    // Per-package violations are filled in by groupPackages
+    packages: scans.map(({ pkg, result }): PackageScanResult => ({
+      ...pkg,
+      filesScanned: result.filesScanned,
+      violations: [],
+      summary: summarize([]),
+    })),
+    summary: summarize(violations),
+  };
+
+  return groupPackages(merged);
+}
+
+/**
+ * Findings from the root lockfile that come in through a workspace
+ * package (`web > bot-kit > baileys`) belong to that package, unless the
+ * package's own scan already reported them
+ */
+function attributeRootDependencies(
+  violations: Violation[],
+  byName: Map<string, WorkspacePackage>,
+  root: WorkspacePackage
+): Violation[] {
+  const last = (v: Violation) => v.dependencyPath![v.dependencyPath!.length - 1];
+
+  return violations.flatMap(v => {
+    if (v.package !== root.name || !v.dependencyPath || v.dependencyPath.length < 2) return [v];
+
+    const owner = byName.get(v.dependencyPath[0]);
+    if (!owner || owner === root) return [v];
+
+    const duplicate = violations.some(other =>
+      other.package === owner.name && other.ruleCode === v.ruleCode && other.dependencyPath && last(other) === last(v)
+    );
+    return duplicate ? [] : [{ ...v, package: owner.name }];
+  });
+}
+
+function mergeSdkAnalysis(scans: Array<{ pkg: WorkspacePackage; result: ScanResult }>): SDKAnalysis {
+  const merged: SDKAnalysis = { official: [], wrappers: [], directApi: [], violations: [] };
+  const keys = Object.keys(merged) as Array<keyof SDKAnalysis>;
+
+  for (const { pkg, result } of scans) {
+    for (const key of keys) {
+      merged[key].push(...(result.sdkAnalysis?.[key] || []).map((d: SDKDetection) => ({ ...d, file: prefix(pkg, d.file) })));
+    }
+  }
+  return merged;
+}
+
+function mergeAIAnalysis(scans: Array<{ pkg: WorkspacePackage; result: ScanResult }>): AIAnalysisSummary | undefined {
+  const summaries = scans.filter(({ result }) => result.aiAnalysis);
+  if (summaries.length === 0) return undefined;
+
+  const total = (key: 'totalSuspicious' | 'analyzed' | 'compliant' | 'violations' | 'noPolicyMatch') =>
+    summaries.reduce((sum, { result }) => sum + result.aiAnalysis![key], 0);
+
+  return {
+    totalSuspicious: total('totalSuspicious'),
+    analyzed: total('analyzed'),
+    compliant: total('compliant'),
+    violations: total('violations'),
+    noPolicyMatch: total('noPolicyMatch'),
+    sections: summaries.flatMap(({ pkg, result }) =>
+      result.aiAnalysis!.sections.map(s => ({ ...s, file: prefix(pkg, s.file) }))
+    ),
+  };
+}
+
+/**
+ * Packages of a monorepo are usually one app: a permission requested by the
+ * web package and used by the API package is in use, so the inventory is
+ * recomputed from every package's requests and uses
+ */
+function mergePermissions(scans: Array<{ pkg: WorkspacePackage; result: ScanResult }>): PermissionInventory | undefined {
+  const requests: PermissionRequest[] = [];
+  const uses: PermissionUse[] = [];
+
+  for (const { pkg, result } of scans) {
+    for (const usage of (result.permissions?.platforms || []).flatMap(p => p.permissions)) {
+      requests.push(...usage.requestedAt.map(r => ({ ...r, file: prefix(pkg, r.file), permission: usage.permission })));
+      uses.push(...usage.usedBy.map(u => ({ ...u, file: prefix(pkg, u.file) })));
+    }
+  }
+  return summarizePermissions(requests, uses);
+}
+
+function tag<T extends Violation>(v: T, pkg: WorkspacePackage): T {
+  return { ...v, file: prefix(pkg, v.file), package: pkg.name };
+}
+
+function prefix(pkg: WorkspacePackage, file: string): string {
+  const path = file.replace(/\\/g, '/');
+  return pkg.path === '.' ? path : `${pkg.path}/${path}`;
+}
+
+function relativeTo(path: string, dir: string): string {
+  return dir === '.' ? path : path.slice(dir.length + 1);
+}
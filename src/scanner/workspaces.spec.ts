@@ -0,0 +1,113 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { detectWorkspacePackages, ownerOf, readProjectName, selectPackages } from './workspaces';
+import { scanResult, violation } from '../test-utils/fixtures';
+import { WorkspacePackage } from '../types';
+
+describe('detectWorkspacePackages', () => {
+  let dir: string;
+
+  const write = (files: Record<string, string>) => {
+    for (const [path, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(dir, path)), { recursive: true });
+      writeFileSync(join(dir, path), content);
+    }
+  };
+
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'meta-scan-workspaces-')); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('finds npm workspaces and nested Python and Go modules', async () => {
+    write({
+      'package.json': JSON.stringify({ name: 'root', workspaces: ['apps/*', '!apps/legacy', 42] }),
+      'apps/web/package.json': JSON.stringify({ name: '@acme/web' }),
+      'apps/legacy/package.json': JSON.stringify({ name: '@acme/legacy' }),
+      'apps/admin/package.json': '{ not json',
+      'services/bot/pyproject.toml': '[tool.poetry]\nname = "wa-bot"\n',
+      'services/sync/go.mod': 'module github.com/acme/sync\n\ngo 1.22\n',
+      'node_modules/dep/package.json': JSON.stringify({ name: 'dep' }),
+    });
+
+    expect(await detectWorkspacePackages(dir)).toEqual([
+      { name: 'admin', path: 'apps/admin', kind: 'npm' },
+      { name: '@acme/web', path: 'apps/web', kind: 'npm' },
+      { name: 'wa-bot', path: 'services/bot', kind: 'python' },
+      { name: 'github.com/acme/sync', path: 'services/sync', kind: 'go' },
+    ]);
+    expect(readProjectName(dir)).toBe('root');
+  });
+
+  it('reads yarn classic and pnpm workspace globs', async () => {
+    write({
+      'package.json': JSON.stringify({ workspaces: { packages: ['packages/*'], nohoist: ['**/react-native'] } }),
+      'yarn.lock': '',
+      'packages/a/package.json': JSON.stringify({ name: 'a' }),
+    });
+    expect(await detectWorkspacePackages(dir)).toEqual([{ name: 'a', path: 'packages/a', kind: 'yarn' }]);
+
+    write({
+      'pnpm-workspace.yaml': "packages:\n  - 'tools/*'\n",
+      'tools/cli/package.json': JSON.stringify({ name: 'cli' }),
+      'turbo.json': '{}',
+    });
+    expect(await detectWorkspacePackages(dir)).toEqual([{ name: 'cli', path: 'tools/cli', kind: 'turbo' }]);
+  });
+
+  it('keys packages with duplicate names by path', async () => {
+    write({
+      'nx.json': '{}',
+      'apps/api/project.json': JSON.stringify({ name: 'api' }),
+      'libs/api/project.json': JSON.stringify({ name: 'api' }),
+    });
+
+    expect((await detectWorkspacePackages(dir)).map(pkg => pkg.name)).toEqual(['apps/api', 'libs/api']);
+  });
+
+  it('ignores a malformed workspaces field', async () => {
+    write({
+      'package.json': JSON.stringify({ name: 'root', workspaces: 'apps/*' }),
+      'apps/web/package.json': JSON.stringify({ name: 'web' }),
+    });
+
+    expect(await detectWorkspacePackages(dir)).toEqual([]);
+    expect(readProjectName(dir)).toBe('root');
+  });
+});
+
+describe('selectPackages', () => {
+  const packages: WorkspacePackage[] = [
+    { name: '.', path: '.', kind: 'root' },
+    { name: 'web', path: 'apps/web', kind: 'npm' },
+    { name: 'bot', path: 'apps/bot', kind: 'npm' },
+  ];
+  const result = scanResult([
+    violation({ file: 'apps/web/src/api.ts', package: 'web' }),
+    violation({ file: 'apps/bot/index.js', package: 'bot', severity: 'warning' }),
+    violation({ file: 'scripts/seed.js', package: '.' }),
+  ], {
+    suppressed: [{ ...violation({ file: 'apps/web/test/api.ts' }), suppression: { kind: 'next-line', line: 2 } }],
+    packages: packages.map(pkg => ({ ...pkg, filesScanned: 1, violations: [], summary: { errors: 0, warnings: 0, info: 0 } })),
+  });
+
+  it('keeps the findings of packages selected by name or path', () => {
+    const selected = selectPackages(result, ['web', './apps/bot/']);
+
+    expect(selected.violations.map(v => v.file)).toEqual(['apps/web/src/api.ts', 'apps/bot/index.js']);
+    expect(selected.suppressed!.map(v => v.file)).toEqual(['apps/web/test/api.ts']);
+    expect(selected.packages!.map(pkg => [pkg.name, pkg.summary])).toEqual([
+      ['web', { errors: 1, warnings: 0, info: 0 }],
+      ['bot', { errors: 0, warnings: 1, info: 0 }],
+    ]);
+    expect(selected.summary).toEqual({ errors: 1, warnings: 1, info: 0 });
+  });
+
+  it('rejects unknown packages', () => {
+    expect(() => selectPackages(result, ['api'])).toThrow('Unknown package "api". Packages: ., web, bot');
+  });
+
+  it('attributes files to the innermost package', () => {
+    expect(ownerOf('apps/web/src/api.ts', packages)?.name).toBe('web');
+    expect(ownerOf('apps/webhooks/index.ts', packages)?.name).toBe('.');
+  });
+});
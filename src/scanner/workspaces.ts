@@ -0,0 +1,237 @@
+/**
+ * Workspaces
+ *
+ * Detects the packages of a monorepo: npm/yarn/pnpm workspaces,
+ * Turborepo and Nx projects, and nested Python and Go modules. Each
+ * package is scanned on its own so findings can be reported per owner.
+ */
+
+import { glob } from 'glob';
+import { existsSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import { z } from 'zod';
+import { ScanResult, Violation, WorkspaceKind, WorkspacePackage } from '../types';
+
+/** Workspace globs; entries that aren't strings are ignored */
+const GlobsSchema = z.array(z.unknown()).transform(globs => globs.filter((g): g is string => typeof g === 'string'));
+
+/**
+ * Fields read from package.json and Nx project.json. A malformed field is
+ * dropped rather than failing the whole file
+ */
+const ManifestSchema = z.object({
+  name: z.string().optional().catch(undefined),
+  // Yarn classic also accepts { packages, nohoist }
+  workspaces: z.union([GlobsSchema, z.object({ packages: GlobsSchema })]).optional().catch(undefined),
+});
+
+type Manifest = z.infer<typeof ManifestSchema>;
+
+const DETECTION_IGNORE = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**', '**/vendor/**', '**/venv/**', '**/.venv/**'];
+
+/**
+ * Find the packages below `rootDir`. The root itself is not included.
+ * When two detectors find the same directory the first one wins
+ * (workspaces, then Nx, then Python and Go modules).
+ */
+export async function detectWorkspacePackages(rootDir: string, ignorePatterns: string[] = []): Promise<WorkspacePackage[]> {
+  const ignore = [...DETECTION_IGNORE, ...ignorePatterns];
+  const found = new Map<string, WorkspacePackage>();
+  const add = (dir: string, name: string | undefined, kind: WorkspaceKind) => {
+    const path = dir.replace(/\\/g, '/').replace(/\/$/, '');
+    if (!path || path === '.' || found.has(path)) return;
+    found.set(path, { name: name || basename(path), path, kind });
+  };
+
+  // npm / yarn / pnpm workspaces (Turborepo builds on these)
+  const workspaces = readWorkspaceGlobs(rootDir);
+  if (workspaces.patterns.length > 0) {
+    const kind: WorkspaceKind = existsSync(join(rootDir, 'turbo.json')) ? 'turbo' : workspaces.kind;
+    const manifests = await glob(workspaces.patterns.map(p => `${p.replace(/\/$/, '')}/package.json`), {
+      cwd: rootDir,
+      ignore: [...ignore, ...workspaces.exclude.map(p => `${p.replace(/\/$/, '')}/**`)],
+      nodir: true,
+    });
+    for (const manifest of manifests.sort()) {
+      add(parentDir(manifest), readManifest(join(rootDir, manifest))?.name, kind);
+    }
+  }
+
+  // Nx projects
+  if (existsSync(join(rootDir, 'nx.json'))) {
+    for (const project of (await glob('**/project.json', { cwd: rootDir, ignore, nodir: true })).sort()) {
+      add(parentDir(project), readManifest(join(rootDir, project))?.name, 'nx');
+    }
+  }
+
+  // Nested Python and Go modules
+  for (const manifest of (await glob('**/{pyproject.toml,setup.py}', { cwd: rootDir, ignore, nodir: true })).sort()) {
+    add(parentDir(manifest), readPythonProjectName(join(rootDir, manifest)), 'python');
+  }
+  for (const manifest of (await glob('**/go.mod', { cwd: rootDir, ignore, nodir: true })).sort()) {
+    add(parentDir(manifest), readGoModuleName(join(rootDir, manifest)), 'go');
+  }
+
+  // Package names key the results, so they have to be unique
+  const packages = [...found.values()];
+  const names = new Map<string, number>();
+  for (const pkg of packages) names.set(pkg.name, (names.get(pkg.name) || 0) + 1);
+  return packages.map(pkg => (names.get(pkg.name)! > 1 ? { ...pkg, name: pkg.path } : pkg));
+}
+
+/**
+ * Name of the project at `dir` (package.json, pyproject.toml or go.mod)
+ */
+export function readProjectName(dir: string): string | undefined {
+  return readManifest(join(dir, 'package.json'))?.name ||
+    readPythonProjectName(join(dir, 'pyproject.toml')) ||
+    readGoModuleName(join(dir, 'go.mod'));
+}
+
+/**
+ * Rebuild `packages` from the violations' `package` tags, e.g. after a
+ * baseline or package filter removed findings
+ */
+export function groupPackages(result: ScanResult): ScanResult {
+  if (!result.packages) return result;
+
+  return {
+    ...result,
+    packages: result.packages.map(pkg => {
+      const violations = result.violations.filter(v => v.package === pkg.name);
+      return { ...pkg, violations, summary: summarize(violations) };
+    }),
+  };
+}
+
+/**
+ * Keep only the findings of the given packages (by name or path)
+ */
+export function selectPackages(result: ScanResult, selectors: string[]): ScanResult {
+  const packages = result.packages || [];
+  const selected = new Set<string>();
+
+  for (const selector of selectors) {
+    const normalized = selector.replace(/\\/g, '/').replace(/^\.\/(?=.)/, '').replace(/\/$/, '');
+    const match = packages.find(pkg => pkg.name === selector || pkg.path === normalized);
+    if (!match) {
+      const available = packages.map(pkg => pkg.name).join(', ') || 'none (not a monorepo)';
+      throw new Error(`Unknown package "${selector}". Packages: ${available}`);
+    }
+    selected.add(match.name);
+  }
+
+  const violations = result.violations.filter(v => v.package !== undefined && selected.has(v.package));
+  const inSelected = (v: { file: string }) => packages.some(pkg =>
+    selected.has(pkg.name) && ownerOf(v.file, packages) === pkg
+  );
+
+  return groupPackages({
+    ...result,
+    violations,
+    suppressed: result.suppressed?.filter(inSelected),
+    unusedSuppressions: result.unusedSuppressions?.filter(inSelected),
+    packages: packages.filter(pkg => selected.has(pkg.name)),
+    summary: summarize(violations),
+  });
+}
+
+/**
+ * The innermost package containing a file
+ */
+export function ownerOf<T extends WorkspacePackage>(file: string, packages: T[]): T | undefined {
+  let owner: T | undefined;
+  for (const pkg of packages) {
+    if (!isWithin(file, pkg.path)) continue;
+    if (!owner || pkg.path.length > owner.path.length || owner.path === '.') owner = pkg;
+  }
+  return owner;
+}
+
+export function isWithin(path: string, dir: string): boolean {
+  return dir === '.' || path === dir || path.startsWith(`${dir}/`);
+}
+
+export function summarize(violations: Violation[]): ScanResult['summary'] {
+  return {
+    errors: violations.filter(v => v.severity === 'error').length,
+    warnings: violations.filter(v => v.severity === 'warning').length,
+    info: violations.filter(v => v.severity === 'info').length,
+  };
+}
+
+function readWorkspaceGlobs(rootDir: string): { kind: WorkspaceKind; patterns: string[]; exclude: string[] } {
+  let kind: WorkspaceKind = existsSync(join(rootDir, 'yarn.lock')) ? 'yarn' : 'npm';
+  let globs: string[] = [];
+
+  const workspaces = readManifest(join(rootDir, 'package.json'))?.workspaces;
+  if (workspaces) {
+    globs = Array.isArray(workspaces) ? workspaces : workspaces.packages;
+  }
+
+  const pnpmWorkspace = join(rootDir, 'pnpm-workspace.yaml');
+  if (existsSync(pnpmWorkspace)) {
+    kind = 'pnpm';
+    globs = readPnpmWorkspaceGlobs(readFileSync(pnpmWorkspace, 'utf-8'));
+  }
+
+  const patterns = globs.filter(g => !g.startsWith('!'));
+  const exclude = globs.filter(g => g.startsWith('!')).map(g => g.slice(1));
+  return { kind, patterns, exclude };
+}
+
+function readPnpmWorkspaceGlobs(content: string): string[] {
+  const globs: string[] = [];
+  let inPackages = false;
+
+  for (const line of content.split('\n')) {
+    if (/^packages:\s*$/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (inPackages && /^\S/.test(line)) break;
+
+    const item = inPackages ? line.match(/^\s*-\s*(['"]?)(.+?)\1\s*$/) : null;
+    if (item) globs.push(item[2]);
+  }
+
+  return globs;
+}
+
+function readPythonProjectName(filePath: string): string | undefined {
+  if (!existsSync(filePath) || !filePath.endsWith('.toml')) return undefined;
+
+  // name = "..." in [project] or [tool.poetry]
+  let section = '';
+  for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+    const header = line.match(/^\s*\[([^\]]+)\]\s*$/);
+    if (header) {
+      section = header[1].trim();
+      continue;
+    }
+    const name = line.match(/^\s*name\s*=\s*["']([^"']+)["']/);
+    if (name && (section === 'project' || section === 'tool.poetry')) return name[1];
+  }
+  return undefined;
+}
+
+function readGoModuleName(filePath: string): string | undefined {
+  if (!existsSync(filePath)) return undefined;
+  return readFileSync(filePath, 'utf-8').match(/^module\s+(\S+)/m)?.[1];
+}
+
+function readManifest(filePath: string): Manifest | undefined {
+  try {
+    const parsed = ManifestSchema.safeParse(JSON.parse(readFileSync(filePath, 'utf-8')));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    // Missing or invalid JSON
+    return undefined;
+  }
+}
+
+function parentDir(filePath: string): string {
+  const path = filePath.replace(/\\/g, '/');
+  const index = path.lastIndexOf('/');
+  return index >= 0 ? path.slice(0, index) : '.';
+}
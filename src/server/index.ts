@@ -5,7 +5,8 @@
  * Users only need to provide GitHub PAT for private repos.
  *
  * Endpoints:
- * - POST /api/scan - Scan a GitHub repository
+ * - POST /api/scan - Scan a GitHub repository (`"stream": true` streams
+ *   progress and findings as newline-delimited JSON)
  * - GET  /api/status - Check server capabilities (AI, docs indexed)
  * - GET  /api/docs - List indexed policy documents
  * - DELETE /api/docs/:id - Delete a policy document
@@ -18,6 +19,7 @@ import { parse } from 'url';
 import { scanGitHubRepo } from '../scanner/github-scanner';
 import { scanGitHubRepoViaApi } from '../scanner/github-api-scanner';
 import { createClient } from '@supabase/supabase-js';
+import { ScanEvent } from '../types';
 
 const PORT = process.env.PORT || 3001;
 
@@ -49,8 +51,13 @@ interface ScanRequest {
   branch?: string;
   githubToken?: string; // User's PAT for private repos
   enableAI?: boolean;
+  /** Stream progress and findings as newline-delimited JSON events */
+  stream?: boolean;
 }
 
+/** Streamed scan events: API scans report progress, clone scans each file's findings */
+type ServerScanEvent = Exclude<ScanEvent, { type: 'done' }> | { type: 'progress'; message: string };
+
 interface IngestRequest {
   url: string;
   platform?: string;
@@ -141,7 +148,7 @@ async function checkRepoAccess(owner: string, repo: string, token?: string): Pro
  * 2. If 404/inaccessible and no user token provided, ask user to connect GitHub
  * 3. If user token provided, use that for private repos
  */
-async function handleScan(body: ScanRequest): Promise<object> {
+async function handleScan(body: ScanRequest, onEvent?: (event: ServerScanEvent) => void): Promise<object> {
   const { url, branch, githubToken, enableAI } = body;
 
   if (!url) {
@@ -215,13 +222,20 @@ async function handleScan(body: ScanRequest): Promise<object> {
       branch,
       token,
       enableAI: enableAI && !!(SERVER_CONFIG.supabaseUrl && SERVER_CONFIG.voyageKey),
-      onProgress: (msg) => console.log(msg),
+      onProgress: (msg) => {
+        console.log(msg);
+        onEvent?.({ type: 'progress', message: msg });
+      },
     });
   } else {
     console.log(`Scanning ${owner}/${repo} via git clone...`);
     result = await scanGitHubRepo(url, {
       branch,
       depth: 1,
+      // The final result is sent as the response
+      onEvent: onEvent && (event => {
+        if (event.type !== 'done') onEvent(event);
+      }),
     });
   }
 
@@ -378,7 +392,33 @@ const requestHandler = async (req: import('http').IncomingMessage, res: import('
     if (pathname === '/api/scan' && req.method === 'POST') {
       const body = await readBody();
       const data = JSON.parse(body) as ScanRequest;
-      const result = await handleScan(data) as { status?: string; code?: string };
+
+      // Streamed scans answer 200 on the first event; auth and access
+      // errors come before any event and keep their status codes
+      let streaming = false;
+      const stream = (event: object) => {
+        if (!streaming) {
+          res.writeHead(200, { ...corsHeaders, 'Content-Type': 'application/x-ndjson' });
+          streaming = true;
+        }
+        res.write(`${JSON.stringify(event)}\n`);
+      };
+
+      let result: { status?: string; code?: string };
+      try {
+        result = await handleScan(data, data.stream ? stream : undefined) as { status?: string; code?: string };
+      } catch (err) {
+        if (!streaming) throw err;
+        stream({ type: 'error', error: err instanceof Error ? err.message : 'Unknown error' });
+        res.end();
+        return;
+      }
+
+      if (streaming) {
+        stream({ type: 'result', ...result });
+        res.end();
+        return;
+      }
 
       // Return 401 for auth_required so clients know to prompt for token
       if (result.status === 'auth_required') {
@@ -0,0 +1,25 @@
+/**
+ * Analyzer Test Helpers
+ *
+ * Run a project analyzer with its bundled rules over in-memory files.
+ */
+
+import { ProjectAnalyzer } from '../analyzers';
+import { createCodebaseIndex } from '../scanner/codebase-indexer';
+import { getBuiltinRules } from '../scanner/local-scanner';
+import { Violation } from '../types';
+
+export async function analyze(analyzer: ProjectAnalyzer, files: Record<string, string>): Promise<Violation[]> {
+  const index = await createCodebaseIndex(Object.entries(files).map(([path, content]) => ({ path, content })));
+  const rules = new Map(getBuiltinRules()
+    .filter(rule => rule.detection.analyzer === analyzer.name)
+    .map(rule => [rule.rule_code, rule]));
+  return analyzer.analyze({ index, rules });
+}
+
+/**
+ * `RULE_CODE:file:line` of each finding, for compact assertions
+ */
+export function findings(violations: Violation[]): string[] {
+  return violations.map(v => `${v.ruleCode}:${v.file}:${v.line}`);
+}
@@ -0,0 +1,38 @@
+/**
+ * Test Fixtures
+ *
+ * Findings and scan results for specs. Each factory returns a valid
+ * object; specs override the fields they are about.
+ */
+
+import { ScanResult, Violation } from '../types';
+
+export function violation(overrides: Partial<Violation> = {}): Violation {
+  return {
+    ruleCode: 'TOKEN_EXPOSED',
+    ruleName: 'Access Token in Source Code',
+    severity: 'error',
+    platform: 'all',
+    file: 'src/api.ts',
+    line: 3,
+    column: 14,
+    message: 'Access token found in source code',
+    codeSnippet: "const token = 'EAAA';",
+    ...overrides,
+  };
+}
+
+export function scanResult(violations: Violation[] = [violation()], overrides: Partial<ScanResult> = {}): ScanResult {
+  return {
+    source: { type: 'local', path: '/repo' },
+    filesScanned: 2,
+    scanDuration: 5,
+    violations,
+    summary: {
+      errors: violations.filter(v => v.severity === 'error').length,
+      warnings: violations.filter(v => v.severity === 'warning').length,
+      info: violations.filter(v => v.severity === 'info').length,
+    },
+    ...overrides,
+  };
+}
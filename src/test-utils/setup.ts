@@ -0,0 +1,16 @@
+/**
+ * Jest setup
+ *
+ * Native modules are loaded once per process, but jest evaluates
+ * tree-sitter's JavaScript again for every spec file. That JavaScript wraps
+ * methods of the shared native classes and caches syntax node classes on
+ * the shared grammars, so loading it twice in one worker breaks parsing.
+ * Keep the first copy on a grammar (which is shared as well) and hand it to
+ * every later spec file.
+ */
+
+const SHARED = Symbol.for('meta-scan.tree-sitter');
+
+const grammar = require('tree-sitter-javascript') as { [SHARED]?: unknown };
+grammar[SHARED] ??= require('tree-sitter');
+jest.doMock('tree-sitter', () => grammar[SHARED]);
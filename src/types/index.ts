@@ -4,7 +4,27 @@ export type Platform = 'facebook' | 'instagram' | 'messenger' | 'whatsapp' | 'ad
 export type Severity = 'error' | 'warning' | 'info';
 export type SDKType = 'official-sdk' | 'wrapper' | 'direct-api' | 'unofficial' | 'deprecated';
 export type RiskLevel = 'safe' | 'caution' | 'violation';
-export type DetectionType = 'ast-pattern' | 'regex' | 'semantic' | 'sdk-check';
+export type DetectionType = 'ast-pattern' | 'regex' | 'semantic' | 'sdk-check' | 'analyzer';
+export type CodeContext = 'code' | 'string' | 'comment';
+export type TestFindingMode = 'keep' | 'downgrade' | 'ignore';
+
+export type ApiVersionKind = 'graph' | 'marketing';
+export type ApiVersionStatus = 'current' | 'expiring' | 'expired' | 'unknown';
+
+export interface ApiVersionInfo {
+  version: string;
+  api: ApiVersionKind;
+  status: ApiVersionStatus;
+  endOfLife?: string;
+  daysRemaining?: number;
+  estimated?: boolean;    // End-of-life date not announced yet
+  latest?: string;        // Newest version released as of the check date
+}
+
+export interface ApiVersionSettings {
+  asOf?: Date;                  // Evaluate version lifecycles on this date (default: today)
+  expiringWithinDays?: number;  // Warn when end-of-life is this close
+}
 
 export interface SDKDetection {
   type: SDKType;
@@ -17,6 +37,7 @@ export interface SDKDetection {
   confidence: 'high' | 'medium' | 'low';
   riskLevel: RiskLevel;
   recommendation?: string;
+  apiVersion?: ApiVersionInfo;
 }
 
 export interface Detection {
@@ -25,6 +46,38 @@ export interface Detection {
   astQuery?: string;
   semanticHint?: string;
   fileTypes?: string[];
+  multiline?: boolean;      // Match `pattern` against the whole file; `.` also matches newlines
+  mustContain?: string;     // Files matching this regex are compliant; others report `pattern` matches (or line 1)
+  mustNotContain?: string;  // Report this regex's matches (in files matching `pattern`, when set)
+  contexts?: CodeContext[]; // Where matches count (default: anywhere); other file types are not filtered
+  analyzer?: string;        // Project analyzer that reports this rule (`analyzer` detections)
+}
+
+/**
+ * Machine-applicable fix declared by a rule. `find` is matched against the
+ * violating line; `replace` supports $1-style groups and {{graphApiVersion}}.
+ */
+export interface AutofixSpec {
+  description: string;
+  find: string;
+  replace: string;
+  fileTypes?: string[];   // Extensions this fix applies to (default: all)
+}
+
+export interface TextEdit {
+  line: number;       // 1-based
+  column: number;     // 0-based
+  endColumn: number;  // 0-based, exclusive
+  text: string;
+}
+
+export interface ViolationFix {
+  description: string;
+  edits: TextEdit[];
+}
+
+export interface FixSettings {
+  graphApiVersion?: string;   // Version deprecated Graph API URLs are upgraded to
 }
 
 export interface ViolationRule {
@@ -38,6 +91,7 @@ export interface ViolationRule {
   detection: Detection;
   recommendation?: string;
   fix_example?: string;
+  autofix?: AutofixSpec[];
   doc_urls?: string[];
   tags?: string[];
   enabled: boolean;
@@ -46,6 +100,16 @@ export interface ViolationRule {
   updated_at?: string;
 }
 
+/**
+ * One step of a data-flow finding, from the source to the sink
+ */
+export interface DataFlowStep {
+  file: string;
+  line: number;
+  column: number;
+  note: string;   // What happens to the value here, e.g. "assigned to profile"
+}
+
 export interface Violation {
   ruleCode: string;
   ruleName: string;
@@ -54,11 +118,57 @@ export interface Violation {
   file: string;
   line: number;
   column: number;
+  endLine?: number;
+  endColumn?: number;
   message: string;
   codeSnippet: string;
   recommendation?: string;
   fixExample?: string;
+  fix?: ViolationFix;
   docUrls?: string[];
+  fingerprint?: string;
+  /** Packages from a direct dependency down to the flagged package */
+  dependencyPath?: string[];
+  /** Path of the flagged value from where it was read to where it ends up */
+  dataFlow?: DataFlowStep[];
+  /** Workspace package the finding belongs to (monorepo scans) */
+  package?: string;
+}
+
+export type SuppressionKind = 'next-line' | 'line' | 'block' | 'file';
+
+export interface SuppressedViolation extends Violation {
+  suppression: {
+    kind: SuppressionKind;
+    line: number;
+    justification?: string;
+  };
+}
+
+export interface UnusedSuppression {
+  file: string;
+  line: number;
+  kind: SuppressionKind;
+  rules: string[];
+  justification?: string;
+}
+
+export interface BaselineEntry {
+  fingerprint: string;
+  ruleCode: string;
+  severity: Severity;
+  platform?: Platform;
+  package?: string;
+  file: string;
+  line: number;
+  codeSnippet: string;
+}
+
+export interface BaselineComparison {
+  path?: string;
+  newCount: number;
+  unchangedCount: number;
+  fixed: BaselineEntry[];
 }
 
 export interface ScanSource {
@@ -72,12 +182,99 @@ export interface ScanSource {
   commitDate?: string;
 }
 
+export interface DiffScope {
+  since?: string;   // Base ref; compared via merge-base with the working tree
+  range?: string;   // Explicit `base..head` / `base...head` range
+}
+
+export interface RuleSettings {
+  disabled?: string[];                    // Rule codes to skip entirely
+  overrides?: Record<string, Severity>;   // Per-rule severity overrides
+  custom?: ViolationRule[];               // Extra rules from custom rule files
+}
+
+/**
+ * Findings in test and fixture files
+ */
+export interface TestFileSettings {
+  findings?: TestFindingMode;   // downgrade: one severity level lower (default: keep)
+  patterns?: string[];          // Globs for test files (replace the defaults)
+}
+
+export interface AISettings {
+  minConfidence?: number;
+  maxAnalysisPerFile?: number;
+}
+
 export interface ScanOptions {
   platform?: Platform;
+  platforms?: Platform[];   // Several platforms at once (takes precedence over platform)
   severity?: Severity;
   ignorePatterns?: string[];
   includeSdkAnalysis?: boolean;
   source?: ScanSource;
+  diff?: DiffScope;
+  enableAI?: boolean;
+  ai?: AISettings;
+  rules?: RuleSettings;
+  fix?: FixSettings;
+  apiVersions?: ApiVersionSettings;
+  testFiles?: TestFileSettings;
+  /** Worker threads for file scanning (1 scans in-process; default: automatic) */
+  concurrency?: number;
+  /** Reuse results of unchanged files from earlier scans (default: true) */
+  cache?: boolean;
+  cacheDir?: string;       // Default: .meta-scan-cache in the working directory
+  onProgress?: (msg: string) => void;
+  /** Streamed scan progress and per-file findings */
+  onEvent?: (event: ScanEvent) => void;
+}
+
+/**
+ * Events emitted while a directory is scanned. `file` events arrive in
+ * completion order, which differs from file order when workers are used.
+ */
+export type ScanEvent =
+  | { type: 'start'; filesTotal: number; cached: number; workers: number }
+  | { type: 'dependencies'; violations: Violation[] }
+  | { type: 'analysis'; violations: Violation[] }
+  | { type: 'file'; file: string; violations: Violation[]; filesScanned: number; filesTotal: number }
+  | { type: 'done'; result: ScanResult };
+
+export type WorkspaceKind = 'root' | 'npm' | 'yarn' | 'pnpm' | 'nx' | 'turbo' | 'python' | 'go';
+
+export interface WorkspacePackage {
+  name: string;
+  /** Package directory relative to the scan root ('.' for the root) */
+  path: string;
+  kind: WorkspaceKind;
+  /** Package-level config file, when the package has its own */
+  configPath?: string;
+}
+
+export interface PackageScanResult extends WorkspacePackage {
+  filesScanned: number;
+  violations: Violation[];
+  summary: {
+    errors: number;
+    warnings: number;
+    info: number;
+  };
+}
+
+/**
+ * Options for one workspace package, e.g. from its own config file
+ */
+export interface PackageScanConfig {
+  configPath?: string;
+  options: ScanOptions;
+}
+
+export interface WorkspaceScanOptions extends ScanOptions {
+  /** false scans a monorepo as a single project */
+  workspaces?: boolean;
+  /** Options for a package; falls back to the root options */
+  packageOptions?: (pkg: WorkspacePackage) => PackageScanConfig | undefined;
 }
 
 export interface SDKAnalysis {
@@ -107,13 +304,54 @@ export interface AIAnalysisSummary {
   sections: SuspiciousSection[];
 }
 
+export type PermissionStatus = 'used' | 'unused' | 'unrequested';
+
+export interface PermissionReference {
+  file: string;
+  line: number;
+}
+
+/** A Graph API field or edge that needs a permission */
+export interface PermissionUse extends PermissionReference {
+  kind: 'field' | 'edge';
+  name: string;
+}
+
+export interface PermissionUsage {
+  permission: string;
+  status: PermissionStatus;
+  requestedAt: PermissionReference[];
+  usedBy: PermissionUse[];
+  /** Other permissions that would also grant the unrequested fields and edges */
+  alternatives?: string[];
+}
+
+/** Requested Login permissions compared with the fields and edges the code uses */
+export interface PermissionInventory {
+  platforms: Array<{ platform: Platform; permissions: PermissionUsage[] }>;
+  requestedButUnused: string[];
+  usedButUnrequested: string[];
+}
+
 export interface ScanResult {
   source: ScanSource;
   filesScanned: number;
   scanDuration: number;
   violations: Violation[];
+  suppressed?: SuppressedViolation[];
+  unusedSuppressions?: UnusedSuppression[];
+  baseline?: BaselineComparison;
+  diff?: {
+    base: string;
+    changedFiles: number;
+    /** Scanned files, relative to the scanned directory (findings elsewhere are out of scope) */
+    files: string[];
+  };
   sdkAnalysis?: SDKAnalysis;
   aiAnalysis?: AIAnalysisSummary;
+  permissions?: PermissionInventory;
+  /** Per-package results of a monorepo scan */
+  packages?: PackageScanResult[];
   summary: {
     errors: number;
     warnings: number;